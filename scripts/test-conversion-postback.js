@@ -0,0 +1,121 @@
+#!/usr/bin/env node
+
+/**
+ * Conversion postback test harness
+ * Sends a click through record_product_click, then exercises the
+ * conversion-postback Edge Function with valid, repeated and bad requests.
+ * Run it against a local stack (supabase start && supabase functions serve)
+ * or a staging project; it records a real click and order.
+ * Usage: node scripts/test-conversion-postback.js --key <postback key> --product <active product id>
+ *        [--functions-url http://127.0.0.1:54321/functions/v1]
+ */
+
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { createClient } from '@supabase/supabase-js';
+import { config } from 'dotenv';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Load environment variables
+config({ path: path.join(__dirname, '../.env') });
+
+const supabaseUrl = process.env.VITE_SUPABASE_URL;
+const supabaseKey = process.env.VITE_SUPABASE_ANON_KEY;
+
+if (!supabaseUrl || !supabaseKey) {
+  console.error('❌ Missing Supabase environment variables');
+  console.error('Please check your .env file and ensure VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY are set.');
+  process.exit(1);
+}
+
+const argValue = (name) => {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+};
+
+const postbackKey = argValue('key');
+const productId = argValue('product');
+const functionsUrl = argValue('functions-url') || `${supabaseUrl}/functions/v1`;
+
+if (!postbackKey || !productId) {
+  console.error('Usage: node scripts/test-conversion-postback.js --key <postback key> --product <active product id>');
+  process.exit(1);
+}
+
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+const postback = (body, key = postbackKey) =>
+  fetch(`${functionsUrl}/conversion-postback`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(key ? { 'X-Stylsia-Postback-Key': key } : {}),
+    },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  });
+
+const runHarness = async () => {
+  try {
+    console.log('🖱️  Recording a click...');
+
+    const { data: storeUrl, error } = await supabase.rpc('record_product_click', {
+      product_uuid: productId,
+      session_uuid: `harness_${Date.now()}`,
+      referrer_url: 'conversion-postback-harness',
+    });
+
+    if (error) throw error;
+    if (!storeUrl) {
+      console.error('❌ The product is not active, so no click was recorded');
+      process.exit(1);
+    }
+
+    const clickId = new URL(storeUrl).searchParams.get('stylsia_click_id');
+    console.log(`   🔗 ${storeUrl}`);
+
+    const order = {
+      click_id: clickId,
+      order_id: `harness-${Date.now()}`,
+      amount: 1499,
+      currency: 'INR',
+    };
+
+    const cases = [
+      { name: 'Missing key', send: () => postback(order, null), expect: 401 },
+      { name: 'Wrong key', send: () => postback(order, 'spk_invalid'), expect: 401 },
+      { name: 'Malformed JSON', send: () => postback('{"click_id":'), expect: 400 },
+      { name: 'Missing amount', send: () => postback({ ...order, amount: undefined }), expect: 400 },
+      { name: 'Unknown click', send: () => postback({ ...order, click_id: '00000000-0000-0000-0000-000000000000' }), expect: 422 },
+      { name: 'Other currency', send: () => postback({ ...order, currency: 'USD' }), expect: 422 },
+      { name: 'New order', send: () => postback(order), expect: 201, status: 'recorded' },
+      { name: 'Repeated order', send: () => postback(order), expect: 200, status: 'duplicate' },
+    ];
+
+    let failures = 0;
+    for (const testCase of cases) {
+      const response = await testCase.send();
+      const body = await response.json().catch(() => ({}));
+      const passed =
+        response.status === testCase.expect &&
+        (!testCase.status || body.status === testCase.status);
+
+      if (!passed) failures++;
+      console.log(`${passed ? '✅' : '❌'} ${testCase.name}: ${response.status} ${JSON.stringify(body)}`);
+    }
+
+    if (failures > 0) {
+      console.error(`❌ ${failures} of ${cases.length} checks failed`);
+      process.exit(1);
+    }
+
+    console.log(`✅ All ${cases.length} checks passed. Order ${order.order_id} now counts in today's metrics.`);
+  } catch (error) {
+    console.error('❌ Error running the postback harness:', error);
+    process.exit(1);
+  }
+};
+
+// Run the script
+runHarness();
@@ -1,4 +1,4 @@
-import React from "react";
+import React, { useEffect, useState } from "react";
 import {
   BrowserRouter as Router,
   Routes,
@@ -8,7 +8,9 @@ import {
 import { HelmetProvider } from "react-helmet-async";
 import { AuthProvider, useAuth } from "./contexts/AuthContext";
 import { NotificationProvider } from "./contexts/NotificationContext";
+import { WishlistProvider } from "./contexts/WishlistContext";
 import { AdminAuthProvider } from "./contexts/AdminAuthContext";
+import { resolveAdminRole, type AdminRole } from "./lib/adminAuth";
 import {
   MaintenanceProvider,
   useMaintenanceMode,
@@ -20,27 +22,36 @@ import LoginForm from "./components/auth/LoginForm";
 import Layout from "./components/layout/Layout";
 import AdminLayout from "./components/admin/AdminLayout";
 import AdminLoginForm from "./components/admin/AdminLoginForm";
+import RequireAdminPermission from "./components/admin/RequireAdminPermission";
 import HomePage from "./pages/index";
 import PublicProducts from "./pages/PublicProducts";
 import ProductDetail from "./pages/ProductDetail";
+import Wishlist from "./pages/Wishlist";
 
 // Pages
 import Dashboard from "./pages/Dashboard";
 import Products from "./pages/Products";
+import ProductEditor from "./pages/ProductEditor";
 import Analytics from "./pages/Analytics";
+import ProductAnalytics from "./pages/ProductAnalytics";
 import Messages from "./pages/Messages";
 import Profile from "./pages/Profile";
 import Settings from "./pages/Settings";
 import Notifications from "./pages/Notifications";
+import Team from "./pages/Team";
 import Documentation from "./pages/Documentation";
+import AcceptInvitation from "./pages/AcceptInvitation";
+import OutboundRedirect from "./pages/OutboundRedirect";
 
 // Admin Pages
 import AdminDashboard from "./pages/admin/AdminDashboard";
 import BrandManagement from "./pages/admin/BrandManagement";
+import BrandOnboarding from "./pages/admin/BrandOnboarding";
 import ProductManagement from "./pages/admin/ProductManagement";
 import AdminSupport from "./pages/admin/AdminSupport";
 import AdminAnalytics from "./pages/admin/AdminAnalytics";
 import AdminSettings from "./pages/admin/AdminSettings";
+import AdminUsers from "./pages/admin/AdminUsers";
 
 // Maintenance wrapper component
 const MaintenanceWrapper: React.FC<{
@@ -68,12 +79,33 @@ const MaintenanceWrapper: React.FC<{
 
 const AppContent: React.FC = () => {
   const { user, loading, connectionError } = useAuth();
+  // Role lookup for the signed-in user, keyed by user so a stale result is
+  // never used for someone else
+  const [adminRole, setAdminRole] = useState<{
+    userId: string;
+    role: AdminRole | null;
+  } | null>(null);
+
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    let cancelled = false;
+    resolveAdminRole().then((role) => {
+      if (!cancelled) setAdminRole({ userId, role });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
 
   if (connectionError) {
     return <ConnectionError onRetry={() => window.location.reload()} />;
   }
 
-  if (loading) {
+  if (loading || (user && adminRole?.userId !== user.id)) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
         <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
@@ -125,7 +157,17 @@ const AppContent: React.FC = () => {
               </MaintenanceWrapper>
             }
           />
+          <Route
+            path="/wishlist"
+            element={
+              <MaintenanceWrapper isPublicPage={true}>
+                <Wishlist />
+              </MaintenanceWrapper>
+            }
+          />
+          <Route path="/out/:productId" element={<OutboundRedirect />} />
           <Route path="/login" element={<LoginForm />} />
+          <Route path="/invite/:token" element={<AcceptInvitation />} />
           <Route path="/dashboard/*" element={<LoginForm />} />
           <Route
             path="/admin/*"
@@ -137,22 +179,8 @@ const AppContent: React.FC = () => {
     );
   }
 
-  // Check if user has admin role (check both role metadata and admin email whitelist)
-  const adminEmails = [
-    "admin@stylsia.com",
-    "support@stylsia.com",
-    "manager@stylsia.com",
-  ];
-  const isAdminByRole =
-    user?.user_metadata?.role === "admin" ||
-    user?.app_metadata?.role === "admin";
-  const isAdminByEmail = adminEmails.includes(user?.email?.toLowerCase() || "");
-  const isAdmin = isAdminByRole || isAdminByEmail;
-
-  console.log("Is admin by role?", isAdminByRole);
-  console.log("Is admin by email?", isAdminByEmail);
-  console.log("Is admin (final)?", isAdmin);
-  console.log("About to render admin interface:", isAdmin);
+  // Admin roles are stored server-side in admin_users
+  const isAdmin = Boolean(adminRole?.role);
 
   if (isAdmin) {
     console.log("Rendering admin interface");
@@ -162,11 +190,62 @@ const AppContent: React.FC = () => {
           <Route path="/admin" element={<AdminLayout />}>
             <Route index element={<AdminDashboard />} />
             <Route path="dashboard" element={<AdminDashboard />} />
-            <Route path="brands" element={<BrandManagement />} />
-            <Route path="products" element={<ProductManagement />} />
-            <Route path="support" element={<AdminSupport />} />
-            <Route path="analytics" element={<AdminAnalytics />} />
-            <Route path="settings" element={<AdminSettings />} />
+            <Route
+              path="brands"
+              element={
+                <RequireAdminPermission permission="brands">
+                  <BrandManagement />
+                </RequireAdminPermission>
+              }
+            />
+            <Route
+              path="brands/onboard"
+              element={
+                <RequireAdminPermission permission="brands">
+                  <BrandOnboarding />
+                </RequireAdminPermission>
+              }
+            />
+            <Route
+              path="products"
+              element={
+                <RequireAdminPermission permission="catalog">
+                  <ProductManagement />
+                </RequireAdminPermission>
+              }
+            />
+            <Route
+              path="support"
+              element={
+                <RequireAdminPermission permission="support">
+                  <AdminSupport />
+                </RequireAdminPermission>
+              }
+            />
+            <Route
+              path="analytics"
+              element={
+                <RequireAdminPermission permission="analytics">
+                  <AdminAnalytics />
+                </RequireAdminPermission>
+              }
+            />
+            <Route
+              path="settings"
+              element={
+                <RequireAdminPermission permission="settings">
+                  <AdminSettings />
+                </RequireAdminPermission>
+              }
+            />
+            <Route
+              path="users"
+              element={
+                <RequireAdminPermission permission="admins">
+                  <AdminUsers />
+                </RequireAdminPermission>
+              }
+            />
           </Route>
           <Route path="*" element={<Navigate to="/admin" replace />} />
         </Routes>
@@ -219,14 +298,28 @@ const AppContent: React.FC = () => {
           </MaintenanceWrapper>
         }
       />
+      <Route
+        path="/wishlist"
+        element={
+          <MaintenanceWrapper isPublicPage={true}>
+            <Wishlist />
+          </MaintenanceWrapper>
+        }
+      />
+      <Route path="/out/:productId" element={<OutboundRedirect />} />
 
       {/* Partner dashboard routes (authenticated users only) - NOT affected by maintenance mode */}
+      <Route path="/invite/:token" element={<AcceptInvitation />} />
       <Route path="/dashboard" element={<Layout />}>
         <Route index element={<Dashboard />} />
         <Route path="products" element={<Products />} />
+        <Route path="products/new" element={<ProductEditor />} />
+        <Route path="products/:productId/edit" element={<ProductEditor />} />
         <Route path="analytics" element={<Analytics />} />
+        <Route path="analytics/:productId" element={<ProductAnalytics />} />
         <Route path="messages" element={<Messages />} />
         <Route path="profile" element={<Profile />} />
+        <Route path="team" element={<Team />} />
         <Route path="settings" element={<Settings />} />
         <Route path="notifications" element={<Notifications />} />
       </Route>
@@ -244,9 +337,11 @@ function App() {
         <Router>
           <AuthProvider>
             <NotificationProvider>
-              <MaintenanceProvider>
-                <AppContent />
-              </MaintenanceProvider>
+              <WishlistProvider>
+                <MaintenanceProvider>
+                  <AppContent />
+                </MaintenanceProvider>
+              </WishlistProvider>
             </NotificationProvider>
           </AuthProvider>
         </Router>
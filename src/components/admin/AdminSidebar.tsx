@@ -9,16 +9,61 @@ import {
   Shield,
   X,
   LogOut,
+  UserCog,
 } from "lucide-react";
 import { useAdminAuth } from "../../contexts/AdminAuthContext";
+import { ADMIN_ROLE_LABELS, type AdminPermission } from "../../lib/adminAuth";
 
-const navigation = [
-  { name: "Dashboard", href: "/admin", icon: LayoutDashboard, exact: true },
-  { name: "Brand Management", href: "/admin/brands", icon: Users },
-  { name: "Product Management", href: "/admin/products", icon: Package },
-  { name: "Support Requests", href: "/admin/support", icon: Mail },
-  { name: "Analytics", href: "/admin/analytics", icon: BarChart3 },
-  { name: "Settings", href: "/admin/settings", icon: Settings },
+const navigation: {
+  name: string;
+  href: string;
+  icon: typeof LayoutDashboard;
+  permission: AdminPermission;
+  exact?: boolean;
+}[] = [
+  {
+    name: "Dashboard",
+    href: "/admin",
+    icon: LayoutDashboard,
+    permission: "dashboard",
+    exact: true,
+  },
+  {
+    name: "Brand Management",
+    href: "/admin/brands",
+    icon: Users,
+    permission: "brands",
+  },
+  {
+    name: "Product Management",
+    href: "/admin/products",
+    icon: Package,
+    permission: "catalog",
+  },
+  {
+    name: "Support Requests",
+    href: "/admin/support",
+    icon: Mail,
+    permission: "support",
+  },
+  {
+    name: "Analytics",
+    href: "/admin/analytics",
+    icon: BarChart3,
+    permission: "analytics",
+  },
+  {
+    name: "Admin Users",
+    href: "/admin/users",
+    icon: UserCog,
+    permission: "admins",
+  },
+  {
+    name: "Settings",
+    href: "/admin/settings",
+    icon: Settings,
+    permission: "settings",
+  },
 ];
 
 interface AdminSidebarProps {
@@ -69,7 +114,7 @@ export default function AdminSidebar({
 }
 
 function SidebarContent({ onItemClick }: { onItemClick: () => void }) {
-  const { signOut } = useAdminAuth();
+  const { signOut, role, hasPermission } = useAdminAuth();
   const navigate = useNavigate();
 
   const handleLogout = async () => {
@@ -96,28 +141,35 @@ function SidebarContent({ onItemClick }: { onItemClick: () => void }) {
 
       {/* Navigation */}
       <nav className="flex-1 p-4 space-y-1 overflow-y-auto">
-        {navigation.map((item) => (
-          <NavLink
-            key={item.name}
-            to={item.href}
-            end={item.exact}
-            onClick={onItemClick}
-            className={({ isActive }) =>
-              `flex items-center px-3 py-3 rounded-lg text-sm font-medium transition-all duration-200 ${
-                isActive
-                  ? "bg-red-50 text-red-700 border-r-2 border-red-500"
-                  : "text-slate-600 hover:bg-slate-50 hover:text-slate-900"
-              }`
-            }
-          >
-            <item.icon className="h-5 w-5 flex-shrink-0 mr-3" />
-            <span className="truncate">{item.name}</span>
-          </NavLink>
-        ))}
+        {navigation
+          .filter((item) => hasPermission(item.permission))
+          .map((item) => (
+            <NavLink
+              key={item.name}
+              to={item.href}
+              end={item.exact}
+              onClick={onItemClick}
+              className={({ isActive }) =>
+                `flex items-center px-3 py-3 rounded-lg text-sm font-medium transition-all duration-200 ${
+                  isActive
+                    ? "bg-red-50 text-red-700 border-r-2 border-red-500"
+                    : "text-slate-600 hover:bg-slate-50 hover:text-slate-900"
+                }`
+              }
+            >
+              <item.icon className="h-5 w-5 flex-shrink-0 mr-3" />
+              <span className="truncate">{item.name}</span>
+            </NavLink>
+          ))}
       </nav>
 
       {/* Logout Button */}
       <div className="p-4 border-t border-slate-200">
+        {role && (
+          <p className="px-3 pb-3 text-xs font-medium text-slate-500 uppercase tracking-wider">
+            {ADMIN_ROLE_LABELS[role]}
+          </p>
+        )}
         <button
           onClick={handleLogout}
           className="flex items-center w-full px-3 py-3 text-sm font-medium text-slate-600 hover:bg-slate-50 hover:text-slate-900 rounded-lg transition-all duration-200"
@@ -0,0 +1,218 @@
+import { useEffect, useState } from "react";
+import { AlertTriangle, Copy, Mail, RefreshCw, X } from "lucide-react";
+import Button from "../ui/Button";
+import {
+  getInvitationStatus,
+  listOnboardingInvitations,
+  ONBOARDING_INVITATION_STATUS_LABELS,
+  resendOnboardingInvitation,
+  revokeOnboardingInvitation,
+  type OnboardingInvitation,
+  type OnboardingInvitationStatus,
+} from "../../lib/brandInvitations";
+
+const STATUS_COLORS: Record<OnboardingInvitationStatus, string> = {
+  pending: "bg-blue-100 text-blue-800",
+  accepted: "bg-green-100 text-green-800",
+  revoked: "bg-slate-100 text-slate-700",
+  expired: "bg-yellow-100 text-yellow-800",
+};
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+
+const errorMessage = (err: unknown, fallback: string) =>
+  err && typeof err === "object" && "message" in err
+    ? String((err as { message: unknown }).message)
+    : fallback;
+
+export default function BrandInvitationsPanel() {
+  const [invitations, setInvitations] = useState<OnboardingInvitation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  // Only the most recently issued link can be shown; tokens are not stored
+  const [issuedLink, setIssuedLink] = useState<{
+    email: string;
+    url: string;
+  } | null>(null);
+
+  const loadInvitations = () =>
+    listOnboardingInvitations()
+      .then(setInvitations)
+      .catch((err) => {
+        console.error("Error loading brand invitations:", err);
+        setError("Failed to load brand invitations");
+      })
+      .finally(() => setLoading(false));
+
+  useEffect(() => {
+    loadInvitations();
+  }, []);
+
+  const handleResend = async (invitation: OnboardingInvitation) => {
+    setUpdatingId(invitation.id);
+    setError(null);
+    try {
+      const url = await resendOnboardingInvitation(invitation.id);
+      setIssuedLink({ email: invitation.email, url });
+      navigator.clipboard?.writeText(url).catch(() => undefined);
+      await loadInvitations();
+    } catch (err) {
+      console.error("Error resending brand invitation:", err);
+      setError(errorMessage(err, "Failed to resend invitation"));
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleRevoke = async (invitation: OnboardingInvitation) => {
+    if (!confirm(`Revoke the invitation sent to ${invitation.email}?`)) return;
+
+    setUpdatingId(invitation.id);
+    setError(null);
+    try {
+      await revokeOnboardingInvitation(invitation.id);
+      if (issuedLink?.email === invitation.email) setIssuedLink(null);
+      await loadInvitations();
+    } catch (err) {
+      console.error("Error revoking brand invitation:", err);
+      setError(errorMessage(err, "Failed to revoke invitation"));
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-slate-200 overflow-hidden">
+      <div className="p-4 border-b border-slate-200">
+        <h2 className="text-lg font-semibold text-slate-900">
+          Onboarding Invitations
+        </h2>
+        <p className="text-sm text-slate-600">
+          Signup links sent to new brand owners
+        </p>
+      </div>
+
+      {error && (
+        <div className="m-4 bg-red-50 border border-red-200 rounded-lg p-3 flex items-start gap-2">
+          <AlertTriangle className="h-4 w-4 text-red-500 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-red-700 flex-1">{error}</p>
+          <button
+            onClick={() => setError(null)}
+            className="text-red-400 hover:text-red-600"
+            aria-label="Dismiss error"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+
+      {issuedLink && (
+        <div className="m-4 bg-green-50 border border-green-200 rounded-lg p-3">
+          <p className="text-sm text-green-800 mb-2">
+            New link for {issuedLink.email} (copied to clipboard). The previous
+            link no longer works.
+          </p>
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={issuedLink.url}
+              readOnly
+              className="flex-1 px-3 py-2 bg-white border border-green-300 rounded-lg text-sm text-slate-900"
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              icon={Copy}
+              onClick={() => navigator.clipboard.writeText(issuedLink.url)}
+            >
+              Copy
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="py-8 text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+        </div>
+      ) : invitations.length === 0 ? (
+        <div className="py-8 text-center">
+          <Mail className="h-10 w-10 text-slate-400 mx-auto mb-3" />
+          <p className="text-slate-600">No invitations have been sent yet.</p>
+        </div>
+      ) : (
+        <div className="divide-y divide-slate-200">
+          {invitations.map((invitation) => {
+            const status = getInvitationStatus(invitation);
+            const isBusy = updatingId === invitation.id;
+
+            return (
+              <div
+                key={invitation.id}
+                className="p-4 flex flex-col sm:flex-row sm:items-center gap-3"
+              >
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="text-sm font-medium text-slate-900 truncate">
+                      {invitation.brand?.name || "Unknown brand"}
+                    </p>
+                    <span
+                      className={`px-2 py-0.5 text-xs font-medium rounded-full ${STATUS_COLORS[status]}`}
+                    >
+                      {ONBOARDING_INVITATION_STATUS_LABELS[status]}
+                    </span>
+                  </div>
+                  <p className="text-xs text-slate-500 truncate">
+                    {invitation.email}
+                    {invitation.contact_person &&
+                      ` · ${invitation.contact_person}`}
+                  </p>
+                  <p className="text-xs text-slate-500">
+                    {status === "accepted" && invitation.accepted_at
+                      ? `Accepted ${formatDate(invitation.accepted_at)}`
+                      : status === "revoked" && invitation.revoked_at
+                      ? `Revoked ${formatDate(invitation.revoked_at)}`
+                      : `${
+                          status === "expired" ? "Expired" : "Expires"
+                        } ${formatDate(invitation.expires_at)}`}{" "}
+                    · sent {invitation.sent_count}{" "}
+                    {invitation.sent_count === 1 ? "time" : "times"}, last{" "}
+                    {formatDate(invitation.last_sent_at)}
+                  </p>
+                </div>
+                {(status === "pending" || status === "expired") && (
+                  <div className="flex items-center gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      icon={RefreshCw}
+                      disabled={isBusy}
+                      onClick={() => handleResend(invitation)}
+                    >
+                      Resend
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      icon={X}
+                      disabled={isBusy}
+                      onClick={() => handleRevoke(invitation)}
+                    >
+                      Revoke
+                    </Button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
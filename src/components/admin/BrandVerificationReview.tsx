@@ -0,0 +1,184 @@
+import { useEffect, useState } from "react";
+import {
+  AlertTriangle,
+  CheckCircle,
+  ExternalLink,
+  FileText,
+  MessageSquare,
+  XCircle,
+} from "lucide-react";
+import Button from "../ui/Button";
+import {
+  getVerificationDocumentUrl,
+  listVerificationDocuments,
+  reviewBrandVerification,
+  VERIFICATION_DOCUMENTS,
+  VERIFICATION_STATUS_LABELS,
+  type BrandVerificationDocument,
+  type VerificationDecision,
+} from "../../lib/brandVerification";
+import type { DatabaseBrand } from "../../types/database";
+
+interface BrandVerificationReviewProps {
+  brand: DatabaseBrand;
+  onReviewed: () => void;
+}
+
+const errorMessage = (err: unknown, fallback: string) =>
+  err && typeof err === "object" && "message" in err
+    ? String((err as { message: unknown }).message)
+    : fallback;
+
+export default function BrandVerificationReview({
+  brand,
+  onReviewed,
+}: BrandVerificationReviewProps) {
+  const status = brand.verification_status ?? "unverified";
+  const [documents, setDocuments] = useState<BrandVerificationDocument[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [notes, setNotes] = useState("");
+  const [reviewing, setReviewing] = useState<VerificationDecision | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listVerificationDocuments(brand.id)
+      .then(setDocuments)
+      .catch((err) => {
+        console.error("Error loading verification documents:", err);
+        setError("Failed to load verification documents");
+      })
+      .finally(() => setLoading(false));
+  }, [brand.id]);
+
+  const handleView = async (doc: BrandVerificationDocument) => {
+    try {
+      const url = await getVerificationDocumentUrl(doc.storage_path);
+      window.open(url, "_blank", "noopener,noreferrer");
+    } catch (err) {
+      console.error("Error opening verification document:", err);
+      setError("Failed to open the document");
+    }
+  };
+
+  const handleReview = async (decision: VerificationDecision) => {
+    if (decision === "request_changes" && !notes.trim()) {
+      setError("Explain which changes are needed");
+      return;
+    }
+
+    setReviewing(decision);
+    setError(null);
+    try {
+      await reviewBrandVerification(brand.id, decision, notes.trim());
+      onReviewed();
+    } catch (err) {
+      console.error("Error reviewing brand verification:", err);
+      setError(errorMessage(err, "Failed to save the review"));
+    } finally {
+      setReviewing(null);
+    }
+  };
+
+  return (
+    <div className="mt-6 border-t border-slate-200 pt-4">
+      <div className="flex items-center justify-between mb-3">
+        <label className="block text-sm font-medium text-slate-700">
+          Verification
+        </label>
+        <span className="text-xs font-medium text-slate-600">
+          {VERIFICATION_STATUS_LABELS[status]}
+          {status === "submitted" &&
+            brand.verification_submitted_at &&
+            ` · ${new Date(
+              brand.verification_submitted_at
+            ).toLocaleDateString()}`}
+        </span>
+      </div>
+
+      {error && (
+        <div className="mb-3 bg-red-50 border border-red-200 rounded-lg p-3 flex items-start gap-2">
+          <AlertTriangle className="h-4 w-4 text-red-500 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-slate-500">Loading documents...</p>
+      ) : (
+        <ul className="space-y-2">
+          {VERIFICATION_DOCUMENTS.map(({ type, label }) => {
+            const doc = documents.find((d) => d.document_type === type);
+            return (
+              <li
+                key={type}
+                className="flex items-center justify-between text-sm"
+              >
+                <span className="flex items-center gap-2 text-slate-900">
+                  <FileText className="h-4 w-4 text-slate-400" />
+                  {label}
+                </span>
+                {doc ? (
+                  <button
+                    onClick={() => handleView(doc)}
+                    className="inline-flex items-center gap-1 text-blue-600 hover:text-blue-700 text-xs"
+                  >
+                    {doc.file_name}
+                    <ExternalLink className="h-3 w-3" />
+                  </button>
+                ) : (
+                  <span className="text-xs text-slate-500">Not uploaded</span>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {status !== "submitted" && brand.verification_notes && (
+        <p className="mt-3 text-xs text-slate-600 flex items-start gap-1">
+          <MessageSquare className="h-3 w-3 mt-0.5 flex-shrink-0" />
+          {brand.verification_notes}
+        </p>
+      )}
+
+      {status === "submitted" && (
+        <div className="mt-4 space-y-3">
+          <textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            rows={3}
+            placeholder="Notes for the brand (required when requesting changes)"
+            className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+          />
+          <div className="flex flex-col sm:flex-row gap-2 sm:justify-end">
+            <Button
+              variant="outline"
+              size="sm"
+              icon={XCircle}
+              loading={reviewing === "request_changes"}
+              disabled={reviewing !== null}
+              onClick={() => handleReview("request_changes")}
+              className="text-amber-600 hover:text-amber-700"
+            >
+              Request Changes
+            </Button>
+            <Button
+              size="sm"
+              icon={CheckCircle}
+              loading={reviewing === "approve"}
+              disabled={reviewing !== null}
+              onClick={() => handleReview("approve")}
+            >
+              Approve
+            </Button>
+          </div>
+          {brand.status === "pending" && (
+            <p className="text-xs text-slate-500">
+              Approving also activates this brand.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
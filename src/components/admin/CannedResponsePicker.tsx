@@ -0,0 +1,127 @@
+import { useEffect, useRef, useState } from "react";
+import { FileText, Search } from "lucide-react";
+import { CannedResponseRepository } from "../../lib/database";
+import type { DatabaseSupportCannedResponse } from "../../types/database";
+
+interface CannedResponsePickerProps {
+  onSelect: (response: DatabaseSupportCannedResponse) => void;
+}
+
+export default function CannedResponsePicker({
+  onSelect,
+}: CannedResponsePickerProps) {
+  const [open, setOpen] = useState(false);
+  const [responses, setResponses] = useState<
+    DatabaseSupportCannedResponse[] | null
+  >(null);
+  const [search, setSearch] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Templates are loaded the first time the picker is opened
+  useEffect(() => {
+    if (!open || responses) return;
+
+    CannedResponseRepository.getAll()
+      .then(setResponses)
+      .catch((err) => {
+        console.error("Failed to load canned responses:", err);
+        setError("Failed to load templates");
+      });
+  }, [open, responses]);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (
+        containerRef.current &&
+        !containerRef.current.contains(event.target as Node)
+      ) {
+        setOpen(false);
+      }
+    };
+
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, [open]);
+
+  const term = search.trim().toLowerCase();
+  const filtered = (responses || []).filter(
+    (response) =>
+      !term ||
+      response.title.toLowerCase().includes(term) ||
+      response.category.toLowerCase().includes(term) ||
+      response.body.toLowerCase().includes(term)
+  );
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setOpen((prev) => !prev)}
+        className="inline-flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900"
+      >
+        <FileText className="h-4 w-4" />
+        Templates
+      </button>
+
+      {open && (
+        <div className="absolute bottom-full left-0 mb-2 w-80 bg-white border border-slate-200 rounded-lg shadow-lg z-10">
+          <div className="p-2 border-b border-slate-200">
+            <div className="relative">
+              <Search className="absolute left-2 top-1/2 transform -translate-y-1/2 h-4 w-4 text-slate-400" />
+              <input
+                type="text"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search templates..."
+                autoFocus
+                className="w-full pl-8 pr-3 py-1.5 border border-slate-300 rounded-md text-sm focus:ring-2 focus:ring-red-500 focus:border-transparent"
+              />
+            </div>
+          </div>
+
+          <div className="max-h-64 overflow-y-auto">
+            {error ? (
+              <p className="p-3 text-sm text-red-600">{error}</p>
+            ) : !responses ? (
+              <div className="py-4 text-center">
+                <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-slate-400 mx-auto"></div>
+              </div>
+            ) : filtered.length === 0 ? (
+              <p className="p-3 text-sm text-slate-500">
+                No templates found. Add them in Settings → Canned Responses.
+              </p>
+            ) : (
+              filtered.map((response) => (
+                <button
+                  key={response.id}
+                  type="button"
+                  onClick={() => {
+                    onSelect(response);
+                    setOpen(false);
+                    setSearch("");
+                  }}
+                  className="w-full text-left px-3 py-2 hover:bg-slate-50 border-b border-slate-100 last:border-b-0"
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-medium text-slate-900 truncate">
+                      {response.title}
+                    </span>
+                    <span className="text-xs text-slate-500 capitalize flex-shrink-0">
+                      {response.category}
+                    </span>
+                  </div>
+                  <p className="text-xs text-slate-500 line-clamp-2">
+                    {response.body}
+                  </p>
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
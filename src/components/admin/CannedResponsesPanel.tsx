@@ -0,0 +1,306 @@
+import { useEffect, useState } from "react";
+import {
+  AlertTriangle,
+  Edit,
+  FileText,
+  Plus,
+  Save,
+  Star,
+  Trash2,
+  X,
+} from "lucide-react";
+import Button from "../ui/Button";
+import { CannedResponseRepository } from "../../lib/database";
+import { CANNED_RESPONSE_PLACEHOLDERS } from "../../lib/cannedResponses";
+import type { DatabaseSupportCannedResponse } from "../../types/database";
+
+const CATEGORIES = ["general", "onboarding", "catalog", "billing", "technical"];
+
+// How many of the most used templates are flagged as FAQ candidates
+const FAQ_CANDIDATE_COUNT = 3;
+
+interface DraftResponse {
+  id?: string;
+  title: string;
+  category: string;
+  body: string;
+}
+
+const EMPTY_DRAFT: DraftResponse = { title: "", category: "general", body: "" };
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+
+export default function CannedResponsesPanel() {
+  const [responses, setResponses] = useState<DatabaseSupportCannedResponse[]>(
+    []
+  );
+  const [loading, setLoading] = useState(true);
+  const [draft, setDraft] = useState<DraftResponse | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    CannedResponseRepository.getAll()
+      .then(setResponses)
+      .catch((err) => {
+        console.error("Error loading canned responses:", err);
+        setError("Failed to load canned responses");
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  const faqCandidates = new Set(
+    [...responses]
+      .filter((response) => response.usage_count > 0)
+      .sort((a, b) => b.usage_count - a.usage_count)
+      .slice(0, FAQ_CANDIDATE_COUNT)
+      .map((response) => response.id)
+  );
+
+  const handleSave = async () => {
+    if (!draft) return;
+    if (!draft.title.trim() || !draft.body.trim()) {
+      setError("Title and message are required");
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const values = {
+        title: draft.title.trim(),
+        category: draft.category,
+        body: draft.body.trim(),
+      };
+
+      if (draft.id) {
+        const updated = await CannedResponseRepository.update(draft.id, values);
+        setResponses((prev) =>
+          prev.map((response) =>
+            response.id === updated.id ? updated : response
+          )
+        );
+      } else {
+        const created = await CannedResponseRepository.create(values);
+        setResponses((prev) => [...prev, created]);
+      }
+      setDraft(null);
+    } catch (err) {
+      console.error("Error saving canned response:", err);
+      setError("Failed to save the template");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (response: DatabaseSupportCannedResponse) => {
+    if (!confirm(`Delete the "${response.title}" template?`)) return;
+
+    try {
+      await CannedResponseRepository.delete(response.id);
+      setResponses((prev) => prev.filter((r) => r.id !== response.id));
+      if (draft?.id === response.id) setDraft(null);
+    } catch (err) {
+      console.error("Error deleting canned response:", err);
+      setError("Failed to delete the template");
+    }
+  };
+
+  const insertPlaceholder = (token: string) => {
+    setDraft((prev) =>
+      prev ? { ...prev, body: `${prev.body}${token}` } : prev
+    );
+  };
+
+  if (loading) {
+    return (
+      <div className="py-12 text-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-red-500 mx-auto"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-slate-600">
+        Templates can be inserted while replying to support requests. The most
+        used answers are flagged as FAQ candidates for the brand support page.
+      </p>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start gap-3 animate-fade-in">
+          <AlertTriangle className="h-5 w-5 text-red-500 flex-shrink-0 mt-0.5" />
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      {draft ? (
+        <div className="border border-slate-200 rounded-lg p-4 space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div className="sm:col-span-2">
+              <label className="block text-sm font-medium text-slate-700 mb-1">
+                Title
+              </label>
+              <input
+                type="text"
+                value={draft.title}
+                onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">
+                Category
+              </label>
+              <select
+                value={draft.category}
+                onChange={(e) =>
+                  setDraft({ ...draft, category: e.target.value })
+                }
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent capitalize"
+              >
+                {CATEGORIES.map((category) => (
+                  <option key={category} value={category}>
+                    {category}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">
+              Message
+            </label>
+            <textarea
+              value={draft.body}
+              onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+              rows={6}
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent text-sm"
+            />
+            <div className="mt-2 flex flex-wrap gap-2">
+              {CANNED_RESPONSE_PLACEHOLDERS.map((placeholder) => (
+                <button
+                  key={placeholder.token}
+                  type="button"
+                  title={placeholder.description}
+                  onClick={() => insertPlaceholder(placeholder.token)}
+                  className="px-2 py-1 bg-slate-100 hover:bg-slate-200 rounded text-xs font-mono text-slate-700"
+                >
+                  {placeholder.token}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-3">
+            <Button variant="outline" icon={X} onClick={() => setDraft(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} icon={Save} loading={saving}>
+              {saving ? "Saving..." : "Save Template"}
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex justify-end">
+          <Button icon={Plus} onClick={() => setDraft({ ...EMPTY_DRAFT })}>
+            New Template
+          </Button>
+        </div>
+      )}
+
+      {responses.length === 0 ? (
+        <div className="py-8 text-center">
+          <FileText className="h-8 w-8 text-slate-400 mx-auto mb-2" />
+          <p className="text-slate-600">No templates yet.</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-slate-200">
+            <thead className="bg-slate-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  Template
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  Category
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  Uses
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  Last used
+                </th>
+                <th className="px-4 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200">
+              {responses.map((response) => (
+                <tr key={response.id}>
+                  <td className="px-4 py-3">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium text-slate-900">
+                        {response.title}
+                      </span>
+                      {faqCandidates.has(response.id) && (
+                        <span className="inline-flex items-center gap-1 px-2 py-0.5 text-xs font-medium rounded-full bg-amber-100 text-amber-800">
+                          <Star className="h-3 w-3" />
+                          FAQ candidate
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-xs text-slate-500 line-clamp-1 max-w-md">
+                      {response.body}
+                    </p>
+                  </td>
+                  <td className="px-4 py-3 text-sm text-slate-600 capitalize">
+                    {response.category}
+                  </td>
+                  <td className="px-4 py-3 text-sm font-semibold text-slate-900">
+                    {response.usage_count}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-slate-500 whitespace-nowrap">
+                    {response.last_used_at
+                      ? formatDate(response.last_used_at)
+                      : "Never"}
+                  </td>
+                  <td className="px-4 py-3 text-right whitespace-nowrap">
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setDraft({
+                          id: response.id,
+                          title: response.title,
+                          category: response.category,
+                          body: response.body,
+                        })
+                      }
+                      className="p-1 text-slate-400 hover:text-slate-600"
+                      aria-label={`Edit ${response.title}`}
+                    >
+                      <Edit className="h-4 w-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(response)}
+                      className="p-1 text-slate-400 hover:text-red-600"
+                      aria-label={`Delete ${response.title}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
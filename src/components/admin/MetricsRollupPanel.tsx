@@ -0,0 +1,125 @@
+import { useState } from "react";
+import { AlertTriangle, RefreshCw } from "lucide-react";
+import Button from "../ui/Button";
+import { MAX_ROLLUP_DAYS, rollupDailyMetrics } from "../../lib/metricsRollup";
+
+interface MetricsRollupPanelProps {
+  onRolledUp: () => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
+
+const errorMessage = (err: unknown, fallback: string) =>
+  err && typeof err === "object" && "message" in err
+    ? String((err as { message: unknown }).message)
+    : fallback;
+
+export default function MetricsRollupPanel({
+  onRolledUp,
+}: MetricsRollupPanelProps) {
+  const [startDate, setStartDate] = useState(() =>
+    toDateInput(new Date(Date.now() - 7 * DAY_MS))
+  );
+  const [endDate, setEndDate] = useState(() => toDateInput(new Date()));
+  const [running, setRunning] = useState(false);
+  const [result, setResult] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRun = async () => {
+    const days =
+      (new Date(endDate).getTime() - new Date(startDate).getTime()) / DAY_MS +
+      1;
+    if (!startDate || !endDate || days < 1) {
+      setError("Choose a start date on or before the end date");
+      return;
+    }
+    if (days > MAX_ROLLUP_DAYS) {
+      setError("Recalculate at most one year at a time");
+      return;
+    }
+
+    setRunning(true);
+    setError(null);
+    setResult(null);
+    try {
+      const rows = await rollupDailyMetrics(startDate, endDate);
+      setResult(
+        `Recalculated ${days} day${days === 1 ? "" : "s"} (${rows} product-day${
+          rows === 1 ? "" : "s"
+        } with activity)`
+      );
+      onRolledUp();
+    } catch (err) {
+      console.error("Error rolling up metrics:", err);
+      setError(errorMessage(err, "Failed to recalculate metrics"));
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-slate-200 p-6">
+      <h3 className="text-lg font-semibold text-slate-900 mb-2">
+        Daily Metrics
+      </h3>
+      <p className="text-sm text-slate-600 mb-4">
+        Views, clicks and sales are rolled up into daily product and brand
+        metrics every hour. Recalculate a range after importing or correcting
+        events; running it again gives the same result.
+      </p>
+
+      <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+        <div>
+          <label
+            htmlFor="rollup-start"
+            className="block text-xs font-medium text-slate-600 mb-1"
+          >
+            From
+          </label>
+          <input
+            id="rollup-start"
+            type="date"
+            value={startDate}
+            max={endDate}
+            onChange={(e) => setStartDate(e.target.value)}
+            className="px-3 py-2 border border-slate-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <div>
+          <label
+            htmlFor="rollup-end"
+            className="block text-xs font-medium text-slate-600 mb-1"
+          >
+            To
+          </label>
+          <input
+            id="rollup-end"
+            type="date"
+            value={endDate}
+            min={startDate}
+            onChange={(e) => setEndDate(e.target.value)}
+            className="px-3 py-2 border border-slate-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <Button
+          onClick={handleRun}
+          icon={RefreshCw}
+          loading={running}
+          className="bg-blue-600 hover:bg-blue-700 text-white text-sm"
+        >
+          Recalculate
+        </Button>
+      </div>
+
+      {result && <p className="mt-3 text-sm text-green-700">{result}</p>}
+      {error && (
+        <div className="mt-3 bg-red-50 border border-red-200 rounded-lg p-3 flex items-start gap-2">
+          <AlertTriangle className="h-4 w-4 text-red-500 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+    </div>
+  );
+}
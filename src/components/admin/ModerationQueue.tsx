@@ -0,0 +1,449 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  CheckCircle,
+  XCircle,
+  ExternalLink,
+  Inbox,
+  AlertTriangle,
+} from "lucide-react";
+import Button from "../ui/Button";
+import { PreviewCard } from "../product/PreviewCard";
+import type { AdminProduct } from "../../hooks/useAdminProducts";
+import type { DatabaseProductModerationDecision } from "../../types/database";
+
+type Decision = DatabaseProductModerationDecision["decision"];
+
+interface ModerationQueueProps {
+  products: AdminProduct[];
+  onModerate: (
+    productIds: string[],
+    decision: Decision,
+    reason: string
+  ) => Promise<number>;
+}
+
+const REASON_PRESETS: Record<Decision, string[]> = {
+  approved: ["Listing meets catalog guidelines"],
+  rejected: [
+    "Images are missing or low quality",
+    "Product details are incomplete or inaccurate",
+    "Pricing looks incorrect",
+    "Product URL is broken or does not match the listing",
+  ],
+};
+
+export default function ModerationQueue({
+  products,
+  onModerate,
+}: ModerationQueueProps) {
+  const [activeId, setActiveId] = useState<string | null>(
+    products[0]?.id ?? null
+  );
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [dialog, setDialog] = useState<{
+    decision: Decision;
+    productIds: string[];
+  } | null>(null);
+  const [reason, setReason] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  // Keep the preview and selection in sync as products leave the queue
+  useEffect(() => {
+    const ids = new Set(products.map((p) => p.id));
+    setSelectedIds((prev) => new Set([...prev].filter((id) => ids.has(id))));
+    if (!activeId || !ids.has(activeId)) {
+      setActiveId(products[0]?.id ?? null);
+    }
+  }, [products, activeId]);
+
+  const activeProduct = useMemo(
+    () => products.find((p) => p.id === activeId) || null,
+    [products, activeId]
+  );
+
+  const allSelected =
+    products.length > 0 && selectedIds.size === products.length;
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const openDialog = (decision: Decision, productIds: string[]) => {
+    setDialog({ decision, productIds });
+    setReason("");
+    setError(null);
+  };
+
+  const handleConfirm = async () => {
+    if (!dialog || !reason.trim()) return;
+
+    try {
+      setSubmitting(true);
+      setError(null);
+      const count = await onModerate(
+        dialog.productIds,
+        dialog.decision,
+        reason.trim()
+      );
+      setNotice(
+        `${count} product${count === 1 ? "" : "s"} ${
+          dialog.decision === "approved" ? "approved" : "rejected"
+        }.`
+      );
+      setDialog(null);
+    } catch (err) {
+      console.error("Moderation failed:", err);
+      setError(err instanceof Error ? err.message : "Failed to save decision.");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (products.length === 0) {
+    return (
+      <div className="bg-white rounded-lg border border-slate-200 p-12 text-center">
+        <Inbox className="h-10 w-10 text-slate-400 mx-auto mb-3" />
+        <h3 className="text-lg font-semibold text-slate-900 mb-1">
+          Queue is empty
+        </h3>
+        <p className="text-slate-500">
+          {notice || "No products are waiting for review."}
+        </p>
+      </div>
+    );
+  }
+
+  const activeImages = [...(activeProduct?.images || [])].sort(
+    (a, b) =>
+      Number(b.is_main) - Number(a.is_main) || a.display_order - b.display_order
+  );
+  const activeAttributes = activeProduct?.attributes;
+
+  return (
+    <div className="space-y-4">
+      {notice && (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-3 text-sm text-green-800">
+          {notice}
+        </div>
+      )}
+
+      {/* Bulk actions */}
+      <div className="bg-white rounded-lg border border-slate-200 p-3 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <label className="flex items-center gap-2 text-sm text-slate-700">
+          <input
+            type="checkbox"
+            checked={allSelected}
+            onChange={() =>
+              setSelectedIds(
+                allSelected ? new Set() : new Set(products.map((p) => p.id))
+              )
+            }
+            className="rounded border-slate-300"
+          />
+          {selectedIds.size > 0
+            ? `${selectedIds.size} selected`
+            : `Select all (${products.length})`}
+        </label>
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            icon={CheckCircle}
+            disabled={selectedIds.size === 0}
+            onClick={() => openDialog("approved", [...selectedIds])}
+            className="text-green-700"
+          >
+            Approve selected
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            icon={XCircle}
+            disabled={selectedIds.size === 0}
+            onClick={() => openDialog("rejected", [...selectedIds])}
+            className="text-red-700"
+          >
+            Reject selected
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-5 gap-4">
+        {/* Pending list */}
+        <ul className="lg:col-span-2 bg-white rounded-lg border border-slate-200 divide-y divide-slate-200 max-h-[70vh] overflow-y-auto">
+          {products.map((product) => (
+            <li
+              key={product.id}
+              className={`flex items-center gap-3 p-3 cursor-pointer transition-colors ${
+                product.id === activeId ? "bg-blue-50" : "hover:bg-slate-50"
+              }`}
+              onClick={() => setActiveId(product.id)}
+            >
+              <input
+                type="checkbox"
+                checked={selectedIds.has(product.id)}
+                onClick={(e) => e.stopPropagation()}
+                onChange={() => toggleSelected(product.id)}
+                className="rounded border-slate-300"
+                aria-label={`Select ${product.name}`}
+              />
+              <img
+                src={
+                  product.main_image_url || "https://via.placeholder.com/150"
+                }
+                alt={product.name}
+                className="h-10 w-10 rounded-lg object-cover flex-shrink-0"
+              />
+              <div className="min-w-0 flex-1">
+                <p className="text-sm font-medium text-slate-900 truncate">
+                  {product.name}
+                </p>
+                <p className="text-xs text-slate-500 truncate">
+                  {product.brand?.name || "Unknown Brand"} • Submitted{" "}
+                  {new Date(product.updated_at).toLocaleDateString()}
+                </p>
+              </div>
+            </li>
+          ))}
+        </ul>
+
+        {/* Side-by-side preview */}
+        {activeProduct && (
+          <div className="lg:col-span-3 bg-white rounded-lg border border-slate-200 p-4 sm:p-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <p className="text-xs font-medium text-slate-500 uppercase tracking-wider mb-2">
+                  Customer preview
+                </p>
+                <div className="max-w-xs">
+                  <PreviewCard
+                    id={activeProduct.id}
+                    name={activeProduct.name}
+                    image={
+                      activeProduct.main_image_url ||
+                      activeImages[0]?.image_url ||
+                      ""
+                    }
+                    images={activeImages}
+                    price={activeProduct.current_price}
+                    originalPrice={activeProduct.original_price}
+                    brand={activeProduct.brand?.name || ""}
+                    onClick={() =>
+                      window.open(activeProduct.source_url, "_blank")
+                    }
+                    priority
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-3 text-sm">
+                <div>
+                  <p className="text-xs font-medium text-slate-500">Name</p>
+                  <p className="text-slate-900">{activeProduct.name}</p>
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <p className="text-xs font-medium text-slate-500">
+                      Category
+                    </p>
+                    <p className="text-slate-900">
+                      {[activeProduct.category, activeProduct.sub_category]
+                        .filter(Boolean)
+                        .join(" / ") || "Uncategorized"}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-xs font-medium text-slate-500">SKU</p>
+                    <p className="text-slate-900">{activeProduct.sku || "-"}</p>
+                  </div>
+                  <div>
+                    <p className="text-xs font-medium text-slate-500">Price</p>
+                    <p className="text-slate-900">
+                      ₹{activeProduct.current_price.toLocaleString("en-IN")}
+                      {activeProduct.discount_percentage > 0 && (
+                        <span className="ml-1 text-xs text-slate-500 line-through">
+                          ₹
+                          {activeProduct.original_price.toLocaleString("en-IN")}
+                        </span>
+                      )}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-xs font-medium text-slate-500">Images</p>
+                    <p className="text-slate-900">{activeImages.length}</p>
+                  </div>
+                </div>
+                <div>
+                  <p className="text-xs font-medium text-slate-500">Sizes</p>
+                  <p className="text-slate-900">
+                    {(activeProduct.sizes || [])
+                      .map((s) => `${s.size} (${s.stock_count})`)
+                      .join(", ") || "-"}
+                  </p>
+                </div>
+                {activeAttributes && (
+                  <div>
+                    <p className="text-xs font-medium text-slate-500">
+                      Attributes
+                    </p>
+                    <p className="text-slate-900">
+                      {(
+                        [
+                          "fabric",
+                          "material",
+                          "fit",
+                          "pattern",
+                          "color",
+                          "style",
+                          "occasion",
+                        ] as const
+                      )
+                        .map((key) => activeAttributes[key])
+                        .filter(Boolean)
+                        .join(", ") || "-"}
+                    </p>
+                  </div>
+                )}
+                <div>
+                  <p className="text-xs font-medium text-slate-500">
+                    Description
+                  </p>
+                  <p className="text-slate-900 whitespace-pre-wrap max-h-32 overflow-y-auto">
+                    {activeProduct.description || "No description"}
+                  </p>
+                </div>
+                <a
+                  href={activeProduct.source_url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center gap-1 text-blue-600 hover:text-blue-700"
+                >
+                  <ExternalLink className="h-3 w-3" />
+                  Open product page
+                </a>
+              </div>
+            </div>
+
+            <div className="mt-6 flex flex-col sm:flex-row sm:justify-end gap-3">
+              <Button
+                variant="outline"
+                icon={XCircle}
+                onClick={() => openDialog("rejected", [activeProduct.id])}
+                className="text-red-700"
+              >
+                Reject
+              </Button>
+              <Button
+                icon={CheckCircle}
+                onClick={() => openDialog("approved", [activeProduct.id])}
+                className="bg-green-600 hover:bg-green-700 text-white"
+              >
+                Approve
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Reason dialog */}
+      {dialog && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <div className="flex items-center justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+            <div
+              className="fixed inset-0 bg-slate-500 bg-opacity-75 transition-opacity"
+              onClick={submitting ? undefined : () => setDialog(null)}
+            ></div>
+
+            <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-lg sm:w-full">
+              <div className="bg-white px-4 pt-5 pb-4 sm:p-6 sm:pb-4">
+                <div className="sm:flex sm:items-start">
+                  <div
+                    className={`mx-auto flex-shrink-0 flex items-center justify-center h-12 w-12 rounded-full sm:mx-0 sm:h-10 sm:w-10 ${
+                      dialog.decision === "approved"
+                        ? "bg-green-100"
+                        : "bg-red-100"
+                    }`}
+                  >
+                    {dialog.decision === "approved" ? (
+                      <CheckCircle className="h-6 w-6 text-green-600" />
+                    ) : (
+                      <AlertTriangle className="h-6 w-6 text-red-600" />
+                    )}
+                  </div>
+                  <div className="mt-3 sm:mt-0 sm:ml-4 flex-1">
+                    <h3 className="text-lg leading-6 font-medium text-slate-900">
+                      {dialog.decision === "approved" ? "Approve" : "Reject"}{" "}
+                      {dialog.productIds.length} product
+                      {dialog.productIds.length === 1 ? "" : "s"}
+                    </h3>
+                    <p className="mt-1 text-sm text-slate-500">
+                      The reason is shared with the brand and recorded in the
+                      audit log.
+                    </p>
+
+                    <div className="mt-3 flex flex-wrap gap-2">
+                      {REASON_PRESETS[dialog.decision].map((preset) => (
+                        <button
+                          key={preset}
+                          type="button"
+                          onClick={() => setReason(preset)}
+                          className="px-2 py-1 text-xs rounded-full border border-slate-300 text-slate-600 hover:bg-slate-50"
+                        >
+                          {preset}
+                        </button>
+                      ))}
+                    </div>
+
+                    <textarea
+                      rows={3}
+                      value={reason}
+                      onChange={(e) => setReason(e.target.value)}
+                      placeholder="Reason (required)"
+                      className="mt-3 w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+
+                    {error && (
+                      <p className="mt-2 text-sm text-red-600">{error}</p>
+                    )}
+                  </div>
+                </div>
+              </div>
+              <div className="bg-slate-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse gap-3">
+                <Button
+                  onClick={handleConfirm}
+                  loading={submitting}
+                  disabled={!reason.trim()}
+                  className={`w-full sm:w-auto text-white ${
+                    dialog.decision === "approved"
+                      ? "bg-green-600 hover:bg-green-700"
+                      : "bg-red-600 hover:bg-red-700"
+                  }`}
+                >
+                  {dialog.decision === "approved" ? "Approve" : "Reject"}
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => setDialog(null)}
+                  disabled={submitting}
+                  className="w-full sm:w-auto mt-3 sm:mt-0"
+                >
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
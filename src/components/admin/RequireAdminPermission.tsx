@@ -0,0 +1,43 @@
+import React from "react";
+import { ShieldOff } from "lucide-react";
+import { useAdminAuth } from "../../contexts/AdminAuthContext";
+import { ADMIN_ROLE_LABELS, type AdminPermission } from "../../lib/adminAuth";
+
+interface RequireAdminPermissionProps {
+  permission: AdminPermission;
+  children: React.ReactNode;
+}
+
+export default function RequireAdminPermission({
+  permission,
+  children,
+}: RequireAdminPermissionProps) {
+  const { loading, role, hasPermission } = useAdminAuth();
+
+  if (loading) {
+    return (
+      <div className="py-12 text-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-red-500 mx-auto"></div>
+      </div>
+    );
+  }
+
+  if (!hasPermission(permission)) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border border-slate-200 p-12 text-center">
+        <ShieldOff className="h-12 w-12 text-slate-400 mx-auto mb-4" />
+        <h2 className="text-lg font-semibold text-slate-900 mb-2">
+          You don't have access to this page
+        </h2>
+        <p className="text-slate-600">
+          {role
+            ? `Your role (${ADMIN_ROLE_LABELS[role]}) does not include this area.`
+            : "Your admin role could not be loaded."}{" "}
+          Ask a super admin if you need access.
+        </p>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+}
@@ -0,0 +1,218 @@
+import { useEffect, useState } from "react";
+import { Search, SearchX } from "lucide-react";
+import {
+  clickThroughRate,
+  getSearchQueryAnalytics,
+  type SearchQueryAnalytics,
+  type SearchQueryStats,
+} from "../../lib/productSearch";
+
+const RANGES = [
+  { days: 7, label: "7 days" },
+  { days: 30, label: "30 days" },
+  { days: 90, label: "90 days" },
+];
+
+const toDateParam = (date: Date) => date.toISOString().slice(0, 10);
+
+const formatRate = (rate: number | null) =>
+  rate === null ? "—" : `${Math.round(rate * 100)}%`;
+
+function QueryTable({
+  rows,
+  emptyMessage,
+  showLastSearched = false,
+}: {
+  rows: SearchQueryStats[];
+  emptyMessage: string;
+  showLastSearched?: boolean;
+}) {
+  if (rows.length === 0) {
+    return (
+      <p className="py-6 text-center text-sm text-slate-500">{emptyMessage}</p>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs uppercase tracking-wide text-slate-500">
+            <th className="py-2 pr-4 font-medium">Query</th>
+            <th className="py-2 pr-4 font-medium text-right">Searches</th>
+            {showLastSearched ? (
+              <th className="py-2 font-medium text-right">Last searched</th>
+            ) : (
+              <>
+                <th className="py-2 pr-4 font-medium text-right">
+                  Avg. results
+                </th>
+                <th className="py-2 font-medium text-right">Click-through</th>
+              </>
+            )}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100">
+          {rows.map((row) => (
+            <tr key={row.query}>
+              <td className="py-2 pr-4 text-slate-900 break-all">
+                {row.query}
+              </td>
+              <td className="py-2 pr-4 text-right text-slate-700">
+                {(showLastSearched
+                  ? row.zero_result_searches
+                  : row.searches
+                ).toLocaleString()}
+              </td>
+              {showLastSearched ? (
+                <td className="py-2 text-right text-slate-500">
+                  {new Date(row.last_searched_at).toLocaleDateString()}
+                </td>
+              ) : (
+                <>
+                  <td className="py-2 pr-4 text-right text-slate-700">
+                    {row.avg_results}
+                  </td>
+                  <td className="py-2 text-right text-slate-700">
+                    {formatRate(clickThroughRate(row))}
+                  </td>
+                </>
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default function SearchAnalyticsPanel() {
+  const [days, setDays] = useState(30);
+  const [report, setReport] = useState<SearchQueryAnalytics | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchReport = async () => {
+      setLoading(true);
+      setError(null);
+
+      const endDate = new Date();
+      const startDate = new Date();
+      startDate.setDate(endDate.getDate() - (days - 1));
+
+      try {
+        setReport(
+          await getSearchQueryAnalytics(
+            toDateParam(startDate),
+            toDateParam(endDate)
+          )
+        );
+      } catch (err) {
+        console.error("Error fetching search analytics:", err);
+        setError("Failed to load search analytics.");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchReport();
+  }, [days]);
+
+  const totals = report?.totals;
+
+  return (
+    <div className="bg-white rounded-lg border border-slate-200 p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-6">
+        <div>
+          <h3 className="text-lg font-semibold text-slate-900">
+            Shopper Searches
+          </h3>
+          <p className="text-sm text-slate-600">
+            What shoppers look for, and the searches the catalog can't answer
+          </p>
+        </div>
+        <div className="flex space-x-2">
+          {RANGES.map((range) => (
+            <button
+              key={range.days}
+              onClick={() => setDays(range.days)}
+              className={`px-3 py-1.5 text-sm font-medium rounded-lg transition-colors ${
+                days === range.days
+                  ? "bg-blue-100 text-blue-700"
+                  : "text-slate-600 hover:bg-slate-100"
+              }`}
+            >
+              {range.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="py-12 text-center">
+          <div className="w-8 h-8 border-2 border-blue-500 border-t-transparent rounded-full animate-spin mx-auto"></div>
+        </div>
+      ) : error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : report && totals ? (
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            <div className="p-4 bg-slate-50 rounded-lg">
+              <p className="text-sm text-slate-600">Searches</p>
+              <p className="text-xl font-bold text-slate-900">
+                {totals.searches.toLocaleString()}
+              </p>
+            </div>
+            <div className="p-4 bg-slate-50 rounded-lg">
+              <p className="text-sm text-slate-600">Shoppers</p>
+              <p className="text-xl font-bold text-slate-900">
+                {totals.sessions.toLocaleString()}
+              </p>
+            </div>
+            <div className="p-4 bg-slate-50 rounded-lg">
+              <p className="text-sm text-slate-600">No results</p>
+              <p className="text-xl font-bold text-slate-900">
+                {formatRate(
+                  totals.searches > 0
+                    ? totals.zero_result_searches / totals.searches
+                    : null
+                )}
+              </p>
+            </div>
+            <div className="p-4 bg-slate-50 rounded-lg">
+              <p className="text-sm text-slate-600">Click-through</p>
+              <p className="text-xl font-bold text-slate-900">
+                {formatRate(clickThroughRate(totals))}
+              </p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div>
+              <h4 className="text-sm font-medium text-slate-700 mb-2 flex items-center gap-1">
+                <Search className="h-4 w-4" />
+                Top queries
+              </h4>
+              <QueryTable
+                rows={report.top_queries}
+                emptyMessage="No searches in this period."
+              />
+            </div>
+            <div>
+              <h4 className="text-sm font-medium text-slate-700 mb-2 flex items-center gap-1">
+                <SearchX className="h-4 w-4" />
+                Queries with no results
+              </h4>
+              <QueryTable
+                rows={report.zero_result_queries}
+                emptyMessage="Every search found products."
+                showLastSearched
+              />
+            </div>
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
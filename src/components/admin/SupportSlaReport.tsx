@@ -0,0 +1,240 @@
+import { useEffect, useState } from "react";
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+import { AlertTriangle, Clock, TrendingUp } from "lucide-react";
+import { supabase } from "../../lib/supabase";
+
+interface SlaMetricsRow {
+  priority: string;
+  total_requests: number;
+  first_response_met: number;
+  first_response_breached: number;
+  resolution_met: number;
+  resolution_breached: number;
+  escalated_requests: number;
+  avg_first_response_hours: number | null;
+  avg_resolution_hours: number | null;
+}
+
+interface SupportMetrics {
+  total_requests: number;
+  avg_resolution_time_hours: number | null;
+  resolution_rate: number | null;
+}
+
+const RANGES = [
+  { days: 7, label: "7 days" },
+  { days: 30, label: "30 days" },
+  { days: 90, label: "90 days" },
+];
+
+const toDateParam = (date: Date) => date.toISOString().slice(0, 10);
+
+const compliance = (met: number, breached: number) =>
+  met + breached > 0 ? Math.round((met / (met + breached)) * 100) : null;
+
+const tooltipStyle = {
+  backgroundColor: "white",
+  border: "1px solid #e2e8f0",
+  borderRadius: "8px",
+  fontSize: "14px",
+};
+
+export default function SupportSlaReport() {
+  const [days, setDays] = useState(30);
+  const [rows, setRows] = useState<SlaMetricsRow[]>([]);
+  const [summary, setSummary] = useState<SupportMetrics | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchMetrics = async () => {
+      setLoading(true);
+      setError(null);
+
+      const endDate = new Date();
+      const startDate = new Date();
+      startDate.setDate(endDate.getDate() - days);
+      const params = {
+        start_date: toDateParam(startDate),
+        end_date: toDateParam(endDate),
+      };
+
+      try {
+        const [slaResult, metricsResult] = await Promise.all([
+          supabase.rpc("get_support_sla_metrics", params),
+          supabase.rpc("get_support_request_metrics", params),
+        ]);
+
+        if (slaResult.error) throw slaResult.error;
+        if (metricsResult.error) throw metricsResult.error;
+
+        setRows(slaResult.data || []);
+        setSummary(metricsResult.data?.[0] || null);
+      } catch (err) {
+        console.error("Error fetching SLA metrics:", err);
+        setError("Failed to load SLA compliance metrics.");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchMetrics();
+  }, [days]);
+
+  const totals = rows.reduce(
+    (acc, row) => ({
+      firstMet: acc.firstMet + row.first_response_met,
+      firstBreached: acc.firstBreached + row.first_response_breached,
+      resolutionMet: acc.resolutionMet + row.resolution_met,
+      resolutionBreached: acc.resolutionBreached + row.resolution_breached,
+      escalated: acc.escalated + row.escalated_requests,
+    }),
+    {
+      firstMet: 0,
+      firstBreached: 0,
+      resolutionMet: 0,
+      resolutionBreached: 0,
+      escalated: 0,
+    }
+  );
+
+  const firstResponseCompliance = compliance(
+    totals.firstMet,
+    totals.firstBreached
+  );
+  const resolutionCompliance = compliance(
+    totals.resolutionMet,
+    totals.resolutionBreached
+  );
+
+  const chartData = rows.map((row) => ({
+    priority: row.priority.charAt(0).toUpperCase() + row.priority.slice(1),
+    "First response": compliance(
+      row.first_response_met,
+      row.first_response_breached
+    ),
+    Resolution: compliance(row.resolution_met, row.resolution_breached),
+  }));
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-slate-200 p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-6">
+        <h2 className="text-lg font-semibold text-slate-900">SLA Compliance</h2>
+        <div className="flex space-x-2">
+          {RANGES.map((range) => (
+            <button
+              key={range.days}
+              onClick={() => setDays(range.days)}
+              className={`px-3 py-1.5 text-sm font-medium rounded-lg transition-colors ${
+                days === range.days
+                  ? "bg-red-100 text-red-700"
+                  : "text-slate-600 hover:bg-slate-100"
+              }`}
+            >
+              {range.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="py-12 text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-red-500 mx-auto"></div>
+        </div>
+      ) : error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : (
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            <div className="p-4 bg-slate-50 rounded-lg">
+              <p className="text-sm text-slate-600">First response</p>
+              <p className="text-xl font-bold text-slate-900">
+                {firstResponseCompliance === null
+                  ? "—"
+                  : `${firstResponseCompliance}%`}
+              </p>
+            </div>
+            <div className="p-4 bg-slate-50 rounded-lg">
+              <p className="text-sm text-slate-600">Resolution</p>
+              <p className="text-xl font-bold text-slate-900">
+                {resolutionCompliance === null
+                  ? "—"
+                  : `${resolutionCompliance}%`}
+              </p>
+            </div>
+            <div className="p-4 bg-slate-50 rounded-lg">
+              <p className="text-sm text-slate-600 flex items-center gap-1">
+                <Clock className="h-4 w-4" />
+                Avg. resolution
+              </p>
+              <p className="text-xl font-bold text-slate-900">
+                {summary?.avg_resolution_time_hours != null
+                  ? `${summary.avg_resolution_time_hours}h`
+                  : "—"}
+              </p>
+            </div>
+            <div className="p-4 bg-slate-50 rounded-lg">
+              <p className="text-sm text-slate-600 flex items-center gap-1">
+                <AlertTriangle className="h-4 w-4" />
+                Escalated
+              </p>
+              <p className="text-xl font-bold text-slate-900">
+                {totals.escalated}
+              </p>
+            </div>
+          </div>
+
+          {chartData.length === 0 ? (
+            <div className="py-8 text-center">
+              <TrendingUp className="h-8 w-8 text-slate-400 mx-auto mb-2" />
+              <p className="text-slate-600">
+                No support requests in this period.
+              </p>
+            </div>
+          ) : (
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                  <XAxis dataKey="priority" stroke="#64748b" fontSize={12} />
+                  <YAxis
+                    stroke="#64748b"
+                    fontSize={12}
+                    domain={[0, 100]}
+                    unit="%"
+                  />
+                  <Tooltip
+                    contentStyle={tooltipStyle}
+                    formatter={(value) =>
+                      value === null ? "No data" : `${value}%`
+                    }
+                  />
+                  <Legend />
+                  <Bar
+                    dataKey="First response"
+                    fill="#2563eb"
+                    radius={[4, 4, 0, 0]}
+                  />
+                  <Bar
+                    dataKey="Resolution"
+                    fill="#16a34a"
+                    radius={[4, 4, 0, 0]}
+                  />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
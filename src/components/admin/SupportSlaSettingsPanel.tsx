@@ -0,0 +1,170 @@
+import { useEffect, useState } from "react";
+import { AlertTriangle, FileText, Save } from "lucide-react";
+import Button from "../ui/Button";
+import {
+  DEFAULT_SUPPORT_SLA,
+  getSupportSlaSettings,
+  saveSupportSlaSettings,
+  type SupportPriority,
+  type SupportSlaSettings,
+  type SupportSlaTarget,
+} from "../../lib/supportSla";
+
+const PRIORITIES: SupportPriority[] = ["high", "medium", "low"];
+
+export default function SupportSlaSettingsPanel() {
+  const [settings, setSettings] =
+    useState<SupportSlaSettings>(DEFAULT_SUPPORT_SLA);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [saveSuccess, setSaveSuccess] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getSupportSlaSettings()
+      .then(setSettings)
+      .finally(() => setLoading(false));
+  }, []);
+
+  const handleTargetChange = (
+    priority: SupportPriority,
+    field: keyof SupportSlaTarget,
+    value: string
+  ) => {
+    setSaveSuccess(false);
+    setSettings((prev) => ({
+      ...prev,
+      [priority]: { ...prev[priority], [field]: Number(value) },
+    }));
+  };
+
+  const handleSave = async () => {
+    const invalid = PRIORITIES.some((priority) => {
+      const target = settings[priority];
+      return (
+        !Number.isInteger(target.first_response_hours) ||
+        !Number.isInteger(target.resolution_hours) ||
+        target.first_response_hours < 1 ||
+        target.resolution_hours < target.first_response_hours
+      );
+    });
+    if (invalid) {
+      setSaveError(
+        "Targets must be whole hours, at least 1, and resolution cannot be shorter than first response."
+      );
+      return;
+    }
+
+    setSaving(true);
+    setSaveError(null);
+    try {
+      await saveSupportSlaSettings(settings);
+      setSaveSuccess(true);
+      setTimeout(() => setSaveSuccess(false), 3000);
+    } catch (error) {
+      console.error("Error saving SLA settings:", error);
+      setSaveError("Failed to save SLA targets");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="py-12 text-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-red-500 mx-auto"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {saveSuccess && (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-4 flex items-start gap-3 animate-fade-in">
+          <FileText className="h-5 w-5 text-green-500 flex-shrink-0 mt-0.5" />
+          <p className="text-green-700 text-sm">SLA targets saved!</p>
+        </div>
+      )}
+
+      {saveError && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start gap-3 animate-fade-in">
+          <AlertTriangle className="h-5 w-5 text-red-500 flex-shrink-0 mt-0.5" />
+          <p className="text-red-700 text-sm">{saveError}</p>
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-slate-200">
+          <thead className="bg-slate-50">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                Priority
+              </th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                First response (hours)
+              </th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                Resolution (hours)
+              </th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-200">
+            {PRIORITIES.map((priority) => (
+              <tr key={priority}>
+                <td className="px-4 py-3 text-sm font-medium text-slate-900 capitalize">
+                  {priority}
+                </td>
+                {(["first_response_hours", "resolution_hours"] as const).map(
+                  (field) => (
+                    <td key={field} className="px-4 py-3">
+                      <input
+                        type="number"
+                        min={1}
+                        step={1}
+                        value={settings[priority][field]}
+                        onChange={(e) =>
+                          handleTargetChange(priority, field, e.target.value)
+                        }
+                        className="w-28 px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                      />
+                    </td>
+                  )
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <label className="flex items-start gap-3">
+        <input
+          type="checkbox"
+          checked={settings.auto_escalate}
+          onChange={(e) => {
+            setSaveSuccess(false);
+            setSettings((prev) => ({
+              ...prev,
+              auto_escalate: e.target.checked,
+            }));
+          }}
+          className="mt-1 rounded border-slate-300"
+        />
+        <span>
+          <span className="block text-sm font-medium text-slate-900">
+            Escalate breached requests automatically
+          </span>
+          <span className="block text-sm text-slate-600">
+            Low and medium priority requests move up one level when they miss a
+            target, and the new priority's targets start from that moment.
+          </span>
+        </span>
+      </label>
+
+      <div className="flex justify-end">
+        <Button onClick={handleSave} icon={Save} loading={saving}>
+          {saving ? "Saving..." : "Save SLA Targets"}
+        </Button>
+      </div>
+    </div>
+  );
+}
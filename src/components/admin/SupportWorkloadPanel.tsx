@@ -0,0 +1,95 @@
+import { Inbox, User } from "lucide-react";
+
+export interface SupportWorkloadRow {
+  // NULL for the unassigned bucket
+  admin_id: string | null;
+  email: string | null;
+  open_requests: number;
+  new_requests: number;
+  in_progress_requests: number;
+  high_priority_requests: number;
+}
+
+interface SupportWorkloadPanelProps {
+  workload: SupportWorkloadRow[];
+  currentUserId?: string;
+  activeFilter: string;
+  onSelect: (filter: string) => void;
+}
+
+export default function SupportWorkloadPanel({
+  workload,
+  currentUserId,
+  activeFilter,
+  onSelect,
+}: SupportWorkloadPanelProps) {
+  if (workload.length === 0) return null;
+
+  // Busiest admins first, unassigned bucket always last
+  const rows = [...workload].sort((a, b) => {
+    if (a.admin_id === null) return 1;
+    if (b.admin_id === null) return -1;
+    return b.open_requests - a.open_requests;
+  });
+  const maxOpen = Math.max(1, ...rows.map((row) => row.open_requests));
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-slate-200 p-6">
+      <h2 className="text-lg font-semibold text-slate-900 mb-4">Workload</h2>
+      <div className="space-y-3">
+        {rows.map((row) => {
+          const filter = row.admin_id ?? "unassigned";
+          const isActive = activeFilter === filter;
+          const label =
+            row.admin_id === null
+              ? "Unassigned"
+              : `${row.email}${row.admin_id === currentUserId ? " (you)" : ""}`;
+
+          return (
+            <button
+              key={filter}
+              type="button"
+              onClick={() => onSelect(isActive ? "all" : filter)}
+              className={`w-full text-left p-3 rounded-lg border transition-colors ${
+                isActive
+                  ? "border-red-300 bg-red-50"
+                  : "border-slate-200 hover:bg-slate-50"
+              }`}
+            >
+              <div className="flex items-center justify-between mb-2">
+                <span className="flex items-center gap-2 text-sm font-medium text-slate-900 truncate">
+                  {row.admin_id === null ? (
+                    <Inbox className="h-4 w-4 text-slate-400 flex-shrink-0" />
+                  ) : (
+                    <User className="h-4 w-4 text-slate-400 flex-shrink-0" />
+                  )}
+                  <span className="truncate">{label}</span>
+                </span>
+                <span className="text-sm font-semibold text-slate-900">
+                  {row.open_requests} open
+                </span>
+              </div>
+              <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                <div
+                  className={`h-full rounded-full ${
+                    row.admin_id === null ? "bg-slate-400" : "bg-blue-500"
+                  }`}
+                  style={{ width: `${(row.open_requests / maxOpen) * 100}%` }}
+                />
+              </div>
+              <div className="flex gap-4 mt-2 text-xs text-slate-500">
+                <span>{row.new_requests} new</span>
+                <span>{row.in_progress_requests} in progress</span>
+                {row.high_priority_requests > 0 && (
+                  <span className="text-red-600">
+                    {row.high_priority_requests} high priority
+                  </span>
+                )}
+              </div>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
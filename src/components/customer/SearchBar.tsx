@@ -1,28 +1,310 @@
-import React, { useState, useRef } from "react";
-import { Search } from "lucide-react";
+import React, { useState, useRef, useEffect, useId } from "react";
+import { Clock, Search, Tag, TrendingUp, Store, X } from "lucide-react";
+import {
+  addRecentSearch,
+  clearRecentSearches,
+  getAutocomplete,
+  getRecentSearches,
+  getTrendingSearches,
+  type AutocompleteBrand,
+  type AutocompleteCategory,
+  type AutocompleteProduct,
+  type AutocompleteResults,
+  type TrendingSearch,
+} from "../../lib/productSearch";
 
 export interface SearchBarProps {
   onSearch: (query: string) => void;
+  // Corrected query to offer as "Did you mean ...?"
+  suggestion?: string | null;
+  // Called when a suggested product is picked; without it the product's
+  // name is searched for
+  onProductSelect?: (productId: string) => void;
 }
 
-export function SearchBar({ onSearch }: SearchBarProps) {
+type SuggestionItem =
+  | { kind: "product"; product: AutocompleteProduct }
+  | { kind: "brand"; brand: AutocompleteBrand }
+  | { kind: "category"; category: AutocompleteCategory }
+  | { kind: "recent" | "trending"; query: string };
+
+const MIN_AUTOCOMPLETE_LENGTH = 2;
+
+const formatPrice = (price: number) =>
+  `₹${Number(price).toLocaleString("en-IN")}`;
+
+export function SearchBar({
+  onSearch,
+  suggestion,
+  onProductSelect,
+}: SearchBarProps) {
   const [query, setQuery] = useState("");
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [results, setResults] = useState<AutocompleteResults | null>(null);
+  const [recent, setRecent] = useState<string[]>([]);
+  const [trending, setTrending] = useState<TrendingSearch[] | null>(null);
   const debounceRef = useRef<NodeJS.Timeout | null>(null);
+  const autocompleteRef = useRef<NodeJS.Timeout | null>(null);
+  const requestRef = useRef(0);
+  const listId = useId();
+
+  const typed = query.trim();
+  const showAutocomplete = typed.length >= MIN_AUTOCOMPLETE_LENGTH;
+
+  // Trending searches are loaded once, the first time the dropdown opens
+  useEffect(() => {
+    if (!open || trending) return;
+    getTrendingSearches()
+      .then(setTrending)
+      .catch(() => setTrending([]));
+  }, [open, trending]);
+
+  useEffect(
+    () => () => {
+      if (debounceRef.current) clearTimeout(debounceRef.current);
+      if (autocompleteRef.current) clearTimeout(autocompleteRef.current);
+    },
+    []
+  );
+
+  const items: SuggestionItem[] = showAutocomplete
+    ? [
+        ...(results?.products || []).map((product) => ({
+          kind: "product" as const,
+          product,
+        })),
+        ...(results?.brands || []).map((brand) => ({
+          kind: "brand" as const,
+          brand,
+        })),
+        ...(results?.categories || []).map((category) => ({
+          kind: "category" as const,
+          category,
+        })),
+      ]
+    : [
+        ...recent.map((item) => ({ kind: "recent" as const, query: item })),
+        ...(trending || [])
+          .filter(
+            (item) =>
+              !recent.some((search) => search.toLowerCase() === item.query)
+          )
+          .map((item) => ({ kind: "trending" as const, query: item.query })),
+      ];
+
+  const fetchAutocomplete = (value: string) => {
+    if (autocompleteRef.current) clearTimeout(autocompleteRef.current);
+    if (value.length < MIN_AUTOCOMPLETE_LENGTH) {
+      setResults(null);
+      return;
+    }
+
+    autocompleteRef.current = setTimeout(() => {
+      // Only the latest request may update the dropdown
+      const request = ++requestRef.current;
+      getAutocomplete(value)
+        .then((data) => {
+          if (request === requestRef.current) setResults(data);
+        })
+        .catch((err) => console.warn("Search suggestions failed:", err));
+    }, 150);
+  };
+
+  const runSearch = (value: string) => {
+    if (debounceRef.current) clearTimeout(debounceRef.current);
+    const trimmed = value.trim();
+    setQuery(trimmed);
+    if (trimmed) setRecent(addRecentSearch(trimmed));
+    setOpen(false);
+    setActiveIndex(-1);
+    onSearch(trimmed);
+  };
+
+  const selectItem = (item: SuggestionItem) => {
+    switch (item.kind) {
+      case "product":
+        if (onProductSelect) {
+          setRecent(addRecentSearch(item.product.name));
+          setOpen(false);
+          onProductSelect(item.product.id);
+        } else {
+          runSearch(item.product.name);
+        }
+        break;
+      case "brand":
+        runSearch(item.brand.name);
+        break;
+      case "category":
+        runSearch(item.category.sub_category || item.category.category);
+        break;
+      default:
+        runSearch(item.query);
+    }
+  };
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value;
     setQuery(value);
+    setOpen(true);
+    setActiveIndex(-1);
+    fetchAutocomplete(value.trim());
     if (debounceRef.current) clearTimeout(debounceRef.current);
     debounceRef.current = setTimeout(() => {
       onSearch(value.trim());
     }, 400);
   };
 
+  const handleFocus = () => {
+    setRecent(getRecentSearches());
+    setOpen(true);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      setOpen(true);
+      if (items.length === 0) return;
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      // Cycles through the items and back to the input (-1)
+      setActiveIndex(
+        (current) =>
+          ((current + 1 + step + items.length + 1) % (items.length + 1)) - 1
+      );
+    } else if (
+      e.key === "Enter" &&
+      open &&
+      activeIndex >= 0 &&
+      items[activeIndex]
+    ) {
+      e.preventDefault();
+      selectItem(items[activeIndex]);
+    } else if (e.key === "Escape") {
+      setOpen(false);
+      setActiveIndex(-1);
+    }
+  };
+
+  const handleClearRecent = () => {
+    clearRecentSearches();
+    setRecent([]);
+    setActiveIndex(-1);
+  };
+
+  const optionId = (index: number) => `${listId}-option-${index}`;
+
+  const renderItem = (item: SuggestionItem, index: number) => {
+    const active = index === activeIndex;
+    let content: React.ReactNode;
+
+    switch (item.kind) {
+      case "product":
+        content = (
+          <>
+            {item.product.image_url ? (
+              <img
+                src={item.product.image_url}
+                alt=""
+                className="h-10 w-10 rounded object-cover bg-gray-100 flex-shrink-0"
+                loading="lazy"
+              />
+            ) : (
+              <div className="h-10 w-10 rounded bg-gray-100 flex-shrink-0" />
+            )}
+            <div className="min-w-0 flex-1">
+              <p className="truncate text-sm text-gray-900">
+                {item.product.name}
+              </p>
+              <p className="truncate text-xs text-gray-500">
+                {item.product.brand_name}
+              </p>
+            </div>
+            <span className="text-sm font-medium text-gray-900">
+              {formatPrice(item.product.current_price)}
+            </span>
+          </>
+        );
+        break;
+      case "brand":
+        content = (
+          <>
+            <Store className="h-4 w-4 text-gray-400 flex-shrink-0" />
+            <span className="flex-1 truncate text-sm text-gray-900">
+              {item.brand.name}
+            </span>
+            <span className="text-xs text-gray-500">
+              {item.brand.product_count} products
+            </span>
+          </>
+        );
+        break;
+      case "category":
+        content = (
+          <>
+            <Tag className="h-4 w-4 text-gray-400 flex-shrink-0" />
+            <span className="flex-1 truncate text-sm text-gray-900">
+              {item.category.sub_category
+                ? `${item.category.sub_category} in ${item.category.category}`
+                : item.category.category}
+            </span>
+            <span className="text-xs text-gray-500">
+              {item.category.product_count}
+            </span>
+          </>
+        );
+        break;
+      default:
+        content = (
+          <>
+            {item.kind === "recent" ? (
+              <Clock className="h-4 w-4 text-gray-400 flex-shrink-0" />
+            ) : (
+              <TrendingUp className="h-4 w-4 text-gray-400 flex-shrink-0" />
+            )}
+            <span className="flex-1 truncate text-sm text-gray-900">
+              {item.query}
+            </span>
+          </>
+        );
+    }
+
+    return (
+      <li
+        id={optionId(index)}
+        role="option"
+        aria-selected={active}
+        className={`flex items-center gap-3 px-4 py-2 cursor-pointer ${
+          active ? "bg-gray-100" : "hover:bg-gray-50"
+        }`}
+        // Keep focus in the input so the dropdown stays open
+        onMouseDown={(e) => e.preventDefault()}
+        onMouseEnter={() => setActiveIndex(index)}
+        onClick={() => selectItem(item)}
+      >
+        {content}
+      </li>
+    );
+  };
+
+  const sectionTitle = (kind: SuggestionItem["kind"]) =>
+    ({
+      product: "Products",
+      brand: "Brands",
+      category: "Categories",
+      recent: "Recent searches",
+      trending: "Trending",
+    })[kind];
+
+  const showDropdown = open && items.length > 0;
+
   return (
     <form
       className="w-full mb-4 sticky top-0 z-10"
       role="search"
-      onSubmit={e => { e.preventDefault(); onSearch(query.trim()); }}
+      onSubmit={(e) => {
+        e.preventDefault();
+        runSearch(query);
+      }}
     >
       <div className="relative">
         <Search className="absolute left-4 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
@@ -32,10 +314,67 @@ export function SearchBar({ onSearch }: SearchBarProps) {
           placeholder="Search for products, brands and more"
           value={query}
           onChange={handleChange}
+          onFocus={handleFocus}
+          onBlur={() => setOpen(false)}
+          onKeyDown={handleKeyDown}
           aria-label="Search products"
           autoComplete="off"
+          role="combobox"
+          aria-expanded={showDropdown}
+          aria-controls={listId}
+          aria-autocomplete="list"
+          aria-activedescendant={
+            showDropdown && activeIndex >= 0 ? optionId(activeIndex) : undefined
+          }
         />
+        {showDropdown && (
+          <div className="absolute left-0 right-0 mt-2 max-h-96 overflow-y-auto rounded-lg border border-gray-200 bg-white shadow-lg">
+            <ul id={listId} role="listbox" aria-label="Search suggestions">
+              {items.map((item, index) => {
+                const startsSection =
+                  index === 0 || items[index - 1].kind !== item.kind;
+                return (
+                  <React.Fragment key={`${item.kind}-${index}`}>
+                    {startsSection && (
+                      <li
+                        role="presentation"
+                        className="flex items-center justify-between px-4 pt-3 pb-1 text-xs font-medium uppercase tracking-wide text-gray-500"
+                      >
+                        {sectionTitle(item.kind)}
+                        {item.kind === "recent" && (
+                          <button
+                            type="button"
+                            className="flex items-center gap-1 normal-case tracking-normal text-gray-400 hover:text-gray-600"
+                            onMouseDown={(e) => e.preventDefault()}
+                            onClick={handleClearRecent}
+                          >
+                            <X className="h-3 w-3" />
+                            Clear
+                          </button>
+                        )}
+                      </li>
+                    )}
+                    {renderItem(item, index)}
+                  </React.Fragment>
+                );
+              })}
+            </ul>
+          </div>
+        )}
       </div>
+      {suggestion && (
+        <p className="mt-2 px-4 text-sm text-gray-600">
+          Did you mean{" "}
+          <button
+            type="button"
+            className="font-medium text-primary-600 hover:underline"
+            onClick={() => runSearch(suggestion)}
+          >
+            {suggestion}
+          </button>
+          ?
+        </p>
+      )}
     </form>
   );
 }
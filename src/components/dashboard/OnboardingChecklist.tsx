@@ -0,0 +1,113 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { ArrowRight, CheckCircle, Circle, Rocket } from "lucide-react";
+import { useAuth } from "../../contexts/AuthContext";
+import {
+  countCompletedSteps,
+  getBrandOnboarding,
+  getCurrentStep,
+  isStepComplete,
+  ONBOARDING_STEPS,
+  type BrandOnboardingProgress,
+} from "../../lib/brandOnboarding";
+
+export default function OnboardingChecklist() {
+  const navigate = useNavigate();
+  const { brandId } = useAuth();
+  const [progress, setProgress] = useState<BrandOnboardingProgress | null>(
+    null
+  );
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!brandId) return;
+
+    getBrandOnboarding(brandId)
+      .then(setProgress)
+      .catch((err) => console.error("Error loading onboarding progress:", err))
+      .finally(() => setLoading(false));
+  }, [brandId]);
+
+  // Nothing to show once every step is done (or if progress failed to load)
+  if (loading || !progress || progress.completed_at) return null;
+
+  const completed = countCompletedSteps(progress);
+  const currentStep = getCurrentStep(progress);
+  const percent = Math.round((completed / ONBOARDING_STEPS.length) * 100);
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 animate-slide-up">
+      <div className="p-4 sm:p-6">
+        <div className="flex items-start justify-between gap-4 mb-4">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-primary-50 rounded-lg">
+              <Rocket className="h-5 w-5 text-primary-600" />
+            </div>
+            <div>
+              <h2 className="text-fluid-lg font-semibold text-gray-900">
+                Get your brand ready
+              </h2>
+              <p className="text-sm text-gray-600">
+                {completed} of {ONBOARDING_STEPS.length} steps complete
+              </p>
+            </div>
+          </div>
+          <span className="text-sm font-semibold text-primary-600">
+            {percent}%
+          </span>
+        </div>
+
+        <div className="h-2 bg-gray-100 rounded-full overflow-hidden mb-4">
+          <div
+            className="h-full bg-primary-500 rounded-full transition-all duration-500"
+            style={{ width: `${percent}%` }}
+          />
+        </div>
+
+        <ul className="divide-y divide-gray-100">
+          {ONBOARDING_STEPS.map((step) => {
+            const done = isStepComplete(progress, step);
+            const isCurrent = currentStep?.key === step.key;
+
+            return (
+              <li key={step.key} className="py-3 flex items-start gap-3">
+                {done ? (
+                  <CheckCircle className="h-5 w-5 text-green-500 flex-shrink-0 mt-0.5" />
+                ) : (
+                  <Circle className="h-5 w-5 text-gray-300 flex-shrink-0 mt-0.5" />
+                )}
+                <div className="flex-1 min-w-0">
+                  <p
+                    className={`text-sm font-medium ${
+                      done ? "text-gray-500 line-through" : "text-gray-900"
+                    }`}
+                  >
+                    {step.label}
+                  </p>
+                  {!done && (
+                    <p className="text-xs text-gray-500 mt-0.5">
+                      {step.description}
+                    </p>
+                  )}
+                </div>
+                {!done && (
+                  <button
+                    onClick={() => navigate(step.path)}
+                    className={`flex items-center gap-1 text-sm font-medium flex-shrink-0 ${
+                      isCurrent
+                        ? "text-primary-600 hover:text-primary-700"
+                        : "text-gray-500 hover:text-gray-700"
+                    }`}
+                  >
+                    {isCurrent ? "Start" : "Go"}
+                    <ArrowRight className="h-4 w-4" />
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+import { useEffect, useState } from "react";
+import { Download, FileText, Mail } from "lucide-react";
+import {
+  getWeeklyReportUrl,
+  listWeeklyReports,
+  WEEKLY_REPORT_STATUS_LABELS,
+  type WeeklyReport,
+  type WeeklyReportFormat,
+} from "../../lib/weeklyReports";
+
+interface WeeklyReportsArchiveProps {
+  brandId: string;
+}
+
+const STATUS_STYLES: Record<WeeklyReport["status"], string> = {
+  generated: "bg-gray-100 text-gray-700",
+  sent: "bg-green-100 text-green-700",
+  failed: "bg-red-100 text-red-700",
+};
+
+const formatWeek = (report: WeeklyReport) => {
+  const format = (date: string) =>
+    new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, {
+      month: "short",
+      day: "numeric",
+      timeZone: "UTC",
+    });
+  return `${format(report.week_start)} – ${format(report.week_end)}`;
+};
+
+const errorMessage = (err: unknown, fallback: string) =>
+  err && typeof err === "object" && "message" in err
+    ? String((err as { message: unknown }).message)
+    : fallback;
+
+export default function WeeklyReportsArchive({
+  brandId,
+}: WeeklyReportsArchiveProps) {
+  const [reports, setReports] = useState<WeeklyReport[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [downloading, setDownloading] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listWeeklyReports(brandId)
+      .then(setReports)
+      .catch((err) => {
+        console.error("Error loading weekly reports:", err);
+        setError(errorMessage(err, "Failed to load weekly reports"));
+      })
+      .finally(() => setLoading(false));
+  }, [brandId]);
+
+  const handleDownload = async (
+    report: WeeklyReport,
+    format: WeeklyReportFormat
+  ) => {
+    setDownloading(`${report.id}:${format}`);
+    setError(null);
+    try {
+      window.open(await getWeeklyReportUrl(report, format), "_blank");
+    } catch (err) {
+      console.error("Error downloading weekly report:", err);
+      setError(errorMessage(err, "Failed to download the report"));
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center gap-2 mb-1">
+        <Mail className="h-5 w-5 text-gray-500" />
+        <h3 className="text-lg font-semibold text-gray-900">Weekly Reports</h3>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        A summary of each week is emailed to brand owners every Monday. You can
+        turn it off in Settings.
+      </p>
+
+      {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading reports...</p>
+      ) : reports.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          Your first report will appear here after your first full week.
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {reports.map((report) => (
+            <li
+              key={report.id}
+              className="py-3 flex flex-col sm:flex-row sm:items-center justify-between gap-2"
+            >
+              <div className="flex items-center gap-3">
+                <FileText className="h-4 w-4 text-gray-400" />
+                <div>
+                  <div className="text-sm font-medium text-gray-900">
+                    {formatWeek(report)}
+                  </div>
+                  {report.summary.current && (
+                    <div className="text-xs text-gray-500">
+                      {report.summary.current.views.toLocaleString()} views ·{" "}
+                      {report.summary.current.clicks.toLocaleString()} clicks ·{" "}
+                      {report.summary.current.conversions.toLocaleString()}{" "}
+                      sales
+                    </div>
+                  )}
+                </div>
+                <span
+                  className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                    STATUS_STYLES[report.status]
+                  }`}
+                >
+                  {WEEKLY_REPORT_STATUS_LABELS[report.status]}
+                </span>
+              </div>
+              <div className="flex gap-2">
+                {(["pdf", "html"] as const).map((format) => (
+                  <button
+                    key={format}
+                    type="button"
+                    onClick={() => handleDownload(report, format)}
+                    disabled={downloading === `${report.id}:${format}`}
+                    className="inline-flex items-center gap-1 px-3 py-1.5 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    <Download className="h-3.5 w-3.5" />
+                    {format.toUpperCase()}
+                  </button>
+                ))}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
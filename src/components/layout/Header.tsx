@@ -3,9 +3,10 @@ import React from 'react';
 interface HeaderProps {
   title: string;
   subtitle?: string;
+  actions?: React.ReactNode;
 }
 
-export default function Header({ title, subtitle }: HeaderProps) {
+export default function Header({ title, subtitle, actions }: HeaderProps) {
   return (
     <div className="bg-white border-b border-gray-200">
       {/* Responsive padding and layout */}
@@ -21,7 +22,7 @@ export default function Header({ title, subtitle }: HeaderProps) {
           
           {/* Actions section - Responsive layout */}
           <div className="flex items-center space-x-3 sm:space-x-4">
-            {/* Reserved for future actions */}
+            {actions}
           </div>
         </div>
       </div>
@@ -1,5 +1,6 @@
 import { Menu } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
+import NotificationDropdown from '../notifications/NotificationDropdown';
 
 interface MobileHeaderProps {
   sidebarOpen: boolean;
@@ -30,6 +31,8 @@ export default function MobileHeader({ sidebarOpen, setSidebarOpen }: MobileHead
             />
           </button>
         </div>
+
+        <NotificationDropdown />
       </div>
     </div>
   );
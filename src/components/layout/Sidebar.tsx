@@ -6,17 +6,23 @@ import {
   User,
   Settings,
   Mail,
+  Bell,
   LogOut,
+  Users,
   X,
 } from "lucide-react";
 import { useAuth } from "../../contexts/AuthContext";
+import { useNotifications } from "../../contexts/NotificationContext";
+import { BRAND_ROLE_LABELS } from "../../lib/brandTeam";
 
 const navigation = [
   { name: "Dashboard", href: "/dashboard", icon: LayoutDashboard, exact: true },
   { name: "My Products", href: "/dashboard/products", icon: Package },
   { name: "Analytics", href: "/dashboard/analytics", icon: BarChart3 },
   { name: "Brand Profile", href: "/dashboard/profile", icon: User },
+  { name: "Team", href: "/dashboard/team", icon: Users },
   { name: "Support", href: "/dashboard/messages", icon: Mail },
+  { name: "Notifications", href: "/dashboard/notifications", icon: Bell },
   { name: "Settings", href: "/dashboard/settings", icon: Settings },
 ];
 
@@ -85,6 +91,9 @@ interface SidebarContentProps {
 }
 
 function SidebarContent({ handleSignOut, onItemClick, navigate }: SidebarContentProps) {
+  const { unreadCount } = useNotifications();
+  const { brandId, memberships, setActiveBrand } = useAuth();
+
   return (
     <div className="flex flex-col h-full">
       {/* Logo - Only show on desktop (mobile has it in header) */}
@@ -95,6 +104,24 @@ function SidebarContent({ handleSignOut, onItemClick, navigate }: SidebarContent
         <p className="text-sm text-gray-500 mt-1">Partner Dashboard</p>
       </div>
 
+      {/* Brand switcher - only for accounts on more than one brand team */}
+      {memberships.length > 1 && (
+        <div className="px-4 pt-4">
+          <select
+            value={brandId ?? ""}
+            onChange={(e) => setActiveBrand(e.target.value)}
+            aria-label="Active brand"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+          >
+            {memberships.map((membership) => (
+              <option key={membership.brand_id} value={membership.brand_id}>
+                {membership.brand_name} ({BRAND_ROLE_LABELS[membership.role]})
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
       {/* Navigation - Responsive spacing and touch targets */}
       <nav className="flex-1 p-4 space-y-1 overflow-y-auto">
         {navigation.map((item) => (
@@ -115,6 +142,11 @@ function SidebarContent({ handleSignOut, onItemClick, navigate }: SidebarContent
               <item.icon className="h-5 w-5 flex-shrink-0" />
               <span className="truncate">{item.name}</span>
             </div>
+            {item.href === "/dashboard/notifications" && unreadCount > 0 && (
+              <span className="ml-2 px-2 py-0.5 text-xs font-medium rounded-full bg-red-500 text-white">
+                {unreadCount > 99 ? "99+" : unreadCount}
+              </span>
+            )}
           </NavLink>
         ))}
       </nav>
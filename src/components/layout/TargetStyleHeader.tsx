@@ -181,7 +181,8 @@ const TargetStyleHeader: React.FC<TargetStyleHeaderProps> = ({
                 className="p-2 text-gray-600 hover:text-red-600 transition-colors"
                 whileHover={{ scale: 1.1 }}
                 whileTap={{ scale: 0.9 }}
-                onClick={() => handleComingSoon('Wishlist')}
+                onClick={() => navigate('/wishlist')}
+                aria-label="Wishlist"
               >
                 <Heart className="h-7 w-7" />
               </motion.button>
@@ -240,7 +241,8 @@ const TargetStyleHeader: React.FC<TargetStyleHeaderProps> = ({
                 className="p-2 text-gray-600 hover:text-red-600 transition-colors"
                 whileHover={{ scale: 1.1 }}
                 whileTap={{ scale: 0.9 }}
-                onClick={() => handleComingSoon('Wishlist')}
+                onClick={() => navigate('/wishlist')}
+                aria-label="Wishlist"
               >
                 <Heart className="h-6 w-6" />
               </motion.button>
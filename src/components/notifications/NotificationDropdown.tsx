@@ -3,6 +3,7 @@ import { Bell, Check, CheckCheck, X, ExternalLink } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { useNotifications } from '../../contexts/NotificationContext';
 import Button from '../ui/Button';
+import type { Notification } from '../../types/notifications';
 
 export default function NotificationDropdown() {
   const [isOpen, setIsOpen] = useState(false);
@@ -30,7 +31,7 @@ export default function NotificationDropdown() {
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
-  const handleNotificationClick = async (notification: any) => {
+  const handleNotificationClick = async (notification: Notification) => {
     if (!notification.read) {
       await markAsRead(notification.id);
     }
@@ -57,10 +58,10 @@ export default function NotificationDropdown() {
         return '✅';
       case 'product_rejection':
         return '❌';
-      case 'system_update':
+      case 'support_update':
+        return '💬';
+      case 'account_update':
         return '🔔';
-      case 'integration_sync':
-        return '🔄';
       default:
         return '📢';
     }
@@ -205,7 +206,7 @@ export default function NotificationDropdown() {
             <div className="px-4 py-3 border-t border-gray-200 bg-gray-50">
               <button
                 onClick={() => {
-                  navigate('/notifications');
+                  navigate('/dashboard/notifications');
                   setIsOpen(false);
                 }}
                 className="text-sm text-primary-600 hover:text-primary-700 font-medium"
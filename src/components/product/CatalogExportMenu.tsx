@@ -0,0 +1,89 @@
+import { useState } from "react";
+import { Download, ChevronDown } from "lucide-react";
+import Button from "../ui/Button";
+import { DatabaseError } from "../../lib/database";
+import {
+  EXPORT_FORMATS,
+  downloadCatalogExport,
+  type ExportFormat,
+} from "../../lib/catalogExport";
+import type { ProductWithDetails } from "../../types/database";
+
+interface CatalogExportMenuProps {
+  // Resolves the full (unpaginated) product list for the current filters
+  loadProducts: () => Promise<ProductWithDetails[]>;
+  fileName?: string;
+  disabled?: boolean;
+  className?: string;
+}
+
+export default function CatalogExportMenu({
+  loadProducts,
+  fileName = "catalog",
+  disabled = false,
+  className = "",
+}: CatalogExportMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = async (format: ExportFormat) => {
+    setOpen(false);
+    setExporting(true);
+    try {
+      const products = await loadProducts();
+      if (products.length === 0) {
+        alert("There are no products to export for the current filters.");
+        return;
+      }
+      downloadCatalogExport(products, format, fileName);
+    } catch (err) {
+      console.error("Failed to export catalog:", err);
+      alert(
+        err instanceof DatabaseError
+          ? `Failed to export catalog: ${err.message}`
+          : "Failed to export catalog. Please try again."
+      );
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Button
+        variant="outline"
+        icon={Download}
+        loading={exporting}
+        disabled={disabled}
+        onClick={() => setOpen(!open)}
+        className={className}
+        aria-label="Export catalog"
+      >
+        <span className="flex items-center gap-1">
+          Export
+          <ChevronDown className="h-4 w-4" />
+        </span>
+      </Button>
+
+      {open && (
+        <>
+          <div className="fixed inset-0 z-10" onClick={() => setOpen(false)} />
+          <div className="absolute right-0 mt-2 w-56 bg-white border border-gray-200 rounded-lg shadow-lg z-20 py-1">
+            {EXPORT_FORMATS.map((format) => (
+              <button
+                key={format.key}
+                onClick={() => handleExport(format.key)}
+                className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+              >
+                {format.label}
+                <span className="ml-1 text-xs text-gray-400">
+                  .{format.extension}
+                </span>
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
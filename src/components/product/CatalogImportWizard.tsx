@@ -0,0 +1,528 @@
+import { useCallback, useMemo, useState } from "react";
+import { useDropzone } from "react-dropzone";
+import {
+  Upload,
+  X,
+  AlertCircle,
+  CheckCircle,
+  FileSpreadsheet,
+  ArrowLeft,
+  ArrowRight,
+} from "lucide-react";
+import Button from "../ui/Button";
+import { ProductRepository, DatabaseError } from "../../lib/database";
+import {
+  IMPORT_FIELDS,
+  autoMapColumns,
+  buildImportRows,
+  diffAgainstCatalog,
+  parseCatalogFile,
+  CatalogParseError,
+  type ColumnMapping,
+  type ImportDiffEntry,
+  type ImportFieldKey,
+  type ParsedCatalog,
+} from "../../lib/catalogImport";
+import type {
+  ProductImportRecord,
+  ProductImportResult,
+} from "../../types/database";
+
+interface CatalogImportWizardProps {
+  brandId: string;
+  onClose: () => void;
+  onImported: (result: ProductImportResult) => void;
+}
+
+type WizardStep = "upload" | "mapping" | "review" | "complete";
+
+const STEPS: { key: WizardStep; label: string }[] = [
+  { key: "upload", label: "Upload" },
+  { key: "mapping", label: "Map Columns" },
+  { key: "review", label: "Review" },
+  { key: "complete", label: "Done" },
+];
+
+const ACTION_STYLES: Record<ImportDiffEntry["action"], string> = {
+  create: "bg-green-100 text-green-800",
+  update: "bg-blue-100 text-blue-800",
+  unchanged: "bg-gray-100 text-gray-700",
+  invalid: "bg-red-100 text-red-800",
+};
+
+export default function CatalogImportWizard({
+  brandId,
+  onClose,
+  onImported,
+}: CatalogImportWizardProps) {
+  const [step, setStep] = useState<WizardStep>("upload");
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [catalog, setCatalog] = useState<ParsedCatalog | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [diff, setDiff] = useState<ImportDiffEntry[]>([]);
+  const [actionFilter, setActionFilter] = useState<
+    ImportDiffEntry["action"] | "all"
+  >("all");
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<ProductImportResult | null>(null);
+
+  const onDrop = useCallback(async (acceptedFiles: File[]) => {
+    const file = acceptedFiles[0];
+    if (!file) return;
+
+    setError(null);
+    try {
+      const parsed = await parseCatalogFile(file);
+      setCatalog(parsed);
+      setFileName(file.name);
+      setMapping(autoMapColumns(parsed.headers));
+      setStep("mapping");
+    } catch (err) {
+      console.error("Failed to parse catalog file:", err);
+      setError(
+        err instanceof CatalogParseError
+          ? err.message
+          : "Failed to read the catalog file."
+      );
+    }
+  }, []);
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop,
+    accept: {
+      "text/csv": [".csv"],
+      "application/json": [".json"],
+    },
+    maxFiles: 1,
+    multiple: false,
+    maxSize: 10 * 1024 * 1024,
+    onDropRejected: () =>
+      setError("Please upload a single .csv or .json file up to 10MB."),
+  });
+
+  const missingRequired = IMPORT_FIELDS.filter(
+    (field) => field.required && !mapping[field.key]
+  );
+
+  const counts = useMemo(
+    () =>
+      diff.reduce(
+        (acc, entry) => {
+          acc[entry.action] += 1;
+          return acc;
+        },
+        { create: 0, update: 0, unchanged: 0, invalid: 0 }
+      ),
+    [diff]
+  );
+
+  const pendingRecords = diff
+    .filter((entry) => entry.action === "create" || entry.action === "update")
+    .map((entry) => entry.record)
+    .filter((record): record is ProductImportRecord => record !== null);
+
+  const handleMappingChange = (key: ImportFieldKey, column: string) => {
+    setMapping((prev) => ({ ...prev, [key]: column || undefined }));
+  };
+
+  // Dry run: validate rows and diff against the live catalog
+  const handleValidate = async () => {
+    if (!catalog) return;
+
+    setWorking(true);
+    setError(null);
+    try {
+      const rows = buildImportRows(
+        catalog.records,
+        mapping,
+        catalog.firstRowNumber
+      );
+      const existing = await ProductRepository.getCatalogSnapshot(brandId);
+      setDiff(diffAgainstCatalog(rows, existing));
+      setActionFilter("all");
+      setStep("review");
+    } catch (err) {
+      console.error("Failed to validate catalog:", err);
+      setError(
+        err instanceof DatabaseError
+          ? err.message
+          : "Failed to compare the file with your catalog. Please try again."
+      );
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleCommit = async () => {
+    if (pendingRecords.length === 0) return;
+
+    setWorking(true);
+    setError(null);
+    try {
+      const importResult = await ProductRepository.importCatalog(
+        brandId,
+        pendingRecords
+      );
+      setResult(importResult);
+      setStep("complete");
+      onImported(importResult);
+    } catch (err) {
+      console.error("Failed to import catalog:", err);
+      setError(
+        err instanceof DatabaseError
+          ? err.message
+          : "Failed to import products. Please try again."
+      );
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const visibleEntries =
+    actionFilter === "all"
+      ? diff
+      : diff.filter((entry) => entry.action === actionFilter);
+
+  const stepIndex = STEPS.findIndex((s) => s.key === step);
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-center justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        <div
+          className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity"
+          onClick={working ? undefined : onClose}
+        ></div>
+
+        <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-4xl sm:w-full">
+          {/* Header */}
+          <div className="px-4 pt-5 pb-4 sm:p-6 border-b border-gray-200">
+            <div className="flex items-start justify-between">
+              <div>
+                <h3 className="text-lg leading-6 font-semibold text-gray-900">
+                  Import Catalog
+                </h3>
+                <p className="text-sm text-gray-500 mt-1">
+                  Create or update products in bulk from a CSV or JSON file
+                </p>
+              </div>
+              <button
+                onClick={onClose}
+                disabled={working}
+                className="p-2 rounded-lg text-gray-400 hover:text-gray-600 hover:bg-gray-100 touch-target"
+                aria-label="Close import"
+              >
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+
+            {/* Step indicator */}
+            <ol className="flex items-center gap-2 mt-4 text-xs sm:text-sm">
+              {STEPS.map((s, index) => (
+                <li key={s.key} className="flex items-center gap-2">
+                  <span
+                    className={`inline-flex items-center justify-center h-6 w-6 rounded-full font-medium ${
+                      index <= stepIndex
+                        ? "bg-primary-500 text-white"
+                        : "bg-gray-100 text-gray-500"
+                    }`}
+                  >
+                    {index + 1}
+                  </span>
+                  <span
+                    className={
+                      index === stepIndex
+                        ? "font-medium text-gray-900"
+                        : "text-gray-500"
+                    }
+                  >
+                    {s.label}
+                  </span>
+                  {index < STEPS.length - 1 && (
+                    <span className="w-6 h-px bg-gray-300" />
+                  )}
+                </li>
+              ))}
+            </ol>
+          </div>
+
+          <div className="px-4 py-5 sm:p-6 max-h-[60vh] overflow-y-auto">
+            {error && (
+              <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-3 flex items-start gap-2">
+                <AlertCircle className="h-4 w-4 text-red-500 flex-shrink-0 mt-0.5" />
+                <p className="text-red-700 text-sm">{error}</p>
+              </div>
+            )}
+
+            {/* Step 1: Upload */}
+            {step === "upload" && (
+              <div className="space-y-4">
+                <div
+                  {...getRootProps()}
+                  className={`border-2 border-dashed rounded-lg p-10 text-center cursor-pointer transition-colors ${
+                    isDragActive
+                      ? "border-primary-500 bg-primary-50"
+                      : "border-gray-300 hover:border-primary-400 hover:bg-gray-50"
+                  }`}
+                >
+                  <input {...getInputProps()} />
+                  <Upload className="h-8 w-8 mx-auto text-gray-400 mb-3" />
+                  <p className="text-sm text-gray-700">
+                    {isDragActive
+                      ? "Drop the catalog file here..."
+                      : "Drag & drop your catalog, or click to select"}
+                  </p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    CSV or JSON • Max 10MB
+                  </p>
+                </div>
+                <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 text-sm text-blue-800 space-y-1">
+                  <p>
+                    <strong>Required columns:</strong> product name, product
+                    URL and original price.
+                  </p>
+                  <p>
+                    List extra images separated by <code>|</code> and sizes
+                    with stock as <code>S:10|M:4|L:0</code>. Existing products
+                    are matched by product URL, then SKU.
+                  </p>
+                </div>
+              </div>
+            )}
+
+            {/* Step 2: Column mapping */}
+            {step === "mapping" && catalog && (
+              <div className="space-y-4">
+                <div className="flex items-center gap-2 text-sm text-gray-600">
+                  <FileSpreadsheet className="h-4 w-4 text-gray-400" />
+                  <span>
+                    {fileName} • {catalog.records.length} rows •{" "}
+                    {catalog.headers.length} columns
+                  </span>
+                </div>
+
+                {(["product", "media", "attributes"] as const).map((group) => (
+                  <div key={group}>
+                    <h4 className="text-sm font-semibold text-gray-900 mb-2 capitalize">
+                      {group === "media" ? "Images & Sizes" : group}
+                    </h4>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                      {IMPORT_FIELDS.filter((f) => f.group === group).map(
+                        (field) => (
+                          <label key={field.key} className="block">
+                            <span className="text-sm text-gray-700">
+                              {field.label}
+                              {field.required && (
+                                <span className="text-red-500"> *</span>
+                              )}
+                            </span>
+                            <select
+                              value={mapping[field.key] || ""}
+                              onChange={(e) =>
+                                handleMappingChange(field.key, e.target.value)
+                              }
+                              className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                            >
+                              <option value="">— Not mapped —</option>
+                              {catalog.headers.map((header) => (
+                                <option key={header} value={header}>
+                                  {header}
+                                </option>
+                              ))}
+                            </select>
+                            {field.hint && (
+                              <span className="text-xs text-gray-500">
+                                {field.hint}
+                              </span>
+                            )}
+                          </label>
+                        )
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Step 3: Dry-run review */}
+            {step === "review" && (
+              <div className="space-y-4">
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                  {(
+                    ["create", "update", "unchanged", "invalid"] as const
+                  ).map((action) => (
+                    <button
+                      key={action}
+                      onClick={() =>
+                        setActionFilter(
+                          actionFilter === action ? "all" : action
+                        )
+                      }
+                      className={`rounded-lg border p-3 text-left transition-colors ${
+                        actionFilter === action
+                          ? "border-primary-500 bg-primary-50"
+                          : "border-gray-200 hover:bg-gray-50"
+                      }`}
+                    >
+                      <p className="text-xs text-gray-500 capitalize">
+                        {action === "create" ? "New" : action}
+                      </p>
+                      <p className="text-xl font-bold text-gray-900">
+                        {counts[action]}
+                      </p>
+                    </button>
+                  ))}
+                </div>
+
+                {counts.invalid > 0 && (
+                  <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-800">
+                    {counts.invalid} invalid row
+                    {counts.invalid === 1 ? "" : "s"} will be skipped. Fix
+                    them in your file and re-import to include them.
+                  </div>
+                )}
+
+                <div className="border border-gray-200 rounded-lg overflow-hidden">
+                  <table className="min-w-full divide-y divide-gray-200 text-sm">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Row
+                        </th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Action
+                        </th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Product
+                        </th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Details
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {visibleEntries.map((entry) => (
+                        <tr key={entry.rowNumber}>
+                          <td className="px-3 py-2 text-gray-500 whitespace-nowrap">
+                            {entry.rowNumber}
+                          </td>
+                          <td className="px-3 py-2 whitespace-nowrap">
+                            <span
+                              className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${
+                                ACTION_STYLES[entry.action]
+                              }`}
+                            >
+                              {entry.action === "create"
+                                ? "new"
+                                : entry.action}
+                            </span>
+                          </td>
+                          <td className="px-3 py-2 text-gray-900 max-w-xs truncate">
+                            {entry.name || "—"}
+                          </td>
+                          <td className="px-3 py-2 text-gray-600">
+                            {entry.action === "invalid" ? (
+                              <ul className="list-disc list-inside text-red-700 space-y-0.5">
+                                {entry.errors.map((message) => (
+                                  <li key={message}>{message}</li>
+                                ))}
+                              </ul>
+                            ) : entry.action === "update" ? (
+                              `Changes: ${entry.changes
+                                .map((c) => c.replace("_", " "))
+                                .join(", ")}`
+                            ) : entry.action === "create" ? (
+                              "Will be submitted for review"
+                            ) : (
+                              "No changes"
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  {visibleEntries.length === 0 && (
+                    <p className="p-6 text-center text-sm text-gray-500">
+                      No rows in this category.
+                    </p>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* Step 4: Complete */}
+            {step === "complete" && result && (
+              <div className="text-center py-6">
+                <div className="w-16 h-16 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-4">
+                  <CheckCircle className="h-8 w-8 text-green-500" />
+                </div>
+                <h4 className="text-lg font-semibold text-gray-900 mb-2">
+                  Import Complete
+                </h4>
+                <p className="text-gray-600">
+                  {result.created} product{result.created === 1 ? "" : "s"}{" "}
+                  created and {result.updated} updated.
+                </p>
+                {result.created > 0 && (
+                  <p className="text-sm text-gray-500 mt-2">
+                    New products are pending review and will go live once
+                    approved.
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* Footer actions */}
+          <div className="bg-gray-50 px-4 py-3 sm:px-6 flex flex-col-reverse sm:flex-row sm:justify-between gap-3">
+            <div>
+              {(step === "mapping" || step === "review") && (
+                <Button
+                  variant="outline"
+                  icon={ArrowLeft}
+                  disabled={working}
+                  onClick={() =>
+                    setStep(step === "review" ? "mapping" : "upload")
+                  }
+                >
+                  Back
+                </Button>
+              )}
+            </div>
+            <div className="flex flex-col-reverse sm:flex-row gap-3">
+              <Button variant="outline" onClick={onClose} disabled={working}>
+                {step === "complete" ? "Close" : "Cancel"}
+              </Button>
+              {step === "mapping" && (
+                <Button
+                  icon={ArrowRight}
+                  iconPosition="right"
+                  loading={working}
+                  disabled={missingRequired.length > 0}
+                  onClick={handleValidate}
+                >
+                  {missingRequired.length > 0
+                    ? `Map ${missingRequired.map((f) => f.label).join(", ")}`
+                    : "Validate"}
+                </Button>
+              )}
+              {step === "review" && (
+                <Button
+                  loading={working}
+                  disabled={pendingRecords.length === 0}
+                  onClick={handleCommit}
+                >
+                  {pendingRecords.length === 0
+                    ? "Nothing to import"
+                    : `Import ${pendingRecords.length} product${
+                        pendingRecords.length === 1 ? "" : "s"
+                      }`}
+                </Button>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import React from 'react';
+
+interface HighlightedTextProps {
+  // Text from search_products, with matches between \u0002 and \u0003
+  text: string;
+  className?: string;
+}
+
+const HighlightedText: React.FC<HighlightedTextProps> = ({ text, className = 'bg-yellow-100 text-gray-900 rounded-sm' }) => {
+  // Split on the start marker; each later part opens with a match
+  const [before, ...matched] = text.split('\u0002');
+
+  return (
+    <>
+      {before}
+      {matched.map((part, index) => {
+        const [match, rest = ''] = part.split('\u0003');
+        return (
+          <React.Fragment key={index}>
+            <mark className={className}>{match}</mark>
+            {rest}
+          </React.Fragment>
+        );
+      })}
+    </>
+  );
+};
+
+export default HighlightedText;
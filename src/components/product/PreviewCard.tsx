@@ -1,4 +1,5 @@
 import React, { useState, useEffect, useRef } from "react";
+import { Heart } from "lucide-react";
 import { 
   getOptimizedImageUrl, 
   generateSrcSet, 
@@ -10,6 +11,8 @@ import {
   getOptimalObjectFit,
   getProductFocalPoint
 } from "../../lib/intelligentImageFitting";
+import HighlightedText from './HighlightedText';
+import { useWishlist } from '../../hooks/useWishlist';
 
 interface PreviewCardProps {
   id: string;
@@ -22,9 +25,11 @@ interface PreviewCardProps {
   onClick: () => void;
   priority?: boolean; // For above-the-fold images
   index?: number; // Card position for lazy loading decision
+  highlightedName?: string; // Name with search matches marked
 }
 
 export const PreviewCard: React.FC<PreviewCardProps> = ({ 
+  id,
   name, 
   image, 
   images = [], 
@@ -33,7 +38,8 @@ export const PreviewCard: React.FC<PreviewCardProps> = ({
   brand, 
   onClick,
   priority = false,
-  index = 0
+  index = 0,
+  highlightedName
 }) => {
   const [imageLoaded, setImageLoaded] = useState(false);
   const [imageError, setImageError] = useState(false);
@@ -41,6 +47,8 @@ export const PreviewCard: React.FC<PreviewCardProps> = ({
   const [currentImageIndex, setCurrentImageIndex] = useState(0);
   const [isTransitioning, setIsTransitioning] = useState(true);
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
+  const { isSaved, toggleSaved } = useWishlist();
+  const saved = isSaved(id);
   
   // Prepare image array - use images prop if available, otherwise fallback to main image
   const imageArray = images.length > 0 
@@ -222,8 +230,21 @@ export const PreviewCard: React.FC<PreviewCardProps> = ({
             ))}
           </div>
         )}
-        
 
+        {/* Save to wishlist without opening the product */}
+        <button
+          type="button"
+          onClick={e => {
+            e.stopPropagation();
+            toggleSaved(id);
+          }}
+          onKeyDown={e => e.stopPropagation()}
+          className="absolute top-2 right-2 p-2 rounded-full bg-white/90 shadow-sm hover:bg-white transition-colors"
+          aria-label={saved ? `Remove ${name} from wishlist` : `Save ${name} to wishlist`}
+          aria-pressed={saved}
+        >
+          <Heart className={`h-4 w-4 ${saved ? 'fill-red-500 text-red-500' : 'text-gray-600'}`} />
+        </button>
       </div>
 
       {/* Product Information - Made longer with better spacing */}
@@ -232,7 +253,9 @@ export const PreviewCard: React.FC<PreviewCardProps> = ({
         <p className="text-xs text-gray-500 uppercase tracking-wide font-medium">{brand}</p>
         
         {/* Product Name */}
-        <h3 className="font-medium text-gray-900 text-sm leading-tight line-clamp-2">{name}</h3>
+        <h3 className="font-medium text-gray-900 text-sm leading-tight line-clamp-2">
+          {highlightedName ? <HighlightedText text={highlightedName} /> : name}
+        </h3>
         
         {/* Price Section */}
         <div className="space-y-1">
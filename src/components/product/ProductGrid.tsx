@@ -60,6 +60,7 @@ export const ProductGrid: React.FC<ProductGridProps> = ({
             onClick={() => onProductClick(product.id)}
             priority={index < 4} // First 4 products get high priority
             index={index}
+            highlightedName={product.search_highlights?.name}
           />
         );
       })}
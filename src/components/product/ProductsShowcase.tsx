@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { useSearchParams, useNavigate } from 'react-router-dom';
 import { 
   ArrowLeft, 
@@ -9,6 +9,10 @@ import {
 } from 'lucide-react';
 import { usePublicProducts } from '../../hooks/usePublicProducts';
 import { useInfiniteScroll } from '../../hooks/useInfiniteScroll';
+import { useProductFacetCounts } from '../../hooks/useProductFacetCounts';
+import { ProductRepository } from '../../lib/database';
+import { logSearch, recordSearchClick } from '../../lib/productSearch';
+import type { ProductFacet, ProductFilters } from '../../types/database';
 import { ProductGrid } from './ProductGrid';
 import ProductSkeleton from './ProductSkeleton';
 
@@ -23,6 +27,20 @@ interface FilterOption {
   options: string[];
 }
 
+// Filter groups applied server-side against product attributes and sizes
+const FACET_KEYS: ProductFacet[] = [
+  'fabric', 'fit', 'collar', 'sleeve', 'closure', 'pattern', 'color', 'style', 'size', 'occasion'
+];
+
+const isFacet = (key: string): key is ProductFacet =>
+  FACET_KEYS.includes(key as ProductFacet);
+
+const buildFacets = (selected: Record<string, string[]>): ProductFilters['facets'] =>
+  FACET_KEYS.reduce((facets, key) => {
+    if (selected[key]?.length) facets[key] = selected[key];
+    return facets;
+  }, {} as NonNullable<ProductFilters['facets']>);
+
 const ProductsShowcase: React.FC = () => {
   const [searchParams, setSearchParams] = useSearchParams();
   const navigate = useNavigate();
@@ -61,6 +79,12 @@ const ProductsShowcase: React.FC = () => {
     category: searchParams.get('category') || undefined,
   });
 
+  // Counts follow the choices in the filter modal before they are applied
+  const facetCounts = useProductFacetCounts({
+    ...filters,
+    facets: buildFacets(selectedFilters),
+  });
+
   // Sort options - keeping only relevant ones
   const sortOptions: SortOption[] = [
     { value: 'discount', label: 'Discount' },
@@ -107,6 +131,54 @@ const ProductsShowcase: React.FC = () => {
   
   const itemCount = pagination?.total || 0;
 
+  // Offer a corrected query when a search finds nothing
+  const [suggestion, setSuggestion] = useState<string | null>(null);
+  useEffect(() => {
+    setSuggestion(null);
+    if (!searchTerm || loading || itemCount > 0) return;
+
+    let cancelled = false;
+    ProductRepository.getSearchSuggestion(searchTerm)
+      .then(result => {
+        if (!cancelled) setSuggestion(result);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [searchTerm, loading, itemCount]);
+
+  // Log each new search once its first page has loaded; paging and filter
+  // changes within the same search are not logged
+  const [searchLogId, setSearchLogId] = useState<string | null>(null);
+  const searchLoadingRef = useRef(false);
+  const loggedSearchRef = useRef<string | undefined>(undefined);
+  useEffect(() => {
+    if (loading) {
+      searchLoadingRef.current = true;
+      return;
+    }
+    if (!searchLoadingRef.current) return;
+    searchLoadingRef.current = false;
+
+    if (filters.search === loggedSearchRef.current) return;
+    loggedSearchRef.current = filters.search;
+    setSearchLogId(null);
+    if (filters.search) {
+      logSearch(filters.search).then(setSearchLogId);
+    }
+  }, [loading, filters.search]);
+
+  const handleProductClick = (productId: string) => {
+    if (searchLogId) recordSearchClick(searchLogId);
+    navigate(`/product/${productId}`);
+  };
+
+  const applySuggestion = (value: string) => {
+    setSearchQuery(value);
+    setSearchParams(new URLSearchParams({ search: value }));
+  };
+
   // Update filters when URL changes
   useEffect(() => {
     const searchFromUrl = searchParams.get('search') || '';
@@ -202,6 +274,8 @@ const ProductsShowcase: React.FC = () => {
     } else {
       delete updatedFilters.has_discount;
     }
+
+    updatedFilters.facets = buildFacets(selectedFilters);
     
     setFilters(updatedFilters);
     setShowFilterModal(false);
@@ -360,7 +434,7 @@ const ProductsShowcase: React.FC = () => {
           <>
             <ProductGrid 
               products={products} 
-              onProductClick={(productId) => navigate(`/product/${productId}`)}
+              onProductClick={handleProductClick}
             />
             
             {/* Infinite Scroll Loading - skeleton for seamless loading */}
@@ -376,7 +450,20 @@ const ProductsShowcase: React.FC = () => {
               <Search className="h-12 w-12 mx-auto mb-4" />
             </div>
             <h3 className="text-lg font-medium text-gray-900 mb-2">No products found</h3>
-            <p className="text-gray-600">Try adjusting your search or filters</p>
+            {suggestion ? (
+              <p className="text-gray-600">
+                Did you mean{' '}
+                <button
+                  onClick={() => applySuggestion(suggestion)}
+                  className="font-medium text-gray-900 underline"
+                >
+                  {suggestion}
+                </button>
+                ?
+              </p>
+            ) : (
+              <p className="text-gray-600">Try adjusting your search or filters</p>
+            )}
           </div>
         )}
 
@@ -447,12 +534,25 @@ const ProductsShowcase: React.FC = () => {
 
             {/* Filter Content */}
             <div className="flex-1 overflow-y-auto p-4">
-              {filterOptions.map((filterGroup) => (
+              {filterOptions.map((filterGroup) => {
+                const categoryKey = filterGroup.category.toLowerCase();
+                const counts = isFacet(categoryKey) && facetCounts ? facetCounts[categoryKey] || {} : null;
+                const countFor = (option: string) => counts?.[option.toLowerCase()] || 0;
+
+                // Hide options no product matches, unless already chosen
+                const visibleOptions = counts
+                  ? filterGroup.options.filter(
+                      (option) => countFor(option) > 0 || selectedFilters[categoryKey]?.includes(option)
+                    )
+                  : filterGroup.options;
+
+                if (visibleOptions.length === 0) return null;
+
+                return (
                 <div key={filterGroup.category} className="mb-6">
                   <h4 className="font-semibold text-gray-900 mb-3">{filterGroup.category}</h4>
                   <div className="grid grid-cols-2 gap-2">
-                    {filterGroup.options.map((option) => {
-                      const categoryKey = filterGroup.category.toLowerCase();
+                    {visibleOptions.map((option) => {
                       const isSelected = selectedFilters[categoryKey]?.includes(option) || false;
                       
                       return (
@@ -466,12 +566,16 @@ const ProductsShowcase: React.FC = () => {
                           }`}
                         >
                           <span className="text-sm font-medium">{option}</span>
+                          {counts && (
+                            <span className="text-sm text-gray-500"> ({countFor(option)})</span>
+                          )}
                         </button>
                       );
                     })}
                   </div>
                 </div>
-              ))}
+                );
+              })}
             </div>
 
             {/* Filter Footer */}
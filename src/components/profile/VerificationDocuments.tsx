@@ -0,0 +1,252 @@
+import React, { useEffect, useState } from "react";
+import {
+  AlertCircle,
+  CheckCircle,
+  Clock,
+  ExternalLink,
+  FileText,
+  Send,
+  ShieldCheck,
+  Upload,
+} from "lucide-react";
+import Button from "../ui/Button";
+import {
+  canEditVerificationDocuments,
+  getVerificationDocumentUrl,
+  listVerificationDocuments,
+  submitBrandVerification,
+  uploadVerificationDocument,
+  VERIFICATION_ACCEPTED_TYPES,
+  VERIFICATION_DOCUMENTS,
+  VERIFICATION_STATUS_LABELS,
+  type BrandVerificationDocument,
+  type VerificationDocumentType,
+  type VerificationStatus,
+} from "../../lib/brandVerification";
+import type { DatabaseBrand } from "../../types/database";
+
+interface VerificationDocumentsProps {
+  brand: DatabaseBrand;
+  onSubmitted: () => void;
+}
+
+const STATUS_STYLES: Record<VerificationStatus, string> = {
+  unverified: "bg-gray-100 text-gray-800",
+  submitted: "bg-blue-100 text-blue-800",
+  changes_requested: "bg-yellow-100 text-yellow-800",
+  verified: "bg-green-100 text-green-800",
+};
+
+const errorMessage = (err: unknown, fallback: string) =>
+  err && typeof err === "object" && "message" in err
+    ? String((err as { message: unknown }).message)
+    : fallback;
+
+export default function VerificationDocuments({
+  brand,
+  onSubmitted,
+}: VerificationDocumentsProps) {
+  const status: VerificationStatus = brand.verification_status ?? "unverified";
+  const editable = canEditVerificationDocuments(status);
+  const [documents, setDocuments] = useState<BrandVerificationDocument[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [uploadingType, setUploadingType] =
+    useState<VerificationDocumentType | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listVerificationDocuments(brand.id)
+      .then(setDocuments)
+      .catch((err) => {
+        console.error("Error loading verification documents:", err);
+        setError("Failed to load your verification documents");
+      })
+      .finally(() => setLoading(false));
+  }, [brand.id]);
+
+  const documentFor = (type: VerificationDocumentType) =>
+    documents.find((doc) => doc.document_type === type);
+  const allUploaded = VERIFICATION_DOCUMENTS.every((doc) =>
+    documentFor(doc.type)
+  );
+
+  const handleUpload = async (
+    type: VerificationDocumentType,
+    e: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setUploadingType(type);
+    setError(null);
+    try {
+      const uploaded = await uploadVerificationDocument(brand.id, type, file);
+      setDocuments((prev) => [
+        ...prev.filter((doc) => doc.document_type !== type),
+        uploaded,
+      ]);
+    } catch (err) {
+      console.error("Error uploading verification document:", err);
+      setError(errorMessage(err, "Failed to upload the document"));
+    } finally {
+      setUploadingType(null);
+    }
+  };
+
+  const handleView = async (doc: BrandVerificationDocument) => {
+    try {
+      const url = await getVerificationDocumentUrl(doc.storage_path);
+      window.open(url, "_blank", "noopener,noreferrer");
+    } catch (err) {
+      console.error("Error opening verification document:", err);
+      setError("Failed to open the document");
+    }
+  };
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      await submitBrandVerification(brand.id);
+      onSubmitted();
+    } catch (err) {
+      console.error("Error submitting verification:", err);
+      setError(errorMessage(err, "Failed to submit your documents"));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+        <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+          <ShieldCheck className="h-5 w-5 mr-2 text-primary-600" />
+          Brand Verification
+        </h3>
+        <span
+          className={`inline-flex items-center self-start px-2.5 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[status]}`}
+        >
+          {VERIFICATION_STATUS_LABELS[status]}
+        </span>
+      </div>
+
+      <p className="text-sm text-gray-600 mb-4">
+        {status === "verified"
+          ? "Your business documents have been verified."
+          : status === "submitted"
+          ? "Your documents are with our team for review. We will notify you once they have been checked."
+          : "Upload your business documents so we can verify your brand. Your products go live once your brand is verified."}
+      </p>
+
+      {status === "changes_requested" && brand.verification_notes && (
+        <div className="mb-4 bg-yellow-50 border border-yellow-200 rounded-lg p-4 flex items-start gap-3">
+          <AlertCircle className="h-5 w-5 text-yellow-600 flex-shrink-0 mt-0.5" />
+          <div>
+            <p className="text-sm font-medium text-yellow-900">
+              Changes requested
+            </p>
+            <p className="text-sm text-yellow-800 mt-1 whitespace-pre-line">
+              {brand.verification_notes}
+            </p>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-4 flex items-start gap-3">
+          <AlertCircle className="h-5 w-5 text-red-500 flex-shrink-0 mt-0.5" />
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="py-8 text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-500 mx-auto"></div>
+        </div>
+      ) : (
+        <div className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+          {VERIFICATION_DOCUMENTS.map(({ type, label, description }) => {
+            const doc = documentFor(type);
+            const inputId = `verification-${type}`;
+
+            return (
+              <div
+                key={type}
+                className="p-4 flex flex-col sm:flex-row sm:items-center gap-3"
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-gray-900 flex items-center gap-2">
+                    {doc ? (
+                      <CheckCircle className="h-4 w-4 text-green-500" />
+                    ) : (
+                      <Clock className="h-4 w-4 text-gray-400" />
+                    )}
+                    {label}
+                  </p>
+                  <p className="text-xs text-gray-500 mt-0.5">
+                    {doc ? (
+                      <button
+                        type="button"
+                        onClick={() => handleView(doc)}
+                        className="inline-flex items-center gap-1 text-primary-600 hover:text-primary-700"
+                      >
+                        <FileText className="h-3 w-3" />
+                        {doc.file_name}
+                        <ExternalLink className="h-3 w-3" />
+                      </button>
+                    ) : (
+                      description
+                    )}
+                  </p>
+                </div>
+                {editable && (
+                  <label
+                    htmlFor={inputId}
+                    className={`inline-flex items-center gap-2 px-3 py-2 text-sm font-medium border border-gray-300 rounded-lg cursor-pointer hover:bg-gray-50 ${
+                      uploadingType === type ? "opacity-50 cursor-wait" : ""
+                    }`}
+                  >
+                    <Upload className="h-4 w-4" />
+                    {uploadingType === type
+                      ? "Uploading..."
+                      : doc
+                      ? "Replace"
+                      : "Upload"}
+                    <input
+                      id={inputId}
+                      type="file"
+                      accept={VERIFICATION_ACCEPTED_TYPES.join(",")}
+                      disabled={uploadingType !== null}
+                      onChange={(e) => handleUpload(type, e)}
+                      className="sr-only"
+                    />
+                  </label>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {editable && (
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mt-4">
+          <p className="text-xs text-gray-500">
+            PDF, JPG or PNG, up to 10MB each. Documents are only visible to
+            brand owners and the Stylsia team.
+          </p>
+          <Button
+            icon={Send}
+            onClick={handleSubmit}
+            loading={submitting}
+            disabled={!allUploaded || submitting || uploadingType !== null}
+          >
+            Submit for Review
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+import { useEffect, useState } from "react";
+import { Copy, KeyRound, RefreshCw, ShoppingBag } from "lucide-react";
+import Button from "../ui/Button";
+import {
+  CLICK_ID_PARAM,
+  getBrandPostbackKey,
+  POSTBACK_ENDPOINT,
+  POSTBACK_KEY_HEADER,
+  rotateBrandPostbackKey,
+  type BrandPostbackKey,
+} from "../../lib/conversionPostbacks";
+
+interface ConversionTrackingPanelProps {
+  brandId: string;
+}
+
+const EXAMPLE_BODY = `{
+  "click_id": "<${CLICK_ID_PARAM} from the landing URL>",
+  "order_id": "1001",
+  "amount": 2499.0,
+  "currency": "INR",
+  "occurred_at": "2025-08-03T10:15:00Z"
+}`;
+
+const errorMessage = (err: unknown, fallback: string) =>
+  err && typeof err === "object" && "message" in err
+    ? String((err as { message: unknown }).message)
+    : fallback;
+
+export default function ConversionTrackingPanel({
+  brandId,
+}: ConversionTrackingPanelProps) {
+  const [postbackKey, setPostbackKey] = useState<BrandPostbackKey | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [rotating, setRotating] = useState(false);
+  const [issuedKey, setIssuedKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getBrandPostbackKey(brandId)
+      .then(setPostbackKey)
+      .catch((err) => {
+        console.error("Error loading postback key:", err);
+        setError("Failed to load your postback key");
+      })
+      .finally(() => setLoading(false));
+  }, [brandId]);
+
+  const handleRotate = async () => {
+    if (
+      postbackKey &&
+      !window.confirm(
+        "Generate a new key? Your store will stop reporting orders until you update it with the new key."
+      )
+    ) {
+      return;
+    }
+
+    setRotating(true);
+    setError(null);
+    try {
+      const key = await rotateBrandPostbackKey(brandId);
+      setIssuedKey(key);
+      setPostbackKey(await getBrandPostbackKey(brandId));
+    } catch (err) {
+      console.error("Error generating postback key:", err);
+      setError(errorMessage(err, "Failed to generate a postback key"));
+    } finally {
+      setRotating(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center space-x-3 mb-6">
+        <div className="p-2 bg-primary-50 rounded-lg">
+          <ShoppingBag className="h-5 w-5 text-primary-600" />
+        </div>
+        <h3 className="text-lg font-semibold text-gray-900">
+          Conversion Tracking
+        </h3>
+      </div>
+
+      <p className="mb-4 text-sm text-gray-600">
+        Store links include a <code className="text-xs">{CLICK_ID_PARAM}</code>{" "}
+        parameter. Send it back with each order from your store so sales show up
+        in your analytics. Each order id is only counted once.
+      </p>
+
+      <div className="space-y-4">
+        <div>
+          <p className="block text-sm font-medium text-gray-700 mb-2">
+            Endpoint
+          </p>
+          <code className="block w-full px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg text-xs text-gray-800 break-all">
+            POST {POSTBACK_ENDPOINT}
+          </code>
+        </div>
+
+        <div>
+          <p className="block text-sm font-medium text-gray-700 mb-2">
+            Postback key
+          </p>
+          {loading ? (
+            <p className="text-sm text-gray-500">Loading...</p>
+          ) : (
+            <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+              <p className="flex-1 text-sm text-gray-600">
+                {postbackKey ? (
+                  <>
+                    <code className="text-xs">{postbackKey.key_prefix}…</code>{" "}
+                    created{" "}
+                    {new Date(postbackKey.created_at).toLocaleDateString()}
+                    {postbackKey.last_used_at
+                      ? `, last used ${new Date(
+                          postbackKey.last_used_at
+                        ).toLocaleString()}`
+                      : ", not used yet"}
+                  </>
+                ) : (
+                  "No key yet. Generate one to start reporting orders."
+                )}
+              </p>
+              <Button
+                variant="outline"
+                icon={postbackKey ? RefreshCw : KeyRound}
+                loading={rotating}
+                onClick={handleRotate}
+              >
+                {postbackKey ? "Rotate Key" : "Generate Key"}
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {issuedKey && (
+          <div className="bg-green-50 border border-green-200 rounded-lg p-4">
+            <p className="text-sm font-medium text-green-900 mb-2">
+              Copy your new key now. It will not be shown again.
+            </p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 px-3 py-2 bg-white border border-green-200 rounded text-xs text-gray-800 break-all">
+                {issuedKey}
+              </code>
+              <Button
+                variant="outline"
+                size="sm"
+                icon={Copy}
+                onClick={() => navigator.clipboard.writeText(issuedKey)}
+              >
+                Copy
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <div>
+          <p className="block text-sm font-medium text-gray-700 mb-2">
+            Request body
+          </p>
+          <p className="text-xs text-gray-500 mb-2">
+            Send the key in the{" "}
+            <code className="text-xs">{POSTBACK_KEY_HEADER}</code> header.
+            Amounts are in INR; orders are attributed to clicks from the 30 days
+            before them.
+          </p>
+          <pre className="px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg text-xs text-gray-800 overflow-x-auto">
+            {EXAMPLE_BODY}
+          </pre>
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+import React, { useEffect, useState } from "react";
+import { Link2, Save } from "lucide-react";
+import Button from "../ui/Button";
+import {
+  getBrandUtmSettings,
+  saveBrandUtmSettings,
+  UTM_VALUE_PATTERN,
+  type BrandUtmSettingsInput,
+} from "../../lib/clickTracking";
+
+interface UtmSettingsPanelProps {
+  brandId: string;
+  canEdit: boolean;
+}
+
+const UTM_FIELDS: Array<{
+  key: "utm_source" | "utm_medium" | "utm_campaign";
+  label: string;
+  placeholder: string;
+}> = [
+  { key: "utm_source", label: "Source", placeholder: "stylsia" },
+  { key: "utm_medium", label: "Medium", placeholder: "referral" },
+  { key: "utm_campaign", label: "Campaign", placeholder: "Optional" },
+];
+
+const errorMessage = (err: unknown, fallback: string) =>
+  err && typeof err === "object" && "message" in err
+    ? String((err as { message: unknown }).message)
+    : fallback;
+
+export default function UtmSettingsPanel({
+  brandId,
+  canEdit,
+}: UtmSettingsPanelProps) {
+  const [settings, setSettings] = useState<BrandUtmSettingsInput | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    getBrandUtmSettings(brandId)
+      .then(setSettings)
+      .catch((err) => {
+        console.error("Error loading UTM settings:", err);
+        setError("Failed to load your link settings");
+      });
+  }, [brandId]);
+
+  const updateField = (
+    key: keyof BrandUtmSettingsInput,
+    value: string | boolean
+  ) => {
+    setSaved(false);
+    setSettings((prev) => (prev ? { ...prev, [key]: value } : prev));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!settings) return;
+
+    const invalid = UTM_FIELDS.find(
+      ({ key }) => !UTM_VALUE_PATTERN.test(settings[key] || "")
+    );
+    if (invalid) {
+      setError(
+        `${invalid.label} can only contain letters, numbers, dots, dashes, underscores and tildes`
+      );
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      await saveBrandUtmSettings(brandId, settings);
+      setSaved(true);
+    } catch (err) {
+      console.error("Error saving UTM settings:", err);
+      setError(errorMessage(err, "Failed to save your link settings"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center space-x-3 mb-6">
+        <div className="p-2 bg-primary-50 rounded-lg">
+          <Link2 className="h-5 w-5 text-primary-600" />
+        </div>
+        <h3 className="text-lg font-semibold text-gray-900">Store Links</h3>
+      </div>
+
+      <p className="mb-4 text-sm text-gray-600">
+        Shoppers who click "Buy Now" are sent to your store with these UTM
+        parameters, so the traffic shows up in your own analytics.
+        {!canEdit && " Only a brand owner can change them."}
+      </p>
+
+      {!settings ? (
+        error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : (
+          <div className="py-4 text-center">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary-500 mx-auto"></div>
+          </div>
+        )
+      ) : (
+        <form className="space-y-4" onSubmit={handleSave}>
+          <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+            <input
+              type="checkbox"
+              checked={settings.enabled}
+              disabled={!canEdit}
+              onChange={(e) => updateField("enabled", e.target.checked)}
+              className="h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+            />
+            Add UTM parameters to store links
+          </label>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            {UTM_FIELDS.map(({ key, label, placeholder }) => (
+              <div key={key}>
+                <label
+                  htmlFor={key}
+                  className="block text-sm font-medium text-gray-700 mb-2"
+                >
+                  {label}
+                </label>
+                <input
+                  id={key}
+                  type="text"
+                  value={settings[key] || ""}
+                  placeholder={placeholder}
+                  disabled={!canEdit || !settings.enabled}
+                  onChange={(e) => updateField(key, e.target.value.trim())}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent disabled:bg-gray-50 disabled:text-gray-500"
+                />
+              </div>
+            ))}
+          </div>
+
+          <p className="text-xs text-gray-500">
+            Parameters already on a product's URL are kept as they are.
+          </p>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          {canEdit && (
+            <div className="flex items-center justify-end gap-3">
+              {saved && <span className="text-sm text-green-600">Saved</span>}
+              <Button type="submit" icon={Save} loading={saving}>
+                Save Link Settings
+              </Button>
+            </div>
+          )}
+        </form>
+      )}
+    </div>
+  );
+}
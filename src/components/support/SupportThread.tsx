@@ -0,0 +1,357 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { AlertCircle, Lock, Paperclip, Send, X } from "lucide-react";
+import Button from "../ui/Button";
+import CannedResponsePicker from "../admin/CannedResponsePicker";
+import {
+  CannedResponseRepository,
+  SupportRequestRepository,
+  DatabaseError,
+} from "../../lib/database";
+import {
+  fillCannedResponse,
+  type CannedResponseContext,
+} from "../../lib/cannedResponses";
+import { uploadMultipleFiles, STORAGE_BUCKETS } from "../../lib/storage";
+import type {
+  DatabaseSupportCannedResponse,
+  DatabaseSupportMessage,
+  DatabaseSupportRequest,
+} from "../../types/database";
+
+const MAX_ATTACHMENTS = 5;
+const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+
+interface SupportThreadProps {
+  request: Pick<
+    DatabaseSupportRequest,
+    | "id"
+    | "brand_id"
+    | "description"
+    | "attachment_url"
+    | "attachment_urls"
+    | "created_at"
+  >;
+  // Admins see internal notes and can add them
+  viewer: "brand" | "admin";
+  // Values for canned response placeholders (admin only)
+  templateContext?: CannedResponseContext;
+  // Brand viewers can follow the conversation but not reply
+  readOnly?: boolean;
+  onMessagePosted?: (isInternal: boolean) => void;
+}
+
+interface ThreadEntry {
+  id: string;
+  author_role: DatabaseSupportMessage["author_role"];
+  body: string;
+  attachment_urls: string[];
+  is_internal: boolean;
+  created_at: string;
+}
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+export default function SupportThread({
+  request,
+  viewer,
+  templateContext,
+  readOnly = false,
+  onMessagePosted,
+}: SupportThreadProps) {
+  const [messages, setMessages] = useState<DatabaseSupportMessage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [body, setBody] = useState("");
+  const [attachments, setAttachments] = useState<File[]>([]);
+  const [isInternal, setIsInternal] = useState(false);
+  const [sending, setSending] = useState(false);
+  // Templates inserted into the current draft, counted once the reply is sent
+  const [usedTemplateIds, setUsedTemplateIds] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const isAdmin = viewer === "admin";
+  const accent = isAdmin ? "focus:ring-red-500" : "focus:ring-primary-500";
+
+  const fetchMessages = useCallback(async () => {
+    try {
+      setError(null);
+      setMessages(await SupportRequestRepository.getMessages(request.id));
+    } catch (err) {
+      console.error("Failed to load support thread:", err);
+      setError("Failed to load the conversation. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  }, [request.id]);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchMessages();
+  }, [fetchMessages]);
+
+  // The original request is shown as the first message in the thread
+  const entries: ThreadEntry[] = [
+    {
+      id: `${request.id}-opening`,
+      author_role: "brand",
+      body: request.description,
+      attachment_urls:
+        request.attachment_urls && request.attachment_urls.length > 0
+          ? request.attachment_urls
+          : request.attachment_url
+            ? [request.attachment_url]
+            : [],
+      is_internal: false,
+      created_at: request.created_at,
+    },
+    ...messages,
+  ];
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = "";
+
+    if (files.some((file) => file.size > MAX_ATTACHMENT_SIZE)) {
+      setError("Each attachment must be 10MB or smaller");
+      return;
+    }
+    if (attachments.length + files.length > MAX_ATTACHMENTS) {
+      setError(`You can attach up to ${MAX_ATTACHMENTS} files per reply`);
+      return;
+    }
+
+    setError(null);
+    setAttachments((prev) => [...prev, ...files]);
+  };
+
+  const handleInsertTemplate = (response: DatabaseSupportCannedResponse) => {
+    const text = fillCannedResponse(response.body, templateContext || {});
+    setBody((prev) => (prev.trim() ? `${prev.trimEnd()}\n\n${text}` : text));
+    setUsedTemplateIds((prev) =>
+      prev.includes(response.id) ? prev : [...prev, response.id]
+    );
+  };
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!body.trim()) return;
+
+    setSending(true);
+    setError(null);
+    try {
+      let attachmentUrls: string[] = [];
+      if (attachments.length > 0) {
+        const uploads = await uploadMultipleFiles(
+          attachments,
+          STORAGE_BUCKETS.SUPPORT_ATTACHMENTS,
+          `brand_${request.brand_id}`
+        );
+        attachmentUrls = uploads.map((upload) => upload.url);
+      }
+
+      const internal = isAdmin && isInternal;
+      await SupportRequestRepository.addMessage(
+        request.id,
+        body,
+        attachmentUrls,
+        internal
+      );
+
+      // Usage counts are best-effort and must not fail the reply
+      await Promise.all(
+        usedTemplateIds.map((id) =>
+          CannedResponseRepository.recordUsage(id).catch((err) =>
+            console.warn("Failed to record template usage:", err)
+          )
+        )
+      );
+
+      setBody("");
+      setAttachments([]);
+      setIsInternal(false);
+      setUsedTemplateIds([]);
+      await fetchMessages();
+      onMessagePosted?.(internal);
+    } catch (err) {
+      console.error("Failed to send support reply:", err);
+      setError(
+        err instanceof DatabaseError
+          ? err.message
+          : "Failed to send your reply. Please try again."
+      );
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const renderEntry = (entry: ThreadEntry) => {
+    const isOwn = entry.author_role === viewer;
+    const bubbleClass = entry.is_internal
+      ? "bg-amber-50 border border-amber-200"
+      : isOwn
+        ? "bg-gray-100"
+        : "bg-white border border-gray-200";
+
+    return (
+      <div
+        key={entry.id}
+        className={`flex ${isOwn ? "justify-end" : "justify-start"}`}
+      >
+        <div className={`max-w-[85%] rounded-lg p-3 ${bubbleClass}`}>
+          <div className="flex items-center gap-2 mb-1 text-xs text-gray-500">
+            <span className="font-medium text-gray-700">
+              {entry.author_role === "admin"
+                ? "Stylsia Support"
+                : isAdmin
+                  ? "Brand"
+                  : "You"}
+            </span>
+            {entry.is_internal && (
+              <span className="inline-flex items-center gap-1 text-amber-700">
+                <Lock className="h-3 w-3" />
+                Internal note
+              </span>
+            )}
+            <span>{formatDate(entry.created_at)}</span>
+          </div>
+          <p className="text-sm text-gray-900 whitespace-pre-wrap">
+            {entry.body}
+          </p>
+          {entry.attachment_urls.length > 0 && (
+            <div className="mt-2 space-y-1">
+              {entry.attachment_urls.map((url, index) => (
+                <a
+                  key={url}
+                  href={url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center gap-1 text-xs text-gray-600 hover:text-gray-900 underline"
+                >
+                  <Paperclip className="h-3 w-3 flex-shrink-0" />
+                  <span className="truncate">
+                    {url.split("/").pop() || `attachment_${index + 1}`}
+                  </span>
+                </a>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      {loading ? (
+        <div className="py-6 text-center">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-gray-400 mx-auto"></div>
+        </div>
+      ) : (
+        <div className="space-y-3 max-h-96 overflow-y-auto pr-1">
+          {entries.map(renderEntry)}
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-start gap-2">
+          <AlertCircle className="h-4 w-4 text-red-500 flex-shrink-0 mt-0.5" />
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      {!readOnly && (
+        <form onSubmit={handleSend} className="space-y-3">
+          <textarea
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            rows={3}
+            placeholder={
+              isAdmin && isInternal
+                ? "Add a note only admins can see..."
+                : "Write a reply..."
+            }
+            className={`w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 ${accent} focus:border-transparent text-sm ${
+              isAdmin && isInternal ? "bg-amber-50" : ""
+            }`}
+          />
+
+          {attachments.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {attachments.map((file, index) => (
+                <span
+                  key={`${file.name}-${index}`}
+                  className="inline-flex items-center gap-1 px-2 py-1 bg-gray-100 rounded text-xs text-gray-700"
+                >
+                  <Paperclip className="h-3 w-3" />
+                  {file.name}
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setAttachments((prev) =>
+                        prev.filter((_, i) => i !== index)
+                      )
+                    }
+                    className="text-gray-400 hover:text-gray-600"
+                    aria-label={`Remove ${file.name}`}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="flex items-center gap-4">
+              <input
+                ref={fileInputRef}
+                type="file"
+                multiple
+                onChange={handleFileChange}
+                className="hidden"
+              />
+              <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                className="inline-flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900"
+              >
+                <Paperclip className="h-4 w-4" />
+                Attach files
+              </button>
+              {isAdmin && (
+                <CannedResponsePicker onSelect={handleInsertTemplate} />
+              )}
+              {isAdmin && (
+                <label className="inline-flex items-center gap-2 text-sm text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={isInternal}
+                    onChange={(e) => setIsInternal(e.target.checked)}
+                    className="rounded border-gray-300"
+                  />
+                  Internal note
+                </label>
+              )}
+            </div>
+            <Button
+              type="submit"
+              size="sm"
+              icon={Send}
+              loading={sending}
+              disabled={!body.trim()}
+            >
+              {isAdmin && isInternal ? "Add Note" : "Send Reply"}
+            </Button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -30,6 +30,16 @@ export const publicProductsMeta: PageMetaProps = {
   type: "website",
 };
 
+// Wishlist page meta data (Public)
+export const wishlistMeta: PageMetaProps = {
+  title: "My Wishlist",
+  description:
+    "The fashion products you saved on Stylsia. Keep track of styles you love and come back to them anytime.",
+  keywords: "wishlist, saved products, favourites, stylsia wishlist",
+  type: "website",
+  noIndex: true,
+};
+
 // Partner Products page meta data
 export const productsMeta: PageMetaProps = {
   title: "My Products",
@@ -74,6 +84,16 @@ export const profileMeta: PageMetaProps = {
   noIndex: true,
 };
 
+// Team page meta data
+export const teamMeta: PageMetaProps = {
+  title: "Team",
+  description:
+    "Manage who can work on your brand in the Stylsia partner dashboard. Invite team members and choose what each of them can change.",
+  keywords: "team, team members, invitations, roles, brand access",
+  type: "website",
+  noIndex: true,
+};
+
 // Settings page meta data
 export const settingsMeta: PageMetaProps = {
   title: "Settings",
@@ -7,12 +7,20 @@ import React, {
 } from "react";
 import { User, Session } from "@supabase/supabase-js";
 import { supabase } from "../lib/supabase";
+import {
+  hasAdminPermission,
+  resolveAdminRole,
+  type AdminPermission,
+  type AdminRole,
+} from "../lib/adminAuth";
 
 interface AdminAuthContextType {
   user: User | null;
   session: Session | null;
   loading: boolean;
   isAdmin: boolean;
+  role: AdminRole | null;
+  hasPermission: (permission: AdminPermission) => boolean;
   signIn: (
     email: string,
     password: string,
@@ -39,16 +47,10 @@ const REMEMBER_ME_DURATION = 30 * 24 * 60 * 60 * 1000; // 30 days in millisecond
 const INACTIVITY_TIMEOUT = 2 * 60 * 60 * 1000; // 2 hours in milliseconds
 const REFRESH_THRESHOLD = 5 * 60 * 1000; // Refresh if session expires within 5 minutes
 
-// Admin email whitelist
-const ADMIN_EMAILS = [
-  "admin@stylsia.com",
-  "support@stylsia.com",
-  "manager@stylsia.com",
-];
-
 export function AdminAuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
+  const [role, setRole] = useState<AdminRole | null>(null);
   const [loading, setLoading] = useState(true);
   const [sessionExpiry, setSessionExpiry] = useState<Date | null>(null);
   const [lastActivity, setLastActivity] = useState<Date>(new Date());
@@ -124,9 +126,15 @@ export function AdminAuthProvider({ children }: { children: React.ReactNode }) {
       setSessionExpiry(expiry);
       setLastActivity(lastActivityTime);
 
-      // Create user for stored session
+      // Create user for stored session, as long as they are still an admin
       if (sessionData.user) {
+        const adminRole = await resolveAdminRole();
+        if (!adminRole) {
+          clearSession();
+          return false;
+        }
         setUser(sessionData.user);
+        setRole(adminRole);
         return true;
       }
 
@@ -147,6 +155,7 @@ export function AdminAuthProvider({ children }: { children: React.ReactNode }) {
     setSession(null);
     setSessionExpiry(null);
     setUser(null);
+    setRole(null);
   }, []);
 
   // Refresh session if needed
@@ -215,12 +224,12 @@ export function AdminAuthProvider({ children }: { children: React.ReactNode }) {
         } = await supabase.auth.getSession();
 
         if (currentSession && mounted) {
-          const userEmail = currentSession.user?.email?.toLowerCase() || "";
-          const isAdminUser = ADMIN_EMAILS.includes(userEmail);
+          const adminRole = await resolveAdminRole();
 
-          if (isAdminUser) {
+          if (adminRole && mounted) {
             setSession(currentSession);
             setUser(currentSession.user);
+            setRole(adminRole);
             saveSession(currentSession, false);
           }
         }
@@ -244,15 +253,17 @@ export function AdminAuthProvider({ children }: { children: React.ReactNode }) {
       if (event === "SIGNED_OUT" || !session) {
         clearSession();
       } else if (event === "SIGNED_IN" && session) {
-        const userEmail = session.user?.email?.toLowerCase() || "";
-        const isAdminUser = ADMIN_EMAILS.includes(userEmail);
+        // Not awaited: Supabase calls made while this callback is still
+        // running wait on the auth lock it holds
+        resolveAdminRole().then((adminRole) => {
+          if (!adminRole || !mounted) return;
 
-        if (isAdminUser) {
           setSession(session);
           setUser(session.user);
+          setRole(adminRole);
           saveSession(session, false);
           updateActivity();
-        }
+        });
       }
     });
 
@@ -314,15 +325,6 @@ export function AdminAuthProvider({ children }: { children: React.ReactNode }) {
     try {
       setLoading(true);
 
-      // Check if email is in admin whitelist
-      if (!ADMIN_EMAILS.includes(email.toLowerCase())) {
-        return {
-          success: false,
-          error:
-            "Access denied. This email is not authorized for admin access.",
-        };
-      }
-
       // Always try Supabase authentication to get a valid JWT
       const { data, error } = await supabase.auth.signInWithPassword({
         email,
@@ -334,31 +336,19 @@ export function AdminAuthProvider({ children }: { children: React.ReactNode }) {
       }
 
       if (data.session) {
-        // Verify the user is still in the admin whitelist after successful auth
-        const userEmail = data.session.user?.email?.toLowerCase() || "";
-        if (!ADMIN_EMAILS.includes(userEmail)) {
+        // Admin access comes from the server-side role, not the email
+        const adminRole = await resolveAdminRole();
+        if (!adminRole) {
           // Sign out from Supabase if not authorized
           await supabase.auth.signOut();
           return {
             success: false,
             error:
-              "Access denied. This email is not authorized for admin access.",
+              "Access denied. This account is not authorized for admin access.",
           };
         }
 
-        // Try to update user metadata to include admin role
-        try {
-          await supabase.auth.updateUser({
-            data: {
-              role: "admin",
-              updated_at: new Date().toISOString(),
-            },
-          });
-        } catch (metadataError) {
-          console.warn("Could not update user metadata:", metadataError);
-          // Continue anyway as this is not critical for basic functionality
-        }
-
+        setRole(adminRole);
         saveSession(data.session, rememberMe);
         updateActivity();
       }
@@ -393,9 +383,12 @@ export function AdminAuthProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
-  const isAdmin = user
-    ? ADMIN_EMAILS.includes(user.email?.toLowerCase() || "")
-    : false;
+  const isAdmin = Boolean(user && role);
+
+  const hasPermission = useCallback(
+    (permission: AdminPermission) => hasAdminPermission(role, permission),
+    [role]
+  );
 
   return (
     <AdminAuthContext.Provider
@@ -406,6 +399,8 @@ export function AdminAuthProvider({ children }: { children: React.ReactNode }) {
         signIn,
         signOut,
         isAdmin,
+        role,
+        hasPermission,
         sessionExpiry,
         refreshSession,
         isSessionValid,
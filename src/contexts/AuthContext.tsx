@@ -1,19 +1,66 @@
-import React, { createContext, useContext, useEffect, useState } from 'react';
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase, checkBrandApproval } from '../lib/supabase';
+import { resolveBrandMemberships, type BrandMembership, type BrandRole } from '../lib/brandTeam';
+import {
+  acceptOnboardingInvitation,
+  createOnboardingClaim,
+  isInvitationRejected,
+} from '../lib/brandInvitations';
+
+const ACTIVE_BRAND_STORAGE_KEY = 'stylsia.activeBrandId';
+// User metadata key for the claim code of an invitation accepted at signup
+// but waiting for the first session, e.g. when the email is confirmed on
+// another device. The code expires within a day; the token is never stored.
+const PENDING_INVITATION_METADATA_KEY = 'pending_invitation_claim';
+const INVITATION_CLAIM_ATTEMPTS = 3;
 
 interface AuthContextType {
   user: User | null;
   session: Session | null;
   loading: boolean;
   signIn: (email: string, password: string) => Promise<{ error?: any }>;
-  signUp: (email: string, password: string, brandName: string) => Promise<{ error?: any }>;
+  signUp: (
+    email: string,
+    password: string,
+    brandName: string,
+    invitationToken?: string
+  ) => Promise<{ error?: any; needsConfirmation?: boolean }>;
   signOut: () => Promise<void>;
   connectionError: boolean;
+  // Brand the dashboard is working on, resolved from team membership. Null
+  // until memberships have loaded for the signed-in user.
+  brandId: string | null;
+  brandRole: BrandRole | null;
+  memberships: BrandMembership[];
+  setActiveBrand: (brandId: string) => void;
+  refreshMemberships: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+// Accepts a pending invitation, retrying failed requests. Settled once the
+// server accepted or refused it; otherwise the next refresh tries again.
+const claimPendingInvitation = async (
+  claim: string
+): Promise<{ brandId: string | null; settled: boolean }> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return { brandId: await acceptOnboardingInvitation(claim), settled: true };
+    } catch (error) {
+      if (isInvitationRejected(error)) {
+        console.error('Brand invitation was refused:', error);
+        return { brandId: null, settled: true };
+      }
+      if (attempt >= INVITATION_CLAIM_ATTEMPTS) {
+        console.error('Error accepting brand invitation:', error);
+        return { brandId: null, settled: false };
+      }
+      await new Promise((resolve) => setTimeout(resolve, attempt * 1000));
+    }
+  }
+};
+
 export const useAuth = () => {
   const context = useContext(AuthContext);
   if (context === undefined) {
@@ -27,6 +74,14 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [session, setSession] = useState<Session | null>(null);
   const [loading, setLoading] = useState(true);
   const [connectionError, setConnectionError] = useState(false);
+  // Keyed by user so memberships are never used for someone else
+  const [membershipState, setMembershipState] = useState<{
+    userId: string;
+    memberships: BrandMembership[];
+  } | null>(null);
+  const [activeBrandId, setActiveBrandId] = useState<string | null>(() =>
+    localStorage.getItem(ACTIVE_BRAND_STORAGE_KEY)
+  );
 
   useEffect(() => {
     let mounted = true;
@@ -120,6 +175,66 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     };
   }, []);
 
+  const userId = user?.id;
+  const pendingInvitation: string | undefined =
+    user?.user_metadata?.[PENDING_INVITATION_METADATA_KEY] || undefined;
+
+  const refreshMemberships = useCallback(async () => {
+    if (!userId) return;
+
+    if (pendingInvitation) {
+      // Claim the invited brand before resolving memberships
+      const { brandId: invitedBrandId, settled } =
+        await claimPendingInvitation(pendingInvitation);
+      if (invitedBrandId) {
+        localStorage.setItem(ACTIVE_BRAND_STORAGE_KEY, invitedBrandId);
+        setActiveBrandId(invitedBrandId);
+      }
+
+      // Kept after a failed request so the claim is retried later
+      if (settled) {
+        const { error: clearError } = await supabase.auth.updateUser({
+          data: { [PENDING_INVITATION_METADATA_KEY]: null },
+        });
+        if (clearError) {
+          console.error('Error clearing pending invitation:', clearError);
+        }
+      }
+    }
+
+    try {
+      const memberships = await resolveBrandMemberships();
+      setMembershipState({ userId, memberships });
+    } catch (error) {
+      console.error('Error resolving brand memberships:', error);
+      setMembershipState({ userId, memberships: [] });
+    }
+  }, [userId, pendingInvitation]);
+
+  useEffect(() => {
+    refreshMemberships();
+  }, [refreshMemberships]);
+
+  const setActiveBrand = useCallback((nextBrandId: string) => {
+    localStorage.setItem(ACTIVE_BRAND_STORAGE_KEY, nextBrandId);
+    setActiveBrandId(nextBrandId);
+  }, []);
+
+  const memberships =
+    user && membershipState?.userId === user.id ? membershipState.memberships : [];
+  const membershipsLoaded = Boolean(user && membershipState?.userId === user.id);
+  const activeMembership =
+    memberships.find((membership) => membership.brand_id === activeBrandId) ?? memberships[0];
+
+  // Accounts without a membership yet (e.g. right after sign-up) work on the
+  // brand created with their own id, as before team support. Invited owners
+  // have no such brand, so they wait for their invitation to be claimed.
+  const brandId =
+    !user || !membershipsLoaded
+      ? null
+      : activeMembership?.brand_id ?? (pendingInvitation ? null : user.id);
+  const brandRole: BrandRole | null = !brandId ? null : activeMembership?.role ?? 'owner';
+
   const signIn = async (email: string, password: string) => {
     try {
       setConnectionError(false);
@@ -145,12 +260,18 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
-  const signUp = async (email: string, password: string, brandName: string) => {
+  const signUp = async (
+    email: string,
+    password: string,
+    brandName: string,
+    invitationToken?: string
+  ) => {
     try {
       setConnectionError(false);
       
-      // Check if brand is approved
-      if (!checkBrandApproval(email)) {
+      // Check if brand is approved. An invitation is the approval: the admin
+      // already created the brand.
+      if (!invitationToken && !checkBrandApproval(email)) {
         return { 
           error: { 
             message: 'Your brand is not yet approved for our platform. Please contact support for approval.' 
@@ -158,13 +279,29 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         };
       }
 
+      // The invitation is accepted once the new account has a session, which
+      // can be right away or after the email is confirmed, possibly in another
+      // browser. The account carries a claim code for it so the membership
+      // refresh on sign-in picks it up wherever that happens.
+      let invitationClaim: string | undefined;
+      if (invitationToken) {
+        try {
+          invitationClaim = await createOnboardingClaim(invitationToken);
+        } catch (error) {
+          return { error };
+        }
+      }
+
       const { data, error } = await supabase.auth.signUp({
         email,
         password,
         options: {
           data: {
             brand_name: brandName,
-            role: 'brand'
+            role: 'brand',
+            ...(invitationClaim && {
+              [PENDING_INVITATION_METADATA_KEY]: invitationClaim,
+            }),
           }
         }
       });
@@ -173,6 +310,10 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         return { error };
       }
 
+      if (invitationToken) {
+        return { data, needsConfirmation: !data.session };
+      }
+
       // Create brand record if signup successful
       if (data.user) {
         const { error: brandError } = await supabase
@@ -182,7 +323,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
               id: data.user.id,
               name: brandName,
               contact_email: email,
-              status: 'active'
+              // Brands go live once their documents are verified
+              status: 'pending'
             }
           ]);
 
@@ -220,6 +362,11 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     signUp,
     signOut,
     connectionError,
+    brandId,
+    brandRole,
+    memberships,
+    setActiveBrand,
+    refreshMemberships,
   };
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
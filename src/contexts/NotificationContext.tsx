@@ -1,26 +1,229 @@
-import React, { createContext, useContext, ReactNode } from 'react';
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  ReactNode,
+} from "react";
+import { supabase } from "../lib/supabase";
+import { NotificationRepository } from "../lib/database";
+import { useAuth } from "./AuthContext";
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  type Notification as InAppNotification,
+  type NotificationContextType,
+  type NotificationPreferences,
+} from "../types/notifications";
 
-// Minimal notification context to prevent import errors
-// This is a placeholder implementation since the notification system has been removed
+const NotificationContext = createContext<NotificationContextType | undefined>(
+  undefined
+);
 
-interface NotificationContextType {
-  notifications: never[];
-  addNotification: (notification: any) => void;
-  removeNotification: (id: string) => void;
-  markAsRead: (id: string) => void;
-  markAllAsRead: () => void;
+// Mirror a new notification as a browser notification when the brand opted in
+function showBrowserNotification(notification: InAppNotification) {
+  if (typeof window === "undefined" || !("Notification" in window)) return;
+  if (window.Notification.permission !== "granted") return;
+
+  const browserNotification = new window.Notification(notification.title, {
+    body: notification.message,
+    icon: "/img/logo.png",
+    tag: notification.id,
+  });
+
+  if (notification.action_url) {
+    const actionUrl = notification.action_url;
+    browserNotification.onclick = () => {
+      window.focus();
+      window.location.assign(actionUrl);
+    };
+  }
 }
 
-const NotificationContext = createContext<NotificationContextType | undefined>(undefined);
+export const NotificationProvider: React.FC<{ children: ReactNode }> = ({
+  children,
+}) => {
+  const { brandId } = useAuth();
+  const [notifications, setNotifications] = useState<InAppNotification[]>([]);
+  const [preferences, setPreferences] = useState<NotificationPreferences>(
+    DEFAULT_NOTIFICATION_PREFERENCES
+  );
+  const [loading, setLoading] = useState(false);
+
+  // Read from the realtime callback without resubscribing on every change
+  const preferencesRef = useRef(preferences);
+  preferencesRef.current = preferences;
+
+  const fetchNotifications = useCallback(async () => {
+    if (!brandId) {
+      setNotifications([]);
+      setPreferences(DEFAULT_NOTIFICATION_PREFERENCES);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const [rows, savedPreferences] = await Promise.all([
+        NotificationRepository.getByBrandId(brandId),
+        NotificationRepository.getPreferences(brandId),
+      ]);
+      setNotifications(rows);
+      setPreferences({
+        ...DEFAULT_NOTIFICATION_PREFERENCES,
+        ...savedPreferences,
+      });
+    } catch (error) {
+      console.error("Failed to load notifications:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [brandId]);
 
-export const NotificationProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
-  const value: NotificationContextType = {
-    notifications: [],
-    addNotification: () => {},
-    removeNotification: () => {},
-    markAsRead: () => {},
-    markAllAsRead: () => {},
-  };
+  useEffect(() => {
+    fetchNotifications();
+  }, [fetchNotifications]);
+
+  // Live updates for this brand's notifications
+  useEffect(() => {
+    if (!brandId) return;
+
+    const subscription = supabase
+      .channel(`notifications:${brandId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "notifications",
+          filter: `brand_id=eq.${brandId}`,
+        },
+        (payload) => {
+          const notification = payload.new as InAppNotification;
+          setNotifications((prev) =>
+            prev.some((n) => n.id === notification.id)
+              ? prev
+              : [notification, ...prev]
+          );
+          if (preferencesRef.current.push_notifications) {
+            showBrowserNotification(notification);
+          }
+        }
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "notifications",
+          filter: `brand_id=eq.${brandId}`,
+        },
+        (payload) => {
+          const notification = payload.new as InAppNotification;
+          setNotifications((prev) =>
+            prev.map((n) => (n.id === notification.id ? notification : n))
+          );
+        }
+      )
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [brandId]);
+
+  const markAsRead = useCallback(
+    async (id: string) => {
+      if (!brandId) return;
+
+      setNotifications((prev) =>
+        prev.map((n) => (n.id === id ? { ...n, read: true } : n))
+      );
+      try {
+        await NotificationRepository.markAsRead(brandId, [id]);
+      } catch (error) {
+        console.error("Failed to mark notification as read:", error);
+        await fetchNotifications();
+      }
+    },
+    [brandId, fetchNotifications]
+  );
+
+  const markAllAsRead = useCallback(async () => {
+    if (!brandId) return;
+
+    setNotifications((prev) => prev.map((n) => ({ ...n, read: true })));
+    try {
+      await NotificationRepository.markAsRead(brandId);
+    } catch (error) {
+      console.error("Failed to mark notifications as read:", error);
+      await fetchNotifications();
+    }
+  }, [brandId, fetchNotifications]);
+
+  const deleteNotification = useCallback(
+    async (id: string) => {
+      setNotifications((prev) => prev.filter((n) => n.id !== id));
+      try {
+        await NotificationRepository.delete(id);
+      } catch (error) {
+        console.error("Failed to delete notification:", error);
+        await fetchNotifications();
+      }
+    },
+    [fetchNotifications]
+  );
+
+  const updatePreferences = useCallback(
+    async (updates: Partial<NotificationPreferences>) => {
+      if (!brandId) return;
+
+      const previous = preferencesRef.current;
+      const next = { ...previous, ...updates };
+      setPreferences(next);
+
+      if (
+        updates.push_notifications &&
+        "Notification" in window &&
+        window.Notification.permission === "default"
+      ) {
+        await window.Notification.requestPermission();
+      }
+
+      try {
+        await NotificationRepository.savePreferences(brandId, next);
+      } catch (error) {
+        setPreferences(previous);
+        throw error;
+      }
+    },
+    [brandId]
+  );
+
+  const value = useMemo<NotificationContextType>(
+    () => ({
+      notifications,
+      unreadCount: notifications.filter((n) => !n.read).length,
+      preferences,
+      loading,
+      markAsRead,
+      markAllAsRead,
+      deleteNotification,
+      updatePreferences,
+      fetchNotifications,
+    }),
+    [
+      notifications,
+      preferences,
+      loading,
+      markAsRead,
+      markAllAsRead,
+      deleteNotification,
+      updatePreferences,
+      fetchNotifications,
+    ]
+  );
 
   return (
     <NotificationContext.Provider value={value}>
@@ -32,7 +235,9 @@ export const NotificationProvider: React.FC<{ children: ReactNode }> = ({ childr
 export const useNotifications = (): NotificationContextType => {
   const context = useContext(NotificationContext);
   if (context === undefined) {
-    throw new Error('useNotifications must be used within a NotificationProvider');
+    throw new Error(
+      "useNotifications must be used within a NotificationProvider"
+    );
   }
   return context;
-};
\ No newline at end of file
+};
@@ -0,0 +1,110 @@
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useState,
+  ReactNode,
+} from "react";
+import { useAuth } from "./AuthContext";
+import { WishlistContext } from "../hooks/useWishlist";
+import {
+  addToAccountWishlist,
+  addToLocalWishlist,
+  getAccountWishlist,
+  getLocalWishlist,
+  mergeLocalWishlist,
+  recordProductSave,
+  removeFromAccountWishlist,
+  removeFromLocalWishlist,
+} from "../lib/wishlist";
+
+export const WishlistProvider: React.FC<{ children: ReactNode }> = ({
+  children,
+}) => {
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+  const [productIds, setProductIds] = useState<string[]>(getLocalWishlist);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!userId) {
+      setProductIds(getLocalWishlist());
+      return;
+    }
+
+    let cancelled = false;
+    const loadAccountWishlist = async () => {
+      setLoading(true);
+      try {
+        // Items saved before signing in move onto the account
+        await mergeLocalWishlist(userId).catch((error) =>
+          console.error("Failed to merge wishlist:", error)
+        );
+        const ids = await getAccountWishlist(userId);
+        if (!cancelled) setProductIds(ids);
+      } catch (error) {
+        console.error("Failed to load wishlist:", error);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadAccountWishlist();
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const isSaved = useCallback(
+    (productId: string) => productIds.includes(productId),
+    [productIds]
+  );
+
+  const toggleSaved = useCallback(
+    async (productId: string) => {
+      const saving = !productIds.includes(productId);
+
+      if (!userId) {
+        setProductIds(
+          saving
+            ? addToLocalWishlist(productId)
+            : removeFromLocalWishlist(productId)
+        );
+        if (saving) recordProductSave(productId);
+        return;
+      }
+
+      // Update right away and roll back if the account could not be updated
+      const previous = productIds;
+      setProductIds(
+        saving
+          ? [productId, ...previous]
+          : previous.filter((id) => id !== productId)
+      );
+
+      try {
+        if (saving) {
+          await addToAccountWishlist(userId, productId);
+          recordProductSave(productId);
+        } else {
+          await removeFromAccountWishlist(userId, productId);
+        }
+      } catch (error) {
+        console.error("Failed to update wishlist:", error);
+        setProductIds(previous);
+      }
+    },
+    [productIds, userId]
+  );
+
+  const value = useMemo(
+    () => ({ productIds, loading, isSaved, toggleSaved }),
+    [productIds, loading, isSaved, toggleSaved]
+  );
+
+  return (
+    <WishlistContext.Provider value={value}>
+      {children}
+    </WishlistContext.Provider>
+  );
+};
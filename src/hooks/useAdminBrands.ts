@@ -1,10 +1,15 @@
 import { useState, useEffect, useCallback } from "react";
 import { supabase } from "../lib/supabase";
+import {
+  listBrandOnboardingProgress,
+  type BrandOnboardingProgress,
+} from "../lib/brandOnboarding";
 import type { DatabaseBrand } from "../types/database";
 
 interface BrandWithStats extends DatabaseBrand {
   product_count: number;
   last_activity: string | null;
+  onboarding: BrandOnboardingProgress | null;
 }
 
 interface UseAdminBrandsReturn {
@@ -38,6 +43,17 @@ export function useAdminBrands(): UseAdminBrandsReturn {
         throw new Error(brandsError.message);
       }
 
+      // Onboarding progress is informational; the list still loads without it
+      const onboardingByBrand = await listBrandOnboardingProgress().catch(
+        (onboardingError) => {
+          console.warn(
+            "Failed to get brand onboarding progress:",
+            onboardingError
+          );
+          return {} as Record<string, BrandOnboardingProgress>;
+        }
+      );
+
       // For each brand, get product count and last activity
       const brandsWithStats: BrandWithStats[] = await Promise.all(
         (brandsData || []).map(async (brand) => {
@@ -74,6 +90,7 @@ export function useAdminBrands(): UseAdminBrandsReturn {
             ...brand,
             product_count: productCount || 0,
             last_activity: lastProduct?.updated_at || null,
+            onboarding: onboardingByBrand[brand.id] || null,
           };
         })
       );
@@ -1,9 +1,19 @@
 import { useState, useEffect, useCallback } from "react";
 import { supabase } from "../lib/supabase";
-import type { DatabaseProduct, DatabaseBrand } from "../types/database";
+import type {
+  DatabaseProduct,
+  DatabaseBrand,
+  DatabaseProductAttribute,
+  DatabaseProductImage,
+  DatabaseProductSize,
+  DatabaseProductModerationDecision,
+} from "../types/database";
 
-interface AdminProduct extends DatabaseProduct {
+export interface AdminProduct extends DatabaseProduct {
   brand: Pick<DatabaseBrand, "id" | "name">;
+  attributes?: DatabaseProductAttribute;
+  images?: DatabaseProductImage[];
+  sizes?: DatabaseProductSize[];
 }
 
 interface UseAdminProductsReturn {
@@ -15,6 +25,11 @@ interface UseAdminProductsReturn {
     productId: string,
     status: DatabaseProduct["status"]
   ) => Promise<void>;
+  moderateProducts: (
+    productIds: string[],
+    decision: DatabaseProductModerationDecision["decision"],
+    reason: string
+  ) => Promise<number>;
 }
 
 export function useAdminProducts(): UseAdminProductsReturn {
@@ -35,7 +50,10 @@ export function useAdminProducts(): UseAdminProductsReturn {
           brand:brands!inner(
             id,
             name
-          )
+          ),
+          attributes:product_attributes(*),
+          images:product_images(*),
+          sizes:product_sizes(*)
         `
         )
         .order("created_at", { ascending: false });
@@ -87,6 +105,43 @@ export function useAdminProducts(): UseAdminProductsReturn {
     []
   );
 
+  const moderateProducts = useCallback(
+    async (
+      productIds: string[],
+      decision: DatabaseProductModerationDecision["decision"],
+      reason: string
+    ) => {
+      const { data, error: moderateError } = await supabase.rpc(
+        "admin_moderate_products",
+        {
+          product_ids: productIds,
+          decision,
+          reason,
+        }
+      );
+
+      if (moderateError) {
+        console.error("Failed to moderate products:", moderateError);
+        throw new Error(moderateError.message);
+      }
+
+      // Approved products go live; rejected ones return to the brand as drafts
+      const nextStatus: DatabaseProduct["status"] =
+        decision === "approved" ? "active" : "draft";
+      const updatedAt = new Date().toISOString();
+      setProducts((prev) =>
+        prev.map((product) =>
+          productIds.includes(product.id) && product.status === "pending"
+            ? { ...product, status: nextStatus, updated_at: updatedAt }
+            : product
+        )
+      );
+
+      return (data as number) ?? 0;
+    },
+    []
+  );
+
   const refreshData = useCallback(async () => {
     await fetchProducts();
   }, [fetchProducts]);
@@ -101,5 +156,6 @@ export function useAdminProducts(): UseAdminProductsReturn {
     error,
     refreshData,
     updateProductStatus,
+    moderateProducts,
   };
 }
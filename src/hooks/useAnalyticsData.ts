@@ -1,10 +1,16 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { AnalyticsRepository, DatabaseError } from '../lib/database';
+import { getComparisonRange, type ComparisonMode, type DateRange } from '../lib/analyticsComparison';
 import type { AnalyticsFilters, AnalyticsResponse } from '../types/database';
 
 interface UseAnalyticsDataReturn {
   analytics: AnalyticsResponse | null;
+  // Same metrics for the comparison range, when comparing
+  comparison: AnalyticsResponse | null;
+  comparisonRange: DateRange | null;
+  comparisonMode: ComparisonMode;
+  setComparisonMode: (mode: ComparisonMode) => void;
   loading: boolean;
   error: string | null;
   filters: AnalyticsFilters;
@@ -13,8 +19,10 @@ interface UseAnalyticsDataReturn {
 }
 
 export function useAnalyticsData(initialFilters: AnalyticsFilters = {}): UseAnalyticsDataReturn {
-  const { user } = useAuth();
+  const { user, brandId } = useAuth();
   const [analytics, setAnalytics] = useState<AnalyticsResponse | null>(null);
+  const [comparison, setComparison] = useState<AnalyticsResponse | null>(null);
+  const [comparisonMode, setComparisonMode] = useState<ComparisonMode>('none');
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [filters, setFilters] = useState<AnalyticsFilters>({
@@ -22,18 +30,39 @@ export function useAnalyticsData(initialFilters: AnalyticsFilters = {}): UseAnal
     ...initialFilters,
   });
 
+  const comparisonRange = useMemo(
+    () =>
+      filters.date_start && filters.date_end
+        ? getComparisonRange({ start: filters.date_start, end: filters.date_end }, comparisonMode)
+        : null,
+    [filters.date_start, filters.date_end, comparisonMode]
+  );
+
   const fetchAnalytics = useCallback(async () => {
     if (!user?.id) {
       setLoading(false);
       return;
     }
 
+    // Wait for AuthContext to resolve the active brand
+    if (!brandId) return;
+
     try {
       setError(null);
       setLoading(true);
       
-      const analyticsData = await AnalyticsRepository.getBrandAnalytics(user.id, filters);
+      const [analyticsData, comparisonData] = await Promise.all([
+        AnalyticsRepository.getBrandAnalytics(brandId, filters),
+        comparisonRange
+          ? AnalyticsRepository.getBrandAnalytics(brandId, {
+              ...filters,
+              date_start: comparisonRange.start,
+              date_end: comparisonRange.end,
+            })
+          : Promise.resolve(null),
+      ]);
       setAnalytics(analyticsData);
+      setComparison(comparisonData);
     } catch (err) {
       console.error('Failed to fetch analytics:', err);
       
@@ -45,7 +74,7 @@ export function useAnalyticsData(initialFilters: AnalyticsFilters = {}): UseAnal
     } finally {
       setLoading(false);
     }
-  }, [user?.id, filters]);
+  }, [user?.id, brandId, filters, comparisonRange]);
 
   const refreshData = useCallback(async () => {
     await fetchAnalytics();
@@ -64,6 +93,10 @@ export function useAnalyticsData(initialFilters: AnalyticsFilters = {}): UseAnal
 
   return {
     analytics,
+    comparison,
+    comparisonRange,
+    comparisonMode,
+    setComparisonMode,
     loading,
     error,
     filters,
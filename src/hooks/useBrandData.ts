@@ -13,7 +13,7 @@ interface UseBrandDataReturn {
 }
 
 export function useBrandData(): UseBrandDataReturn {
-  const { user } = useAuth();
+  const { user, brandId, refreshMemberships } = useAuth();
   const [brand, setBrand] = useState<DatabaseBrand | null>(null);
   const [brandWithMetrics, setBrandWithMetrics] = useState<BrandWithMetrics | null>(null);
   const [loading, setLoading] = useState(true);
@@ -26,7 +26,7 @@ export function useBrandData(): UseBrandDataReturn {
         id: userId,
         name: `Brand ${userEmail.split('@')[0]}`,
         contact_email: userEmail,
-        status: 'active' as const,
+        status: 'pending' as const,
         business_type: 'Fashion & Apparel',
       };
 
@@ -44,22 +44,28 @@ export function useBrandData(): UseBrandDataReturn {
       return;
     }
 
+    // Wait for AuthContext to resolve the active brand from membership
+    if (!brandId) return;
+
     try {
       setError(null);
       
       // Try to get existing brand data
-      let brandData = await BrandRepository.getById(user.id);
+      let brandData = await BrandRepository.getById(brandId);
       
-      // If no brand exists, create a default one
-      if (!brandData) {
+      // If the user has no brand at all, create a default one. Team members
+      // never get here because their brand id is not their own user id.
+      if (!brandData && brandId === user.id) {
         console.log('No brand found for user, creating default brand...');
         brandData = await createDefaultBrand(user.id, user.email);
+        // The new brand comes with an owner membership
+        refreshMemberships();
       }
       
       setBrand(brandData);
       
       // Get brand with metrics
-      const brandWithMetricsData = await BrandRepository.getWithMetrics(user.id);
+      const brandWithMetricsData = await BrandRepository.getWithMetrics(brandId);
       setBrandWithMetrics(brandWithMetricsData);
     } catch (err) {
       console.error('Failed to fetch brand data:', err);
@@ -72,21 +78,21 @@ export function useBrandData(): UseBrandDataReturn {
     } finally {
       setLoading(false);
     }
-  }, [user?.id, user?.email, createDefaultBrand]);
+  }, [user?.id, user?.email, brandId, createDefaultBrand, refreshMemberships]);
 
   const updateBrand = useCallback(async (updates: Partial<DatabaseBrand>) => {
-    if (!user?.id) {
+    if (!brandId) {
       throw new Error('User not authenticated');
     }
 
     try {
       setError(null);
       
-      const updatedBrand = await BrandRepository.update(user.id, updates);
+      const updatedBrand = await BrandRepository.update(brandId, updates);
       setBrand(updatedBrand);
       
       // Refresh brand with metrics
-      const brandWithMetricsData = await BrandRepository.getWithMetrics(user.id);
+      const brandWithMetricsData = await BrandRepository.getWithMetrics(brandId);
       setBrandWithMetrics(brandWithMetricsData);
     } catch (err) {
       console.error('Failed to update brand:', err);
@@ -97,7 +103,7 @@ export function useBrandData(): UseBrandDataReturn {
         throw new Error('Failed to update brand information. Please try again.');
       }
     }
-  }, [user?.id]);
+  }, [brandId]);
 
   const refreshData = useCallback(async () => {
     setLoading(true);
@@ -0,0 +1,78 @@
+import { useState, useEffect, useCallback } from 'react';
+import { AnalyticsRepository, DatabaseError } from '../lib/database';
+import type { AnalyticsFilters, ProductAnalyticsResponse } from '../types/database';
+
+interface UseProductAnalyticsReturn {
+  analytics: ProductAnalyticsResponse | null;
+  loading: boolean;
+  error: string | null;
+  filters: AnalyticsFilters;
+  setFilters: (filters: AnalyticsFilters) => void;
+  refreshData: () => Promise<void>;
+}
+
+export function useProductAnalytics(
+  productId: string | undefined,
+  initialFilters: AnalyticsFilters = {}
+): UseProductAnalyticsReturn {
+  const [analytics, setAnalytics] = useState<ProductAnalyticsResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [filters, setFilters] = useState<AnalyticsFilters>({
+    period: 'day',
+    ...initialFilters,
+  });
+
+  const fetchAnalytics = useCallback(async () => {
+    if (!productId) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setError(null);
+      setLoading(true);
+
+      // Access is checked by the RPCs: brand members and analytics admins
+      const data = await AnalyticsRepository.getProductAnalytics({
+        ...filters,
+        product_id: productId,
+      });
+      setAnalytics(data);
+    } catch (err) {
+      console.error('Failed to fetch product analytics:', err);
+
+      if (err instanceof DatabaseError) {
+        setError(err.message);
+      } else {
+        setError('Failed to load product analytics. Please try again.');
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [productId, filters]);
+
+  const refreshData = useCallback(async () => {
+    await fetchAnalytics();
+  }, [fetchAnalytics]);
+
+  const updateFilters = useCallback((newFilters: AnalyticsFilters) => {
+    setFilters(prev => ({
+      ...prev,
+      ...newFilters,
+    }));
+  }, []);
+
+  useEffect(() => {
+    fetchAnalytics();
+  }, [fetchAnalytics]);
+
+  return {
+    analytics,
+    loading,
+    error,
+    filters,
+    setFilters: updateFilters,
+    refreshData,
+  };
+}
@@ -28,7 +28,7 @@ interface UseProductDataReturn {
 }
 
 export function useProductData(initialFilters: ProductFilters = {}): UseProductDataReturn {
-  const { user } = useAuth();
+  const { user, brandId } = useAuth();
   const [products, setProducts] = useState<ProductWithDetails[]>([]);
   const [pagination, setPagination] = useState({
     total: 0,
@@ -51,11 +51,14 @@ export function useProductData(initialFilters: ProductFilters = {}): UseProductD
       return;
     }
 
+    // Wait for AuthContext to resolve the active brand
+    if (!brandId) return;
+
     try {
       setError(null);
       setLoading(true);
       
-      const response = await ProductRepository.getByBrandId(user.id, filters);
+      const response = await ProductRepository.getByBrandId(brandId, filters);
       
       setProducts(response.data);
       setPagination({
@@ -76,7 +79,7 @@ export function useProductData(initialFilters: ProductFilters = {}): UseProductD
     } finally {
       setLoading(false);
     }
-  }, [user?.id, filters]);
+  }, [user?.id, brandId, filters]);
 
   const recordProductView = useCallback(async (productId: string) => {
     try {
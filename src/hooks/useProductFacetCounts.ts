@@ -0,0 +1,46 @@
+import { useState, useEffect } from 'react';
+import { ProductRepository } from '../lib/database';
+import type { ProductFacet, ProductFacetCount, ProductFilters } from '../types/database';
+
+export type FacetCounts = Partial<Record<ProductFacet, Record<string, number>>>;
+
+/**
+ * Matching products per facet value for the given filters, keyed by facet
+ * and lower-cased value. Null until the first counts arrive, so callers can
+ * show every option meanwhile.
+ */
+export function useProductFacetCounts(filters: ProductFilters): FacetCounts | null {
+  const [counts, setCounts] = useState<FacetCounts | null>(null);
+
+  // Paging and sorting do not change the counts
+  const key = JSON.stringify({
+    ...filters,
+    limit: undefined,
+    offset: undefined,
+    sort_by: undefined,
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+
+    ProductRepository.getFacetCounts(JSON.parse(key))
+      .then((rows: ProductFacetCount[]) => {
+        if (cancelled) return;
+        const grouped: FacetCounts = {};
+        rows.forEach(({ facet, value, product_count }) => {
+          grouped[facet] = { ...grouped[facet], [value]: product_count };
+        });
+        setCounts(grouped);
+      })
+      .catch((err) => {
+        // Filters still work without counts
+        console.warn('Failed to fetch facet counts:', err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [key]);
+
+  return counts;
+}
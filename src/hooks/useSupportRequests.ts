@@ -21,7 +21,7 @@ interface UseSupportRequestsReturn {
 }
 
 export function useSupportRequests(): UseSupportRequestsReturn {
-  const { user } = useAuth();
+  const { user, brandId } = useAuth();
   const [supportRequests, setSupportRequests] = useState<
     SupportRequestWithBrand[]
   >([]);
@@ -34,10 +34,13 @@ export function useSupportRequests(): UseSupportRequestsReturn {
       return;
     }
 
+    // Wait for AuthContext to resolve the active brand
+    if (!brandId) return;
+
     try {
       setError(null);
 
-      const requests = await SupportRequestRepository.getByBrandId(user.id);
+      const requests = await SupportRequestRepository.getByBrandId(brandId);
       setSupportRequests(requests);
     } catch (err) {
       console.error("Failed to fetch support requests:", err);
@@ -50,7 +53,7 @@ export function useSupportRequests(): UseSupportRequestsReturn {
     } finally {
       setLoading(false);
     }
-  }, [user?.id]);
+  }, [user?.id, brandId]);
 
   const createSupportRequest = useCallback(
     async (request: {
@@ -61,13 +64,13 @@ export function useSupportRequests(): UseSupportRequestsReturn {
       attachment_url?: string;
       attachment_urls?: string[];
     }): Promise<DatabaseSupportRequest> => {
-      if (!user?.id) {
+      if (!brandId) {
         throw new Error("User not authenticated");
       }
 
       try {
         const newRequest = await SupportRequestRepository.create({
-          brand_id: user.id,
+          brand_id: brandId,
           subject: request.subject,
           description: request.description,
           priority: request.priority,
@@ -93,7 +96,7 @@ export function useSupportRequests(): UseSupportRequestsReturn {
         }
       }
     },
-    [user?.id, fetchSupportRequests]
+    [brandId, fetchSupportRequests]
   );
 
   const refreshData = useCallback(async () => {
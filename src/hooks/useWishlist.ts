@@ -0,0 +1,22 @@
+import { createContext, useContext } from "react";
+
+export interface WishlistContextType {
+  // Saved product ids, newest first
+  productIds: string[];
+  loading: boolean;
+  isSaved: (productId: string) => boolean;
+  toggleSaved: (productId: string) => Promise<void>;
+}
+
+// Provided by WishlistProvider in contexts/WishlistContext
+export const WishlistContext = createContext<WishlistContextType | undefined>(
+  undefined
+);
+
+export const useWishlist = (): WishlistContextType => {
+  const context = useContext(WishlistContext);
+  if (context === undefined) {
+    throw new Error("useWishlist must be used within a WishlistProvider");
+  }
+  return context;
+};
@@ -1,79 +1,160 @@
 // Admin authentication utilities
+//
+// Admin roles live in the admin_users table (see the admin roles migration)
+// and are enforced by RLS and the admin_* functions. The checks here only
+// decide what the dashboard shows; they are not a security boundary.
 import { supabase } from "./supabase";
 
-// Admin email whitelist
-const ADMIN_EMAILS = [
-  "admin@stylsia.com",
-  "support@stylsia.com",
-  "manager@stylsia.com",
-  "demo@stylsia.com", // For testing
-];
+export type AdminRole =
+  | "super_admin"
+  | "catalog_moderator"
+  | "support_agent"
+  | "analyst";
 
-/**
- * Updates user metadata to include admin role
- * This is necessary for RLS policies to work correctly
- */
-export async function setAdminRole(
-  userId: string,
-  email: string
-): Promise<boolean> {
-  try {
-    // Only proceed if email is in admin whitelist
-    if (!ADMIN_EMAILS.includes(email.toLowerCase())) {
-      console.warn("Attempted to set admin role for non-admin email:", email);
-      return false;
-    }
+export type AdminPermission =
+  | "dashboard"
+  | "audit"
+  | "brands"
+  | "catalog"
+  | "support"
+  | "analytics"
+  | "settings"
+  | "admins";
 
-    // Update user metadata using Supabase Admin API
-    // Note: In production, this should be done server-side with admin privileges
-    const { error } = await supabase.auth.admin.updateUserById(userId, {
-      user_metadata: {
-        role: "admin",
-        email: email,
-        updated_at: new Date().toISOString(),
-      },
-    });
+export const ADMIN_ROLE_LABELS: Record<AdminRole, string> = {
+  super_admin: "Super Admin",
+  catalog_moderator: "Catalog Moderator",
+  support_agent: "Support Agent",
+  analyst: "Analyst",
+};
 
-    if (error) {
-      console.error("Failed to set admin role:", error);
-      return false;
-    }
+// Keep in sync with has_admin_permission() in the admin roles migration
+export const ADMIN_ROLE_PERMISSIONS: Record<AdminRole, AdminPermission[]> = {
+  super_admin: [
+    "dashboard",
+    "audit",
+    "brands",
+    "catalog",
+    "support",
+    "analytics",
+    "settings",
+    "admins",
+  ],
+  catalog_moderator: ["dashboard", "audit", "brands", "catalog"],
+  support_agent: ["dashboard", "audit", "support"],
+  analyst: ["dashboard", "audit", "analytics"],
+};
 
-    console.log("Admin role set successfully for user:", email);
-    return true;
-  } catch (error) {
-    console.error("Error setting admin role:", error);
-    return false;
-  }
+export interface AdminUser {
+  user_id: string;
+  email: string;
+  role: AdminRole;
+  invited_by?: string | null;
+  created_at: string;
+}
+
+export interface AdminInvitation {
+  id: string;
+  email: string;
+  role: AdminRole;
+  invited_by?: string | null;
+  created_at: string;
+}
+
+export function hasAdminPermission(
+  role: AdminRole | null | undefined,
+  permission: AdminPermission
+): boolean {
+  return role ? ADMIN_ROLE_PERMISSIONS[role].includes(permission) : false;
 }
 
 /**
- * Checks if the current user has admin role in their JWT metadata
+ * Returns the signed-in user's admin role, or null for non-admins. Claims a
+ * pending invitation for the user's email on the way.
  */
-export async function isUserAdmin(): Promise<boolean> {
+export async function resolveAdminRole(): Promise<AdminRole | null> {
   try {
-    const {
-      data: { session },
-    } = await supabase.auth.getSession();
-    if (!session) return false;
-
-    // Check user metadata for admin role
-    const userMetadata = session.user?.user_metadata;
-    return userMetadata?.role === "admin";
+    const { data, error } = await supabase.rpc("resolve_admin_role");
+    if (error) {
+      console.error("Error resolving admin role:", error);
+      return null;
+    }
+    return (data as AdminRole | null) ?? null;
   } catch (error) {
-    console.error("Error checking admin status:", error);
-    return false;
+    console.error("Error resolving admin role:", error);
+    return null;
   }
 }
 
+export async function listAdmins(): Promise<{
+  admins: AdminUser[];
+  invitations: AdminInvitation[];
+}> {
+  const [adminsResult, invitationsResult] = await Promise.all([
+    supabase.from("admin_users").select("*").order("email"),
+    supabase
+      .from("admin_invitations")
+      .select("*")
+      .order("created_at", { ascending: false }),
+  ]);
+
+  if (adminsResult.error) throw adminsResult.error;
+  if (invitationsResult.error) throw invitationsResult.error;
+
+  return {
+    admins: adminsResult.data || [],
+    invitations: invitationsResult.data || [],
+  };
+}
+
 /**
- * Alternative approach: Create a temporary admin context bypass
- * This bypasses RLS for admin operations
+ * Grants an existing account the role straight away, otherwise records an
+ * invitation and emails a sign-in link to the admin portal.
  */
-export async function getAdminSupabaseClient() {
-  // Return supabase client with service role key (if available)
-  // This should only be used for admin operations
-  return supabase;
+export async function inviteAdmin(
+  email: string,
+  role: AdminRole
+): Promise<"added" | "invited"> {
+  const { data, error } = await supabase.rpc("admin_invite_admin", {
+    invite_email: email,
+    invite_role: role,
+  });
+  if (error) throw error;
+
+  if (data === "invited") {
+    const { error: otpError } = await supabase.auth.signInWithOtp({
+      email,
+      options: { emailRedirectTo: `${window.location.origin}/admin/login` },
+    });
+    if (otpError) {
+      console.warn(
+        "Invitation saved but the email could not be sent:",
+        otpError
+      );
+    }
+  }
+
+  return data;
+}
+
+export async function setAdminRole(userId: string, role: AdminRole) {
+  const { error } = await supabase.rpc("admin_set_admin_role", {
+    target_user: userId,
+    new_role: role,
+  });
+  if (error) throw error;
 }
 
-export { ADMIN_EMAILS };
+export async function removeAdmin(userId: string) {
+  const { error } = await supabase.rpc("admin_remove_admin", {
+    target_user: userId,
+  });
+  if (error) throw error;
+}
+
+export async function revokeAdminInvitation(invitationId: string) {
+  const { error } = await supabase.rpc("admin_revoke_invitation", {
+    invitation_id: invitationId,
+  });
+  if (error) throw error;
+}
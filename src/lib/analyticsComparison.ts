@@ -0,0 +1,154 @@
+// Analytics date ranges and period comparison
+//
+// Trends are fetched per day and bucketed here, so any custom range can be
+// lined up against its comparison range bucket by bucket, even when days
+// without traffic are missing from the results.
+import type { AnalyticsResponse } from "../types/database";
+
+export type ComparisonMode = "none" | "previous_period" | "previous_year";
+
+export const COMPARISON_LABELS: Record<ComparisonMode, string> = {
+  none: "No comparison",
+  previous_period: "Previous period",
+  previous_year: "Same period last year",
+};
+
+/** Inclusive range of YYYY-MM-DD dates. */
+export interface DateRange {
+  start: string;
+  end: string;
+}
+
+export interface TrendPoint {
+  label: string;
+  views: number;
+  clicks: number;
+  conversions: number;
+  previous_views?: number;
+  previous_clicks?: number;
+  previous_conversions?: number;
+}
+
+type TrendRow = AnalyticsResponse["trends"][number];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Dates are handled in UTC to match CURRENT_DATE in the database
+const parseDate = (date: string) => new Date(`${date}T00:00:00Z`);
+export const formatDate = (date: Date) => date.toISOString().split("T")[0];
+
+const addDays = (date: string, days: number) =>
+  formatDate(new Date(parseDate(date).getTime() + days * DAY_MS));
+
+export function getRangeLength(range: DateRange): number {
+  return (
+    Math.round(
+      (parseDate(range.end).getTime() - parseDate(range.start).getTime()) /
+        DAY_MS
+    ) + 1
+  );
+}
+
+/** The range the given one is compared against, or null when not comparing. */
+export function getComparisonRange(
+  range: DateRange,
+  mode: ComparisonMode
+): DateRange | null {
+  if (mode === "previous_period") {
+    const length = getRangeLength(range);
+    return {
+      start: addDays(range.start, -length),
+      end: addDays(range.start, -1),
+    };
+  }
+
+  if (mode === "previous_year") {
+    const shift = (date: string) => {
+      const shifted = parseDate(date);
+      shifted.setUTCFullYear(shifted.getUTCFullYear() - 1);
+      return formatDate(shifted);
+    };
+    return { start: shift(range.start), end: shift(range.end) };
+  }
+
+  return null;
+}
+
+/** Percentage change, or null when there is nothing to compare against. */
+export function calculateChange(
+  current: number,
+  previous: number
+): number | null {
+  if (!previous) return null;
+  return ((current - previous) / previous) * 100;
+}
+
+// Days per chart point, so long ranges stay readable
+function getBucketSize(days: number): number {
+  if (days <= 31) return 1;
+  if (days <= 120) return 7;
+  return 30;
+}
+
+function bucketTrends(
+  trends: TrendRow[],
+  range: DateRange,
+  bucketSize: number,
+  bucketCount: number
+) {
+  const buckets = Array.from({ length: bucketCount }, () => ({
+    views: 0,
+    clicks: 0,
+    conversions: 0,
+  }));
+
+  const start = parseDate(range.start).getTime();
+  trends.forEach((row) => {
+    const offset = Math.round((parseDate(row.date).getTime() - start) / DAY_MS);
+    const bucket = buckets[Math.floor(offset / bucketSize)];
+    if (offset < 0 || !bucket) return;
+
+    bucket.views += Number(row.views) || 0;
+    bucket.clicks += Number(row.clicks) || 0;
+    bucket.conversions += Number(row.conversions) || 0;
+  });
+
+  return buckets;
+}
+
+/**
+ * Chart points for the range, with the comparison range overlaid by
+ * position (first day against first day, and so on). Expects daily trends.
+ */
+export function buildTrendSeries(
+  trends: TrendRow[],
+  range: DateRange,
+  previousTrends?: TrendRow[] | null,
+  previousRange?: DateRange | null
+): TrendPoint[] {
+  const days = getRangeLength(range);
+  const bucketSize = getBucketSize(days);
+  const bucketCount = Math.ceil(days / bucketSize);
+
+  const current = bucketTrends(trends, range, bucketSize, bucketCount);
+  const previous =
+    previousTrends && previousRange
+      ? bucketTrends(previousTrends, previousRange, bucketSize, bucketCount)
+      : null;
+
+  return current.map((bucket, index) => ({
+    label: parseDate(
+      addDays(range.start, index * bucketSize)
+    ).toLocaleDateString(undefined, {
+      month: "short",
+      day: "numeric",
+      timeZone: "UTC",
+    }),
+    ...bucket,
+    ...(previous && {
+      previous_views: previous[index].views,
+      previous_clicks: previous[index].clicks,
+      previous_conversions: previous[index].conversions,
+    }),
+  }));
+}
@@ -0,0 +1,153 @@
+// Brand onboarding invitations
+//
+// Admins create a brand, then send its owner a single-use signup link. Tokens
+// are generated and hashed in the database (see the brand onboarding
+// invitations migration); the raw token is only returned when it is issued.
+import { supabase } from "./supabase";
+
+export type OnboardingInvitationStatus =
+  | "pending"
+  | "accepted"
+  | "revoked"
+  | "expired";
+
+export interface OnboardingInvitation {
+  id: string;
+  brand_id: string;
+  email: string;
+  contact_person: string | null;
+  status: Exclude<OnboardingInvitationStatus, "expired">;
+  expires_at: string;
+  sent_count: number;
+  last_sent_at: string;
+  accepted_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+  brand?: { name: string } | null;
+}
+
+// What the landing page learns about a token
+export interface OnboardingInvitationPreview {
+  brand_name: string;
+  email: string;
+  contact_person: string | null;
+  status: OnboardingInvitationStatus;
+  expires_at: string;
+}
+
+export const ONBOARDING_INVITATION_STATUS_LABELS: Record<
+  OnboardingInvitationStatus,
+  string
+> = {
+  pending: "Pending",
+  accepted: "Accepted",
+  revoked: "Revoked",
+  expired: "Expired",
+};
+
+/** Pending invitations past their expiry are reported as expired. */
+export function getInvitationStatus(
+  invitation: Pick<OnboardingInvitation, "status" | "expires_at">,
+  now: Date = new Date()
+): OnboardingInvitationStatus {
+  return invitation.status === "pending" &&
+    new Date(invitation.expires_at) < now
+    ? "expired"
+    : invitation.status;
+}
+
+export function buildInvitationUrl(token: string): string {
+  return `${window.location.origin}/invite/${token}`;
+}
+
+export async function listOnboardingInvitations(): Promise<
+  OnboardingInvitation[]
+> {
+  const { data, error } = await supabase
+    .from("brand_onboarding_invitations")
+    .select("*, brand:brands(name)")
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/** Returns the signup link for the new invitation. */
+export async function createOnboardingInvitation(
+  brandId: string,
+  email: string,
+  contactPerson?: string
+): Promise<string> {
+  const { data, error } = await supabase.rpc(
+    "admin_create_onboarding_invitation",
+    {
+      brand: brandId,
+      invite_email: email,
+      invite_contact: contactPerson || null,
+    }
+  );
+  if (error) throw error;
+  return buildInvitationUrl(data as string);
+}
+
+/** Issues a new link and extends the expiry; the previous link stops working. */
+export async function resendOnboardingInvitation(
+  invitationId: string
+): Promise<string> {
+  const { data, error } = await supabase.rpc(
+    "admin_resend_onboarding_invitation",
+    { invitation_id: invitationId }
+  );
+  if (error) throw error;
+  return buildInvitationUrl(data as string);
+}
+
+export async function revokeOnboardingInvitation(invitationId: string) {
+  const { error } = await supabase.rpc("admin_revoke_onboarding_invitation", {
+    invitation_id: invitationId,
+  });
+  if (error) throw error;
+}
+
+/** Returns null when the token does not match any invitation. */
+export async function getOnboardingInvitation(
+  token: string
+): Promise<OnboardingInvitationPreview | null> {
+  const { data, error } = await supabase.rpc("get_onboarding_invitation", {
+    token,
+  });
+  if (error) throw error;
+  return (data as OnboardingInvitationPreview[] | null)?.[0] ?? null;
+}
+
+/**
+ * Exchanges an invitation token for a claim code that expires within a day.
+ * New accounts keep the code until they can accept the invitation.
+ */
+export async function createOnboardingClaim(token: string): Promise<string> {
+  const { data, error } = await supabase.rpc("create_onboarding_claim", {
+    token,
+  });
+  if (error) throw error;
+  return data as string;
+}
+
+/** True when the server refused the invitation, rather than the request failing. */
+export function isInvitationRejected(error: unknown): boolean {
+  // The invitation functions raise with the default P0001 code
+  return (error as { code?: string } | null)?.code === "P0001";
+}
+
+/**
+ * Makes the signed-in account the owner of the invited brand. Takes the
+ * invitation token or a claim code.
+ */
+export async function acceptOnboardingInvitation(
+  token: string
+): Promise<string> {
+  const { data, error } = await supabase.rpc("accept_onboarding_invitation", {
+    token,
+  });
+  if (error) throw error;
+  return data as string;
+}
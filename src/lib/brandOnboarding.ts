@@ -0,0 +1,109 @@
+// Brand onboarding checklist
+//
+// Progress is calculated and stored server-side (see the brand onboarding
+// checklist migration); a step stays completed once it has been reached.
+import { supabase } from "./supabase";
+
+export type OnboardingStepKey =
+  "profile" | "logo" | "products" | "contact_email";
+
+export interface BrandOnboardingProgress {
+  brand_id: string;
+  profile_completed_at: string | null;
+  logo_uploaded_at: string | null;
+  first_product_at: string | null;
+  email_verified_at: string | null;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface OnboardingStep {
+  key: OnboardingStepKey;
+  label: string;
+  description: string;
+  // Where the brand completes the step
+  path: string;
+  field: keyof BrandOnboardingProgress;
+}
+
+// Keep in sync with refresh_brand_onboarding() in the migration
+export const ONBOARDING_STEPS: OnboardingStep[] = [
+  {
+    key: "profile",
+    label: "Complete your brand profile",
+    description: "Add your brand description, website and contact email.",
+    path: "/dashboard/profile",
+    field: "profile_completed_at",
+  },
+  {
+    key: "logo",
+    label: "Upload your logo",
+    description: "Shoppers see your logo next to every product you list.",
+    path: "/dashboard/profile",
+    field: "logo_uploaded_at",
+  },
+  {
+    key: "products",
+    label: "Add your first products",
+    description: "Add products one by one or import your catalog.",
+    path: "/dashboard/products",
+    field: "first_product_at",
+  },
+  {
+    key: "contact_email",
+    label: "Verify your contact email",
+    description:
+      "Use the email address of a confirmed account on your team as the contact email, or invite that address to your team.",
+    path: "/dashboard/team",
+    field: "email_verified_at",
+  },
+];
+
+export function isStepComplete(
+  progress: BrandOnboardingProgress | null | undefined,
+  step: OnboardingStep
+): boolean {
+  return Boolean(progress?.[step.field]);
+}
+
+/** The first incomplete step, or null once onboarding is done. */
+export function getCurrentStep(
+  progress: BrandOnboardingProgress | null | undefined
+): OnboardingStep | null {
+  return (
+    ONBOARDING_STEPS.find((step) => !isStepComplete(progress, step)) ?? null
+  );
+}
+
+export function countCompletedSteps(
+  progress: BrandOnboardingProgress | null | undefined
+): number {
+  return ONBOARDING_STEPS.filter((step) => isStepComplete(progress, step))
+    .length;
+}
+
+/** Re-evaluates the steps for the brand and returns the stored progress. */
+export async function getBrandOnboarding(
+  brandId: string
+): Promise<BrandOnboardingProgress | null> {
+  const { data, error } = await supabase.rpc("get_brand_onboarding", {
+    brand: brandId,
+  });
+  if (error) throw error;
+  return (data as BrandOnboardingProgress | null) ?? null;
+}
+
+/** Progress for every brand, keyed by brand id (admins only). */
+export async function listBrandOnboardingProgress(): Promise<
+  Record<string, BrandOnboardingProgress>
+> {
+  const { data, error } = await supabase
+    .from("brand_onboarding_progress")
+    .select("*");
+
+  if (error) throw error;
+  return Object.fromEntries(
+    (data || []).map((row: BrandOnboardingProgress) => [row.brand_id, row])
+  );
+}
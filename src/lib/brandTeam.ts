@@ -0,0 +1,155 @@
+// Brand team utilities
+//
+// Accounts reach a brand through the brand_members table (see the brand team
+// members migration). RLS and the brand_* functions enforce the roles; the
+// checks here only decide what the dashboard shows.
+import { supabase } from "./supabase";
+
+export type BrandRole = "owner" | "editor" | "viewer";
+
+export const BRAND_ROLE_LABELS: Record<BrandRole, string> = {
+  owner: "Owner",
+  editor: "Editor",
+  viewer: "Viewer",
+};
+
+export const BRAND_ROLE_DESCRIPTIONS: Record<BrandRole, string> = {
+  owner: "Manages the team, brand profile and settings",
+  editor: "Edits products, imports catalogs and talks to support",
+  viewer: "Read-only access to products, analytics and messages",
+};
+
+// Keep in sync with is_brand_member() in the brand team members migration
+export const BRAND_ROLE_RANK: Record<BrandRole, number> = {
+  viewer: 1,
+  editor: 2,
+  owner: 3,
+};
+
+export interface BrandMembership {
+  brand_id: string;
+  brand_name: string;
+  role: BrandRole;
+}
+
+export interface BrandMember {
+  brand_id: string;
+  user_id: string;
+  email: string;
+  role: BrandRole;
+  invited_by?: string | null;
+  created_at: string;
+}
+
+export interface BrandInvitation {
+  id: string;
+  brand_id: string;
+  email: string;
+  role: BrandRole;
+  invited_by?: string | null;
+  created_at: string;
+}
+
+export function hasBrandRole(
+  role: BrandRole | null | undefined,
+  minRole: BrandRole
+): boolean {
+  return role ? BRAND_ROLE_RANK[role] >= BRAND_ROLE_RANK[minRole] : false;
+}
+
+/**
+ * Lists the brands the signed-in user belongs to. Claims pending invitations
+ * for the user's email on the way.
+ */
+export async function resolveBrandMemberships(): Promise<BrandMembership[]> {
+  const { data, error } = await supabase.rpc("resolve_brand_memberships");
+  if (error) throw error;
+  return (data as BrandMembership[] | null) ?? [];
+}
+
+export async function listBrandTeam(brandId: string): Promise<{
+  members: BrandMember[];
+  invitations: BrandInvitation[];
+}> {
+  const [membersResult, invitationsResult] = await Promise.all([
+    supabase
+      .from("brand_members")
+      .select("*")
+      .eq("brand_id", brandId)
+      .order("created_at"),
+    supabase
+      .from("brand_invitations")
+      .select("*")
+      .eq("brand_id", brandId)
+      .order("created_at", { ascending: false }),
+  ]);
+
+  if (membersResult.error) throw membersResult.error;
+  // Only owners can read invitations; RLS returns an empty list for others
+  if (invitationsResult.error) throw invitationsResult.error;
+
+  return {
+    members: membersResult.data || [],
+    invitations: invitationsResult.data || [],
+  };
+}
+
+/**
+ * Adds an existing account to the team straight away, otherwise records an
+ * invitation and emails a sign-in link to the brand dashboard.
+ */
+export async function inviteBrandMember(
+  brandId: string,
+  email: string,
+  role: BrandRole
+): Promise<"added" | "invited"> {
+  const { data, error } = await supabase.rpc("brand_invite_member", {
+    brand: brandId,
+    invite_email: email,
+    invite_role: role,
+  });
+  if (error) throw error;
+
+  if (data === "invited") {
+    const { error: otpError } = await supabase.auth.signInWithOtp({
+      email,
+      options: { emailRedirectTo: `${window.location.origin}/dashboard` },
+    });
+    if (otpError) {
+      console.warn(
+        "Invitation saved but the email could not be sent:",
+        otpError
+      );
+    }
+  }
+
+  return data;
+}
+
+export async function setBrandMemberRole(
+  brandId: string,
+  userId: string,
+  role: BrandRole
+) {
+  const { error } = await supabase.rpc("brand_set_member_role", {
+    brand: brandId,
+    target_user: userId,
+    new_role: role,
+  });
+  if (error) throw error;
+}
+
+export async function removeBrandMember(brandId: string, userId: string) {
+  const { error } = await supabase.rpc("brand_remove_member", {
+    brand: brandId,
+    target_user: userId,
+  });
+  if (error) throw error;
+}
+
+export async function revokeBrandInvitation(invitationId: string) {
+  const { error } = await supabase.rpc("brand_revoke_invitation", {
+    invitation_id: invitationId,
+  });
+  if (error) throw error;
+}
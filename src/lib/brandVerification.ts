@@ -0,0 +1,188 @@
+// Brand verification
+//
+// Owners upload business documents to the private brand-verification bucket
+// and submit them for review. The workflow and the rule that only verified
+// brands can be active live in the brand verification migration.
+import { supabase } from "./supabase";
+import { STORAGE_BUCKETS, StorageError } from "./storage";
+
+export type VerificationStatus =
+  "unverified" | "submitted" | "changes_requested" | "verified";
+
+export type VerificationDocumentType =
+  "gst_certificate" | "trademark" | "address_proof";
+
+export type VerificationDecision = "approve" | "request_changes";
+
+export interface BrandVerificationDocument {
+  id: string;
+  brand_id: string;
+  document_type: VerificationDocumentType;
+  storage_path: string;
+  file_name: string;
+  mime_type: string | null;
+  file_size: number | null;
+  uploaded_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export const VERIFICATION_STATUS_LABELS: Record<VerificationStatus, string> = {
+  unverified: "Not submitted",
+  submitted: "In review",
+  changes_requested: "Changes requested",
+  verified: "Verified",
+};
+
+export const VERIFICATION_DOCUMENTS: {
+  type: VerificationDocumentType;
+  label: string;
+  description: string;
+}[] = [
+  {
+    type: "gst_certificate",
+    label: "GST certificate",
+    description: "GST registration certificate issued to your business",
+  },
+  {
+    type: "trademark",
+    label: "Trademark",
+    description: "Trademark registration or application for your brand name",
+  },
+  {
+    type: "address_proof",
+    label: "Address proof",
+    description: "Utility bill, lease or bank statement for your business",
+  },
+];
+
+// Keep in sync with the brand-verification bucket settings
+export const VERIFICATION_MAX_FILE_SIZE = 10 * 1024 * 1024;
+export const VERIFICATION_ACCEPTED_TYPES = [
+  "application/pdf",
+  "image/jpeg",
+  "image/png",
+];
+
+/** Owners can change documents until they are submitted for review. */
+export function canEditVerificationDocuments(
+  status: VerificationStatus | undefined
+): boolean {
+  return (
+    status === undefined ||
+    status === "unverified" ||
+    status === "changes_requested"
+  );
+}
+
+export async function listVerificationDocuments(
+  brandId: string
+): Promise<BrandVerificationDocument[]> {
+  const { data, error } = await supabase
+    .from("brand_verification_documents")
+    .select("*")
+    .eq("brand_id", brandId);
+
+  if (error) throw error;
+  return data || [];
+}
+
+/** Uploads a document, replacing any previous document of the same type. */
+export async function uploadVerificationDocument(
+  brandId: string,
+  documentType: VerificationDocumentType,
+  file: File
+): Promise<BrandVerificationDocument> {
+  if (file.size > VERIFICATION_MAX_FILE_SIZE) {
+    throw new StorageError("File size exceeds 10MB limit");
+  }
+  if (!VERIFICATION_ACCEPTED_TYPES.includes(file.type)) {
+    throw new StorageError("Only PDF, JPG and PNG files are accepted");
+  }
+
+  const fileName = file.name.replace(/[^a-zA-Z0-9.-]/g, "_");
+  const path = `${brandId}/${documentType}/${Date.now()}_${fileName}`;
+
+  const { error: uploadError } = await supabase.storage
+    .from(STORAGE_BUCKETS.BRAND_VERIFICATION)
+    .upload(path, file, { upsert: false });
+  if (uploadError) {
+    throw new StorageError(`Failed to upload file: ${uploadError.message}`);
+  }
+
+  const { data: previous } = await supabase
+    .from("brand_verification_documents")
+    .select("storage_path")
+    .eq("brand_id", brandId)
+    .eq("document_type", documentType)
+    .maybeSingle();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  const { data, error } = await supabase
+    .from("brand_verification_documents")
+    .upsert(
+      {
+        brand_id: brandId,
+        document_type: documentType,
+        storage_path: path,
+        file_name: file.name,
+        mime_type: file.type,
+        file_size: file.size,
+        uploaded_by: user?.id ?? null,
+      },
+      { onConflict: "brand_id,document_type" }
+    )
+    .select()
+    .single();
+
+  if (error) {
+    await supabase.storage
+      .from(STORAGE_BUCKETS.BRAND_VERIFICATION)
+      .remove([path]);
+    throw error;
+  }
+
+  if (previous?.storage_path) {
+    // The old file is no longer referenced; failing to remove it is harmless
+    await supabase.storage
+      .from(STORAGE_BUCKETS.BRAND_VERIFICATION)
+      .remove([previous.storage_path]);
+  }
+
+  return data;
+}
+
+/** Short-lived link for viewing a document from the private bucket. */
+export async function getVerificationDocumentUrl(
+  storagePath: string
+): Promise<string> {
+  const { data, error } = await supabase.storage
+    .from(STORAGE_BUCKETS.BRAND_VERIFICATION)
+    .createSignedUrl(storagePath, 300);
+
+  if (error) throw error;
+  return data.signedUrl;
+}
+
+export async function submitBrandVerification(brandId: string) {
+  const { error } = await supabase.rpc("brand_submit_verification", {
+    brand: brandId,
+  });
+  if (error) throw error;
+}
+
+export async function reviewBrandVerification(
+  brandId: string,
+  decision: VerificationDecision,
+  notes?: string
+) {
+  const { error } = await supabase.rpc("admin_review_brand_verification", {
+    brand: brandId,
+    decision,
+    review_notes: notes || null,
+  });
+  if (error) throw error;
+}
@@ -0,0 +1,44 @@
+/*
+  # Canned Response Placeholders
+
+  Templates are stored with {{placeholder}} tokens (see the support canned
+  responses migration) and filled in on the client when an agent inserts
+  one into a reply. Unknown tokens are left as-is so typos stay visible.
+*/
+
+export interface CannedResponseContext {
+  brandName?: string;
+  requestSubject?: string;
+  requestDate?: string;
+}
+
+export const CANNED_RESPONSE_PLACEHOLDERS = [
+  { token: '{{brand_name}}', description: 'Brand name' },
+  { token: '{{request_subject}}', description: 'Support request subject' },
+  { token: '{{request_date}}', description: 'Date the request was opened' },
+  { token: '{{today}}', description: "Today's date" },
+] as const;
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString('en-US', {
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric',
+  });
+
+export function fillCannedResponse(
+  body: string,
+  context: CannedResponseContext,
+  now = new Date()
+): string {
+  const values: Record<string, string> = {
+    brand_name: context.brandName || 'there',
+    request_subject: context.requestSubject || 'your request',
+    request_date: context.requestDate ? formatDate(new Date(context.requestDate)) : '',
+    today: formatDate(now),
+  };
+
+  return body.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) =>
+    key in values ? values[key] : match
+  );
+}
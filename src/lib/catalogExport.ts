@@ -0,0 +1,353 @@
+/*
+  # Catalog Export Utilities
+
+  Serialises product lists (with attributes, images and sizes) into CSV,
+  JSON and Google Merchant Center feed formats. CSV and JSON columns use the
+  same field keys as the catalog importer so exports can be re-imported.
+*/
+
+import type { DatabaseProductAttribute, ProductWithDetails } from '../types/database';
+
+export type ExportFormat = 'csv' | 'json' | 'merchant_xml' | 'merchant_tsv';
+
+export interface ExportFormatDefinition {
+  key: ExportFormat;
+  label: string;
+  extension: string;
+  mimeType: string;
+}
+
+export const EXPORT_FORMATS: ExportFormatDefinition[] = [
+  { key: 'csv', label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+  { key: 'json', label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  { key: 'merchant_xml', label: 'Google Merchant (XML)', extension: 'xml', mimeType: 'application/xml' },
+  { key: 'merchant_tsv', label: 'Google Merchant (TSV)', extension: 'tsv', mimeType: 'text/tab-separated-values' },
+];
+
+const LIST_SEPARATOR = '|';
+const CURRENCY = 'INR';
+
+const ATTRIBUTE_KEYS = [
+  'fabric',
+  'fit',
+  'collar',
+  'sleeve',
+  'closure',
+  'pattern',
+  'occasion',
+  'care_instructions',
+  'material',
+  'color',
+  'style',
+] as const;
+
+const CSV_COLUMNS = [
+  'id',
+  'name',
+  'source_url',
+  'original_price',
+  'current_price',
+  'discount_percentage',
+  'category',
+  'sub_category',
+  'description',
+  'sku',
+  'status',
+  'brand',
+  'main_image_url',
+  'image_urls',
+  'sizes',
+  ...ATTRIBUTE_KEYS,
+  'created_at',
+  'updated_at',
+] as const;
+
+const MERCHANT_COLUMNS = [
+  'id',
+  'title',
+  'description',
+  'link',
+  'image_link',
+  'additional_image_link',
+  'availability',
+  'price',
+  'sale_price',
+  'brand',
+  'condition',
+  'product_type',
+  'color',
+  'material',
+  'pattern',
+  'size',
+  'item_group_id',
+] as const;
+
+type MerchantColumn = (typeof MERCHANT_COLUMNS)[number];
+
+// Supabase returns one-to-one joins as an array; normalise to a single row
+export function getProductAttributes(
+  product: ProductWithDetails
+): DatabaseProductAttribute | undefined {
+  const attributes = product.attributes as unknown;
+  if (Array.isArray(attributes)) return attributes[0];
+  return product.attributes;
+}
+
+function sortedImages(product: ProductWithDetails) {
+  return [...(product.images || [])].sort((a, b) => {
+    if (a.is_main !== b.is_main) return a.is_main ? -1 : 1;
+    return a.display_order - b.display_order;
+  });
+}
+
+function mainImageUrl(product: ProductWithDetails): string {
+  return product.main_image_url || sortedImages(product)[0]?.image_url || '';
+}
+
+function additionalImageUrls(product: ProductWithDetails): string[] {
+  const main = mainImageUrl(product);
+  return sortedImages(product)
+    .map((image) => image.image_url)
+    .filter((url) => url && url !== main);
+}
+
+function formatSizes(product: ProductWithDetails): string {
+  return (product.sizes || [])
+    .map((size) => `${size.size}:${size.stock_count}`)
+    .join(LIST_SEPARATOR);
+}
+
+function escapeCsvValue(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Export products as CSV using the importer's column keys
+ */
+export function toCsv(products: ProductWithDetails[]): string {
+  const rows = products.map((product) => {
+    const attributes = getProductAttributes(product);
+    const values: Record<(typeof CSV_COLUMNS)[number], string> = {
+      id: product.id,
+      name: product.name,
+      source_url: product.source_url,
+      original_price: String(product.original_price),
+      current_price: String(product.current_price),
+      discount_percentage: String(product.discount_percentage ?? 0),
+      category: product.category || '',
+      sub_category: product.sub_category || '',
+      description: product.description || '',
+      sku: product.sku || '',
+      status: product.status,
+      brand: product.brand?.name || '',
+      main_image_url: mainImageUrl(product),
+      image_urls: additionalImageUrls(product).join(LIST_SEPARATOR),
+      sizes: formatSizes(product),
+      fabric: attributes?.fabric || '',
+      fit: attributes?.fit || '',
+      collar: attributes?.collar || '',
+      sleeve: attributes?.sleeve || '',
+      closure: attributes?.closure || '',
+      pattern: attributes?.pattern || '',
+      occasion: attributes?.occasion || '',
+      care_instructions: attributes?.care_instructions || '',
+      material: attributes?.material || '',
+      color: attributes?.color || '',
+      style: attributes?.style || '',
+      created_at: product.created_at,
+      updated_at: product.updated_at,
+    };
+    return CSV_COLUMNS.map((column) => escapeCsvValue(values[column])).join(',');
+  });
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n');
+}
+
+/**
+ * Export products as a JSON document with nested attributes, images and sizes
+ */
+export function toJson(products: ProductWithDetails[]): string {
+  const items = products.map((product) => {
+    const attributes = getProductAttributes(product);
+    return {
+      id: product.id,
+      name: product.name,
+      source_url: product.source_url,
+      original_price: product.original_price,
+      current_price: product.current_price,
+      discount_percentage: product.discount_percentage,
+      category: product.category ?? null,
+      sub_category: product.sub_category ?? null,
+      description: product.description ?? null,
+      sku: product.sku ?? null,
+      status: product.status,
+      brand: product.brand?.name ?? null,
+      main_image_url: mainImageUrl(product) || null,
+      attributes: attributes
+        ? ATTRIBUTE_KEYS.reduce((acc, key) => {
+            if (attributes[key]) acc[key] = attributes[key] as string;
+            return acc;
+          }, {} as Record<string, string>)
+        : {},
+      images: sortedImages(product).map((image) => ({
+        image_url: image.image_url,
+        alt_text: image.alt_text ?? null,
+        is_main: image.is_main,
+        display_order: image.display_order,
+      })),
+      sizes: (product.sizes || []).map((size) => ({
+        size: size.size,
+        is_available: size.is_available,
+        stock_count: size.stock_count,
+      })),
+      created_at: product.created_at,
+      updated_at: product.updated_at,
+    };
+  });
+
+  return JSON.stringify(
+    { exported_at: new Date().toISOString(), count: items.length, products: items },
+    null,
+    2
+  );
+}
+
+const formatMerchantPrice = (price: number) => `${Number(price).toFixed(2)} ${CURRENCY}`;
+
+function merchantAvailability(product: ProductWithDetails): string {
+  if (product.status === 'out_of_stock') return 'out_of_stock';
+  const sizes = product.sizes || [];
+  if (sizes.length > 0 && !sizes.some((size) => size.is_available && size.stock_count > 0)) {
+    return 'out_of_stock';
+  }
+  return 'in_stock';
+}
+
+/**
+ * Build the Merchant Center attribute values for a product. Multi-value
+ * attributes (additional images, sizes) are returned as arrays.
+ */
+function toMerchantItem(product: ProductWithDetails): Record<MerchantColumn, string | string[]> {
+  const attributes = getProductAttributes(product);
+  const hasSale = product.current_price < product.original_price;
+
+  return {
+    id: product.sku || product.id,
+    title: product.name.slice(0, 150),
+    description: (product.description || product.name).slice(0, 5000),
+    link: product.source_url,
+    image_link: mainImageUrl(product),
+    // Merchant Center accepts up to 10 additional images
+    additional_image_link: additionalImageUrls(product).slice(0, 10),
+    availability: merchantAvailability(product),
+    price: formatMerchantPrice(product.original_price),
+    sale_price: hasSale ? formatMerchantPrice(product.current_price) : '',
+    brand: product.brand?.name || '',
+    condition: 'new',
+    product_type: [product.category, product.sub_category].filter(Boolean).join(' > '),
+    color: attributes?.color || '',
+    material: attributes?.material || attributes?.fabric || '',
+    pattern: attributes?.pattern || '',
+    size: (product.sizes || [])
+      .filter((size) => size.is_available)
+      .map((size) => size.size),
+    item_group_id: product.sizes?.length ? product.id : '',
+  };
+}
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+/**
+ * Export products as a Google Merchant Center RSS 2.0 feed
+ */
+export function toMerchantXml(products: ProductWithDetails[], channelTitle = 'Stylsia Catalog'): string {
+  const items = products.map((product) => {
+    const item = toMerchantItem(product);
+    const lines = MERCHANT_COLUMNS.flatMap((column) => {
+      const value = item[column];
+      const values = Array.isArray(value) ? value : [value];
+      return values
+        .filter((entry) => entry !== '')
+        .map((entry) => `      <g:${column}>${escapeXml(entry)}</g:${column}>`);
+    });
+    return ['    <item>', ...lines, '    </item>'].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:g="http://base.google.com/ns/1.0">',
+    '  <channel>',
+    `    <title>${escapeXml(channelTitle)}</title>`,
+    '    <link>https://stylsia.com</link>',
+    `    <description>${escapeXml(channelTitle)} product feed</description>`,
+    ...items,
+    '  </channel>',
+    '</rss>',
+  ].join('\n');
+}
+
+// Tabs and newlines are not allowed inside TSV feed values
+const sanitizeTsvValue = (value: string) => value.replace(/[\t\r\n]+/g, ' ').trim();
+
+/**
+ * Export products as a Google Merchant Center tab-separated feed
+ */
+export function toMerchantTsv(products: ProductWithDetails[]): string {
+  const rows = products.map((product) => {
+    const item = toMerchantItem(product);
+    return MERCHANT_COLUMNS.map((column) => {
+      const value = item[column];
+      return sanitizeTsvValue(Array.isArray(value) ? value.join(',') : value);
+    }).join('\t');
+  });
+
+  return [MERCHANT_COLUMNS.join('\t'), ...rows].join('\n');
+}
+
+/**
+ * Serialise products in the requested format and trigger a browser download
+ */
+export function downloadCatalogExport(
+  products: ProductWithDetails[],
+  format: ExportFormat,
+  baseName = 'catalog'
+): void {
+  const definition = EXPORT_FORMATS.find((f) => f.key === format);
+  if (!definition) return;
+
+  let content: string;
+  switch (format) {
+    case 'json':
+      content = toJson(products);
+      break;
+    case 'merchant_xml':
+      content = toMerchantXml(products);
+      break;
+    case 'merchant_tsv':
+      content = toMerchantTsv(products);
+      break;
+    case 'csv':
+    default:
+      // Prefix a BOM so spreadsheet tools detect UTF-8
+      content = '\uFEFF' + toCsv(products);
+      break;
+  }
+
+  const date = new Date().toISOString().split('T')[0];
+  const blob = new Blob([content], { type: `${definition.mimeType};charset=utf-8` });
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.setAttribute('hidden', '');
+  a.setAttribute('href', url);
+  a.setAttribute('download', `${baseName}-${date}.${definition.extension}`);
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  window.URL.revokeObjectURL(url);
+}
@@ -0,0 +1,585 @@
+/*
+  # Catalog Import Utilities
+
+  Parses CSV and JSON catalog feeds, maps source columns onto product fields,
+  validates each row and diffs the result against the brand's live catalog
+  so the import wizard can show a dry run before anything is written.
+*/
+
+import type {
+  DatabaseProductSize,
+  ProductImportRecord,
+  ProductWithDetails,
+} from '../types/database';
+import { getProductAttributes } from './catalogExport';
+
+export type CatalogRecord = Record<string, string>;
+
+export interface ParsedCatalog {
+  headers: string[];
+  records: CatalogRecord[];
+  // Row number reported for the first record (CSV rows start after the header)
+  firstRowNumber: number;
+}
+
+export type ImportFieldKey =
+  | 'name'
+  | 'source_url'
+  | 'original_price'
+  | 'current_price'
+  | 'category'
+  | 'sub_category'
+  | 'description'
+  | 'sku'
+  | 'main_image_url'
+  | 'image_urls'
+  | 'sizes'
+  | 'fabric'
+  | 'fit'
+  | 'collar'
+  | 'sleeve'
+  | 'closure'
+  | 'pattern'
+  | 'occasion'
+  | 'care_instructions'
+  | 'material'
+  | 'color'
+  | 'style';
+
+export type ColumnMapping = Partial<Record<ImportFieldKey, string>>;
+
+export interface ImportFieldDefinition {
+  key: ImportFieldKey;
+  label: string;
+  required: boolean;
+  group: 'product' | 'media' | 'attributes';
+  aliases: string[];
+  hint?: string;
+}
+
+export interface ValidatedImportRow {
+  rowNumber: number;
+  record: ProductImportRecord | null;
+  errors: string[];
+}
+
+export type ImportAction = 'create' | 'update' | 'unchanged' | 'invalid';
+
+export interface ImportDiffEntry {
+  rowNumber: number;
+  action: ImportAction;
+  name: string;
+  record: ProductImportRecord | null;
+  existingId?: string;
+  changes: string[];
+  errors: string[];
+}
+
+export class CatalogParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CatalogParseError';
+  }
+}
+
+// Product sizes accepted by the product_sizes check constraint
+export const VALID_SIZES: DatabaseProductSize['size'][] = [
+  'XS', 'S', 'M', 'L', 'XL', 'XXL', '2XL', '3XL', 'Free Size',
+];
+
+const ATTRIBUTE_KEYS = [
+  'fabric',
+  'fit',
+  'collar',
+  'sleeve',
+  'closure',
+  'pattern',
+  'occasion',
+  'care_instructions',
+  'material',
+  'color',
+  'style',
+] as const;
+
+export const IMPORT_FIELDS: ImportFieldDefinition[] = [
+  { key: 'name', label: 'Product Name', required: true, group: 'product', aliases: ['title', 'product_name', 'product name'] },
+  { key: 'source_url', label: 'Product URL', required: true, group: 'product', aliases: ['url', 'link', 'product_url', 'product url'] },
+  { key: 'original_price', label: 'Original Price', required: true, group: 'product', aliases: ['mrp', 'price', 'list_price', 'regular_price'] },
+  { key: 'current_price', label: 'Selling Price', required: false, group: 'product', aliases: ['sale_price', 'selling_price', 'offer_price'], hint: 'Defaults to the original price' },
+  { key: 'category', label: 'Category', required: false, group: 'product', aliases: ['department'] },
+  { key: 'sub_category', label: 'Sub-category', required: false, group: 'product', aliases: ['subcategory', 'sub category', 'product_type'] },
+  { key: 'description', label: 'Description', required: false, group: 'product', aliases: ['details', 'body'] },
+  { key: 'sku', label: 'SKU', required: false, group: 'product', aliases: ['style_code', 'item_code', 'id'] },
+  { key: 'main_image_url', label: 'Main Image URL', required: false, group: 'media', aliases: ['image', 'image_url', 'image url', 'image_link'] },
+  { key: 'image_urls', label: 'Additional Images', required: false, group: 'media', aliases: ['images', 'additional_images', 'additional_image_link'], hint: 'Separate multiple URLs with |' },
+  { key: 'sizes', label: 'Sizes', required: false, group: 'media', aliases: ['size', 'size_stock', 'inventory'], hint: 'e.g. S:10|M:4|L:0' },
+  { key: 'fabric', label: 'Fabric', required: false, group: 'attributes', aliases: [] },
+  { key: 'fit', label: 'Fit', required: false, group: 'attributes', aliases: [] },
+  { key: 'collar', label: 'Collar', required: false, group: 'attributes', aliases: ['neck', 'neckline'] },
+  { key: 'sleeve', label: 'Sleeve', required: false, group: 'attributes', aliases: ['sleeve_length'] },
+  { key: 'closure', label: 'Closure', required: false, group: 'attributes', aliases: [] },
+  { key: 'pattern', label: 'Pattern', required: false, group: 'attributes', aliases: ['print'] },
+  { key: 'occasion', label: 'Occasion', required: false, group: 'attributes', aliases: [] },
+  { key: 'care_instructions', label: 'Care Instructions', required: false, group: 'attributes', aliases: ['care', 'wash_care'] },
+  { key: 'material', label: 'Material', required: false, group: 'attributes', aliases: [] },
+  { key: 'color', label: 'Color', required: false, group: 'attributes', aliases: ['colour'] },
+  { key: 'style', label: 'Style', required: false, group: 'attributes', aliases: [] },
+];
+
+const LIST_SEPARATOR = '|';
+
+/**
+ * Parse CSV text (RFC 4180 quoting) into header names and row records
+ */
+export function parseCsv(text: string): ParsedCatalog {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Strip UTF-8 BOM exported by spreadsheet tools
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new CatalogParseError('CSV file has an unterminated quoted field');
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const nonEmptyRows = rows.filter((r) => r.some((value) => value.trim() !== ''));
+  if (nonEmptyRows.length === 0) {
+    throw new CatalogParseError('CSV file is empty');
+  }
+
+  const headers = nonEmptyRows[0].map((header) => header.trim());
+  const records = nonEmptyRows.slice(1).map((values) =>
+    headers.reduce((record, header, index) => {
+      record[header] = (values[index] ?? '').trim();
+      return record;
+    }, {} as CatalogRecord)
+  );
+
+  return { headers, records, firstRowNumber: 2 };
+}
+
+// Flatten one JSON value into the string form the CSV path produces
+function stringifyJsonValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+
+  if (Array.isArray(value)) {
+    return value
+      .map((entry) => {
+        if (entry && typeof entry === 'object') {
+          const obj = entry as Record<string, unknown>;
+          if ('size' in obj) {
+            return obj.stock_count !== undefined
+              ? `${obj.size}:${obj.stock_count}`
+              : String(obj.size);
+          }
+          return String(obj.image_url ?? obj.url ?? '');
+        }
+        return String(entry);
+      })
+      .filter(Boolean)
+      .join(LIST_SEPARATOR);
+  }
+
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+
+  return String(value).trim();
+}
+
+/**
+ * Parse a JSON catalog: either an array of products or `{ "products": [...] }`.
+ * Nested `attributes` objects are flattened into top-level columns.
+ */
+export function parseJsonCatalog(text: string): ParsedCatalog {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(text);
+  } catch {
+    throw new CatalogParseError('JSON file is not valid JSON');
+  }
+
+  const items = Array.isArray(payload)
+    ? payload
+    : (payload as { products?: unknown })?.products;
+
+  if (!Array.isArray(items)) {
+    throw new CatalogParseError('JSON catalog must be an array of products or an object with a "products" array');
+  }
+
+  const headers: string[] = [];
+  const records = items.map((item, index) => {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      throw new CatalogParseError(`Product at index ${index} is not an object`);
+    }
+
+    const record: CatalogRecord = {};
+    const source = item as Record<string, unknown>;
+    const nested = source.attributes;
+    const flattened: Record<string, unknown> =
+      nested && typeof nested === 'object' && !Array.isArray(nested)
+        ? { ...source, ...(nested as Record<string, unknown>) }
+        : source;
+    delete flattened.attributes;
+
+    for (const [key, value] of Object.entries(flattened)) {
+      if (!headers.includes(key)) headers.push(key);
+      record[key] = stringifyJsonValue(value);
+    }
+    return record;
+  });
+
+  if (records.length === 0) {
+    throw new CatalogParseError('JSON catalog does not contain any products');
+  }
+
+  return { headers, records, firstRowNumber: 1 };
+}
+
+/**
+ * Read a catalog file and dispatch to the CSV or JSON parser by extension
+ */
+export async function parseCatalogFile(file: File): Promise<ParsedCatalog> {
+  const text = await file.text();
+  const extension = file.name.split('.').pop()?.toLowerCase();
+
+  if (extension === 'json') return parseJsonCatalog(text);
+  if (extension === 'csv') return parseCsv(text);
+
+  throw new CatalogParseError('Unsupported file type. Please upload a .csv or .json file');
+}
+
+const normalizeHeader = (header: string) =>
+  header.toLowerCase().replace(/[\s-]+/g, '_').trim();
+
+/**
+ * Suggest a column mapping by matching header names against field keys and aliases
+ */
+export function autoMapColumns(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const used = new Set<string>();
+
+  for (const field of IMPORT_FIELDS) {
+    const candidates = [field.key, ...field.aliases].map(normalizeHeader);
+    const match = headers.find(
+      (header) => !used.has(header) && candidates.includes(normalizeHeader(header))
+    );
+    if (match) {
+      mapping[field.key] = match;
+      used.add(match);
+    }
+  }
+
+  return mapping;
+}
+
+function parsePrice(value: string): number | null {
+  const cleaned = value.replace(/[₹$,\s]/g, '').replace(/^(INR|Rs\.?)/i, '');
+  if (cleaned === '') return null;
+  const price = Number(cleaned);
+  return Number.isFinite(price) ? price : NaN;
+}
+
+function isValidUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+function parseSizes(value: string, errors: string[]): ProductImportRecord['sizes'] {
+  const sizes: ProductImportRecord['sizes'] = [];
+
+  for (const token of value.split(/[|;]/).map((t) => t.trim()).filter(Boolean)) {
+    const [rawSize, rawStock] = token.split(':').map((part) => part.trim());
+    const size = VALID_SIZES.find((s) => s.toLowerCase() === rawSize.toLowerCase());
+
+    if (!size) {
+      errors.push(`Unknown size "${rawSize}" (allowed: ${VALID_SIZES.join(', ')})`);
+      continue;
+    }
+
+    if (sizes.some((s) => s.size === size)) {
+      errors.push(`Size ${size} is listed more than once`);
+      continue;
+    }
+
+    const stock = rawStock === undefined || rawStock === '' ? 0 : Number(rawStock);
+    if (!Number.isInteger(stock) || stock < 0) {
+      errors.push(`Stock for size ${size} must be a whole number of 0 or more`);
+      continue;
+    }
+
+    // A size listed without a stock count is treated as available
+    sizes.push({
+      size,
+      stock_count: stock,
+      is_available: rawStock === undefined || rawStock === '' ? true : stock > 0,
+    });
+  }
+
+  return sizes;
+}
+
+/**
+ * Apply the column mapping to every record and validate the resulting rows
+ */
+export function buildImportRows(
+  records: CatalogRecord[],
+  mapping: ColumnMapping,
+  firstRowNumber: number = 2
+): ValidatedImportRow[] {
+  const seenUrls = new Map<string, number>();
+  const seenSkus = new Map<string, number>();
+
+  return records.map((raw, index) => {
+    const rowNumber = index + firstRowNumber;
+    const errors: string[] = [];
+    const get = (key: ImportFieldKey) => {
+      const column = mapping[key];
+      return column ? (raw[column] ?? '').trim() : '';
+    };
+
+    const name = get('name');
+    const sourceUrl = get('source_url');
+    const sku = get('sku');
+
+    if (!name) errors.push('Product name is required');
+    if (name.length > 200) errors.push('Product name must be 200 characters or fewer');
+
+    if (!sourceUrl) {
+      errors.push('Product URL is required');
+    } else if (!isValidUrl(sourceUrl)) {
+      errors.push(`Product URL "${sourceUrl}" is not a valid http(s) URL`);
+    } else if (seenUrls.has(sourceUrl)) {
+      errors.push(`Product URL duplicates row ${seenUrls.get(sourceUrl)}`);
+    } else {
+      seenUrls.set(sourceUrl, rowNumber);
+    }
+
+    if (sku) {
+      if (seenSkus.has(sku)) {
+        errors.push(`SKU "${sku}" duplicates row ${seenSkus.get(sku)}`);
+      } else {
+        seenSkus.set(sku, rowNumber);
+      }
+    }
+
+    const originalPrice = parsePrice(get('original_price'));
+    let currentPrice = parsePrice(get('current_price'));
+
+    if (originalPrice === null) {
+      errors.push('Original price is required');
+    } else if (Number.isNaN(originalPrice) || originalPrice < 0) {
+      errors.push('Original price must be a positive number');
+    }
+
+    if (currentPrice === null) {
+      currentPrice = originalPrice;
+    } else if (Number.isNaN(currentPrice) || currentPrice < 0) {
+      errors.push('Selling price must be a positive number');
+    } else if (originalPrice !== null && currentPrice > originalPrice) {
+      errors.push('Selling price cannot be higher than the original price');
+    }
+
+    const mainImage = get('main_image_url');
+    const extraImages = get('image_urls')
+      .split(LIST_SEPARATOR)
+      .map((url) => url.trim())
+      .filter(Boolean);
+    const imageUrls = Array.from(new Set([mainImage, ...extraImages].filter(Boolean)));
+
+    for (const url of imageUrls) {
+      if (!isValidUrl(url)) errors.push(`Image URL "${url}" is not a valid http(s) URL`);
+    }
+
+    const sizes = parseSizes(get('sizes'), errors);
+
+    const attributes = ATTRIBUTE_KEYS.reduce((attrs, key) => {
+      const value = get(key);
+      if (value) attrs[key] = value;
+      return attrs;
+    }, {} as NonNullable<ProductImportRecord['attributes']>);
+
+    if (errors.length > 0) {
+      return { rowNumber, record: null, errors };
+    }
+
+    const record: ProductImportRecord = {
+      row_number: rowNumber,
+      product: {
+        name,
+        source_url: sourceUrl,
+        original_price: originalPrice as number,
+        current_price: currentPrice as number,
+        category: get('category') || undefined,
+        sub_category: get('sub_category') || undefined,
+        description: get('description') || undefined,
+        sku: sku || undefined,
+        main_image_url: imageUrls[0],
+      },
+      attributes: Object.keys(attributes).length > 0 ? attributes : undefined,
+      images: imageUrls.map((url, order) => ({
+        image_url: url,
+        alt_text: name,
+        is_main: order === 0,
+        display_order: order,
+      })),
+      sizes,
+    };
+
+    return { rowNumber, record, errors };
+  });
+}
+
+// Fields compared between an import row and the existing product
+const DIFF_FIELDS = [
+  'name',
+  'source_url',
+  'original_price',
+  'current_price',
+  'category',
+  'sub_category',
+  'description',
+  'sku',
+] as const;
+
+function describeChanges(record: ProductImportRecord, existing: ProductWithDetails): string[] {
+  const changes: string[] = [];
+
+  for (const field of DIFF_FIELDS) {
+    const next = record.product[field] ?? null;
+    const current = existing[field] ?? null;
+    const differs =
+      typeof next === 'number'
+        ? Number(current) !== next
+        : (next || null) !== (current || null);
+    if (differs) changes.push(field);
+  }
+
+  if (record.attributes) {
+    const currentAttrs = getProductAttributes(existing);
+    const attrChanged = ATTRIBUTE_KEYS.some(
+      (key) => (record.attributes?.[key] || null) !== (currentAttrs?.[key] || null)
+    );
+    if (attrChanged) changes.push('attributes');
+  }
+
+  if (record.images.length > 0) {
+    const currentImages = [...(existing.images || [])]
+      .sort((a, b) => a.display_order - b.display_order)
+      .map((img) => img.image_url);
+    if (currentImages.join(LIST_SEPARATOR) !== record.images.map((img) => img.image_url).join(LIST_SEPARATOR)) {
+      changes.push('images');
+    }
+  }
+
+  if (record.sizes.length > 0) {
+    const serialize = (sizes: Array<{ size: string; stock_count: number }>) =>
+      [...sizes]
+        .sort((a, b) => a.size.localeCompare(b.size))
+        .map((s) => `${s.size}:${s.stock_count}`)
+        .join(LIST_SEPARATOR);
+    if (serialize(existing.sizes || []) !== serialize(record.sizes)) {
+      changes.push('sizes');
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Compare validated rows with the live catalog. Products match on source URL
+ * first and SKU second, mirroring import_brand_catalog on the database side.
+ */
+export function diffAgainstCatalog(
+  rows: ValidatedImportRow[],
+  existing: ProductWithDetails[]
+): ImportDiffEntry[] {
+  const byUrl = new Map(existing.map((product) => [product.source_url, product]));
+  const bySku = new Map(
+    existing.filter((product) => product.sku).map((product) => [product.sku as string, product])
+  );
+
+  return rows.map((row) => {
+    if (!row.record) {
+      return {
+        rowNumber: row.rowNumber,
+        action: 'invalid',
+        name: '',
+        record: null,
+        changes: [],
+        errors: row.errors,
+      };
+    }
+
+    const { product } = row.record;
+    const match =
+      byUrl.get(product.source_url) ||
+      (product.sku ? bySku.get(product.sku) : undefined);
+
+    if (!match) {
+      return {
+        rowNumber: row.rowNumber,
+        action: 'create',
+        name: product.name,
+        record: row.record,
+        changes: [],
+        errors: [],
+      };
+    }
+
+    const changes = describeChanges(row.record, match);
+    return {
+      rowNumber: row.rowNumber,
+      action: changes.length > 0 ? 'update' : 'unchanged',
+      name: product.name,
+      record: row.record,
+      existingId: match.id,
+      changes,
+      errors: [],
+    };
+  });
+}
@@ -0,0 +1,105 @@
+// Outbound click tracking
+//
+// Shoppers leave for a brand's store through /out/:productId, which records
+// the click and forwards them with the brand's UTM parameters and a click id
+// appended (see the product click tracking migration).
+import { supabase } from "./supabase";
+
+export interface BrandUtmSettings {
+  brand_id: string;
+  enabled: boolean;
+  utm_source: string;
+  utm_medium: string;
+  utm_campaign: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type BrandUtmSettingsInput = Pick<
+  BrandUtmSettings,
+  "enabled" | "utm_source" | "utm_medium" | "utm_campaign"
+>;
+
+// Used until a brand saves its own settings
+export const DEFAULT_UTM_SETTINGS: BrandUtmSettingsInput = {
+  enabled: true,
+  utm_source: "stylsia",
+  utm_medium: "referral",
+  utm_campaign: null,
+};
+
+// Keep in sync with the brand_utm_settings checks
+export const UTM_VALUE_PATTERN = /^[A-Za-z0-9._~-]{0,100}$/;
+
+/** Link that records the click before forwarding to the store. */
+export function getOutboundUrl(productId: string): string {
+  return `/out/${productId}`;
+}
+
+// Same key the product view tracking uses
+export function getSessionId(): string {
+  let sessionId = sessionStorage.getItem("session_id");
+  if (!sessionId) {
+    sessionId = `session_${Date.now()}_${Math.random()
+      .toString(36)
+      .substr(2, 9)}`;
+    sessionStorage.setItem("session_id", sessionId);
+  }
+  return sessionId;
+}
+
+/**
+ * Records the click and returns the attributed store URL. Falls back to the
+ * plain source URL if tracking fails, so shoppers always reach the store.
+ */
+export async function recordProductClick(
+  productId: string
+): Promise<string | null> {
+  const { data, error } = await supabase.rpc("record_product_click", {
+    product_uuid: productId,
+    session_uuid: getSessionId(),
+    referrer_url: document.referrer || null,
+  });
+
+  if (!error) return (data as string | null) ?? null;
+
+  console.warn("Failed to record product click:", error);
+  const { data: product } = await supabase
+    .from("products")
+    .select("source_url")
+    .eq("id", productId)
+    .maybeSingle();
+  return product?.source_url ?? null;
+}
+
+export async function getBrandUtmSettings(
+  brandId: string
+): Promise<BrandUtmSettingsInput> {
+  const { data, error } = await supabase
+    .from("brand_utm_settings")
+    .select("*")
+    .eq("brand_id", brandId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return DEFAULT_UTM_SETTINGS;
+
+  const { enabled, utm_source, utm_medium, utm_campaign } =
+    data as BrandUtmSettings;
+  return { enabled, utm_source, utm_medium, utm_campaign };
+}
+
+export async function saveBrandUtmSettings(
+  brandId: string,
+  settings: BrandUtmSettingsInput
+): Promise<void> {
+  const { error } = await supabase.from("brand_utm_settings").upsert(
+    {
+      brand_id: brandId,
+      ...settings,
+      utm_campaign: settings.utm_campaign || null,
+    },
+    { onConflict: "brand_id" }
+  );
+  if (error) throw error;
+}
@@ -0,0 +1,49 @@
+// Conversion postbacks
+//
+// Brands report orders for clicks we sent them to the conversion-postback
+// Edge Function, authenticated with a per-brand key. Only a hash of the key
+// is stored (see the conversion postbacks migration).
+import { supabase } from "./supabase";
+
+export interface BrandPostbackKey {
+  brand_id: string;
+  key_prefix: string;
+  created_by: string | null;
+  last_used_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export const POSTBACK_ENDPOINT = `${
+  import.meta.env.VITE_SUPABASE_URL
+}/functions/v1/conversion-postback`;
+
+export const POSTBACK_KEY_HEADER = "X-Stylsia-Postback-Key";
+
+// Appended to outbound store links by record_product_click
+export const CLICK_ID_PARAM = "stylsia_click_id";
+
+/** The brand's current key without its secret part (owners only). */
+export async function getBrandPostbackKey(
+  brandId: string
+): Promise<BrandPostbackKey | null> {
+  const { data, error } = await supabase
+    .from("brand_postback_keys")
+    .select(
+      "brand_id, key_prefix, created_by, last_used_at, created_at, updated_at"
+    )
+    .eq("brand_id", brandId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+/** Issues a new key; the previous one stops working. Shown only once. */
+export async function rotateBrandPostbackKey(brandId: string): Promise<string> {
+  const { data, error } = await supabase.rpc("rotate_brand_postback_key", {
+    brand: brandId,
+  });
+  if (error) throw error;
+  return data as string;
+}
@@ -16,14 +16,23 @@ import type {
   // DatabaseProductMetricsDaily,
   // DatabaseBrandMetricsDaily,
   DatabaseSupportRequest,
+  DatabaseSupportMessage,
+  DatabaseSupportCannedResponse,
+  DatabaseProductModerationDecision,
   ProductWithDetails,
   BrandWithMetrics,
   SupportRequestWithBrand,
   ProductFilters,
+  ProductFacetCount,
   AnalyticsFilters,
   PaginatedResponse,
   AnalyticsResponse,
+  ProductAnalyticsResponse,
+  ProductInput,
+  ProductImportRecord,
+  ProductImportResult,
 } from '../types/database';
+import type { Notification, NotificationPreferences } from '../types/notifications';
 
 // Cache configuration
 const CACHE_TTL = {
@@ -119,6 +128,29 @@ function buildCacheKey(operation: string, params: Record<string, any> = {}): str
   return `${operation}:${JSON.stringify(sortedParams)}`;
 }
 
+// Catalog filters in the shape catalog_product_matches expects. Paging and
+// sorting stay on the query; empty facets are dropped.
+function toCatalogFilters(filters: ProductFilters): Record<string, unknown> {
+  const { facets, ...rest } = filters;
+  delete rest.limit;
+  delete rest.offset;
+  delete rest.sort_by;
+
+  const selectedFacets = Object.fromEntries(
+    Object.entries(facets || {}).filter(([, values]) => values && values.length > 0)
+  );
+  return { ...rest, ...selectedFacets };
+}
+
+// Row returned by the search_products RPC
+interface ProductSearchRow {
+  product_id: string;
+  rank: number;
+  name_highlight: string;
+  description_highlight: string | null;
+  total_count: number;
+}
+
 // Brand operations
 export class BrandRepository {
   static async getById(id: string): Promise<DatabaseBrand | null> {
@@ -369,14 +401,21 @@ export class ProductRepository {
   }
 
   static async getAll(filters: ProductFilters = {}) {
+    // Searches without an explicit sort are ordered by relevance
+    if (filters.search && !filters.sort_by) {
+      return ProductRepository.search(filters);
+    }
+
     // Similar to getByBrandId, but fetches all products (no brand filter)
     const cacheKey = buildCacheKey('products:getAll', { ...filters });
     const cached = cache.get(cacheKey);
     if (cached) return cached;
 
     try {
+      // Filtering happens in filter_catalog_products so facet counts
+      // (getFacetCounts) apply exactly the same rules
       let query = supabase
-        .from('products')
+        .rpc('filter_catalog_products', { filters: toCatalogFilters(filters) }, { count: 'exact' })
         .select(`
           *,
           brand:brands!inner(id, name, logo_url),
@@ -385,32 +424,6 @@ export class ProductRepository {
           sizes:product_sizes(*)
         `);
 
-      // Apply filters
-      if (filters.status) {
-        query = query.eq('status', filters.status);
-      }
-      if (filters.category) {
-        query = query.eq('category', filters.category);
-      }
-      if (filters.subcategory) {
-        query = query.eq('sub_category', filters.subcategory);
-      }
-      if (filters.is_featured !== undefined) {
-        query = query.eq('is_featured', filters.is_featured);
-      }
-      if (filters.price_min !== undefined) {
-        query = query.gte('current_price', filters.price_min);
-      }
-      if (filters.price_max !== undefined) {
-        query = query.lte('current_price', filters.price_max);
-      }
-      if (filters.has_discount) {
-        query = query.gt('discount_percentage', 0);
-      }
-      if (filters.search) {
-        query = query.or(`name.ilike.%${filters.search}%,description.ilike.%${filters.search}%`);
-      }
-
       // Pagination and sorting
       const limit = filters.limit || 10;
       const offset = filters.offset || 0;
@@ -447,17 +460,9 @@ export class ProductRepository {
       
       query = query.range(offset, offset + limit - 1);
 
-      const { data, error } = await query;
+      const { data, error, count: totalCount } = await query;
       if (error) handleDatabaseError(error);
 
-      // Get total count for pagination
-      const { count: totalCount, error: countError } = await supabase
-        .from('products')
-        .select('*', { count: 'exact', head: true });
-      if (countError) {
-        console.warn('Failed to get total count:', countError);
-      }
-
       const result = {
         data: data || [],
         total: totalCount || 0,
@@ -472,6 +477,298 @@ export class ProductRepository {
       handleDatabaseError(error);
     }
   }
+
+  // Full-text search ranked by relevance, tolerant of misspellings. Takes
+  // the same filters as getAll; filters.search is the query.
+  static async search(filters: ProductFilters) {
+    const cacheKey = buildCacheKey('products:search', { ...filters });
+    const cached = cache.get(cacheKey);
+    if (cached) return cached;
+
+    try {
+      const limit = filters.limit || 10;
+      const offset = filters.offset || 0;
+      const catalogFilters = toCatalogFilters(filters);
+      delete catalogFilters.search;
+
+      const { data: matches, error: searchError } = await supabase.rpc('search_products', {
+        search_query: filters.search || '',
+        filters: catalogFilters,
+        limit_count: limit,
+        offset_count: offset,
+      });
+      if (searchError) handleDatabaseError(searchError);
+
+      const rows: ProductSearchRow[] = matches || [];
+      const total = rows.length > 0 ? Number(rows[0].total_count) : 0;
+      let products: ProductWithDetails[] = [];
+
+      if (rows.length > 0) {
+        const { data, error } = await supabase
+          .from('products')
+          .select(`
+            *,
+            brand:brands!inner(id, name, logo_url),
+            attributes:product_attributes(*),
+            images:product_images(*),
+            sizes:product_sizes(*)
+          `)
+          .in('id', rows.map(row => row.product_id));
+        if (error) handleDatabaseError(error);
+
+        // Keep the ranking from search_products
+        const byId = new Map((data || []).map(product => [product.id, product]));
+        products = rows
+          .filter(row => byId.has(row.product_id))
+          .map(row => ({
+            ...byId.get(row.product_id),
+            search_highlights: {
+              name: row.name_highlight,
+              description: row.description_highlight,
+            },
+          }));
+      }
+
+      const result = {
+        data: products,
+        total,
+        page: Math.floor(offset / limit) + 1,
+        limit,
+        has_next: (offset + limit) < total,
+        has_prev: offset > 0,
+      };
+      cache.set(cacheKey, result, CACHE_TTL.PRODUCTS);
+      return result;
+    } catch (error) {
+      handleDatabaseError(error);
+    }
+  }
+
+  // "Did you mean" query, or null when every word is already in the catalog
+  static async getSearchSuggestion(query: string): Promise<string | null> {
+    const cacheKey = buildCacheKey('products:getSearchSuggestion', { query });
+    const cached = cache.get(cacheKey);
+    if (cached) return cached.suggestion;
+
+    try {
+      const { data, error } = await supabase.rpc('suggest_search_query', {
+        search_query: query,
+      });
+      if (error) handleDatabaseError(error);
+
+      const suggestion: string | null = data || null;
+      cache.set(cacheKey, { suggestion }, CACHE_TTL.PRODUCTS);
+      return suggestion;
+    } catch (error) {
+      handleDatabaseError(error);
+    }
+  }
+
+  static async getFacetCounts(filters: ProductFilters = {}): Promise<ProductFacetCount[]> {
+    const catalogFilters = toCatalogFilters(filters);
+    const cacheKey = buildCacheKey('products:getFacetCounts', catalogFilters);
+    const cached = cache.get(cacheKey);
+    if (cached) return cached;
+
+    try {
+      const { data, error } = await supabase.rpc('get_catalog_facet_counts', {
+        filters: catalogFilters,
+      });
+      if (error) handleDatabaseError(error);
+
+      const result: ProductFacetCount[] = (data || []).map((row: ProductFacetCount) => ({
+        ...row,
+        product_count: Number(row.product_count),
+      }));
+      cache.set(cacheKey, result, CACHE_TTL.PRODUCTS);
+      return result;
+    } catch (error) {
+      handleDatabaseError(error);
+    }
+  }
+
+  static async create(
+    brandId: string,
+    input: ProductInput,
+    submitForReview = false
+  ): Promise<ProductWithDetails | null> {
+    return ProductRepository.save(brandId, null, input, submitForReview);
+  }
+
+  static async update(
+    brandId: string,
+    id: string,
+    input: ProductInput,
+    submitForReview = false
+  ): Promise<ProductWithDetails | null> {
+    return ProductRepository.save(brandId, id, input, submitForReview);
+  }
+
+  private static async save(
+    brandId: string,
+    id: string | null,
+    input: ProductInput,
+    submitForReview: boolean
+  ): Promise<ProductWithDetails | null> {
+    try {
+      const { data: productId, error } = await supabase
+        .rpc('save_brand_product', {
+          brand_uuid: brandId,
+          product_uuid: id,
+          payload: input,
+          submit_for_review: submitForReview,
+        });
+
+      if (error) handleDatabaseError(error);
+
+      // Invalidate cache
+      cache.invalidate('product');
+
+      return ProductRepository.getById(productId);
+    } catch (error) {
+      handleDatabaseError(error);
+    }
+  }
+
+  static async getLatestModerationDecisions(
+    productIds: string[]
+  ): Promise<Record<string, DatabaseProductModerationDecision>> {
+    if (productIds.length === 0) return {};
+
+    try {
+      const { data, error } = await supabase
+        .from('product_moderation_decisions')
+        .select('*')
+        .in('product_id', productIds)
+        .order('created_at', { ascending: false });
+
+      if (error) handleDatabaseError(error);
+
+      // Keep only the most recent decision per product
+      return (data || []).reduce((latest, decision) => {
+        if (!latest[decision.product_id]) latest[decision.product_id] = decision;
+        return latest;
+      }, {} as Record<string, DatabaseProductModerationDecision>);
+    } catch (error) {
+      handleDatabaseError(error);
+    }
+  }
+
+  static async getCatalogSnapshot(brandId: string): Promise<ProductWithDetails[]> {
+    // Not cached: imports must diff against the live catalog
+    try {
+      const { data, error } = await supabase
+        .from('products')
+        .select(`
+          *,
+          brand:brands!inner(id, name, logo_url),
+          attributes:product_attributes(*),
+          images:product_images(*),
+          sizes:product_sizes(*)
+        `)
+        .eq('brand_id', brandId);
+
+      if (error) handleDatabaseError(error);
+
+      return data || [];
+    } catch (error) {
+      handleDatabaseError(error);
+    }
+  }
+
+  static async getForExport(
+    filters: ProductFilters = {},
+    productIds?: string[]
+  ): Promise<ProductWithDetails[]> {
+    // Not cached: exports always reflect the live catalog
+    const PAGE_SIZE = 500;
+    const select = `
+      *,
+      brand:brands!inner(id, name, logo_url),
+      attributes:product_attributes(*),
+      images:product_images(*),
+      sizes:product_sizes(*)
+    `;
+
+    try {
+      const results: ProductWithDetails[] = [];
+
+      // Explicit selection: fetch in chunks to keep the id filter URL short
+      if (productIds) {
+        for (let i = 0; i < productIds.length; i += 100) {
+          const { data, error } = await supabase
+            .from('products')
+            .select(select)
+            .in('id', productIds.slice(i, i + 100));
+
+          if (error) handleDatabaseError(error);
+          results.push(...(data || []));
+        }
+
+        // Preserve the caller's ordering
+        const order = new Map(productIds.map((id, index) => [id, index]));
+        return results.sort((a, b) => (order.get(a.id) ?? 0) - (order.get(b.id) ?? 0));
+      }
+
+      for (let offset = 0; ; offset += PAGE_SIZE) {
+        let query = supabase.from('products').select(select);
+
+        if (filters.brand_id) {
+          query = query.eq('brand_id', filters.brand_id);
+        }
+        if (filters.status) {
+          query = query.eq('status', filters.status);
+        }
+        if (filters.category) {
+          query = query.eq('category', filters.category);
+        }
+        if (filters.subcategory) {
+          query = query.eq('sub_category', filters.subcategory);
+        }
+        if (filters.search) {
+          query = query.or(`name.ilike.%${filters.search}%,description.ilike.%${filters.search}%`);
+        }
+
+        const { data, error } = await query
+          .order('created_at', { ascending: false })
+          .range(offset, offset + PAGE_SIZE - 1);
+
+        if (error) handleDatabaseError(error);
+
+        results.push(...(data || []));
+        if (!data || data.length < PAGE_SIZE) break;
+      }
+
+      return results;
+    } catch (error) {
+      handleDatabaseError(error);
+    }
+  }
+
+  static async importCatalog(
+    brandId: string,
+    records: ProductImportRecord[]
+  ): Promise<ProductImportResult> {
+    try {
+      const { data, error } = await supabase
+        .rpc('import_brand_catalog', {
+          brand_uuid: brandId,
+          catalog: records,
+        });
+
+      if (error) handleDatabaseError(error);
+
+      // Invalidate cache
+      cache.invalidate('product');
+
+      return {
+        created: data?.[0]?.created_count ?? 0,
+        updated: data?.[0]?.updated_count ?? 0,
+      };
+    } catch (error) {
+      handleDatabaseError(error);
+    }
+  }
 }
 
 // Analytics operations
@@ -529,6 +826,7 @@ export class AnalyticsRepository {
           total_views: 0,
           total_clicks: 0,
           total_conversions: 0,
+          total_saves: 0,
           total_revenue: 0,
           conversion_rate: 0,
         },
@@ -542,6 +840,62 @@ export class AnalyticsRepository {
       handleDatabaseError(error);
     }
   }
+
+  static async getProductAnalytics(filters: AnalyticsFilters): Promise<ProductAnalyticsResponse> {
+    const productId = filters.product_id;
+    if (!productId) {
+      throw new DatabaseError('A product is required for product analytics', 'INVALID_FILTERS');
+    }
+
+    const cacheKey = buildCacheKey('analytics:getProductAnalytics', { ...filters });
+    const cached = cache.get(cacheKey);
+    if (cached) return cached;
+
+    try {
+      const range = {
+        product_uuid: productId,
+        start_date: filters.date_start,
+        end_date: filters.date_end,
+      };
+
+      const [productResult, trendsResult, referrersResult, sizesResult] = await Promise.all([
+        supabase
+          .from('products')
+          .select('id, name, brand_id, current_price, original_price, status, main_image_url')
+          .eq('id', productId)
+          .single(),
+        supabase.rpc('get_product_analytics_trends', range),
+        supabase.rpc('get_product_referrers', { ...range, limit_count: 10 }),
+        supabase
+          .from('product_sizes')
+          .select('*')
+          .eq('product_id', productId),
+      ]);
+
+      if (productResult.error) handleDatabaseError(productResult.error);
+      if (trendsResult.error) handleDatabaseError(trendsResult.error);
+
+      // The breakdowns are secondary; show the page without them
+      if (referrersResult.error) {
+        console.warn('Failed to fetch product referrers:', referrersResult.error);
+      }
+      if (sizesResult.error) {
+        console.warn('Failed to fetch product sizes:', sizesResult.error);
+      }
+
+      const result: ProductAnalyticsResponse = {
+        product: productResult.data,
+        trends: trendsResult.data || [],
+        referrers: referrersResult.data || [],
+        sizes: sizesResult.data || [],
+      };
+
+      cache.set(cacheKey, result, CACHE_TTL.ANALYTICS);
+      return result;
+    } catch (error) {
+      handleDatabaseError(error);
+    }
+  }
 }
 
 // Support request operations
@@ -588,6 +942,208 @@ export class SupportRequestRepository {
       handleDatabaseError(error);
     }
   }
+
+  static async getMessages(requestId: string): Promise<DatabaseSupportMessage[]> {
+    try {
+      const { data, error } = await supabase
+        .from('support_messages')
+        .select('*')
+        .eq('request_id', requestId)
+        .order('created_at', { ascending: true });
+
+      if (error) handleDatabaseError(error);
+
+      return data || [];
+    } catch (error) {
+      handleDatabaseError(error);
+    }
+  }
+
+  static async addMessage(
+    requestId: string,
+    body: string,
+    attachmentUrls: string[] = [],
+    isInternal = false
+  ): Promise<string> {
+    try {
+      const { data, error } = await supabase.rpc('add_support_message', {
+        request_uuid: requestId,
+        message_body: body,
+        attachments: attachmentUrls,
+        internal: isInternal,
+      });
+
+      if (error) handleDatabaseError(error);
+
+      // Replies can change the request status
+      cache.invalidate('support');
+
+      return data;
+    } catch (error) {
+      handleDatabaseError(error);
+    }
+  }
+}
+
+// Notification operations. Not cached: the dashboard keeps its own copy in
+// sync through a realtime subscription.
+export class NotificationRepository {
+  static async getByBrandId(brandId: string, limit = 100): Promise<Notification[]> {
+    try {
+      const { data, error } = await supabase
+        .from('notifications')
+        .select('*')
+        .eq('brand_id', brandId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) handleDatabaseError(error);
+
+      return data || [];
+    } catch (error) {
+      handleDatabaseError(error);
+    }
+  }
+
+  static async markAsRead(brandId: string, ids?: string[]): Promise<void> {
+    try {
+      let query = supabase
+        .from('notifications')
+        .update({ read: true })
+        .eq('brand_id', brandId)
+        .eq('read', false);
+
+      if (ids) query = query.in('id', ids);
+
+      const { error } = await query;
+      if (error) handleDatabaseError(error);
+    } catch (error) {
+      handleDatabaseError(error);
+    }
+  }
+
+  static async delete(id: string): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('notifications')
+        .delete()
+        .eq('id', id);
+
+      if (error) handleDatabaseError(error);
+    } catch (error) {
+      handleDatabaseError(error);
+    }
+  }
+
+  static async getPreferences(brandId: string): Promise<NotificationPreferences | null> {
+    try {
+      const { data, error } = await supabase
+        .from('notification_preferences')
+        .select('product_approval, weekly_report, system_updates, marketing_emails, push_notifications, email_notifications')
+        .eq('brand_id', brandId)
+        .maybeSingle();
+
+      if (error) handleDatabaseError(error);
+
+      return data;
+    } catch (error) {
+      handleDatabaseError(error);
+    }
+  }
+
+  static async savePreferences(brandId: string, preferences: NotificationPreferences): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('notification_preferences')
+        .upsert({ brand_id: brandId, ...preferences }, { onConflict: 'brand_id' });
+
+      if (error) handleDatabaseError(error);
+    } catch (error) {
+      handleDatabaseError(error);
+    }
+  }
+}
+
+// Canned response operations
+export class CannedResponseRepository {
+  static async getAll(): Promise<DatabaseSupportCannedResponse[]> {
+    try {
+      const { data, error } = await supabase
+        .from('support_canned_responses')
+        .select('*')
+        .order('usage_count', { ascending: false })
+        .order('title', { ascending: true });
+
+      if (error) handleDatabaseError(error);
+
+      return data || [];
+    } catch (error) {
+      handleDatabaseError(error);
+    }
+  }
+
+  static async create(
+    response: Pick<DatabaseSupportCannedResponse, 'title' | 'category' | 'body'>
+  ): Promise<DatabaseSupportCannedResponse> {
+    try {
+      const { data, error } = await supabase
+        .from('support_canned_responses')
+        .insert(response)
+        .select()
+        .single();
+
+      if (error) handleDatabaseError(error);
+
+      return data;
+    } catch (error) {
+      handleDatabaseError(error);
+    }
+  }
+
+  static async update(
+    id: string,
+    updates: Partial<Pick<DatabaseSupportCannedResponse, 'title' | 'category' | 'body'>>
+  ): Promise<DatabaseSupportCannedResponse> {
+    try {
+      const { data, error } = await supabase
+        .from('support_canned_responses')
+        .update(updates)
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) handleDatabaseError(error);
+
+      return data;
+    } catch (error) {
+      handleDatabaseError(error);
+    }
+  }
+
+  static async delete(id: string): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('support_canned_responses')
+        .delete()
+        .eq('id', id);
+
+      if (error) handleDatabaseError(error);
+    } catch (error) {
+      handleDatabaseError(error);
+    }
+  }
+
+  static async recordUsage(id: string): Promise<void> {
+    try {
+      const { error } = await supabase.rpc('record_canned_response_usage', {
+        response_id: id,
+      });
+
+      if (error) handleDatabaseError(error);
+    } catch (error) {
+      handleDatabaseError(error);
+    }
+  }
 }
 
 // Database health check
@@ -9,12 +9,24 @@ export async function fetchCustomerProducts(query: string = ""): Promise<any[]>
     .eq('availability', 'in_stock')
     .order('created_at', { ascending: false });
 
+  // Search results come back in the relevance order of search_products
+  let rankedIds: string[] = [];
   if (query) {
-    supa = supa.ilike('name', `%${query}%`);
+    const { data: matches, error: searchError } = await supabase.rpc('search_products', {
+      search_query: query,
+      limit_count: 100,
+    });
+    if (searchError) throw new Error(searchError.message);
+    rankedIds = (matches || []).map((match: { product_id: string }) => match.product_id);
+    if (rankedIds.length === 0) return [];
+    supa = supa.in('id', rankedIds);
   }
 
   const { data, error } = await supa;
   if (error) throw new Error(error.message);
+  if (query && data) {
+    data.sort((a, b) => rankedIds.indexOf(a.id) - rankedIds.indexOf(b.id));
+  }
   return (
     data?.map((p: any) => ({
       ...p,
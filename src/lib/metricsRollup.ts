@@ -0,0 +1,23 @@
+// Daily metrics rollup
+//
+// product_metrics_daily and brand_metrics_daily are rebuilt from the event
+// tables by rollup_daily_metrics, hourly where pg_cron is installed (see the
+// daily metrics rollup migration). Admins can re-run any range; the result
+// is the same however often a day is rolled up.
+import { supabase } from "./supabase";
+
+// Keep in sync with the limit in rollup_daily_metrics
+export const MAX_ROLLUP_DAYS = 367;
+
+/** Returns the number of product-days written. */
+export async function rollupDailyMetrics(
+  startDate: string,
+  endDate: string
+): Promise<number> {
+  const { data, error } = await supabase.rpc("rollup_daily_metrics", {
+    start_date: startDate,
+    end_date: endDate,
+  });
+  if (error) throw error;
+  return data ?? 0;
+}
@@ -0,0 +1,181 @@
+// Search suggestions
+//
+// The search bar suggests products, brands and categories as the shopper
+// types (get_search_autocomplete), and before they type shows their recent
+// searches, kept in this browser only, and trending queries from the search
+// log (see the search autocomplete migration).
+import { supabase } from "./supabase";
+import { getSessionId } from "./clickTracking";
+
+export interface AutocompleteProduct {
+  id: string;
+  name: string;
+  brand_name: string;
+  current_price: number;
+  original_price: number | null;
+  image_url: string | null;
+}
+
+export interface AutocompleteBrand {
+  id: string;
+  name: string;
+  logo_url: string | null;
+  product_count: number;
+}
+
+export interface AutocompleteCategory {
+  category: string;
+  sub_category: string | null;
+  product_count: number;
+}
+
+export interface AutocompleteResults {
+  products: AutocompleteProduct[];
+  brands: AutocompleteBrand[];
+  categories: AutocompleteCategory[];
+}
+
+export interface TrendingSearch {
+  query: string;
+  session_count: number;
+}
+
+export interface SearchQueryStats {
+  query: string;
+  searches: number;
+  sessions: number;
+  avg_results: number;
+  zero_result_searches: number;
+  clicked_searches: number;
+  last_searched_at: string;
+}
+
+export interface SearchQueryAnalytics {
+  start_date: string;
+  end_date: string;
+  totals: {
+    searches: number;
+    sessions: number;
+    zero_result_searches: number;
+    clicked_searches: number;
+  };
+  top_queries: SearchQueryStats[];
+  zero_result_queries: SearchQueryStats[];
+}
+
+const RECENT_SEARCHES_KEY = "recent_searches";
+const MAX_RECENT_SEARCHES = 5;
+
+export async function getAutocomplete(
+  query: string,
+  limit = 5
+): Promise<AutocompleteResults> {
+  const { data, error } = await supabase.rpc("get_search_autocomplete", {
+    search_query: query,
+    limit_count: limit,
+  });
+
+  if (error) throw error;
+  return {
+    products: data?.products || [],
+    brands: data?.brands || [],
+    categories: data?.categories || [],
+  };
+}
+
+export async function getTrendingSearches(
+  limit = 8
+): Promise<TrendingSearch[]> {
+  const { data, error } = await supabase.rpc("get_trending_searches", {
+    limit_count: limit,
+  });
+
+  if (error) throw error;
+  return (data || []).map((row: TrendingSearch) => ({
+    ...row,
+    session_count: Number(row.session_count),
+  }));
+}
+
+/**
+ * Records a search; the server counts the products it matches. Returns the
+ * log entry id, or null if logging failed; searching never fails because of
+ * it.
+ */
+export async function logSearch(query: string): Promise<string | null> {
+  const { data, error } = await supabase.rpc("log_search_query", {
+    query_text: query,
+    session_uuid: getSessionId(),
+  });
+
+  if (error) {
+    console.warn("Failed to log search:", error);
+    return null;
+  }
+  return (data as string | null) ?? null;
+}
+
+/** Counts a click on one of the logged search's results. */
+export async function recordSearchClick(searchId: string): Promise<void> {
+  const { error } = await supabase.rpc("record_search_click", {
+    search_uuid: searchId,
+    session_uuid: getSessionId(),
+  });
+
+  if (error) console.warn("Failed to record search click:", error);
+}
+
+/** Share of searches where a result was opened, or null without searches. */
+export function clickThroughRate(
+  stats: Pick<SearchQueryStats, "searches" | "clicked_searches">
+): number | null {
+  return stats.searches > 0 ? stats.clicked_searches / stats.searches : null;
+}
+
+/** Admin report built from logged searches and clicks on their results. */
+export async function getSearchQueryAnalytics(
+  startDate: string,
+  endDate: string,
+  limit = 20
+): Promise<SearchQueryAnalytics> {
+  const { data, error } = await supabase.rpc("get_search_query_analytics", {
+    start_date: startDate,
+    end_date: endDate,
+    limit_count: limit,
+  });
+
+  if (error) throw error;
+  return data as SearchQueryAnalytics;
+}
+
+export function getRecentSearches(): string[] {
+  try {
+    const stored = JSON.parse(
+      localStorage.getItem(RECENT_SEARCHES_KEY) || "[]"
+    );
+    return Array.isArray(stored)
+      ? stored.filter((item) => typeof item === "string")
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Moves the query to the top of the recent searches. */
+export function addRecentSearch(query: string): string[] {
+  const trimmed = query.trim();
+  if (!trimmed) return getRecentSearches();
+
+  const recent = [
+    trimmed,
+    ...getRecentSearches().filter(
+      (item) => item.toLowerCase() !== trimmed.toLowerCase()
+    ),
+  ].slice(0, MAX_RECENT_SEARCHES);
+  localStorage.setItem(RECENT_SEARCHES_KEY, JSON.stringify(recent));
+  return recent;
+}
+
+export function clearRecentSearches(): void {
+  localStorage.removeItem(RECENT_SEARCHES_KEY);
+}
@@ -0,0 +1,239 @@
+/*
+  # Product Form Validation
+
+  Yup schema and helpers for the partner product editor. Form values are
+  kept as strings for controlled inputs and converted to a ProductInput
+  payload for ProductRepository once they pass validation.
+*/
+
+import * as yup from 'yup';
+import { VALID_SIZES } from './catalogImport';
+import type {
+  DatabaseProductSize,
+  ProductInput,
+  ProductWithDetails,
+} from '../types/database';
+
+export const PRODUCT_CATEGORIES = ['Women', 'Men', 'Kids'] as const;
+
+export const ATTRIBUTE_FIELDS = [
+  { key: 'fabric', label: 'Fabric' },
+  { key: 'material', label: 'Material' },
+  { key: 'fit', label: 'Fit' },
+  { key: 'collar', label: 'Collar' },
+  { key: 'sleeve', label: 'Sleeve' },
+  { key: 'closure', label: 'Closure' },
+  { key: 'pattern', label: 'Pattern' },
+  { key: 'color', label: 'Color' },
+  { key: 'style', label: 'Style' },
+  { key: 'occasion', label: 'Occasion' },
+  { key: 'care_instructions', label: 'Care Instructions' },
+] as const;
+
+export type AttributeKey = (typeof ATTRIBUTE_FIELDS)[number]['key'];
+
+export interface ProductFormImage {
+  image_url: string;
+  alt_text: string;
+}
+
+export interface ProductFormSize {
+  size: DatabaseProductSize['size'];
+  stock_count: string;
+}
+
+export interface ProductFormValues {
+  name: string;
+  source_url: string;
+  original_price: string;
+  current_price: string;
+  category: string;
+  sub_category: string;
+  sku: string;
+  description: string;
+  attributes: Record<AttributeKey, string>;
+  // First image is the main image
+  images: ProductFormImage[];
+  sizes: ProductFormSize[];
+}
+
+export type ProductFormErrors = Partial<Record<string, string>>;
+
+// Empty inputs become undefined so "required" reports instead of a type error
+const numberFromInput = () =>
+  yup
+    .number()
+    .transform((value, original) => (original === '' || original === null ? undefined : value));
+
+export const productSchema = yup.object({
+  name: yup.string().trim().required('Product name is required').max(200, 'Keep the name under 200 characters'),
+  source_url: yup
+    .string()
+    .trim()
+    .required('Product URL is required')
+    .url('Enter a valid URL starting with http:// or https://'),
+  original_price: numberFromInput()
+    .typeError('Original price must be a number')
+    .required('Original price is required')
+    .min(0, 'Price cannot be negative'),
+  current_price: numberFromInput()
+    .typeError('Selling price must be a number')
+    .required('Selling price is required')
+    .min(0, 'Price cannot be negative')
+    .test('not-above-original', 'Selling price cannot exceed the original price', function (value) {
+      const original = Number(this.parent.original_price);
+      return value === undefined || !Number.isFinite(original) || value <= original;
+    }),
+  category: yup.string().trim(),
+  sub_category: yup.string().trim().max(100),
+  sku: yup.string().trim().max(100),
+  description: yup.string().trim().max(5000, 'Keep the description under 5000 characters'),
+  images: yup
+    .array()
+    .of(
+      yup.object({
+        image_url: yup.string().trim().required('Image URL is required').url('Enter a valid image URL'),
+        alt_text: yup.string().trim().max(200),
+      })
+    )
+    .min(1, 'Add at least one product image')
+    .max(10, 'You can add up to 10 images'),
+  sizes: yup
+    .array()
+    .of(
+      yup.object({
+        size: yup.string().oneOf(VALID_SIZES as string[], 'Unsupported size').required(),
+        stock_count: numberFromInput()
+          .typeError('Stock must be a number')
+          .integer('Stock must be a whole number')
+          .min(0, 'Stock cannot be negative')
+          .required('Stock is required'),
+      })
+    )
+    .test('unique-sizes', 'Each size can only be listed once', (sizes) => {
+      const names = (sizes || []).map((s) => s.size);
+      return new Set(names).size === names.length;
+    }),
+});
+
+/**
+ * Validate form values and return errors keyed by field path
+ * (e.g. `images[0].image_url`). Returns an empty object when valid.
+ */
+export async function validateProductForm(values: ProductFormValues): Promise<ProductFormErrors> {
+  try {
+    await productSchema.validate(values, { abortEarly: false });
+    return {};
+  } catch (err) {
+    if (!(err instanceof yup.ValidationError)) throw err;
+
+    return err.inner.reduce((errors, issue) => {
+      const path = issue.path || 'form';
+      if (!errors[path]) errors[path] = issue.message;
+      return errors;
+    }, {} as ProductFormErrors);
+  }
+}
+
+export function emptyProductForm(): ProductFormValues {
+  return {
+    name: '',
+    source_url: '',
+    original_price: '',
+    current_price: '',
+    category: '',
+    sub_category: '',
+    sku: '',
+    description: '',
+    attributes: ATTRIBUTE_FIELDS.reduce((acc, field) => {
+      acc[field.key] = '';
+      return acc;
+    }, {} as Record<AttributeKey, string>),
+    images: [],
+    sizes: [],
+  };
+}
+
+/**
+ * Build editor values from an existing product
+ */
+export function productToFormValues(product: ProductWithDetails): ProductFormValues {
+  const base = emptyProductForm();
+  // One-to-one joins can come back as a single-element array
+  const rawAttributes = product.attributes as unknown;
+  const attributes = Array.isArray(rawAttributes) ? rawAttributes[0] : product.attributes;
+
+  const images = [...(product.images || [])].sort((a, b) => {
+    if (a.is_main !== b.is_main) return a.is_main ? -1 : 1;
+    return a.display_order - b.display_order;
+  });
+  if (images.length === 0 && product.main_image_url) {
+    images.push({
+      id: '',
+      product_id: product.id,
+      image_url: product.main_image_url,
+      is_main: true,
+      display_order: 0,
+      created_at: product.created_at,
+    });
+  }
+
+  return {
+    ...base,
+    name: product.name,
+    source_url: product.source_url,
+    original_price: String(product.original_price),
+    current_price: String(product.current_price),
+    category: product.category || '',
+    sub_category: product.sub_category || '',
+    sku: product.sku || '',
+    description: product.description || '',
+    attributes: ATTRIBUTE_FIELDS.reduce((acc, field) => {
+      acc[field.key] = attributes?.[field.key] || '';
+      return acc;
+    }, {} as Record<AttributeKey, string>),
+    images: images.map((image) => ({
+      image_url: image.image_url,
+      alt_text: image.alt_text || '',
+    })),
+    sizes: [...(product.sizes || [])]
+      .sort((a, b) => VALID_SIZES.indexOf(a.size) - VALID_SIZES.indexOf(b.size))
+      .map((size) => ({ size: size.size, stock_count: String(size.stock_count) })),
+  };
+}
+
+/**
+ * Convert validated form values into the repository payload
+ */
+export function formValuesToProductInput(values: ProductFormValues): ProductInput {
+  const images = values.images.map((image, index) => ({
+    image_url: image.image_url.trim(),
+    alt_text: image.alt_text.trim() || undefined,
+    is_main: index === 0,
+    display_order: index,
+  }));
+
+  return {
+    product: {
+      name: values.name.trim(),
+      source_url: values.source_url.trim(),
+      original_price: Number(values.original_price),
+      current_price: Number(values.current_price),
+      category: values.category.trim() || undefined,
+      sub_category: values.sub_category.trim() || undefined,
+      sku: values.sku.trim() || undefined,
+      description: values.description.trim() || undefined,
+      main_image_url: images[0]?.image_url,
+    },
+    attributes: ATTRIBUTE_FIELDS.reduce((acc, field) => {
+      const value = values.attributes[field.key].trim();
+      if (value) acc[field.key] = value;
+      return acc;
+    }, {} as Partial<Record<AttributeKey, string>>),
+    images,
+    sizes: values.sizes.map((size) => {
+      const stock = Number(size.stock_count);
+      return { size: size.size, stock_count: stock, is_available: stock > 0 };
+    }),
+  };
+}
@@ -120,4 +120,6 @@ export const STORAGE_BUCKETS = {
   SUPPORT_ATTACHMENTS: "support-attachments",
   BRAND_LOGOS: "brand-logos",
   PRODUCT_IMAGES: "product-images",
+  BRAND_VERIFICATION: "brand-verification",
+  WEEKLY_REPORTS: "weekly-reports",
 } as const;
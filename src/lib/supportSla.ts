@@ -0,0 +1,138 @@
+/*
+  # Support SLA Helpers
+
+  Targets live in system_settings under 'support_sla' (see the support SLA
+  migration). Timers are computed on the client from the request timestamps;
+  escalation itself happens server-side in escalate_breached_support_requests.
+*/
+
+import { supabase } from './supabase';
+import { getSystemSetting, updateSystemSetting } from './systemSettings';
+import type { DatabaseSupportRequest } from '../types/database';
+
+export type SupportPriority = DatabaseSupportRequest['priority'];
+
+export interface SupportSlaTarget {
+  first_response_hours: number;
+  resolution_hours: number;
+}
+
+export type SupportSlaSettings = Record<SupportPriority, SupportSlaTarget> & {
+  auto_escalate: boolean;
+};
+
+export const SUPPORT_SLA_SETTING_KEY = 'support_sla';
+
+// Matches the defaults seeded by the migration
+export const DEFAULT_SUPPORT_SLA: SupportSlaSettings = {
+  high: { first_response_hours: 4, resolution_hours: 24 },
+  medium: { first_response_hours: 8, resolution_hours: 72 },
+  low: { first_response_hours: 24, resolution_hours: 120 },
+  auto_escalate: true,
+};
+
+export type SlaTimerState = 'met' | 'breached' | 'running';
+
+export interface SlaTimer {
+  state: SlaTimerState;
+  dueAt: Date;
+  // Negative once the target has passed
+  remainingMs: number;
+}
+
+export interface SupportSlaStatus {
+  firstResponse: SlaTimer;
+  resolution: SlaTimer;
+  breached: boolean;
+}
+
+type SlaTrackedRequest = Pick<
+  DatabaseSupportRequest,
+  | 'priority'
+  | 'status'
+  | 'created_at'
+  | 'updated_at'
+  | 'resolved_at'
+  | 'first_response_at'
+  | 'escalated_at'
+>;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export async function getSupportSlaSettings(): Promise<SupportSlaSettings> {
+  const value = await getSystemSetting(SUPPORT_SLA_SETTING_KEY);
+  return { ...DEFAULT_SUPPORT_SLA, ...(value || {}) };
+}
+
+export async function saveSupportSlaSettings(settings: SupportSlaSettings) {
+  return updateSystemSetting(SUPPORT_SLA_SETTING_KEY, settings);
+}
+
+/**
+ * Escalate open requests that missed their targets. Returns how many
+ * requests changed priority.
+ */
+export async function escalateBreachedSupportRequests(): Promise<number> {
+  const { data, error } = await supabase.rpc('escalate_breached_support_requests');
+  if (error) throw error;
+  return data ?? 0;
+}
+
+function buildTimer(start: Date, hours: number, stoppedAt: Date | null, now: Date): SlaTimer {
+  const dueAt = new Date(start.getTime() + hours * HOUR_MS);
+  const end = stoppedAt ?? now;
+  const remainingMs = dueAt.getTime() - end.getTime();
+
+  let state: SlaTimerState = 'running';
+  if (remainingMs < 0) state = 'breached';
+  else if (stoppedAt) state = 'met';
+
+  return { state, dueAt, remainingMs };
+}
+
+/**
+ * Work out both SLA timers for a request. Like the server, the clock restarts
+ * at the last escalation so the new priority gets a full window.
+ */
+export function getSupportSlaStatus(
+  request: SlaTrackedRequest,
+  settings: SupportSlaSettings,
+  now = new Date()
+): SupportSlaStatus {
+  const target = settings[request.priority];
+  const start = new Date(request.escalated_at || request.created_at);
+  const isClosed = request.status === 'resolved' || request.status === 'closed';
+
+  const firstResponse = buildTimer(
+    start,
+    target.first_response_hours,
+    request.first_response_at ? new Date(request.first_response_at) : null,
+    now
+  );
+  const resolution = buildTimer(
+    start,
+    target.resolution_hours,
+    isClosed ? new Date(request.resolved_at || request.updated_at) : null,
+    now
+  );
+
+  return {
+    firstResponse,
+    resolution,
+    breached: firstResponse.state === 'breached' || resolution.state === 'breached',
+  };
+}
+
+/**
+ * Short human duration such as "3h 20m" or "2d 4h"
+ */
+export function formatSlaDuration(ms: number): string {
+  const totalMinutes = Math.floor(Math.abs(ms) / 60000);
+  const days = Math.floor(totalMinutes / 1440);
+  const hours = Math.floor((totalMinutes % 1440) / 60);
+  const minutes = totalMinutes % 60;
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m`;
+}
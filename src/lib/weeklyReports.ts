@@ -0,0 +1,77 @@
+// Weekly performance reports
+//
+// The weekly-reports Edge Function renders each brand's week every Monday,
+// archives the HTML and PDF in the private weekly-reports bucket and emails
+// them to the brand's owners. Brands opt out with the weekly_report
+// notification preference.
+import { supabase } from "./supabase";
+import { STORAGE_BUCKETS } from "./storage";
+
+export type WeeklyReportStatus = "generated" | "sent" | "failed";
+
+export type WeeklyReportFormat = "html" | "pdf";
+
+export interface WeeklyReportTotals {
+  views: number;
+  unique_views: number;
+  clicks: number;
+  conversions: number;
+  revenue: number;
+}
+
+export interface WeeklyReport {
+  id: string;
+  brand_id: string;
+  week_start: string;
+  week_end: string;
+  summary: {
+    current?: WeeklyReportTotals;
+    previous?: WeeklyReportTotals;
+  };
+  html_path: string | null;
+  pdf_path: string | null;
+  status: WeeklyReportStatus;
+  sent_at: string | null;
+  created_at: string;
+}
+
+export const WEEKLY_REPORT_STATUS_LABELS: Record<WeeklyReportStatus, string> = {
+  generated: "Not emailed",
+  sent: "Emailed",
+  failed: "Email failed",
+};
+
+export async function listWeeklyReports(
+  brandId: string,
+  limit = 12
+): Promise<WeeklyReport[]> {
+  const { data, error } = await supabase
+    .from("weekly_reports")
+    .select(
+      "id, brand_id, week_start, week_end, summary, html_path, pdf_path, status, sent_at, created_at"
+    )
+    .eq("brand_id", brandId)
+    .order("week_start", { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return data || [];
+}
+
+/** Short-lived link for downloading an archived report. */
+export async function getWeeklyReportUrl(
+  report: WeeklyReport,
+  format: WeeklyReportFormat
+): Promise<string> {
+  const path = format === "pdf" ? report.pdf_path : report.html_path;
+  if (!path) throw new Error("This report has no archived copy");
+
+  const { data, error } = await supabase.storage
+    .from(STORAGE_BUCKETS.WEEKLY_REPORTS)
+    .createSignedUrl(path, 300, {
+      download: `stylsia-weekly-report-${report.week_start}.${format}`,
+    });
+
+  if (error) throw error;
+  return data.signedUrl;
+}
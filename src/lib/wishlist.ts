@@ -0,0 +1,143 @@
+// Shopper wishlists
+//
+// Signed-out shoppers keep their wishlist in this browser; once they sign in
+// it is merged into wishlist_items on their account. Every save is also
+// recorded with record_product_save so brands see it in their analytics (see
+// the wishlists migration).
+import { supabase } from "./supabase";
+import { getSessionId } from "./clickTracking";
+import type { ProductWithDetails } from "../types/database";
+
+const WISHLIST_KEY = "wishlist";
+
+/** Product ids saved in this browser, newest first. */
+export function getLocalWishlist(): string[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(WISHLIST_KEY) || "[]");
+    return Array.isArray(stored)
+      ? stored.filter((item) => typeof item === "string")
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+function setLocalWishlist(productIds: string[]): void {
+  localStorage.setItem(WISHLIST_KEY, JSON.stringify(productIds));
+}
+
+export function addToLocalWishlist(productId: string): string[] {
+  const ids = [
+    productId,
+    ...getLocalWishlist().filter((id) => id !== productId),
+  ];
+  setLocalWishlist(ids);
+  return ids;
+}
+
+export function removeFromLocalWishlist(productId: string): string[] {
+  const ids = getLocalWishlist().filter((id) => id !== productId);
+  setLocalWishlist(ids);
+  return ids;
+}
+
+/** Product ids on the user's account, newest first. */
+export async function getAccountWishlist(userId: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from("wishlist_items")
+    .select("product_id")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map((row) => row.product_id as string);
+}
+
+export async function addToAccountWishlist(
+  userId: string,
+  productId: string
+): Promise<void> {
+  const { error } = await supabase
+    .from("wishlist_items")
+    .upsert(
+      { user_id: userId, product_id: productId },
+      { onConflict: "user_id,product_id", ignoreDuplicates: true }
+    );
+
+  if (error) throw error;
+}
+
+export async function removeFromAccountWishlist(
+  userId: string,
+  productId: string
+): Promise<void> {
+  const { error } = await supabase
+    .from("wishlist_items")
+    .delete()
+    .eq("user_id", userId)
+    .eq("product_id", productId);
+
+  if (error) throw error;
+}
+
+/**
+ * Moves the products saved in this browser onto the user's account. Items
+ * already on the account are kept as they are. The browser copy is cleared
+ * only once the merge succeeded.
+ */
+export async function mergeLocalWishlist(userId: string): Promise<void> {
+  const ids = getLocalWishlist();
+  if (ids.length === 0) return;
+
+  // Oldest first, so the newest local save ends up newest on the account
+  const { error } = await supabase.from("wishlist_items").upsert(
+    [...ids].reverse().map((productId) => ({
+      user_id: userId,
+      product_id: productId,
+    })),
+    { onConflict: "user_id,product_id", ignoreDuplicates: true }
+  );
+
+  if (error) throw error;
+  localStorage.removeItem(WISHLIST_KEY);
+}
+
+/** Counts a save for the brand's analytics; saving never fails because of it. */
+export async function recordProductSave(productId: string): Promise<void> {
+  const { error } = await supabase.rpc("record_product_save", {
+    product_uuid: productId,
+    session_uuid: getSessionId(),
+  });
+
+  if (error) console.warn("Failed to record product save:", error);
+}
+
+/**
+ * Active products for the given ids, in the same order. Products that were
+ * removed or deactivated since they were saved are left out.
+ */
+export async function getWishlistProducts(
+  productIds: string[]
+): Promise<ProductWithDetails[]> {
+  if (productIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from("products")
+    .select(
+      `
+      *,
+      brand:brands!inner(id, name, logo_url),
+      images:product_images(*),
+      sizes:product_sizes(*)
+    `
+    )
+    .in("id", productIds)
+    .eq("status", "active");
+
+  if (error) throw error;
+
+  const byId = new Map(
+    (data || []).map((product) => [product.id, product as ProductWithDetails])
+  );
+  return productIds.flatMap((id) => byId.get(id) ?? []);
+}
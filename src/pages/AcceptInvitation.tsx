@@ -0,0 +1,282 @@
+import React, { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { AlertCircle, Building, CheckCircle, Lock, Mail } from "lucide-react";
+import Button from "../components/ui/Button";
+import { useAuth } from "../contexts/AuthContext";
+import {
+  acceptOnboardingInvitation,
+  getOnboardingInvitation,
+  type OnboardingInvitationPreview,
+} from "../lib/brandInvitations";
+
+const MIN_PASSWORD_LENGTH = 8;
+
+const STATUS_MESSAGES: Record<string, string> = {
+  accepted:
+    "This invitation has already been used. Sign in with the account it created.",
+  revoked:
+    "This invitation has been revoked. Contact Stylsia if you still need access.",
+  expired:
+    "This invitation has expired. Ask your Stylsia contact to send a new link.",
+};
+
+const errorMessage = (err: unknown, fallback: string) =>
+  err && typeof err === "object" && "message" in err
+    ? String((err as { message: unknown }).message)
+    : fallback;
+
+export default function AcceptInvitation() {
+  const { token = "" } = useParams<{ token: string }>();
+  const navigate = useNavigate();
+  const { user, signUp, setActiveBrand, refreshMemberships } = useAuth();
+  const [invitation, setInvitation] =
+    useState<OnboardingInvitationPreview | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [awaitingConfirmation, setAwaitingConfirmation] = useState(false);
+
+  useEffect(() => {
+    getOnboardingInvitation(token)
+      .then(setInvitation)
+      .catch((err) => {
+        console.error("Error loading invitation:", err);
+        setError("Could not check this invitation. Please try again.");
+      })
+      .finally(() => setLoading(false));
+  }, [token]);
+
+  const handleSignUp = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!invitation) return;
+
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      setError(
+        `Password must be at least ${MIN_PASSWORD_LENGTH} characters long`
+      );
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError("Passwords do not match");
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+    const result = await signUp(
+      invitation.email,
+      password,
+      invitation.brand_name,
+      token
+    );
+    setSubmitting(false);
+
+    if (result.error) {
+      setError(errorMessage(result.error, "Failed to create your account"));
+    } else if (result.needsConfirmation) {
+      setAwaitingConfirmation(true);
+    } else {
+      navigate("/dashboard");
+    }
+  };
+
+  // Already signed in with the invited email address
+  const handleAccept = async () => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      const brandId = await acceptOnboardingInvitation(token);
+      setActiveBrand(brandId);
+      await refreshMemberships();
+      navigate("/dashboard");
+    } catch (err) {
+      console.error("Error accepting invitation:", err);
+      setError(errorMessage(err, "Failed to accept the invitation"));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const renderBody = () => {
+    if (loading) {
+      return (
+        <div className="py-8 text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-500 mx-auto"></div>
+        </div>
+      );
+    }
+
+    if (!invitation) {
+      return (
+        <p className="text-center text-gray-600">
+          This invitation link is not valid. Check that you copied the whole
+          link, or contact Stylsia for a new one.
+        </p>
+      );
+    }
+
+    if (invitation.status !== "pending") {
+      return (
+        <div className="space-y-4 text-center">
+          <p className="text-gray-600">{STATUS_MESSAGES[invitation.status]}</p>
+          {invitation.status === "accepted" && (
+            <Button onClick={() => navigate("/login")}>Go to Sign In</Button>
+          )}
+        </div>
+      );
+    }
+
+    if (awaitingConfirmation) {
+      return (
+        <div className="space-y-3 text-center">
+          <CheckCircle className="h-12 w-12 text-green-500 mx-auto" />
+          <p className="text-gray-700">
+            We sent a confirmation link to <strong>{invitation.email}</strong>.
+            Confirm your email, then sign in to finish setting up{" "}
+            {invitation.brand_name}.
+          </p>
+        </div>
+      );
+    }
+
+    if (user) {
+      return (
+        <div className="space-y-4 text-center">
+          <p className="text-gray-700">
+            You are signed in as <strong>{user.email}</strong>. Accept the
+            invitation to manage <strong>{invitation.brand_name}</strong> with
+            this account.
+          </p>
+          <Button onClick={handleAccept} loading={submitting}>
+            Accept Invitation
+          </Button>
+        </div>
+      );
+    }
+
+    return (
+      <form className="space-y-5" onSubmit={handleSignUp}>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Brand
+          </label>
+          <div className="relative">
+            <Building className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
+            <input
+              type="text"
+              value={invitation.brand_name}
+              disabled
+              className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg bg-gray-100 text-gray-700 cursor-not-allowed"
+            />
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Email Address
+          </label>
+          <div className="relative">
+            <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
+            <input
+              type="email"
+              value={invitation.email}
+              disabled
+              className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg bg-gray-100 text-gray-700 cursor-not-allowed"
+            />
+          </div>
+        </div>
+
+        <div>
+          <label
+            htmlFor="password"
+            className="block text-sm font-medium text-gray-700 mb-2"
+          >
+            Password
+          </label>
+          <div className="relative">
+            <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
+            <input
+              id="password"
+              type="password"
+              required
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              placeholder={`At least ${MIN_PASSWORD_LENGTH} characters`}
+            />
+          </div>
+        </div>
+
+        <div>
+          <label
+            htmlFor="confirmPassword"
+            className="block text-sm font-medium text-gray-700 mb-2"
+          >
+            Confirm Password
+          </label>
+          <div className="relative">
+            <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
+            <input
+              id="confirmPassword"
+              type="password"
+              required
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            />
+          </div>
+        </div>
+
+        <Button type="submit" loading={submitting} className="w-full">
+          Create Account
+        </Button>
+
+        <p className="text-xs text-gray-500 text-center">
+          This link expires on{" "}
+          {new Date(invitation.expires_at).toLocaleDateString("en-US", {
+            month: "short",
+            day: "numeric",
+            year: "numeric",
+          })}{" "}
+          and can only be used once.
+        </p>
+      </form>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+      <div className="w-full max-w-md mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="bg-white rounded-xl shadow-lg p-6 sm:p-8 animate-scale-in">
+          <div className="text-center mb-6 sm:mb-8">
+            <button
+              onClick={() => navigate("/")}
+              className="mx-auto mb-4 flex justify-center focus:outline-none hover:opacity-80 transition-opacity"
+            >
+              <img src="/img/logo.png" alt="Stylsia" className="h-12 w-auto" />
+            </button>
+            <h2 className="text-fluid-3xl font-bold text-gray-900">
+              Join Stylsia
+            </h2>
+            <p className="mt-2 text-fluid-base text-gray-600">
+              {invitation?.status === "pending"
+                ? `Set up the partner account for ${invitation.brand_name}`
+                : "Partner invitation"}
+            </p>
+          </div>
+
+          {error && (
+            <div className="mb-6 bg-red-50 border border-red-200 rounded-lg p-4 flex items-start gap-3 animate-slide-up">
+              <AlertCircle className="h-5 w-5 text-red-500 flex-shrink-0 mt-0.5" />
+              <p className="text-red-700 text-sm leading-relaxed">{error}</p>
+            </div>
+          )}
+
+          {renderBody()}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,14 +1,27 @@
 import { useState } from "react";
+import { Link } from "react-router-dom";
 import {
   TrendingUp,
   BarChart3,
   AlertCircle,
   RefreshCw,
   Download,
+  ArrowUpRight,
+  ArrowDownRight,
 } from "lucide-react";
 import Header from "../components/layout/Header";
 import Button from "../components/ui/Button";
+import WeeklyReportsArchive from "../components/dashboard/WeeklyReportsArchive";
+import { useAuth } from "../contexts/AuthContext";
 import { useAnalyticsData } from "../hooks/useAnalyticsData";
+import {
+  buildTrendSeries,
+  calculateChange,
+  COMPARISON_LABELS,
+  formatDate,
+  type ComparisonMode,
+  type DateRange,
+} from "../lib/analyticsComparison";
 import { PageMeta } from '../components/seo/PageMeta';
 import { analyticsMeta } from '../config/metaData';
 import {
@@ -21,25 +34,71 @@ import {
   ResponsiveContainer,
   BarChart,
   Bar,
+  Legend,
 } from "recharts";
 
+const formatRevenue = (value: number) =>
+  `₹${Number(value).toLocaleString("en-IN", { maximumFractionDigits: 0 })}`;
+
+function ChangeIndicator({
+  current,
+  previous,
+  format = (value: number) => value.toLocaleString(),
+}: {
+  current: number;
+  previous: number;
+  format?: (value: number) => string;
+}) {
+  const change = calculateChange(current, previous);
+
+  if (change === null) {
+    return (
+      <div className="text-xs text-gray-500 mt-1">
+        No data in comparison period
+      </div>
+    );
+  }
+
+  const Icon = change >= 0 ? ArrowUpRight : ArrowDownRight;
+  return (
+    <div
+      className={`text-xs font-medium mt-1 inline-flex items-center gap-0.5 ${
+        change >= 0 ? "text-green-600" : "text-red-600"
+      }`}
+      title={`Comparison period: ${format(previous)}`}
+    >
+      <Icon className="h-3 w-3" />
+      {Math.abs(change).toFixed(1)}% vs {format(previous)}
+    </div>
+  );
+}
+
 export default function Analytics() {
+  const { brandId } = useAuth();
+  const today = formatDate(new Date());
   const [dateRange, setDateRange] = useState("7d");
+  const [customRange, setCustomRange] = useState<DateRange>({
+    start: getDateRangeStart("30d"),
+    end: today,
+  });
 
-  // Fetch real analytics data
-  const { analytics, loading, error, filters, setFilters, refreshData } =
-    useAnalyticsData({
-      period:
-        dateRange === "7d"
-          ? "day"
-          : dateRange === "30d"
-          ? "week"
-          : dateRange === "90d"
-          ? "month"
-          : "day",
-      date_start: getDateRangeStart(dateRange),
-      date_end: new Date().toISOString().split("T")[0],
-    });
+  // Trends are fetched per day and bucketed for the charts
+  const {
+    analytics,
+    comparison,
+    comparisonRange,
+    comparisonMode,
+    setComparisonMode,
+    loading,
+    error,
+    filters,
+    setFilters,
+    refreshData,
+  } = useAnalyticsData({
+    period: "day",
+    date_start: getDateRangeStart(dateRange),
+    date_end: today,
+  });
 
   // Helper function to get date range start
   function getDateRangeStart(range: string): string {
@@ -65,21 +124,23 @@ export default function Analytics() {
     setDateRange(range);
     setFilters({
       ...filters,
-      period:
-        range === "7d"
-          ? "day"
-          : range === "30d"
-          ? "week"
-          : range === "90d"
-          ? "month"
-          : "day",
-      date_start: getDateRangeStart(range),
-      date_end: new Date().toISOString().split("T")[0],
+      date_start:
+        range === "custom" ? customRange.start : getDateRangeStart(range),
+      date_end: range === "custom" ? customRange.end : today,
     });
   };
 
-  // Loading state
-  if (loading) {
+  // Incomplete or reversed ranges are kept in the inputs but not fetched
+  const handleCustomRangeChange = (field: keyof DateRange, value: string) => {
+    const next = { ...customRange, [field]: value };
+    setCustomRange(next);
+    if (next.start && next.end && next.start <= next.end) {
+      setFilters({ ...filters, date_start: next.start, date_end: next.end });
+    }
+  };
+
+  // Loading state; later refreshes keep the filters on screen
+  if (loading && !analytics) {
     return (
       <div className="p-6">
         <Header
@@ -126,8 +187,26 @@ export default function Analytics() {
   const hasData = analytics?.overview?.total_products
     ? analytics.overview.total_products > 0
     : false;
-  const trendsData = analytics?.trends || [];
   const topProducts = analytics?.top_products || [];
+  const currentRange: DateRange = {
+    start: filters.date_start || getDateRangeStart(dateRange),
+    end: filters.date_end || today,
+  };
+  const trendsData = buildTrendSeries(
+    analytics?.trends || [],
+    currentRange,
+    comparison?.trends,
+    comparisonRange
+  );
+  const comparing = Boolean(comparison && comparisonRange);
+  const previousLabel = COMPARISON_LABELS[comparisonMode];
+  const summaryStats = [
+    { label: "Total Views", key: "total_views" },
+    { label: "Total Clicks", key: "total_clicks" },
+    { label: "Conversions", key: "total_conversions" },
+    { label: "Saves", key: "total_saves" },
+    { label: "Revenue", key: "total_revenue", format: formatRevenue },
+  ] as const;
 
   return (
     <>
@@ -142,7 +221,7 @@ export default function Analytics() {
         {/* Filters */}
         <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
           <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
-            <div className="flex items-center space-x-3">
+            <div className="flex flex-wrap items-center gap-3">
               <select
                 value={dateRange}
                 onChange={(e) => handleDateRangeChange(e.target.value)}
@@ -152,7 +231,55 @@ export default function Analytics() {
                 <option value="7d">Last 7 days</option>
                 <option value="30d">Last 30 days</option>
                 <option value="90d">Last 90 days</option>
+                <option value="custom">Custom range</option>
+              </select>
+              {dateRange === "custom" && (
+                <>
+                  <input
+                    type="date"
+                    value={customRange.start}
+                    max={customRange.end || today}
+                    onChange={(e) =>
+                      handleCustomRangeChange("start", e.target.value)
+                    }
+                    className="border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    aria-label="Start date"
+                  />
+                  <span className="text-sm text-gray-500">to</span>
+                  <input
+                    type="date"
+                    value={customRange.end}
+                    min={customRange.start}
+                    max={today}
+                    onChange={(e) =>
+                      handleCustomRangeChange("end", e.target.value)
+                    }
+                    className="border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    aria-label="End date"
+                  />
+                </>
+              )}
+              <select
+                value={comparisonMode}
+                onChange={(e) =>
+                  setComparisonMode(e.target.value as ComparisonMode)
+                }
+                className="border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                aria-label="Compare to"
+              >
+                {(Object.keys(COMPARISON_LABELS) as ComparisonMode[]).map(
+                  (mode) => (
+                    <option key={mode} value={mode}>
+                      {mode === "none"
+                        ? COMPARISON_LABELS[mode]
+                        : `Compare: ${COMPARISON_LABELS[mode]}`}
+                    </option>
+                  )
+                )}
               </select>
+              {loading && (
+                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-primary-500"></div>
+              )}
             </div>
 
             <Button icon={Download} disabled={!hasData}>
@@ -198,15 +325,28 @@ export default function Analytics() {
                   <ResponsiveContainer width="100%" height="100%">
                     <LineChart data={trendsData}>
                       <CartesianGrid strokeDasharray="3 3" />
-                      <XAxis dataKey="date" />
+                      <XAxis dataKey="label" />
                       <YAxis />
                       <Tooltip />
+                      {comparing && <Legend />}
                       <Line
                         type="monotone"
                         dataKey="clicks"
+                        name="Clicks"
                         stroke="#0d9488"
                         strokeWidth={2}
                       />
+                      {comparing && (
+                        <Line
+                          type="monotone"
+                          dataKey="previous_clicks"
+                          name={previousLabel}
+                          stroke="#9ca3af"
+                          strokeWidth={2}
+                          strokeDasharray="5 5"
+                          dot={false}
+                        />
+                      )}
                     </LineChart>
                   </ResponsiveContainer>
                 </div>
@@ -230,10 +370,18 @@ export default function Analytics() {
                   <ResponsiveContainer width="100%" height="100%">
                     <BarChart data={trendsData}>
                       <CartesianGrid strokeDasharray="3 3" />
-                      <XAxis dataKey="date" />
+                      <XAxis dataKey="label" />
                       <YAxis />
                       <Tooltip />
-                      <Bar dataKey="views" fill="#3b82f6" />
+                      {comparing && <Legend />}
+                      <Bar dataKey="views" name="Views" fill="#3b82f6" />
+                      {comparing && (
+                        <Bar
+                          dataKey="previous_views"
+                          name={previousLabel}
+                          fill="#d1d5db"
+                        />
+                      )}
                     </BarChart>
                   </ResponsiveContainer>
                 </div>
@@ -269,6 +417,9 @@ export default function Analytics() {
                       <th className="text-left py-3 px-4 font-medium text-gray-500">
                         Clicks
                       </th>
+                      <th className="text-left py-3 px-4 font-medium text-gray-500">
+                        Saves
+                      </th>
                     </tr>
                   </thead>
                   <tbody>
@@ -278,7 +429,12 @@ export default function Analytics() {
                         className="border-b border-gray-100 hover:bg-gray-50 transition-colors"
                       >
                         <td className="py-3 px-4 font-medium text-gray-900">
-                          {product.product_name}
+                          <Link
+                            to={`/dashboard/analytics/${product.product_id}`}
+                            className="hover:text-primary-600 hover:underline"
+                          >
+                            {product.product_name}
+                          </Link>
                         </td>
                         <td className="py-3 px-4 text-gray-600">
                           {product.views}
@@ -286,6 +442,9 @@ export default function Analytics() {
                         <td className="py-3 px-4 text-gray-600">
                           {product.clicks}
                         </td>
+                        <td className="py-3 px-4 text-gray-600">
+                          {product.saves}
+                        </td>
                       </tr>
                     ))}
                   </tbody>
@@ -305,28 +464,46 @@ export default function Analytics() {
 
         {/* Summary Stats - Show current state */}
         <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-          <h3 className="text-lg font-semibold text-gray-900 mb-4">
-            Summary Statistics
-          </h3>
-          <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+          <div className="flex flex-col sm:flex-row sm:items-baseline sm:justify-between gap-1 mb-4">
+            <h3 className="text-lg font-semibold text-gray-900">
+              Summary Statistics
+            </h3>
+            {comparing && comparisonRange && (
+              <p className="text-sm text-gray-500">
+                Compared with {comparisonRange.start} to {comparisonRange.end}
+              </p>
+            )}
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
             <div className="text-center">
               <div className="text-2xl font-bold text-gray-900">
                 {analytics?.overview?.total_products || 0}
               </div>
               <div className="text-sm text-gray-600">Total Products</div>
             </div>
-            <div className="text-center">
-              <div className="text-2xl font-bold text-gray-900">
-                {analytics?.overview?.total_views || 0}
-              </div>
-              <div className="text-sm text-gray-600">Total Views</div>
-            </div>
-            <div className="text-center">
-              <div className="text-2xl font-bold text-gray-900">
-                {analytics?.overview?.total_clicks || 0}
-              </div>
-              <div className="text-sm text-gray-600">Total Clicks</div>
-            </div>
+            {summaryStats.map((stat) => {
+              const format =
+                "format" in stat
+                  ? stat.format
+                  : (value: number) => value.toLocaleString();
+              const value = Number(analytics?.overview?.[stat.key]) || 0;
+
+              return (
+                <div key={stat.key} className="text-center">
+                  <div className="text-2xl font-bold text-gray-900">
+                    {format(value)}
+                  </div>
+                  <div className="text-sm text-gray-600">{stat.label}</div>
+                  {comparing && (
+                    <ChangeIndicator
+                      current={value}
+                      previous={Number(comparison?.overview?.[stat.key]) || 0}
+                      format={format}
+                    />
+                  )}
+                </div>
+              );
+            })}
           </div>
 
           {!hasData && (
@@ -336,6 +513,8 @@ export default function Analytics() {
             </div>
           )}
         </div>
+
+        {brandId && <WeeklyReportsArchive brandId={brandId} />}
       </div>
     </div>
     </>
@@ -10,6 +10,7 @@ import { useNavigate } from "react-router-dom";
 import Header from "../components/layout/Header";
 import StatsCard from "../components/ui/StatsCard";
 import Button from "../components/ui/Button";
+import OnboardingChecklist from "../components/dashboard/OnboardingChecklist";
 import { useBrandData } from "../hooks/useBrandData";
 import { useAnalyticsData } from "../hooks/useAnalyticsData";
 import { PageMeta } from '../components/seo/PageMeta';
@@ -114,6 +115,9 @@ export default function Dashboard() {
       />
 
       <div className="mt-6 space-y-6">
+        {/* Onboarding checklist - hidden once every step is done */}
+        <OnboardingChecklist />
+
         {/* Loading State */}
         {isLoading && (
           <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-12 text-center">
@@ -191,34 +195,6 @@ export default function Dashboard() {
           </div>
         </div>
 
-        {/* Getting Started Section - Show when no data */}
-        {!isLoading &&
-          !hasError &&
-          (!brandWithMetrics?.metrics?.total_products ||
-            brandWithMetrics.metrics.total_products === 0) && (
-            <div className="bg-white rounded-lg shadow-sm border border-gray-200 animate-slide-up">
-              <div className="p-4 sm:p-6 text-center">
-                <FileText className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-                <h2 className="text-fluid-lg font-semibold text-gray-900 mb-2">
-                  Welcome to Partner Dashboard
-                </h2>
-                <p className="text-gray-600 mb-6 max-w-md mx-auto">
-                  Your products will appear here once they are added to our
-                  platform. Contact our team to get started with product
-                  listings.
-                </p>
-                <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 max-w-md mx-auto">
-                  <p className="text-sm text-blue-800">
-                    <strong>Need to add products?</strong>
-                    <br />
-                    Contact our support team at support@stylsia.com to discuss
-                    product onboarding options.
-                  </p>
-                </div>
-              </div>
-            </div>
-          )}
-
         {/* Announcements - Only show if there are any */}
         {announcements.length > 0 && !isLoading && (
           <div className="bg-white rounded-lg shadow-sm border border-gray-200 animate-slide-up">
@@ -1,18 +1,43 @@
 import React, { useState } from "react";
-import { AlertCircle, CheckCircle } from "lucide-react";
+import {
+  AlertCircle,
+  CheckCircle,
+  ChevronDown,
+  ChevronUp,
+  MessageSquare,
+} from "lucide-react";
 import Header from "../components/layout/Header";
 import Button from "../components/ui/Button";
 import SupportInfoCard from "../components/support/SupportInfoCard";
 import EmailSupportForm from "../components/support/EmailSupportForm";
 import SupportFAQ from "../components/support/SupportFAQ";
+import SupportThread from "../components/support/SupportThread";
 import { useSupportRequests } from "../hooks/useSupportRequests";
 import { useBrandData } from "../hooks/useBrandData";
+import { useAuth } from "../contexts/AuthContext";
 import { uploadMultipleFiles, STORAGE_BUCKETS } from "../lib/storage";
 
+const getStatusColor = (status: string) => {
+  switch (status) {
+    case "new":
+      return "bg-blue-100 text-blue-800";
+    case "in_progress":
+      return "bg-amber-100 text-amber-800";
+    case "resolved":
+      return "bg-green-100 text-green-800";
+    default:
+      return "bg-gray-100 text-gray-800";
+  }
+};
+
 export default function EmailSupport() {
   const { brand } = useBrandData();
-  const { createSupportRequest, loading, error } = useSupportRequests();
+  const { brandRole } = useAuth();
+  const isViewer = brandRole === "viewer";
+  const { supportRequests, createSupportRequest, refreshData, error } =
+    useSupportRequests();
   const [submitted, setSubmitted] = useState(false);
+  const [openRequestId, setOpenRequestId] = useState<string | null>(null);
   const [submissionError, setSubmissionError] = useState<string | null>(null);
 
   const handleSubmit = async (formData: {
@@ -105,7 +130,12 @@ export default function EmailSupport() {
         )}
 
         {/* Support Request Form */}
-        {!submitted ? (
+        {isViewer ? (
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 text-sm text-blue-800">
+            You have view-only access to this brand. Ask a brand owner to make
+            you an editor to contact support.
+          </div>
+        ) : !submitted ? (
           <EmailSupportForm onSubmit={handleSubmit} />
         ) : (
           <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 text-center">
@@ -117,7 +147,7 @@ export default function EmailSupport() {
             </h2>
             <p className="text-gray-600 mb-6 max-w-md mx-auto">
               Thank you for contacting us. We've received your request and will
-              respond to you via email within 24 hours.
+              reply within 24 hours. You can follow the conversation below.
             </p>
             <div className="bg-gray-50 rounded-lg p-4 mb-6 max-w-md mx-auto">
               <p className="text-sm text-gray-700">
@@ -132,6 +162,70 @@ export default function EmailSupport() {
           </div>
         )}
 
+        {/* Existing requests and their conversations */}
+        {supportRequests.length > 0 && (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h2 className="text-lg font-semibold text-gray-900">
+                Your Support Requests
+              </h2>
+            </div>
+            <div className="divide-y divide-gray-200">
+              {supportRequests.map((request) => {
+                const isOpen = openRequestId === request.id;
+                return (
+                  <div key={request.id}>
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setOpenRequestId(isOpen ? null : request.id)
+                      }
+                      className="w-full flex items-center justify-between gap-4 px-6 py-4 text-left hover:bg-gray-50 transition-colors"
+                    >
+                      <div className="flex items-center gap-3 min-w-0">
+                        <MessageSquare className="h-5 w-5 text-gray-400 flex-shrink-0" />
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium text-gray-900 truncate">
+                            {request.subject}
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            Opened{" "}
+                            {new Date(request.created_at).toLocaleDateString()}
+                          </p>
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-3 flex-shrink-0">
+                        <span
+                          className={`px-2 py-1 text-xs font-medium rounded-full ${getStatusColor(
+                            request.status
+                          )}`}
+                        >
+                          {request.status.replace("_", " ")}
+                        </span>
+                        {isOpen ? (
+                          <ChevronUp className="h-4 w-4 text-gray-400" />
+                        ) : (
+                          <ChevronDown className="h-4 w-4 text-gray-400" />
+                        )}
+                      </div>
+                    </button>
+                    {isOpen && (
+                      <div className="px-6 pb-6">
+                        <SupportThread
+                          request={request}
+                          viewer="brand"
+                          readOnly={isViewer}
+                          onMessagePosted={refreshData}
+                        />
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
         {/* Support FAQ */}
         <SupportFAQ />
       </div>
@@ -1,9 +1,10 @@
-import React, { useState } from 'react';
-import { Bell, Check, CheckCheck, X, Filter, Search, Settings } from 'lucide-react';
+import { useState } from 'react';
+import { Bell, Check, CheckCheck, X, Search, Settings } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import Header from '../components/layout/Header';
 import Button from '../components/ui/Button';
 import { useNotifications } from '../contexts/NotificationContext';
+import type { Notification } from '../types/notifications';
 
 export default function Notifications() {
   const navigate = useNavigate();
@@ -32,7 +33,7 @@ export default function Notifications() {
     return matchesFilter && matchesSearch;
   });
 
-  const handleNotificationClick = async (notification: any) => {
+  const handleNotificationClick = async (notification: Notification) => {
     if (!notification.read) {
       await markAsRead(notification.id);
     }
@@ -48,10 +49,10 @@ export default function Notifications() {
         return '✅';
       case 'product_rejection':
         return '❌';
-      case 'system_update':
+      case 'support_update':
+        return '💬';
+      case 'account_update':
         return '🔔';
-      case 'integration_sync':
-        return '🔄';
       default:
         return '📢';
     }
@@ -143,7 +144,7 @@ export default function Notifications() {
               <Button
                 variant="outline"
                 size="sm"
-                onClick={() => navigate('/settings')}
+                onClick={() => navigate('/dashboard/settings')}
                 icon={Settings}
               >
                 Preferences
@@ -0,0 +1,68 @@
+import { useEffect, useRef, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { AlertCircle } from "lucide-react";
+import Button from "../components/ui/Button";
+import { recordProductClick } from "../lib/clickTracking";
+
+// Brands set the store link, so only web links are followed
+function isWebUrl(url: string): boolean {
+  try {
+    const { protocol } = new URL(url);
+    return protocol === "http:" || protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+export default function OutboundRedirect() {
+  const { productId = "" } = useParams<{ productId: string }>();
+  const navigate = useNavigate();
+  const [unavailable, setUnavailable] = useState(false);
+  // StrictMode runs effects twice in development; record the click once
+  const recorded = useRef(false);
+
+  useEffect(() => {
+    if (recorded.current) return;
+    recorded.current = true;
+
+    recordProductClick(productId)
+      .then((url) => {
+        if (url && isWebUrl(url)) {
+          window.location.replace(url);
+        } else {
+          setUnavailable(true);
+        }
+      })
+      .catch((err) => {
+        console.error("Error opening store link:", err);
+        setUnavailable(true);
+      });
+  }, [productId]);
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+      <div className="w-full max-w-md mx-auto px-4 sm:px-6 lg:px-8 text-center">
+        {unavailable ? (
+          <div className="bg-white rounded-xl shadow-lg p-6 sm:p-8">
+            <AlertCircle className="h-10 w-10 text-gray-400 mx-auto mb-4" />
+            <h2 className="text-lg font-semibold text-gray-900 mb-2">
+              This product is no longer available
+            </h2>
+            <p className="text-sm text-gray-600 mb-6">
+              The store link could not be opened. Browse other products on
+              Stylsia instead.
+            </p>
+            <Button onClick={() => navigate("/products")}>
+              Browse Products
+            </Button>
+          </div>
+        ) : (
+          <>
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600 mx-auto mb-4"></div>
+            <p className="text-sm text-gray-600">Taking you to the store...</p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
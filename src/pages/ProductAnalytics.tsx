@@ -0,0 +1,449 @@
+import { useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { AlertCircle, ArrowLeft, RefreshCw } from "lucide-react";
+import Header from "../components/layout/Header";
+import Button from "../components/ui/Button";
+import { useProductAnalytics } from "../hooks/useProductAnalytics";
+import { buildTrendSeries, formatDate } from "../lib/analyticsComparison";
+import type { ProductAnalyticsResponse } from "../types/database";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ComposedChart,
+  Bar,
+  Legend,
+} from "recharts";
+
+type TrendRow = ProductAnalyticsResponse["trends"][number];
+
+const DATE_RANGES = {
+  "7d": { label: "Last 7 days", days: 7 },
+  "30d": { label: "Last 30 days", days: 30 },
+  "90d": { label: "Last 90 days", days: 90 },
+} as const;
+
+type DateRangeKey = keyof typeof DATE_RANGES;
+
+const formatRevenue = (value: number) =>
+  `₹${Number(value).toLocaleString("en-IN", { maximumFractionDigits: 0 })}`;
+
+const formatRate = (numerator: number, denominator: number) =>
+  denominator > 0 ? `${((numerator / denominator) * 100).toFixed(1)}%` : "—";
+
+function getDateRangeStart(range: DateRangeKey): string {
+  const date = new Date();
+  date.setDate(date.getDate() - DATE_RANGES[range].days);
+  return formatDate(date);
+}
+
+const SIZE_GROUPS = [
+  { label: "All sizes available", matches: (share: number) => share === 1 },
+  {
+    label: "Some sizes out of stock",
+    matches: (share: number) => share >= 0.5 && share < 1,
+  },
+  { label: "Most sizes out of stock", matches: (share: number) => share < 0.5 },
+];
+
+// Days are grouped by the share of sizes in stock; days without a size
+// snapshot (or products without sizes) are left out
+function buildSizeImpact(trends: TrendRow[]) {
+  return SIZE_GROUPS.map((group) => {
+    const days = trends.filter(
+      (row) =>
+        row.sizes_total &&
+        group.matches((row.sizes_available ?? 0) / row.sizes_total)
+    );
+    const total = (key: "views" | "clicks" | "conversions") =>
+      days.reduce((sum, row) => sum + (Number(row[key]) || 0), 0);
+
+    return {
+      label: group.label,
+      days: days.length,
+      views: total("views"),
+      clicks: total("clicks"),
+      conversions: total("conversions"),
+    };
+  }).filter((group) => group.days > 0);
+}
+
+export default function ProductAnalytics() {
+  const { productId } = useParams<{ productId: string }>();
+  const today = formatDate(new Date());
+  const [dateRange, setDateRange] = useState<DateRangeKey>("30d");
+
+  const { analytics, loading, error, filters, setFilters, refreshData } =
+    useProductAnalytics(productId, {
+      date_start: getDateRangeStart(dateRange),
+      date_end: today,
+    });
+
+  const handleDateRangeChange = (range: DateRangeKey) => {
+    setDateRange(range);
+    setFilters({ date_start: getDateRangeStart(range), date_end: today });
+  };
+
+  const backLink = (
+    <Link
+      to="/dashboard/analytics"
+      className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900"
+    >
+      <ArrowLeft className="h-4 w-4 mr-1" />
+      Back to Analytics
+    </Link>
+  );
+
+  if (loading && !analytics) {
+    return (
+      <div className="p-6">
+        {backLink}
+        <div className="mt-6 bg-white rounded-lg shadow-sm border border-gray-200 p-12 text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-500 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading product analytics...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !analytics) {
+    return (
+      <div className="p-6">
+        {backLink}
+        <div className="mt-6 bg-red-50 border border-red-200 rounded-lg p-6 text-center">
+          <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+          <h3 className="text-lg font-semibold text-red-900 mb-2">
+            Failed to Load Product Analytics
+          </h3>
+          <p className="text-red-700 mb-4">
+            {error || "This product could not be found"}
+          </p>
+          <Button onClick={refreshData} icon={RefreshCw}>
+            Try Again
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const { product, trends, referrers, sizes } = analytics;
+  const trendsData = buildTrendSeries(trends, {
+    start: filters.date_start || getDateRangeStart(dateRange),
+    end: filters.date_end || today,
+  });
+  const priceData = trends.map((row) => ({
+    label: new Date(`${row.date}T00:00:00Z`).toLocaleDateString(undefined, {
+      month: "short",
+      day: "numeric",
+      timeZone: "UTC",
+    }),
+    views: Number(row.views) || 0,
+    price: row.avg_price === null ? null : Number(row.avg_price),
+  }));
+  const sizeImpact = buildSizeImpact(trends);
+
+  const totals = trends.reduce(
+    (sum, row) => ({
+      views: sum.views + (Number(row.views) || 0),
+      clicks: sum.clicks + (Number(row.clicks) || 0),
+      conversions: sum.conversions + (Number(row.conversions) || 0),
+      revenue: sum.revenue + (Number(row.revenue) || 0),
+    }),
+    { views: 0, clicks: 0, conversions: 0, revenue: 0 }
+  );
+  const summaryStats = [
+    { label: "Views", value: totals.views.toLocaleString() },
+    { label: "Clicks", value: totals.clicks.toLocaleString() },
+    { label: "Click Rate", value: formatRate(totals.clicks, totals.views) },
+    { label: "Conversions", value: totals.conversions.toLocaleString() },
+    { label: "Revenue", value: formatRevenue(totals.revenue) },
+  ];
+
+  return (
+    <div className="p-6">
+      {backLink}
+      <div className="mt-4">
+        <Header
+          title={product.name}
+          subtitle={`${formatRevenue(product.current_price)} · ${
+            product.status
+          }`}
+        />
+      </div>
+
+      <div className="mt-6 space-y-6">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 flex items-center justify-between">
+          <select
+            value={dateRange}
+            onChange={(e) =>
+              handleDateRangeChange(e.target.value as DateRangeKey)
+            }
+            className="border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            aria-label="Select date range"
+          >
+            {Object.entries(DATE_RANGES).map(([value, { label }]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <Button
+            variant="outline"
+            onClick={refreshData}
+            icon={RefreshCw}
+            loading={loading}
+            size="sm"
+          >
+            Refresh
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+          {summaryStats.map((stat) => (
+            <div
+              key={stat.label}
+              className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 text-center"
+            >
+              <div className="text-2xl font-bold text-gray-900">
+                {stat.value}
+              </div>
+              <div className="text-sm text-gray-600">{stat.label}</div>
+            </div>
+          ))}
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">
+            Views, Clicks &amp; Conversions
+          </h3>
+          <div className="h-72">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={trendsData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                <XAxis dataKey="label" stroke="#6b7280" fontSize={12} />
+                <YAxis stroke="#6b7280" fontSize={12} allowDecimals={false} />
+                <Tooltip />
+                <Legend />
+                <Line
+                  type="monotone"
+                  dataKey="views"
+                  name="Views"
+                  stroke="#3b82f6"
+                  strokeWidth={2}
+                  dot={false}
+                />
+                <Line
+                  type="monotone"
+                  dataKey="clicks"
+                  name="Clicks"
+                  stroke="#f59e0b"
+                  strokeWidth={2}
+                  dot={false}
+                />
+                <Line
+                  type="monotone"
+                  dataKey="conversions"
+                  name="Conversions"
+                  stroke="#10b981"
+                  strokeWidth={2}
+                  dot={false}
+                />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-1">
+              Price vs Traffic
+            </h3>
+            <p className="text-sm text-gray-500 mb-4">
+              Daily views against the price recorded that day
+            </p>
+            {priceData.length > 0 ? (
+              <div className="h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <ComposedChart data={priceData}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                    <XAxis dataKey="label" stroke="#6b7280" fontSize={12} />
+                    <YAxis
+                      yAxisId="views"
+                      stroke="#6b7280"
+                      fontSize={12}
+                      allowDecimals={false}
+                    />
+                    <YAxis
+                      yAxisId="price"
+                      orientation="right"
+                      stroke="#6b7280"
+                      fontSize={12}
+                      tickFormatter={formatRevenue}
+                    />
+                    <Tooltip
+                      formatter={(value: number, name: string) =>
+                        name === "Price" ? formatRevenue(value) : value
+                      }
+                    />
+                    <Legend />
+                    <Bar
+                      yAxisId="views"
+                      dataKey="views"
+                      name="Views"
+                      fill="#93c5fd"
+                    />
+                    <Line
+                      yAxisId="price"
+                      type="stepAfter"
+                      dataKey="price"
+                      name="Price"
+                      stroke="#8b5cf6"
+                      strokeWidth={2}
+                      dot={false}
+                      connectNulls
+                    />
+                  </ComposedChart>
+                </ResponsiveContainer>
+              </div>
+            ) : (
+              <p className="text-center py-8 text-gray-500">
+                No traffic in this period
+              </p>
+            )}
+          </div>
+
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">
+              Referrers
+            </h3>
+            {referrers.length > 0 ? (
+              <table className="min-w-full">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-2 px-3 font-medium text-gray-500">
+                      Source
+                    </th>
+                    <th className="text-right py-2 px-3 font-medium text-gray-500">
+                      Views
+                    </th>
+                    <th className="text-right py-2 px-3 font-medium text-gray-500">
+                      Sessions
+                    </th>
+                    <th className="text-right py-2 px-3 font-medium text-gray-500">
+                      Share
+                    </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {referrers.map((referrer) => (
+                    <tr
+                      key={referrer.source}
+                      className="border-b border-gray-100"
+                    >
+                      <td className="py-2 px-3 text-gray-900">
+                        {referrer.source}
+                      </td>
+                      <td className="py-2 px-3 text-right text-gray-600">
+                        {referrer.views}
+                      </td>
+                      <td className="py-2 px-3 text-right text-gray-600">
+                        {referrer.sessions}
+                      </td>
+                      <td className="py-2 px-3 text-right text-gray-600">
+                        {formatRate(Number(referrer.views), totals.views)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <p className="text-center py-8 text-gray-500">
+                No views in this period
+              </p>
+            )}
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">
+            Size Availability
+          </h3>
+          {sizes.length > 0 ? (
+            <div className="flex flex-wrap gap-2 mb-6">
+              {sizes.map((size) => (
+                <span
+                  key={size.id}
+                  className={`px-3 py-1 rounded-full text-sm border ${
+                    size.is_available
+                      ? "border-green-200 bg-green-50 text-green-700"
+                      : "border-gray-200 bg-gray-50 text-gray-400 line-through"
+                  }`}
+                >
+                  {size.size}
+                </span>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500 mb-6">
+              This product has no sizes listed.
+            </p>
+          )}
+
+          {sizeImpact.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="min-w-full">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-2 px-3 font-medium text-gray-500">
+                      Availability
+                    </th>
+                    <th className="text-right py-2 px-3 font-medium text-gray-500">
+                      Days
+                    </th>
+                    <th className="text-right py-2 px-3 font-medium text-gray-500">
+                      Views / Day
+                    </th>
+                    <th className="text-right py-2 px-3 font-medium text-gray-500">
+                      Click Rate
+                    </th>
+                    <th className="text-right py-2 px-3 font-medium text-gray-500">
+                      Conversion Rate
+                    </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {sizeImpact.map((group) => (
+                    <tr key={group.label} className="border-b border-gray-100">
+                      <td className="py-2 px-3 text-gray-900">{group.label}</td>
+                      <td className="py-2 px-3 text-right text-gray-600">
+                        {group.days}
+                      </td>
+                      <td className="py-2 px-3 text-right text-gray-600">
+                        {(group.views / group.days).toFixed(1)}
+                      </td>
+                      <td className="py-2 px-3 text-right text-gray-600">
+                        {formatRate(group.clicks, group.views)}
+                      </td>
+                      <td className="py-2 px-3 text-right text-gray-600">
+                        {formatRate(group.conversions, group.clicks)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">
+              No size availability has been recorded for days with traffic in
+              this period yet.
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
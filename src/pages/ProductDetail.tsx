@@ -1,7 +1,9 @@
 import React, { useState, useEffect } from "react";
 import { useParams, useNavigate } from "react-router-dom";
-import { Share2, ChevronLeft, ChevronRight, Zap } from "lucide-react";
+import { Share2, ChevronLeft, ChevronRight, Zap, Heart } from "lucide-react";
 import { supabase } from "../lib/supabase";
+import { getOutboundUrl } from "../lib/clickTracking";
+import { useWishlist } from "../hooks/useWishlist";
 import TargetStyleHeader from "../components/layout/TargetStyleHeader";
 import { PageMeta } from "../components/seo/PageMeta";
 import { generateProductMeta } from "../config/metaData";
@@ -10,6 +12,7 @@ import type { ProductWithDetails } from "../types/database";
 const ProductDetail: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const { isSaved, toggleSaved } = useWishlist();
   const [product, setProduct] = useState<ProductWithDetails | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -71,11 +74,9 @@ const ProductDetail: React.FC = () => {
   };
 
   const handleBuyNow = () => {
-    // Implement buy now logic - could redirect to checkout or external store
-    console.log("Buy now clicked for:", product?.name);
-    // For now, open the source URL if available
+    // The redirect records the click and adds the brand's UTM parameters
     if (product?.source_url) {
-      window.open(product.source_url, "_blank");
+      window.open(getOutboundUrl(product.id), "_blank");
     }
   };
 
@@ -299,6 +300,22 @@ const ProductDetail: React.FC = () => {
                   <Share2 className="h-5 w-5" />
                   <span>Share Product</span>
                 </button>
+                <button
+                  onClick={() => toggleSaved(product.id)}
+                  aria-pressed={isSaved(product.id)}
+                  className="w-full bg-white text-gray-700 border border-gray-300 py-3 px-6 rounded-md font-medium hover:bg-gray-50 transition-colors flex items-center justify-center space-x-2"
+                >
+                  <Heart
+                    className={`h-5 w-5 ${
+                      isSaved(product.id) ? "fill-red-500 text-red-500" : ""
+                    }`}
+                  />
+                  <span>
+                    {isSaved(product.id)
+                      ? "Saved to Wishlist"
+                      : "Save to Wishlist"}
+                  </span>
+                </button>
               </div>
             </div>
           </div>
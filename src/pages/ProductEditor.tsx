@@ -0,0 +1,718 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import {
+  AlertCircle,
+  ArrowDown,
+  ArrowLeft,
+  ArrowUp,
+  ImagePlus,
+  Save,
+  Send,
+  Trash2,
+  Upload,
+} from "lucide-react";
+import Header from "../components/layout/Header";
+import Button from "../components/ui/Button";
+import { useAuth } from "../contexts/AuthContext";
+import { hasBrandRole } from "../lib/brandTeam";
+import { ProductRepository, DatabaseError } from "../lib/database";
+import { VALID_SIZES } from "../lib/catalogImport";
+import {
+  ATTRIBUTE_FIELDS,
+  PRODUCT_CATEGORIES,
+  emptyProductForm,
+  formValuesToProductInput,
+  productToFormValues,
+  validateProductForm,
+  type AttributeKey,
+  type ProductFormErrors,
+  type ProductFormValues,
+} from "../lib/productValidation";
+import {
+  STORAGE_BUCKETS,
+  StorageError,
+  uploadMultipleFiles,
+} from "../lib/storage";
+import type {
+  DatabaseProduct,
+  DatabaseProductModerationDecision,
+  DatabaseProductSize,
+} from "../types/database";
+
+const MAX_IMAGES = 10;
+
+export default function ProductEditor() {
+  const { productId } = useParams<{ productId: string }>();
+  const navigate = useNavigate();
+  const { brandId, brandRole } = useAuth();
+  const canEdit = hasBrandRole(brandRole, "editor");
+  const isEditing = Boolean(productId);
+
+  const [values, setValues] = useState<ProductFormValues>(emptyProductForm);
+  const [status, setStatus] = useState<DatabaseProduct["status"] | null>(null);
+  const [errors, setErrors] = useState<ProductFormErrors>({});
+  const [loading, setLoading] = useState(isEditing);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [saving, setSaving] = useState<"draft" | "submit" | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const [newImageUrl, setNewImageUrl] = useState("");
+  const [lastDecision, setLastDecision] =
+    useState<DatabaseProductModerationDecision | null>(null);
+
+  // Load the product when editing
+  useEffect(() => {
+    if (!productId || !brandId) return;
+
+    const loadProduct = async () => {
+      try {
+        setLoading(true);
+        setLoadError(null);
+        const product = await ProductRepository.getById(productId);
+
+        if (!product || product.brand_id !== brandId) {
+          setLoadError("Product not found in your catalog.");
+          return;
+        }
+
+        setValues(productToFormValues(product));
+        setStatus(product.status);
+
+        // Review feedback is optional; don't block editing if it fails
+        const decisions = await ProductRepository.getLatestModerationDecisions([
+          product.id,
+        ]).catch(
+          () => ({}) as Record<string, DatabaseProductModerationDecision>
+        );
+        setLastDecision(decisions[product.id] || null);
+      } catch (err) {
+        console.error("Failed to load product:", err);
+        setLoadError(
+          err instanceof DatabaseError
+            ? err.message
+            : "Failed to load product. Please try again."
+        );
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadProduct();
+  }, [productId, brandId]);
+
+  const updateField = <K extends keyof ProductFormValues>(
+    field: K,
+    value: ProductFormValues[K]
+  ) => {
+    setValues((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const updateAttribute = (key: AttributeKey, value: string) => {
+    setValues((prev) => ({
+      ...prev,
+      attributes: { ...prev.attributes, [key]: value },
+    }));
+  };
+
+  // Images: the first image in the list is the main image
+  const addImageUrl = () => {
+    const url = newImageUrl.trim();
+    if (!url || values.images.length >= MAX_IMAGES) return;
+    updateField("images", [...values.images, { image_url: url, alt_text: "" }]);
+    setNewImageUrl("");
+  };
+
+  const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = "";
+    if (!brandId || files.length === 0) return;
+
+    const remaining = MAX_IMAGES - values.images.length;
+    if (files.length > remaining) {
+      setSaveError(`You can add ${remaining} more image(s).`);
+      return;
+    }
+    if (files.some((file) => !file.type.startsWith("image/"))) {
+      setSaveError("Only image files can be uploaded.");
+      return;
+    }
+
+    try {
+      setUploading(true);
+      setSaveError(null);
+      const results = await uploadMultipleFiles(
+        files,
+        STORAGE_BUCKETS.PRODUCT_IMAGES,
+        brandId
+      );
+      setValues((prev) => ({
+        ...prev,
+        images: [
+          ...prev.images,
+          ...results.map((result) => ({ image_url: result.url, alt_text: "" })),
+        ],
+      }));
+    } catch (err) {
+      console.error("Failed to upload product images:", err);
+      setSaveError(
+        err instanceof StorageError
+          ? err.message
+          : "Failed to upload images. Please try again."
+      );
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const moveImage = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= values.images.length) return;
+    const images = [...values.images];
+    [images[index], images[target]] = [images[target], images[index]];
+    updateField("images", images);
+  };
+
+  const removeImage = (index: number) => {
+    updateField(
+      "images",
+      values.images.filter((_, i) => i !== index)
+    );
+  };
+
+  // Sizes
+  const toggleSize = (size: DatabaseProductSize["size"]) => {
+    const exists = values.sizes.some((s) => s.size === size);
+    const sizes = exists
+      ? values.sizes.filter((s) => s.size !== size)
+      : [...values.sizes, { size, stock_count: "0" }].sort(
+          (a, b) => VALID_SIZES.indexOf(a.size) - VALID_SIZES.indexOf(b.size)
+        );
+    updateField("sizes", sizes);
+  };
+
+  const updateStock = (size: DatabaseProductSize["size"], stock: string) => {
+    updateField(
+      "sizes",
+      values.sizes.map((s) =>
+        s.size === size ? { ...s, stock_count: stock } : s
+      )
+    );
+  };
+
+  const handleSave = async (submitForReview: boolean) => {
+    if (!brandId) return;
+
+    setSaveError(null);
+    const validationErrors = await validateProductForm(values);
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) {
+      setSaveError("Please fix the highlighted fields.");
+      window.scrollTo({ top: 0, behavior: "smooth" });
+      return;
+    }
+
+    try {
+      setSaving(submitForReview ? "submit" : "draft");
+      const input = formValuesToProductInput(values);
+      const saved = productId
+        ? await ProductRepository.update(
+            brandId,
+            productId,
+            input,
+            submitForReview
+          )
+        : await ProductRepository.create(brandId, input, submitForReview);
+
+      if (!submitForReview && saved && !productId) {
+        // Keep editing the new draft at its own URL
+        navigate(`/dashboard/products/${saved.id}/edit`, { replace: true });
+        return;
+      }
+
+      if (submitForReview) {
+        navigate("/dashboard/products");
+      } else if (saved) {
+        setStatus(saved.status);
+      }
+    } catch (err) {
+      console.error("Failed to save product:", err);
+      setSaveError(
+        err instanceof DatabaseError
+          ? err.code === "DUPLICATE_ENTRY"
+            ? "Another product already uses this product URL."
+            : err.message
+          : "Failed to save product. Please try again."
+      );
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const inputClass = (field: string) =>
+    `w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent text-sm ${
+      errors[field] ? "border-red-300" : "border-gray-300"
+    }`;
+
+  const FieldError = ({ field }: { field: string }) =>
+    errors[field] ? (
+      <p className="text-xs text-red-600 mt-1">{errors[field]}</p>
+    ) : null;
+
+  const pageTitle = isEditing ? "Edit Product" : "Add Product";
+
+  if (loading) {
+    return (
+      <div className="container-responsive py-4 sm:py-6">
+        <Header title={pageTitle} subtitle="Loading product..." />
+        <div className="mt-6 bg-white rounded-lg shadow-sm border border-gray-200 p-12 text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-500 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading product...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (brandRole && !canEdit) {
+    return (
+      <div className="container-responsive py-4 sm:py-6">
+        <Header title={pageTitle} />
+        <div className="mt-6 bg-yellow-50 border border-yellow-200 rounded-lg p-6 text-center">
+          <AlertCircle className="h-12 w-12 text-yellow-500 mx-auto mb-4" />
+          <p className="text-yellow-800 mb-4">
+            You have view-only access to this brand. Ask a brand owner to make
+            you an editor to change products.
+          </p>
+          <Button
+            icon={ArrowLeft}
+            variant="outline"
+            onClick={() => navigate("/dashboard/products")}
+          >
+            Back to Products
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (loadError) {
+    return (
+      <div className="container-responsive py-4 sm:py-6">
+        <Header title={pageTitle} />
+        <div className="mt-6 bg-red-50 border border-red-200 rounded-lg p-6 text-center">
+          <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+          <p className="text-red-700 mb-4">{loadError}</p>
+          <Button
+            icon={ArrowLeft}
+            variant="outline"
+            onClick={() => navigate("/dashboard/products")}
+          >
+            Back to Products
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const isLive =
+    status === "active" || status === "inactive" || status === "out_of_stock";
+
+  return (
+    <div className="container-responsive py-4 sm:py-6">
+      <Header
+        title={pageTitle}
+        subtitle={
+          isEditing
+            ? "Update your listing and resubmit it for review"
+            : "Create a listing and submit it for review"
+        }
+        actions={
+          <Button
+            variant="outline"
+            icon={ArrowLeft}
+            onClick={() => navigate("/dashboard/products")}
+          >
+            Back
+          </Button>
+        }
+      />
+
+      <div className="mt-6 space-y-6">
+        {status && (
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 text-sm text-blue-800">
+            <strong>Status:</strong>{" "}
+            {status.charAt(0).toUpperCase() + status.slice(1).replace("_", " ")}
+            {isLive &&
+              ". Saving changes takes this product offline until an admin approves the update."}
+            {status === "pending" &&
+              ". This product is waiting for admin review."}
+            {status === "draft" &&
+              ". Drafts are only visible to you until submitted for review."}
+          </div>
+        )}
+
+        {status === "draft" && lastDecision?.decision === "rejected" && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-800">
+            <strong>
+              Changes requested on{" "}
+              {new Date(lastDecision.created_at).toLocaleDateString()}:
+            </strong>{" "}
+            {lastDecision.reason}
+          </div>
+        )}
+
+        {saveError && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-start gap-2">
+            <AlertCircle className="h-4 w-4 text-red-500 flex-shrink-0 mt-0.5" />
+            <p className="text-red-700 text-sm">{saveError}</p>
+          </div>
+        )}
+
+        {/* Basic information */}
+        <section className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 sm:p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">
+            Basic Information
+          </h2>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="sm:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Product Name <span className="text-red-500">*</span>
+              </label>
+              <input
+                type="text"
+                value={values.name}
+                onChange={(e) => updateField("name", e.target.value)}
+                className={inputClass("name")}
+              />
+              <FieldError field="name" />
+            </div>
+            <div className="sm:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Product URL <span className="text-red-500">*</span>
+              </label>
+              <input
+                type="url"
+                value={values.source_url}
+                onChange={(e) => updateField("source_url", e.target.value)}
+                placeholder="https://yourstore.com/products/..."
+                className={inputClass("source_url")}
+              />
+              <FieldError field="source_url" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Category
+              </label>
+              <select
+                value={values.category}
+                onChange={(e) => updateField("category", e.target.value)}
+                className={inputClass("category")}
+              >
+                <option value="">Select a category</option>
+                {PRODUCT_CATEGORIES.map((category) => (
+                  <option key={category} value={category}>
+                    {category}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Sub-category
+              </label>
+              <input
+                type="text"
+                value={values.sub_category}
+                onChange={(e) => updateField("sub_category", e.target.value)}
+                placeholder="e.g. Shirts"
+                className={inputClass("sub_category")}
+              />
+              <FieldError field="sub_category" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                SKU
+              </label>
+              <input
+                type="text"
+                value={values.sku}
+                onChange={(e) => updateField("sku", e.target.value)}
+                className={inputClass("sku")}
+              />
+              <FieldError field="sku" />
+            </div>
+            <div className="sm:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Description
+              </label>
+              <textarea
+                rows={4}
+                value={values.description}
+                onChange={(e) => updateField("description", e.target.value)}
+                className={inputClass("description")}
+              />
+              <FieldError field="description" />
+            </div>
+          </div>
+        </section>
+
+        {/* Pricing */}
+        <section className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 sm:p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Pricing</h2>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Original Price (₹) <span className="text-red-500">*</span>
+              </label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={values.original_price}
+                onChange={(e) => updateField("original_price", e.target.value)}
+                className={inputClass("original_price")}
+              />
+              <FieldError field="original_price" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Selling Price (₹) <span className="text-red-500">*</span>
+              </label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={values.current_price}
+                onChange={(e) => updateField("current_price", e.target.value)}
+                className={inputClass("current_price")}
+              />
+              <FieldError field="current_price" />
+            </div>
+          </div>
+        </section>
+
+        {/* Images */}
+        <section className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 sm:p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold text-gray-900">Images</h2>
+            <span className="text-xs text-gray-500">
+              {values.images.length}/{MAX_IMAGES} • First image is the main
+              image
+            </span>
+          </div>
+
+          {values.images.length > 0 && (
+            <ul className="space-y-3 mb-4">
+              {values.images.map((image, index) => (
+                <li
+                  key={`${image.image_url}-${index}`}
+                  className="flex items-start gap-3 border border-gray-200 rounded-lg p-3"
+                >
+                  <img
+                    src={image.image_url}
+                    alt={image.alt_text || values.name}
+                    className="h-16 w-16 rounded-lg object-cover flex-shrink-0 bg-gray-100"
+                  />
+                  <div className="flex-1 min-w-0 space-y-2">
+                    <div className="flex items-center gap-2">
+                      {index === 0 && (
+                        <span className="inline-flex px-2 py-0.5 text-xs font-semibold rounded-full bg-primary-100 text-primary-800">
+                          Main
+                        </span>
+                      )}
+                      <p className="text-xs text-gray-500 truncate">
+                        {image.image_url}
+                      </p>
+                    </div>
+                    <input
+                      type="text"
+                      value={image.alt_text}
+                      onChange={(e) =>
+                        updateField(
+                          "images",
+                          values.images.map((img, i) =>
+                            i === index
+                              ? { ...img, alt_text: e.target.value }
+                              : img
+                          )
+                        )
+                      }
+                      placeholder="Alt text (optional)"
+                      className="w-full px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    />
+                    <FieldError field={`images[${index}].image_url`} />
+                  </div>
+                  <div className="flex flex-col gap-1">
+                    <button
+                      onClick={() => moveImage(index, -1)}
+                      disabled={index === 0}
+                      className="p-1 text-gray-400 hover:text-gray-600 disabled:opacity-30"
+                      aria-label="Move image up"
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => moveImage(index, 1)}
+                      disabled={index === values.images.length - 1}
+                      className="p-1 text-gray-400 hover:text-gray-600 disabled:opacity-30"
+                      aria-label="Move image down"
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => removeImage(index)}
+                      className="p-1 text-red-400 hover:text-red-600"
+                      aria-label="Remove image"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {values.images.length < MAX_IMAGES && (
+            <div className="flex flex-col sm:flex-row gap-3">
+              <div className="flex flex-1 gap-2">
+                <input
+                  type="url"
+                  value={newImageUrl}
+                  onChange={(e) => setNewImageUrl(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") {
+                      e.preventDefault();
+                      addImageUrl();
+                    }
+                  }}
+                  placeholder="Paste an image URL"
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                />
+                <Button
+                  variant="outline"
+                  icon={ImagePlus}
+                  onClick={addImageUrl}
+                  disabled={!newImageUrl.trim()}
+                >
+                  Add
+                </Button>
+              </div>
+              <label className="inline-flex items-center justify-center gap-2 px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 cursor-pointer">
+                <Upload className="h-4 w-4" />
+                {uploading ? "Uploading..." : "Upload"}
+                <input
+                  type="file"
+                  accept="image/*"
+                  multiple
+                  onChange={handleImageUpload}
+                  disabled={uploading}
+                  className="hidden"
+                />
+              </label>
+            </div>
+          )}
+          <FieldError field="images" />
+        </section>
+
+        {/* Sizes */}
+        <section className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 sm:p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">
+            Sizes & Stock
+          </h2>
+          <div className="flex flex-wrap gap-2 mb-4">
+            {VALID_SIZES.map((size) => {
+              const selected = values.sizes.some((s) => s.size === size);
+              return (
+                <button
+                  key={size}
+                  onClick={() => toggleSize(size)}
+                  className={`px-3 py-1.5 rounded-lg border text-sm font-medium transition-colors ${
+                    selected
+                      ? "bg-primary-500 border-primary-500 text-white"
+                      : "border-gray-300 text-gray-700 hover:bg-gray-50"
+                  }`}
+                >
+                  {size}
+                </button>
+              );
+            })}
+          </div>
+          {values.sizes.length > 0 ? (
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              {values.sizes.map((size, index) => (
+                <div key={size.size}>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">
+                    {size.size} stock
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="1"
+                    value={size.stock_count}
+                    onChange={(e) => updateStock(size.size, e.target.value)}
+                    className={inputClass(`sizes[${index}].stock_count`)}
+                  />
+                  <FieldError field={`sizes[${index}].stock_count`} />
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">
+              Select the sizes this product is available in.
+            </p>
+          )}
+          <FieldError field="sizes" />
+        </section>
+
+        {/* Attributes */}
+        <section className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 sm:p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">
+            Attributes
+          </h2>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+            {ATTRIBUTE_FIELDS.map((field) => (
+              <div key={field.key}>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {field.label}
+                </label>
+                <input
+                  type="text"
+                  value={values.attributes[field.key]}
+                  onChange={(e) => updateAttribute(field.key, e.target.value)}
+                  className={inputClass(`attributes.${field.key}`)}
+                />
+              </div>
+            ))}
+          </div>
+        </section>
+
+        {/* Actions */}
+        <div className="flex flex-col-reverse sm:flex-row sm:justify-end gap-3">
+          <Button
+            variant="outline"
+            onClick={() => navigate("/dashboard/products")}
+            disabled={saving !== null}
+          >
+            Cancel
+          </Button>
+          <Button
+            variant="secondary"
+            icon={Save}
+            loading={saving === "draft"}
+            disabled={saving !== null || uploading}
+            onClick={() => handleSave(false)}
+          >
+            Save Draft
+          </Button>
+          <Button
+            icon={Send}
+            loading={saving === "submit"}
+            disabled={saving !== null || uploading}
+            onClick={() => handleSave(true)}
+          >
+            Submit for Review
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -7,16 +7,27 @@ import {
   RefreshCw,
   ExternalLink,
   Eye,
+  Upload,
+  Plus,
+  Pencil,
 } from "lucide-react";
 import { useSearchParams, useNavigate } from "react-router-dom";
 import Header from "../components/layout/Header";
 import Button from "../components/ui/Button";
+import CatalogImportWizard from "../components/product/CatalogImportWizard";
+import CatalogExportMenu from "../components/product/CatalogExportMenu";
 import { useProductData } from "../hooks/useProductData";
 import { PageMeta } from "../components/seo/PageMeta";
 import { productsMeta } from "../config/metaData";
 import { supabase } from "../lib/supabase";
+import { ProductRepository } from "../lib/database";
 import { useAuth } from "../contexts/AuthContext";
-import type { ProductWithDetails } from "../types/database";
+import { hasBrandRole } from "../lib/brandTeam";
+import type {
+  DatabaseProduct,
+  DatabaseProductModerationDecision,
+  ProductWithDetails,
+} from "../types/database";
 
 export default function Products() {
   const [searchParams, setSearchParams] = useSearchParams();
@@ -30,8 +41,13 @@ export default function Products() {
     inactive: 0,
     loading: true,
   });
+  const [showImportWizard, setShowImportWizard] = useState(false);
+  const [moderationDecisions, setModerationDecisions] = useState<
+    Record<string, DatabaseProductModerationDecision>
+  >({});
   const navigate = useNavigate();
-  const { user } = useAuth();
+  const { brandId, brandRole } = useAuth();
+  const canEdit = hasBrandRole(brandRole, "editor");
 
   // Use the partner product data hook to show only products for this brand
   const {
@@ -44,14 +60,15 @@ export default function Products() {
     refreshData,
   } = useProductData({
     search: searchParams.get("search") || undefined,
-    status: (searchParams.get("status") as "active" | "inactive") || undefined,
+    status:
+      (searchParams.get("status") as DatabaseProduct["status"]) || undefined,
     category: searchParams.get("category") || undefined,
   });
 
   // Fetch total counts for active and inactive products
   useEffect(() => {
     const fetchTotalCounts = async () => {
-      if (!user?.id) return;
+      if (!brandId) return;
 
       try {
         setTotalCounts((prev) => ({ ...prev, loading: true }));
@@ -60,14 +77,14 @@ export default function Products() {
         const { count: activeCount } = await supabase
           .from("products")
           .select("*", { count: "exact", head: true })
-          .eq("brand_id", user.id)
+          .eq("brand_id", brandId)
           .eq("status", "active");
 
         // Get inactive count
         const { count: inactiveCount } = await supabase
           .from("products")
           .select("*", { count: "exact", head: true })
-          .eq("brand_id", user.id)
+          .eq("brand_id", brandId)
           .eq("status", "inactive");
 
         setTotalCounts({
@@ -82,7 +99,27 @@ export default function Products() {
     };
 
     fetchTotalCounts();
-  }, [user?.id]);
+  }, [brandId]);
+
+  // Load admin feedback for drafts that were sent back during review
+  useEffect(() => {
+    const draftIds = products
+      .filter((product) => product.status === "draft")
+      .map((product) => product.id);
+
+    ProductRepository.getLatestModerationDecisions(draftIds)
+      .then(setModerationDecisions)
+      .catch((error) =>
+        console.error("Failed to fetch moderation decisions:", error)
+      );
+  }, [products]);
+
+  const getRejection = (product: ProductWithDetails) => {
+    const decision = moderationDecisions[product.id];
+    return product.status === "draft" && decision?.decision === "rejected"
+      ? decision
+      : undefined;
+  };
 
   const handleSearch = (searchTerm: string) => {
     setSearchTerm(searchTerm);
@@ -145,6 +182,41 @@ export default function Products() {
         <Header
           title="My Products"
           subtitle="Manage your product catalog and track performance"
+          actions={
+            brandId && (
+              <>
+                <CatalogExportMenu
+                  fileName="my-products"
+                  disabled={loading || pagination.total === 0}
+                  loadProducts={() =>
+                    ProductRepository.getForExport({
+                      brand_id: brandId,
+                      status: filters.status,
+                      category: filters.category,
+                      search: filters.search,
+                    })
+                  }
+                />
+                {canEdit && (
+                  <>
+                    <Button
+                      variant="outline"
+                      icon={Upload}
+                      onClick={() => setShowImportWizard(true)}
+                    >
+                      Import Catalog
+                    </Button>
+                    <Button
+                      icon={Plus}
+                      onClick={() => navigate("/dashboard/products/new")}
+                    >
+                      Add Product
+                    </Button>
+                  </>
+                )}
+              </>
+            )
+          }
         />
 
         <div className="mt-6 space-y-6">
@@ -153,8 +225,10 @@ export default function Products() {
             <div className="p-4 sm:p-6">
               <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
                 <p className="text-sm text-blue-800">
-                  <strong>Product Management:</strong> Contact our support team
-                  to add new products or make changes to existing listings.
+                  <strong>Product Management:</strong> Add products one at a
+                  time or use Import Catalog to add or update them in bulk from
+                  a CSV or JSON file. New and edited products are reviewed
+                  before going live.
                 </p>
               </div>
             </div>
@@ -282,7 +356,7 @@ export default function Products() {
                       status:
                         e.target.value === "all"
                           ? undefined
-                          : (e.target.value as "active" | "inactive"),
+                          : (e.target.value as DatabaseProduct["status"]),
                     })
                   }
                   className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
@@ -290,6 +364,8 @@ export default function Products() {
                   <option value="all">All Status</option>
                   <option value="active">Active</option>
                   <option value="inactive">Inactive</option>
+                  <option value="pending">Pending Review</option>
+                  <option value="draft">Draft</option>
                 </select>
               </div>
             </div>
@@ -314,6 +390,13 @@ export default function Products() {
                       key={product.id}
                       product={product}
                       onView={() => handleViewProduct(product.id)}
+                      rejection={getRejection(product)}
+                      onEdit={
+                        canEdit
+                          ? () =>
+                              navigate(`/dashboard/products/${product.id}/edit`)
+                          : undefined
+                      }
                     />
                   ))}
                 </div>
@@ -348,6 +431,15 @@ export default function Products() {
                           key={product.id}
                           product={product}
                           onView={() => handleViewProduct(product.id)}
+                          rejection={getRejection(product)}
+                          onEdit={
+                            canEdit
+                              ? () =>
+                                  navigate(
+                                    `/dashboard/products/${product.id}/edit`
+                                  )
+                              : undefined
+                          }
                         />
                       ))}
                     </tbody>
@@ -416,7 +508,8 @@ export default function Products() {
                 <p className="text-sm text-blue-800">
                   <strong>Need to add products?</strong>
                   <br />
-                  Contact our support team at support@stylsia.com to discuss
+                  Use Add Product, import your catalog from a CSV or JSON file,
+                  or contact our support team at support@stylsia.com to discuss
                   product onboarding options.
                 </p>
               </div>
@@ -424,6 +517,14 @@ export default function Products() {
           )}
         </div>
       </div>
+
+      {showImportWizard && brandId && (
+        <CatalogImportWizard
+          brandId={brandId}
+          onClose={() => setShowImportWizard(false)}
+          onImported={() => refreshData()}
+        />
+      )}
     </>
   );
 }
@@ -431,10 +532,14 @@ export default function Products() {
 // Product Card Component for Mobile
 function ProductCard({
   product,
+  rejection,
   onView,
+  onEdit,
 }: {
   product: ProductWithDetails;
+  rejection?: DatabaseProductModerationDecision;
   onView: () => void;
+  onEdit?: () => void;
 }) {
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -442,6 +547,8 @@ function ProductCard({
         return "bg-green-100 text-green-800";
       case "pending":
         return "bg-amber-100 text-amber-800";
+      case "draft":
+        return "bg-blue-100 text-blue-800";
       case "inactive":
         return "bg-gray-100 text-gray-800";
       case "out_of_stock":
@@ -490,11 +597,19 @@ function ProductCard({
                 product.status
               )}`}
             >
-              {product.status.charAt(0).toUpperCase() +
-                product.status.slice(1).replace("_", " ")}
+              {rejection
+                ? "Changes requested"
+                : product.status.charAt(0).toUpperCase() +
+                  product.status.slice(1).replace("_", " ")}
             </span>
           </div>
 
+          {rejection && (
+            <p className="mt-2 text-xs text-red-600">
+              Changes requested: {rejection.reason}
+            </p>
+          )}
+
           <div className="mt-2 text-xs text-gray-500">
             {product.category || "Uncategorized"}
           </div>
@@ -508,6 +623,16 @@ function ProductCard({
             >
               <Eye className="h-4 w-4" />
             </button>
+            {onEdit && (
+              <button
+                className="text-gray-600 hover:text-gray-900 touch-target"
+                onClick={onEdit}
+                title="Edit product"
+                aria-label="Edit product"
+              >
+                <Pencil className="h-4 w-4" />
+              </button>
+            )}
             <button
               className="text-gray-400 hover:text-gray-600 touch-target"
               title="More options"
@@ -525,10 +650,14 @@ function ProductCard({
 // Product Row Component for Desktop
 function ProductRow({
   product,
+  rejection,
   onView,
+  onEdit,
 }: {
   product: ProductWithDetails;
+  rejection?: DatabaseProductModerationDecision;
   onView: () => void;
+  onEdit?: () => void;
 }) {
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -536,6 +665,8 @@ function ProductRow({
         return "bg-green-100 text-green-800";
       case "pending":
         return "bg-amber-100 text-amber-800";
+      case "draft":
+        return "bg-blue-100 text-blue-800";
       case "inactive":
         return "bg-gray-100 text-gray-800";
       case "out_of_stock":
@@ -595,9 +726,19 @@ function ProductRow({
             product.status
           )}`}
         >
-          {product.status.charAt(0).toUpperCase() +
-            product.status.slice(1).replace("_", " ")}
+          {rejection
+            ? "Changes requested"
+            : product.status.charAt(0).toUpperCase() +
+              product.status.slice(1).replace("_", " ")}
         </span>
+        {rejection && (
+          <p
+            className="mt-1 text-xs text-red-600 max-w-48 truncate"
+            title={rejection.reason}
+          >
+            {rejection.reason}
+          </p>
+        )}
       </td>
       <td className="px-4 py-4 whitespace-nowrap text-sm font-medium lg:px-6">
         <div className="flex items-center space-x-2">
@@ -610,6 +751,11 @@ function ProductRow({
           >
             View
           </Button>
+          {onEdit && (
+            <Button size="sm" variant="outline" onClick={onEdit} icon={Pencil}>
+              Edit
+            </Button>
+          )}
         </div>
       </td>
     </tr>
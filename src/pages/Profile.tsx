@@ -16,10 +16,16 @@ import Button from "../components/ui/Button";
 import { PageMeta } from '../components/seo/PageMeta';
 import { profileMeta } from '../config/metaData';
 import LogoUpload from "../components/profile/LogoUpload";
+import VerificationDocuments from "../components/profile/VerificationDocuments";
 import { useBrandData } from "../hooks/useBrandData";
+import { useAuth } from "../contexts/AuthContext";
+import { hasBrandRole } from "../lib/brandTeam";
 
 export default function Profile() {
-  const { brand, loading, error, updateBrand } = useBrandData();
+  const { brand, loading, error, updateBrand, refreshData } = useBrandData();
+  const { brandRole } = useAuth();
+  // RLS only lets brand owners update the profile
+  const isOwner = hasBrandRole(brandRole, "owner");
   const [formData, setFormData] = useState({
     brandName: "",
     description: "",
@@ -85,6 +91,8 @@ export default function Profile() {
   };
 
   const handleSave = async () => {
+    if (!isOwner) return;
+
     setSaving(true);
     setSaveSuccess(false);
 
@@ -191,6 +199,15 @@ export default function Profile() {
             </div>
           )}
 
+          {!isOwner && (
+            <div className="mb-6 bg-blue-50 border border-blue-200 rounded-lg p-4 flex items-start gap-3">
+              <AlertCircle className="h-5 w-5 text-blue-500 flex-shrink-0 mt-0.5" />
+              <p className="text-blue-700 text-sm">
+                Only brand owners can change the brand profile.
+              </p>
+            </div>
+          )}
+
           {/* Upload error message */}
           {uploadError && (
             <div className="mb-6 bg-red-50 border border-red-200 rounded-lg p-4 flex items-start gap-3 animate-fade-in">
@@ -207,12 +224,14 @@ export default function Profile() {
             }}
           >
             {/* Logo Upload */}
-            <LogoUpload
-              currentLogoUrl={brand?.logo_url}
-              brandName={brand?.name}
-              onUploadSuccess={handleLogoUploadSuccess}
-              onUploadError={handleLogoUploadError}
-            />
+            {isOwner && (
+              <LogoUpload
+                currentLogoUrl={brand?.logo_url}
+                brandName={brand?.name}
+                onUploadSuccess={handleLogoUploadSuccess}
+                onUploadError={handleLogoUploadError}
+              />
+            )}
 
             {/* Basic Information */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -487,19 +506,26 @@ export default function Profile() {
             </div>
 
             {/* Save Button */}
-            <div className="flex justify-end pt-6 border-t border-gray-200">
-              <Button
-                type="submit"
-                icon={Save}
-                loading={saving}
-                disabled={saving}
-              >
-                {saving ? "Saving..." : "Save Changes"}
-              </Button>
-            </div>
+            {isOwner && (
+              <div className="flex justify-end pt-6 border-t border-gray-200">
+                <Button
+                  type="submit"
+                  icon={Save}
+                  loading={saving}
+                  disabled={saving}
+                >
+                  {saving ? "Saving..." : "Save Changes"}
+                </Button>
+              </div>
+            )}
           </form>
         </div>
 
+        {/* Verification documents are only visible to owners */}
+        {isOwner && brand && (
+          <VerificationDocuments brand={brand} onSubmitted={refreshData} />
+        )}
+
         {/* Help Section */}
         <div className="bg-blue-50 border border-blue-200 rounded-lg p-6">
           <h3 className="text-lg font-semibold text-blue-900 mb-3">
@@ -1,13 +1,51 @@
 import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Save, Shield } from 'lucide-react';
+import { Bell, Save, Shield } from 'lucide-react';
 import Header from '../components/layout/Header';
 import Button from '../components/ui/Button';
+import UtmSettingsPanel from '../components/settings/UtmSettingsPanel';
+import ConversionTrackingPanel from '../components/settings/ConversionTrackingPanel';
 import { useBrandData } from '../hooks/useBrandData';
+import { useNotifications } from '../contexts/NotificationContext';
+import { useAuth } from '../contexts/AuthContext';
+import { hasBrandRole } from '../lib/brandTeam';
+import type { NotificationPreferences } from '../types/notifications';
+
+const NOTIFICATION_OPTIONS: Array<{
+  key: keyof NotificationPreferences;
+  label: string;
+  description: string;
+}> = [
+  {
+    key: 'product_approval',
+    label: 'Product reviews',
+    description: 'When a product you submitted is approved or needs changes',
+  },
+  {
+    key: 'weekly_report',
+    label: 'Weekly performance report',
+    description: 'An email every Monday with last week\'s views, clicks, sales and top products',
+  },
+  {
+    key: 'system_updates',
+    label: 'Support updates',
+    description: 'When the status of one of your support requests changes',
+  },
+  {
+    key: 'push_notifications',
+    label: 'Browser notifications',
+    description: 'Also show new notifications as desktop alerts while the dashboard is open',
+  },
+];
 
 export default function Settings() {
   const navigate = useNavigate();
   const { brand } = useBrandData();
+  const { preferences, updatePreferences } = useNotifications();
+  const { brandRole } = useAuth();
+  // Notification preferences are shared by the whole brand team
+  const isOwner = hasBrandRole(brandRole, 'owner');
+  const [preferenceError, setPreferenceError] = useState<string | null>(null);
   const [accountData, setAccountData] = useState({
     email: 'demo@stylsia.com',
   });
@@ -42,6 +80,16 @@ export default function Settings() {
     }
   };
 
+  const handleTogglePreference = async (key: keyof NotificationPreferences) => {
+    setPreferenceError(null);
+    try {
+      await updatePreferences({ [key]: !preferences[key] });
+    } catch (error) {
+      console.error('Failed to update notification preferences:', error);
+      setPreferenceError('Could not save your notification preferences. Please try again.');
+    }
+  };
+
   const handleContactSupport = () => {
     const brandEmail = brand?.contact_email || accountData.email;
     const brandName = brand?.name || 'Brand Partner';
@@ -72,7 +120,7 @@ ${brandName} Team`;
     <div className="p-6">
       <Header 
         title="Settings" 
-        subtitle="Manage your account security settings"
+        subtitle="Manage your account security and notification settings"
       />
       
       <div className="mt-6 space-y-6">
@@ -123,6 +171,60 @@ ${brandName} Team`;
           </form>
         </div>
 
+        {/* Notification Preferences */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <div className="flex items-center space-x-3 mb-6">
+            <div className="p-2 bg-primary-50 rounded-lg">
+              <Bell className="h-5 w-5 text-primary-600" />
+            </div>
+            <h3 className="text-lg font-semibold text-gray-900">Notifications</h3>
+          </div>
+
+          {!isOwner && (
+            <p className="mb-4 text-sm text-gray-600">
+              These settings apply to the whole brand team and can only be changed by a brand owner.
+            </p>
+          )}
+
+          <div className="divide-y divide-gray-100">
+            {NOTIFICATION_OPTIONS.map(option => (
+              <div key={option.key} className="flex items-center justify-between py-3">
+                <div className="pr-4">
+                  <p className="text-sm font-medium text-gray-900">{option.label}</p>
+                  <p className="text-sm text-gray-600">{option.description}</p>
+                </div>
+                <button
+                  type="button"
+                  role="switch"
+                  aria-checked={preferences[option.key]}
+                  aria-label={option.label}
+                  disabled={!isOwner}
+                  onClick={() => handleTogglePreference(option.key)}
+                  className={`relative inline-flex h-6 w-11 flex-shrink-0 rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed ${
+                    preferences[option.key] ? 'bg-primary-600' : 'bg-gray-200'
+                  }`}
+                >
+                  <span
+                    className={`inline-block h-5 w-5 mt-0.5 transform rounded-full bg-white shadow transition-transform ${
+                      preferences[option.key] ? 'translate-x-5' : 'translate-x-0.5'
+                    }`}
+                  />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          {preferenceError && (
+            <p className="mt-4 text-sm text-red-600">{preferenceError}</p>
+          )}
+        </div>
+
+        {/* Store link attribution */}
+        {brand && <UtmSettingsPanel brandId={brand.id} canEdit={isOwner} />}
+
+        {/* Postback keys are only visible to owners */}
+        {brand && isOwner && <ConversionTrackingPanel brandId={brand.id} />}
+
         {/* Support */}
         <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
           <div className="flex items-center space-x-3 mb-6">
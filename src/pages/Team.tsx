@@ -0,0 +1,360 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  AlertCircle,
+  CheckCircle,
+  Mail,
+  Send,
+  Trash2,
+  Users,
+  X,
+} from "lucide-react";
+import Header from "../components/layout/Header";
+import Button from "../components/ui/Button";
+import { PageMeta } from "../components/seo/PageMeta";
+import { teamMeta } from "../config/metaData";
+import { useAuth } from "../contexts/AuthContext";
+import {
+  BRAND_ROLE_DESCRIPTIONS,
+  BRAND_ROLE_LABELS,
+  hasBrandRole,
+  inviteBrandMember,
+  listBrandTeam,
+  removeBrandMember,
+  revokeBrandInvitation,
+  setBrandMemberRole,
+  type BrandInvitation,
+  type BrandMember,
+  type BrandRole,
+} from "../lib/brandTeam";
+
+const ROLES = Object.keys(BRAND_ROLE_LABELS) as BrandRole[];
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+
+const errorMessage = (err: unknown, fallback: string) =>
+  err && typeof err === "object" && "message" in err
+    ? String((err as { message: unknown }).message)
+    : fallback;
+
+export default function Team() {
+  const { user, brandId, brandRole } = useAuth();
+  const isOwner = hasBrandRole(brandRole, "owner");
+  const [members, setMembers] = useState<BrandMember[]>([]);
+  const [invitations, setInvitations] = useState<BrandInvitation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<BrandRole>("editor");
+  const [inviting, setInviting] = useState(false);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  const fetchTeam = useCallback(async () => {
+    if (!brandId) return;
+
+    try {
+      const result = await listBrandTeam(brandId);
+      setMembers(result.members);
+      setInvitations(result.invitations);
+    } catch (err) {
+      console.error("Error loading team:", err);
+      setError("Failed to load your team");
+    } finally {
+      setLoading(false);
+    }
+  }, [brandId]);
+
+  useEffect(() => {
+    fetchTeam();
+  }, [fetchTeam]);
+
+  const showSuccess = (message: string) => {
+    setSuccess(message);
+    setTimeout(() => setSuccess(null), 3000);
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!brandId || !inviteEmail.trim()) return;
+
+    setInviting(true);
+    setError(null);
+    try {
+      const email = inviteEmail.trim().toLowerCase();
+      const result = await inviteBrandMember(brandId, email, inviteRole);
+      showSuccess(
+        result === "added"
+          ? `${email} joined the team as ${BRAND_ROLE_LABELS[inviteRole]}`
+          : `Invitation sent to ${email}`
+      );
+      setInviteEmail("");
+      await fetchTeam();
+    } catch (err) {
+      console.error("Error inviting team member:", err);
+      setError(errorMessage(err, "Failed to invite team member"));
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const handleRoleChange = async (member: BrandMember, role: BrandRole) => {
+    if (!brandId) return;
+
+    setUpdatingId(member.user_id);
+    setError(null);
+    try {
+      await setBrandMemberRole(brandId, member.user_id, role);
+      setMembers((prev) =>
+        prev.map((m) => (m.user_id === member.user_id ? { ...m, role } : m))
+      );
+      showSuccess(`Changed ${member.email} to ${BRAND_ROLE_LABELS[role]}`);
+    } catch (err) {
+      console.error("Error changing team role:", err);
+      setError(errorMessage(err, "Failed to change role"));
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleRemove = async (member: BrandMember) => {
+    if (!brandId) return;
+    if (!confirm(`Remove ${member.email} from the team?`)) return;
+
+    setUpdatingId(member.user_id);
+    setError(null);
+    try {
+      await removeBrandMember(brandId, member.user_id);
+      setMembers((prev) => prev.filter((m) => m.user_id !== member.user_id));
+      showSuccess(`Removed ${member.email} from the team`);
+    } catch (err) {
+      console.error("Error removing team member:", err);
+      setError(errorMessage(err, "Failed to remove team member"));
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleRevoke = async (invitation: BrandInvitation) => {
+    setUpdatingId(invitation.id);
+    setError(null);
+    try {
+      await revokeBrandInvitation(invitation.id);
+      setInvitations((prev) => prev.filter((i) => i.id !== invitation.id));
+    } catch (err) {
+      console.error("Error revoking invitation:", err);
+      setError(errorMessage(err, "Failed to revoke invitation"));
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  return (
+    <>
+      <PageMeta {...teamMeta} />
+      <div className="container-responsive py-4 sm:py-6">
+        <Header
+          title="Team"
+          subtitle="Invite colleagues and choose what each of them can change"
+        />
+
+        <div className="mt-6 space-y-6">
+          {success && (
+            <div className="bg-green-50 border border-green-200 rounded-lg p-4 flex items-start gap-3 animate-fade-in">
+              <CheckCircle className="h-5 w-5 text-green-500 flex-shrink-0 mt-0.5" />
+              <p className="text-green-700 text-sm">{success}</p>
+            </div>
+          )}
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start gap-3 animate-fade-in">
+              <AlertCircle className="h-5 w-5 text-red-500 flex-shrink-0 mt-0.5" />
+              <p className="text-red-700 text-sm flex-1">{error}</p>
+              <button
+                onClick={() => setError(null)}
+                className="text-red-400 hover:text-red-600"
+                aria-label="Dismiss error"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+          )}
+
+          {/* Invite */}
+          {isOwner ? (
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">
+                Invite a Team Member
+              </h3>
+              <form
+                onSubmit={handleInvite}
+                className="flex flex-col sm:flex-row gap-3"
+              >
+                <div className="relative flex-1">
+                  <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+                  <input
+                    type="email"
+                    required
+                    value={inviteEmail}
+                    onChange={(e) => setInviteEmail(e.target.value)}
+                    placeholder="colleague@yourbrand.com"
+                    className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                  />
+                </div>
+                <select
+                  value={inviteRole}
+                  onChange={(e) => setInviteRole(e.target.value as BrandRole)}
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                >
+                  {ROLES.map((role) => (
+                    <option key={role} value={role}>
+                      {BRAND_ROLE_LABELS[role]}
+                    </option>
+                  ))}
+                </select>
+                <Button type="submit" icon={Send} loading={inviting}>
+                  Invite
+                </Button>
+              </form>
+              <p className="mt-3 text-sm text-gray-500">
+                {BRAND_ROLE_LABELS[inviteRole]}:{" "}
+                {BRAND_ROLE_DESCRIPTIONS[inviteRole].toLowerCase()}. People
+                without an account receive a sign-in link by email.
+              </p>
+            </div>
+          ) : (
+            <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 text-sm text-blue-800">
+              Your role on this team is{" "}
+              {brandRole ? BRAND_ROLE_LABELS[brandRole] : "Member"}. Only brand
+              owners can invite people or change roles.
+            </div>
+          )}
+
+          {/* Members */}
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+            <div className="p-6 border-b border-gray-200">
+              <h3 className="text-lg font-semibold text-gray-900">Members</h3>
+            </div>
+
+            {loading ? (
+              <div className="py-12 text-center">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-500 mx-auto"></div>
+              </div>
+            ) : members.length === 0 ? (
+              <div className="py-12 text-center">
+                <Users className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                <p className="text-gray-600">No team members found.</p>
+              </div>
+            ) : (
+              <div className="divide-y divide-gray-200">
+                {members.map((member) => {
+                  const isSelf = member.user_id === user?.id;
+                  const canManage = isOwner && !isSelf;
+
+                  return (
+                    <div
+                      key={member.user_id}
+                      className="p-4 sm:px-6 flex flex-col sm:flex-row sm:items-center gap-3"
+                    >
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium text-gray-900 truncate">
+                          {member.email}
+                          {isSelf && (
+                            <span className="ml-2 text-xs text-gray-500">
+                              (you)
+                            </span>
+                          )}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          Member since {formatDate(member.created_at)} ·{" "}
+                          {BRAND_ROLE_DESCRIPTIONS[member.role]}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        {canManage ? (
+                          <select
+                            value={member.role}
+                            disabled={updatingId === member.user_id}
+                            onChange={(e) =>
+                              handleRoleChange(
+                                member,
+                                e.target.value as BrandRole
+                              )
+                            }
+                            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent text-sm disabled:bg-gray-50"
+                          >
+                            {ROLES.map((role) => (
+                              <option key={role} value={role}>
+                                {BRAND_ROLE_LABELS[role]}
+                              </option>
+                            ))}
+                          </select>
+                        ) : (
+                          <span className="px-2 py-1 text-xs font-medium rounded-full bg-gray-100 text-gray-700">
+                            {BRAND_ROLE_LABELS[member.role]}
+                          </span>
+                        )}
+                        {canManage && (
+                          <button
+                            onClick={() => handleRemove(member)}
+                            disabled={updatingId === member.user_id}
+                            className="p-2 text-gray-400 hover:text-red-600 disabled:opacity-50"
+                            aria-label={`Remove ${member.email}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
+          {/* Pending invitations */}
+          {isOwner && invitations.length > 0 && (
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+              <div className="p-6 border-b border-gray-200">
+                <h3 className="text-lg font-semibold text-gray-900">
+                  Pending Invitations
+                </h3>
+              </div>
+              <div className="divide-y divide-gray-200">
+                {invitations.map((invitation) => (
+                  <div
+                    key={invitation.id}
+                    className="p-4 sm:px-6 flex items-center justify-between gap-3"
+                  >
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900 truncate">
+                        {invitation.email}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {BRAND_ROLE_LABELS[invitation.role]} · invited{" "}
+                        {formatDate(invitation.created_at)}
+                      </p>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      icon={X}
+                      disabled={updatingId === invitation.id}
+                      onClick={() => handleRevoke(invitation)}
+                    >
+                      Revoke
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,117 @@
+import React, { useEffect, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Heart } from "lucide-react";
+import TargetStyleHeader from "../components/layout/TargetStyleHeader";
+import Footer from "../components/layout/Footer";
+import { ProductGrid } from "../components/product/ProductGrid";
+import { PageMeta } from "../components/seo/PageMeta";
+import { wishlistMeta } from "../config/metaData";
+import { useAuth } from "../contexts/AuthContext";
+import { useWishlist } from "../hooks/useWishlist";
+import { getWishlistProducts } from "../lib/wishlist";
+import type { ProductWithDetails } from "../types/database";
+
+const Wishlist: React.FC = () => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { productIds, loading: wishlistLoading } = useWishlist();
+  const [products, setProducts] = useState<ProductWithDetails[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // Ids already fetched, so removing an item doesn't reload the page
+  const fetchedIdsRef = useRef<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (wishlistLoading) return;
+
+    const missing = productIds.some((id) => !fetchedIdsRef.current.has(id));
+    if (!missing) {
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    const fetchProducts = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const rows = await getWishlistProducts(productIds);
+        if (cancelled) return;
+        fetchedIdsRef.current = new Set(productIds);
+        setProducts(rows);
+      } catch (err) {
+        console.error("Error fetching wishlist products:", err);
+        if (!cancelled) setError("Failed to load your wishlist.");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchProducts();
+    return () => {
+      cancelled = true;
+    };
+  }, [productIds, wishlistLoading]);
+
+  const savedProducts = products.filter((product) =>
+    productIds.includes(product.id)
+  );
+
+  const handleSearch = (searchTerm: string) => {
+    navigate(`/products?search=${encodeURIComponent(searchTerm)}`);
+  };
+
+  return (
+    <>
+      <PageMeta {...wishlistMeta} />
+      <main className="min-h-screen bg-gray-50">
+        <TargetStyleHeader onSearch={handleSearch} showSearchBar={true} />
+
+        <section className="bg-gray-50 py-12 xl:py-20 mt-8 lg:mt-12">
+          <div className="w-full px-4 sm:px-6 lg:px-8">
+            <div className="text-center mb-10">
+              <h1 className="text-3xl font-bold text-gray-900 sm:text-4xl mb-3">
+                My Wishlist
+              </h1>
+              <p className="text-lg text-gray-600 max-w-2xl mx-auto">
+                {user
+                  ? "Products you saved, on every device you sign in with"
+                  : "Saved on this device. Sign in to keep them on your account."}
+              </p>
+            </div>
+
+            {error ? (
+              <p className="text-center text-red-600">{error}</p>
+            ) : !loading && !wishlistLoading && savedProducts.length === 0 ? (
+              <div className="text-center py-16">
+                <Heart className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+                <p className="text-gray-500 text-lg mb-6">
+                  Tap the heart on any product to save it here.
+                </p>
+                <button
+                  onClick={() => navigate("/products")}
+                  className="inline-flex items-center px-8 py-4 bg-primary-600 hover:bg-primary-700 text-white font-semibold rounded-lg transition-colors"
+                >
+                  Browse Products
+                </button>
+              </div>
+            ) : (
+              <ProductGrid
+                products={savedProducts}
+                loading={loading || wishlistLoading}
+                onProductClick={(productId) =>
+                  navigate(`/product/${productId}`)
+                }
+                loadingMessage="Loading your wishlist..."
+              />
+            )}
+          </div>
+        </section>
+
+        <Footer />
+      </main>
+    </>
+  );
+};
+
+export default Wishlist;
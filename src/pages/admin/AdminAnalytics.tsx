@@ -24,6 +24,8 @@ import {
   PieChart as PieChartIcon,
 } from "lucide-react";
 import Button from "../../components/ui/Button";
+import MetricsRollupPanel from "../../components/admin/MetricsRollupPanel";
+import SearchAnalyticsPanel from "../../components/admin/SearchAnalyticsPanel";
 import { useAdminAnalytics } from "../../hooks/useAdminAnalytics";
 
 export default function AdminAnalytics() {
@@ -586,6 +588,10 @@ export default function AdminAnalytics() {
             </div>
           </div>
         )}
+
+        <SearchAnalyticsPanel />
+
+        <MetricsRollupPanel onRolledUp={refreshData} />
       </div>
     </div>
   );
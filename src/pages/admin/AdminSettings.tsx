@@ -5,9 +5,13 @@ import {
   Activity,
   FileText,
   AlertTriangle,
+  Clock,
+  MessageSquare,
 } from "lucide-react";
 import Button from "../../components/ui/Button";
 import AuditLogViewer from "../../components/common/AuditLogViewer";
+import SupportSlaSettingsPanel from "../../components/admin/SupportSlaSettingsPanel";
+import CannedResponsesPanel from "../../components/admin/CannedResponsesPanel";
 import { useMaintenanceMode } from "../../contexts/MaintenanceContext";
 
 export default function AdminSettings() {
@@ -27,6 +31,8 @@ export default function AdminSettings() {
 
   const tabs = [
     { id: "global", name: "Global Settings", icon: SettingsIcon },
+    { id: "sla", name: "Support SLA", icon: Clock },
+    { id: "responses", name: "Canned Responses", icon: MessageSquare },
     { id: "logs", name: "Audit Logs", icon: Activity },
   ];
 
@@ -230,6 +236,26 @@ export default function AdminSettings() {
           </div>
         )}
 
+        {/* Support SLA */}
+        {activeTab === "sla" && (
+          <div className="p-6">
+            <h2 className="text-lg font-semibold text-slate-900 mb-6">
+              Support SLA Targets
+            </h2>
+            <SupportSlaSettingsPanel />
+          </div>
+        )}
+
+        {/* Canned Responses */}
+        {activeTab === "responses" && (
+          <div className="p-6">
+            <h2 className="text-lg font-semibold text-slate-900 mb-6">
+              Canned Responses
+            </h2>
+            <CannedResponsesPanel />
+          </div>
+        )}
+
         {/* Audit Logs */}
         {activeTab === "logs" && (
           <div className="p-6">
@@ -1,16 +1,32 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import {
   Mail,
   Search,
   CheckCircle,
   Clock,
   AlertCircle,
-  Download,
   Paperclip,
+  TrendingUp,
+  UserCheck,
 } from "lucide-react";
 import Button from "../../components/ui/Button";
 import { supabase } from "../../lib/supabase";
 import AuditLogViewer from "../../components/common/AuditLogViewer";
+import SupportThread from "../../components/support/SupportThread";
+import SupportSlaReport from "../../components/admin/SupportSlaReport";
+import SupportWorkloadPanel, {
+  type SupportWorkloadRow,
+} from "../../components/admin/SupportWorkloadPanel";
+import { useAuth } from "../../contexts/AuthContext";
+import {
+  DEFAULT_SUPPORT_SLA,
+  escalateBreachedSupportRequests,
+  formatSlaDuration,
+  getSupportSlaSettings,
+  getSupportSlaStatus,
+  type SlaTimer,
+  type SupportSlaSettings,
+} from "../../lib/supportSla";
 
 interface SupportRequest {
   id: string;
@@ -27,12 +43,28 @@ interface SupportRequest {
   created_at: string;
   updated_at: string;
   resolved_at?: string;
+  first_response_at?: string;
+  escalated_at?: string;
+  assigned_to?: string | null;
+  assigned_at?: string | null;
+}
+
+interface SupportAgent {
+  id: string;
+  email: string;
+  full_name?: string | null;
 }
 
 export default function AdminSupport() {
+  const { user } = useAuth();
   const [searchTerm, setSearchTerm] = useState("");
   const [statusFilter, setStatusFilter] = useState("all");
   const [priorityFilter, setPriorityFilter] = useState("all");
+  // "all", "mine", "unassigned" or an admin id
+  const [assigneeFilter, setAssigneeFilter] = useState("all");
+  const [agents, setAgents] = useState<SupportAgent[]>([]);
+  const [workload, setWorkload] = useState<SupportWorkloadRow[]>([]);
+  const [assigning, setAssigning] = useState(false);
   const [selectedRequest, setSelectedRequest] = useState<SupportRequest | null>(
     null
   );
@@ -40,12 +72,27 @@ export default function AdminSupport() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showAuditLog, setShowAuditLog] = useState(false);
+  const [slaSettings, setSlaSettings] =
+    useState<SupportSlaSettings>(DEFAULT_SUPPORT_SLA);
 
   // Fetch support requests from database
   useEffect(() => {
     const fetchSupportRequests = async () => {
       setLoading(true);
       try {
+        // Escalate anything that breached since the last run before listing,
+        // so priorities shown here are current
+        try {
+          const escalated = await escalateBreachedSupportRequests();
+          if (escalated > 0) {
+            console.log(`Escalated ${escalated} support request(s)`);
+          }
+        } catch (escalationError) {
+          console.warn("SLA escalation failed:", escalationError);
+        }
+
+        setSlaSettings(await getSupportSlaSettings());
+
         // Try the admin function first
         const { data, error } = await supabase.rpc(
           "admin_get_all_support_requests"
@@ -141,6 +188,10 @@ export default function AdminSupport() {
             created_at: request.created_at,
             updated_at: request.updated_at || request.created_at,
             resolved_at: request.resolved_at,
+            first_response_at: request.first_response_at,
+            escalated_at: request.escalated_at,
+            assigned_to: request.assigned_to,
+            assigned_at: request.assigned_at,
             email: request.brand_email || "unknown@example.com",
             brand: request.brand_name || "Unknown Brand",
           }));
@@ -160,6 +211,29 @@ export default function AdminSupport() {
     fetchSupportRequests();
   }, []);
 
+  const fetchWorkload = useCallback(async () => {
+    const { data, error } = await supabase.rpc("admin_get_support_workload");
+    if (error) {
+      console.warn("Failed to load support workload:", error);
+      return;
+    }
+    setWorkload(data || []);
+  }, []);
+
+  useEffect(() => {
+    const fetchAgents = async () => {
+      const { data, error } = await supabase.rpc("admin_list_support_agents");
+      if (error) {
+        console.warn("Failed to load support agents:", error);
+        return;
+      }
+      setAgents(data || []);
+    };
+
+    fetchAgents();
+    fetchWorkload();
+  }, [fetchWorkload]);
+
   // Filter support requests based on search term and filters
   const filteredRequests = supportRequests.filter((request) => {
     const matchesSearch =
@@ -171,10 +245,53 @@ export default function AdminSupport() {
       statusFilter === "all" || request.status === statusFilter;
     const matchesPriority =
       priorityFilter === "all" || request.priority === priorityFilter;
+    const matchesAssignee =
+      assigneeFilter === "all" ||
+      (assigneeFilter === "mine" && request.assigned_to === user?.id) ||
+      (assigneeFilter === "unassigned" && !request.assigned_to) ||
+      request.assigned_to === assigneeFilter;
 
-    return matchesSearch && matchesStatus && matchesPriority;
+    return matchesSearch && matchesStatus && matchesPriority && matchesAssignee;
   });
 
+  const getAgentLabel = (agentId?: string | null) => {
+    if (!agentId) return "Unassigned";
+    if (agentId === user?.id) return "You";
+    const agent = agents.find((a) => a.id === agentId);
+    return agent?.full_name || agent?.email || "Unknown admin";
+  };
+
+  const handleAssign = async (requestId: string, assigneeId: string | null) => {
+    setAssigning(true);
+    try {
+      const { error: rpcError } = await supabase.rpc(
+        "admin_assign_support_request",
+        { request_id: requestId, assignee_id: assigneeId }
+      );
+      if (rpcError) throw rpcError;
+
+      const now = new Date().toISOString();
+      const update = (req: SupportRequest): SupportRequest =>
+        req.id === requestId
+          ? {
+              ...req,
+              assigned_to: assigneeId,
+              assigned_at: assigneeId ? now : null,
+              updated_at: now,
+            }
+          : req;
+
+      setSupportRequests((prev) => prev.map(update));
+      setSelectedRequest((prev) => (prev ? update(prev) : prev));
+      fetchWorkload();
+    } catch (err) {
+      console.error("Error assigning support request:", err);
+      alert("Failed to update the assignee. Please try again.");
+    } finally {
+      setAssigning(false);
+    }
+  };
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case "new":
@@ -245,15 +362,59 @@ export default function AdminSupport() {
     return `${count} Attachments`;
   };
 
-  const handleReplyToEmail = (requestId: string) => {
-    // In a real implementation, this would open an email client or a compose modal
-    // For now, we'll just open the default email client with a pre-filled subject
-    if (selectedRequest) {
-      window.open(
-        `mailto:${selectedRequest.email}?subject=Re: ${selectedRequest.subject}&body=Hello,\n\nThank you for contacting Stylsia support regarding: ${selectedRequest.subject}\n\nWe have received your request (ID: ${requestId}) and will assist you with this matter.\n\nBest regards,\nStylsia Support Team`,
-        "_blank"
+  // Mirrors add_support_message: the first public reply starts work on a new request
+  const handleMessagePosted = (isInternal: boolean) => {
+    if (isInternal || !selectedRequest) return;
+
+    const now = new Date().toISOString();
+    const update = (req: SupportRequest): SupportRequest =>
+      req.id === selectedRequest.id
+        ? {
+            ...req,
+            status: req.status === "new" ? "in_progress" : req.status,
+            first_response_at: req.first_response_at || now,
+            updated_at: now,
+          }
+        : req;
+
+    setSupportRequests((prev) => prev.map(update));
+    setSelectedRequest(update(selectedRequest));
+  };
+
+  const getSlaBadge = (request: SupportRequest) => {
+    const sla = getSupportSlaStatus(request, slaSettings);
+    if (sla.breached) {
+      return (
+        <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+          <AlertCircle className="h-3 w-3" />
+          SLA breached
+        </span>
+      );
+    }
+    if (request.escalated_at) {
+      return (
+        <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-orange-100 text-orange-800">
+          <TrendingUp className="h-3 w-3" />
+          Escalated
+        </span>
       );
     }
+    return null;
+  };
+
+  const describeTimer = (timer: SlaTimer) => {
+    const duration = formatSlaDuration(timer.remainingMs);
+    switch (timer.state) {
+      case "met":
+        return {
+          text: `Met with ${duration} to spare`,
+          color: "text-green-700",
+        };
+      case "breached":
+        return { text: `Breached by ${duration}`, color: "text-red-700" };
+      default:
+        return { text: `Due in ${duration}`, color: "text-slate-900" };
+    }
   };
 
   const handleUpdateStatus = async (
@@ -446,6 +607,18 @@ export default function AdminSupport() {
         </div>
       </div>
 
+      <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+        <div className="xl:col-span-2">
+          <SupportSlaReport />
+        </div>
+        <SupportWorkloadPanel
+          workload={workload}
+          currentUserId={user?.id}
+          activeFilter={assigneeFilter}
+          onSelect={setAssigneeFilter}
+        />
+      </div>
+
       {/* Filters */}
       <div className="bg-white rounded-lg shadow-sm border border-slate-200 p-4">
         <div className="flex flex-col lg:flex-row gap-4">
@@ -485,6 +658,23 @@ export default function AdminSupport() {
               <option value="medium">Medium</option>
               <option value="high">High</option>
             </select>
+
+            <select
+              value={assigneeFilter}
+              onChange={(e) => setAssigneeFilter(e.target.value)}
+              className="px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+            >
+              <option value="all">All Assignees</option>
+              <option value="mine">Assigned to Me</option>
+              <option value="unassigned">Unassigned</option>
+              {agents
+                .filter((agent) => agent.id !== user?.id)
+                .map((agent) => (
+                  <option key={agent.id} value={agent.id}>
+                    {agent.full_name || agent.email}
+                  </option>
+                ))}
+            </select>
           </div>
         </div>
       </div>
@@ -525,6 +715,10 @@ export default function AdminSupport() {
                         <p className="text-xs text-slate-500">
                           {request.email || "unknown@example.com"}
                         </p>
+                        <p className="text-xs text-slate-500 flex items-center gap-1 mt-1">
+                          <UserCheck className="h-3 w-3" />
+                          {getAgentLabel(request.assigned_to)}
+                        </p>
                       </div>
                       <div className="flex flex-col items-end space-y-1">
                         <span
@@ -544,8 +738,9 @@ export default function AdminSupport() {
                       </div>
                     </div>
                     <div className="flex justify-between items-center">
-                      <span className="text-xs text-slate-500">
+                      <span className="text-xs text-slate-500 flex items-center gap-2">
                         {formatDate(request.created_at)}
+                        {getSlaBadge(request)}
                       </span>
                       {request.has_attachment && (
                         <Paperclip className="h-4 w-4 text-slate-400" />
@@ -573,6 +768,9 @@ export default function AdminSupport() {
                     <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
                       Priority
                     </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                      Assignee
+                    </th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
                       Date
                     </th>
@@ -624,6 +822,7 @@ export default function AdminSupport() {
                             {request.status.replace("_", " ")}
                           </span>
                         </div>
+                        <div className="mt-1">{getSlaBadge(request)}</div>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <span
@@ -634,6 +833,17 @@ export default function AdminSupport() {
                           {request.priority}
                         </span>
                       </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <span
+                          className={
+                            request.assigned_to
+                              ? "text-slate-900"
+                              : "text-slate-400 italic"
+                          }
+                        >
+                          {getAgentLabel(request.assigned_to)}
+                        </span>
+                      </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-500">
                         {formatDate(request.created_at)}
                       </td>
@@ -719,84 +929,100 @@ export default function AdminSupport() {
 
                       <div className="mb-4">
                         <p className="text-sm font-medium text-slate-500">
-                          Description
+                          Assignee
                         </p>
-                        <div className="mt-1 p-3 bg-slate-50 rounded-lg">
-                          <p className="text-sm text-slate-900 whitespace-pre-wrap">
-                            {selectedRequest.description}
-                          </p>
+                        <div className="mt-1 flex flex-col sm:flex-row sm:items-center gap-2">
+                          <select
+                            value={selectedRequest.assigned_to || ""}
+                            disabled={assigning}
+                            onChange={(e) =>
+                              handleAssign(
+                                selectedRequest.id,
+                                e.target.value || null
+                              )
+                            }
+                            className="px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent text-sm"
+                          >
+                            <option value="">Unassigned</option>
+                            {agents.map((agent) => (
+                              <option key={agent.id} value={agent.id}>
+                                {agent.full_name || agent.email}
+                                {agent.id === user?.id ? " (you)" : ""}
+                              </option>
+                            ))}
+                          </select>
+                          {user && selectedRequest.assigned_to !== user.id && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              icon={UserCheck}
+                              disabled={assigning}
+                              onClick={() =>
+                                handleAssign(selectedRequest.id, user.id)
+                              }
+                            >
+                              Assign to Me
+                            </Button>
+                          )}
                         </div>
+                        {selectedRequest.assigned_at && (
+                          <p className="mt-1 text-xs text-slate-500">
+                            Assigned {formatDate(selectedRequest.assigned_at)}
+                          </p>
+                        )}
                       </div>
 
-                      {selectedRequest.has_attachment &&
-                        ((selectedRequest.attachment_urls &&
-                          selectedRequest.attachment_urls.length > 0) ||
-                          selectedRequest.attachment_url) && (
-                          <div className="mb-4">
-                            <p className="text-sm font-medium text-slate-500">
-                              {getAttachmentText(selectedRequest)}
-                            </p>
-                            <div className="mt-1 space-y-2">
-                              {selectedRequest.attachment_urls?.map(
-                                (url, index) => {
-                                  const fileName =
-                                    url.split("/").pop() ||
-                                    `attachment_${index + 1}`;
-                                  return (
-                                    <div
-                                      key={index}
-                                      className="flex items-center space-x-2 p-2 border border-slate-200 rounded-lg"
-                                    >
-                                      <Paperclip className="h-4 w-4 text-slate-400" />
-                                      <span className="text-sm text-slate-900 flex-1">
-                                        {fileName}
-                                      </span>
-                                      <Button
-                                        size="sm"
-                                        variant="outline"
-                                        icon={Download}
-                                        className="ml-auto"
-                                        onClick={(e) => {
-                                          e.stopPropagation();
-                                          // Open the file in a new tab
-                                          window.open(url, "_blank");
-                                        }}
-                                      >
-                                        Download
-                                      </Button>
-                                    </div>
-                                  );
-                                }
-                              ) ||
-                                // Fallback for single attachment_url
-                                (selectedRequest.attachment_url && (
-                                  <div className="flex items-center space-x-2 p-2 border border-slate-200 rounded-lg">
-                                    <Paperclip className="h-4 w-4 text-slate-400" />
-                                    <span className="text-sm text-slate-900">
-                                      {selectedRequest.attachment_url
-                                        .split("/")
-                                        .pop() || "attachment"}
-                                    </span>
-                                    <Button
-                                      size="sm"
-                                      variant="outline"
-                                      icon={Download}
-                                      className="ml-auto"
-                                      onClick={(e) => {
-                                        e.stopPropagation();
-                                        window.open(
-                                          selectedRequest.attachment_url,
-                                          "_blank"
-                                        );
-                                      }}
-                                    >
-                                      Download
-                                    </Button>
-                                  </div>
-                                ))}
-                            </div>
-                          </div>
+                      <div className="mb-4">
+                        <p className="text-sm font-medium text-slate-500">
+                          Service Level
+                        </p>
+                        <div className="mt-1 grid grid-cols-2 gap-4">
+                          {(
+                            [
+                              ["First response", "firstResponse"],
+                              ["Resolution", "resolution"],
+                            ] as const
+                          ).map(([label, key]) => {
+                            const timer = describeTimer(
+                              getSupportSlaStatus(selectedRequest, slaSettings)[
+                                key
+                              ]
+                            );
+                            return (
+                              <div key={key}>
+                                <p className="text-xs text-slate-500">
+                                  {label}
+                                </p>
+                                <p className={`text-sm ${timer.color}`}>
+                                  {timer.text}
+                                </p>
+                              </div>
+                            );
+                          })}
+                        </div>
+                        {selectedRequest.escalated_at && (
+                          <p className="mt-2 text-xs text-orange-700">
+                            Escalated automatically on{" "}
+                            {formatDate(selectedRequest.escalated_at)}
+                          </p>
                         )}
+                      </div>
+
+                      <div className="mb-4">
+                        <p className="text-sm font-medium text-slate-500 mb-2">
+                          Conversation
+                        </p>
+                        <SupportThread
+                          request={selectedRequest}
+                          viewer="admin"
+                          templateContext={{
+                            brandName: selectedRequest.brand,
+                            requestSubject: selectedRequest.subject,
+                            requestDate: selectedRequest.created_at,
+                          }}
+                          onMessagePosted={handleMessagePosted}
+                        />
+                      </div>
 
                       <div className="mb-4">
                         <p className="text-sm font-medium text-slate-500">
@@ -836,15 +1062,7 @@ export default function AdminSupport() {
               </div>
 
               <div className="bg-slate-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse">
-                <Button
-                  onClick={() => handleReplyToEmail(selectedRequest.id)}
-                  icon={Mail}
-                  className="w-full sm:w-auto sm:ml-3"
-                >
-                  Reply via Email
-                </Button>
-
-                <div className="mt-3 sm:mt-0 sm:mr-3">
+                <div className="sm:ml-3">
                   <select
                     value={selectedRequest.status}
                     onChange={(e) =>
@@ -0,0 +1,333 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  AlertTriangle,
+  CheckCircle,
+  Mail,
+  Send,
+  Trash2,
+  UserCog,
+  X,
+} from "lucide-react";
+import Button from "../../components/ui/Button";
+import { useAdminAuth } from "../../contexts/AdminAuthContext";
+import {
+  ADMIN_ROLE_LABELS,
+  ADMIN_ROLE_PERMISSIONS,
+  inviteAdmin,
+  listAdmins,
+  removeAdmin,
+  revokeAdminInvitation,
+  setAdminRole,
+  type AdminInvitation,
+  type AdminRole,
+  type AdminUser,
+} from "../../lib/adminAuth";
+
+const ROLES = Object.keys(ADMIN_ROLE_LABELS) as AdminRole[];
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+
+const errorMessage = (err: unknown, fallback: string) =>
+  err && typeof err === "object" && "message" in err
+    ? String((err as { message: unknown }).message)
+    : fallback;
+
+export default function AdminUsers() {
+  const { user } = useAdminAuth();
+  const [admins, setAdmins] = useState<AdminUser[]>([]);
+  const [invitations, setInvitations] = useState<AdminInvitation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<AdminRole>("support_agent");
+  const [inviting, setInviting] = useState(false);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  const fetchAdmins = useCallback(async () => {
+    try {
+      const result = await listAdmins();
+      setAdmins(result.admins);
+      setInvitations(result.invitations);
+    } catch (err) {
+      console.error("Error loading admins:", err);
+      setError("Failed to load admin users");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchAdmins();
+  }, [fetchAdmins]);
+
+  const showSuccess = (message: string) => {
+    setSuccess(message);
+    setTimeout(() => setSuccess(null), 3000);
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!inviteEmail.trim()) return;
+
+    setInviting(true);
+    setError(null);
+    try {
+      const email = inviteEmail.trim().toLowerCase();
+      const result = await inviteAdmin(email, inviteRole);
+      showSuccess(
+        result === "added"
+          ? `${email} now has ${ADMIN_ROLE_LABELS[inviteRole]} access`
+          : `Invitation sent to ${email}`
+      );
+      setInviteEmail("");
+      await fetchAdmins();
+    } catch (err) {
+      console.error("Error inviting admin:", err);
+      setError(errorMessage(err, "Failed to invite admin"));
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const handleRoleChange = async (admin: AdminUser, role: AdminRole) => {
+    setUpdatingId(admin.user_id);
+    setError(null);
+    try {
+      await setAdminRole(admin.user_id, role);
+      setAdmins((prev) =>
+        prev.map((a) => (a.user_id === admin.user_id ? { ...a, role } : a))
+      );
+      showSuccess(`Changed ${admin.email} to ${ADMIN_ROLE_LABELS[role]}`);
+    } catch (err) {
+      console.error("Error changing admin role:", err);
+      setError(errorMessage(err, "Failed to change role"));
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleRemove = async (admin: AdminUser) => {
+    if (!confirm(`Remove admin access for ${admin.email}?`)) return;
+
+    setUpdatingId(admin.user_id);
+    setError(null);
+    try {
+      await removeAdmin(admin.user_id);
+      setAdmins((prev) => prev.filter((a) => a.user_id !== admin.user_id));
+      showSuccess(`Removed admin access for ${admin.email}`);
+    } catch (err) {
+      console.error("Error removing admin:", err);
+      setError(errorMessage(err, "Failed to remove admin"));
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleRevoke = async (invitation: AdminInvitation) => {
+    setUpdatingId(invitation.id);
+    setError(null);
+    try {
+      await revokeAdminInvitation(invitation.id);
+      setInvitations((prev) => prev.filter((i) => i.id !== invitation.id));
+    } catch (err) {
+      console.error("Error revoking invitation:", err);
+      setError(errorMessage(err, "Failed to revoke invitation"));
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div>
+        <h1 className="text-2xl sm:text-3xl font-bold text-slate-900">
+          Admin Users
+        </h1>
+        <p className="text-slate-600 mt-1">
+          Invite admins and control what each of them can access
+        </p>
+      </div>
+
+      {success && (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-4 flex items-start gap-3 animate-fade-in">
+          <CheckCircle className="h-5 w-5 text-green-500 flex-shrink-0 mt-0.5" />
+          <p className="text-green-700 text-sm">{success}</p>
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start gap-3 animate-fade-in">
+          <AlertTriangle className="h-5 w-5 text-red-500 flex-shrink-0 mt-0.5" />
+          <p className="text-red-700 text-sm flex-1">{error}</p>
+          <button
+            onClick={() => setError(null)}
+            className="text-red-400 hover:text-red-600"
+            aria-label="Dismiss error"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+
+      {/* Invite */}
+      <div className="bg-white rounded-lg shadow-sm border border-slate-200 p-6">
+        <h2 className="text-lg font-semibold text-slate-900 mb-4">
+          Invite an Admin
+        </h2>
+        <form
+          onSubmit={handleInvite}
+          className="flex flex-col sm:flex-row gap-3"
+        >
+          <div className="relative flex-1">
+            <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-slate-400" />
+            <input
+              type="email"
+              required
+              value={inviteEmail}
+              onChange={(e) => setInviteEmail(e.target.value)}
+              placeholder="name@stylsia.com"
+              className="w-full pl-10 pr-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+            />
+          </div>
+          <select
+            value={inviteRole}
+            onChange={(e) => setInviteRole(e.target.value as AdminRole)}
+            className="px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+          >
+            {ROLES.map((role) => (
+              <option key={role} value={role}>
+                {ADMIN_ROLE_LABELS[role]}
+              </option>
+            ))}
+          </select>
+          <Button type="submit" icon={Send} loading={inviting}>
+            Invite
+          </Button>
+        </form>
+        <p className="mt-3 text-sm text-slate-500">
+          Existing accounts get access immediately. Anyone else receives a
+          sign-in link and gets their role the first time they sign in.
+        </p>
+      </div>
+
+      {/* Admins */}
+      <div className="bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden">
+        <div className="p-6 border-b border-slate-200">
+          <h2 className="text-lg font-semibold text-slate-900">Admins</h2>
+        </div>
+
+        {loading ? (
+          <div className="py-12 text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-red-500 mx-auto"></div>
+          </div>
+        ) : admins.length === 0 ? (
+          <div className="py-12 text-center">
+            <UserCog className="h-12 w-12 text-slate-400 mx-auto mb-4" />
+            <p className="text-slate-600">No admins found.</p>
+          </div>
+        ) : (
+          <div className="divide-y divide-slate-200">
+            {admins.map((admin) => {
+              const isSelf = admin.user_id === user?.id;
+
+              return (
+                <div
+                  key={admin.user_id}
+                  className="p-4 sm:px-6 flex flex-col sm:flex-row sm:items-center gap-3"
+                >
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-slate-900 truncate">
+                      {admin.email}
+                      {isSelf && (
+                        <span className="ml-2 text-xs text-slate-500">
+                          (you)
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-xs text-slate-500">
+                      Admin since {formatDate(admin.created_at)} ·{" "}
+                      {ADMIN_ROLE_PERMISSIONS[admin.role]
+                        .filter((p) => p !== "dashboard" && p !== "audit")
+                        .join(", ")}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <select
+                      value={admin.role}
+                      disabled={isSelf || updatingId === admin.user_id}
+                      onChange={(e) =>
+                        handleRoleChange(admin, e.target.value as AdminRole)
+                      }
+                      className="px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent text-sm disabled:bg-slate-50"
+                    >
+                      {ROLES.map((role) => (
+                        <option key={role} value={role}>
+                          {ADMIN_ROLE_LABELS[role]}
+                        </option>
+                      ))}
+                    </select>
+                    {!isSelf && (
+                      <button
+                        onClick={() => handleRemove(admin)}
+                        disabled={updatingId === admin.user_id}
+                        className="p-2 text-slate-400 hover:text-red-600 disabled:opacity-50"
+                        aria-label={`Remove ${admin.email}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Pending invitations */}
+      {invitations.length > 0 && (
+        <div className="bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden">
+          <div className="p-6 border-b border-slate-200">
+            <h2 className="text-lg font-semibold text-slate-900">
+              Pending Invitations
+            </h2>
+          </div>
+          <div className="divide-y divide-slate-200">
+            {invitations.map((invitation) => (
+              <div
+                key={invitation.id}
+                className="p-4 sm:px-6 flex items-center justify-between gap-3"
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-slate-900 truncate">
+                    {invitation.email}
+                  </p>
+                  <p className="text-xs text-slate-500">
+                    {ADMIN_ROLE_LABELS[invitation.role]} · invited{" "}
+                    {formatDate(invitation.created_at)}
+                  </p>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  icon={X}
+                  disabled={updatingId === invitation.id}
+                  onClick={() => handleRevoke(invitation)}
+                >
+                  Revoke
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -10,19 +10,36 @@ import {
   AlertTriangle,
   Info,
   Users,
+  UserPlus,
+  ShieldCheck,
 } from "lucide-react";
+import { useNavigate } from "react-router-dom";
 import Button from "../../components/ui/Button";
+import BrandInvitationsPanel from "../../components/admin/BrandInvitationsPanel";
+import BrandVerificationReview from "../../components/admin/BrandVerificationReview";
 import { useAdminBrands } from "../../hooks/useAdminBrands";
+import {
+  countCompletedSteps,
+  getCurrentStep,
+  isStepComplete,
+  ONBOARDING_STEPS,
+  type BrandOnboardingProgress,
+} from "../../lib/brandOnboarding";
+import { VERIFICATION_STATUS_LABELS } from "../../lib/brandVerification";
 import type { DatabaseBrand } from "../../types/database";
 
 interface BrandWithStats extends DatabaseBrand {
   product_count: number;
   last_activity: string | null;
+  onboarding: BrandOnboardingProgress | null;
 }
 
 interface BrandManagementState {
   searchTerm: string;
   statusFilter: string;
+  verificationFilter: string;
+  // "all", "complete" or the key of the step brands are stuck on
+  onboardingFilter: string;
   sortBy: string;
   sortOrder: "asc" | "desc";
   currentPage: number;
@@ -30,9 +47,12 @@ interface BrandManagementState {
 }
 
 export default function BrandManagement() {
+  const navigate = useNavigate();
   const [state, setState] = useState<BrandManagementState>({
     searchTerm: "",
     statusFilter: "all",
+    verificationFilter: "all",
+    onboardingFilter: "all",
     sortBy: "name",
     sortOrder: "asc",
     currentPage: 1,
@@ -61,7 +81,20 @@ export default function BrandManagement() {
             .includes(state.searchTerm.toLowerCase()));
       const matchesStatus =
         state.statusFilter === "all" || brand.status === state.statusFilter;
-      return matchesSearch && matchesStatus;
+      const matchesVerification =
+        state.verificationFilter === "all" ||
+        (brand.verification_status ?? "unverified") ===
+          state.verificationFilter;
+      const matchesOnboarding =
+        state.onboardingFilter === "all" ||
+        (getCurrentStep(brand.onboarding)?.key ?? "complete") ===
+          state.onboardingFilter;
+      return (
+        matchesSearch &&
+        matchesStatus &&
+        matchesVerification &&
+        matchesOnboarding
+      );
     })
     .sort((a, b) => {
       const aValue = a[state.sortBy as keyof BrandWithStats];
@@ -251,6 +284,12 @@ export default function BrandManagement() {
             <Button onClick={refreshData} icon={RefreshCw} variant="outline">
               Refresh
             </Button>
+            <Button
+              onClick={() => navigate("/admin/brands/onboard")}
+              icon={UserPlus}
+            >
+              Onboard Brand
+            </Button>
           </div>
         </div>
 
@@ -296,6 +335,45 @@ export default function BrandManagement() {
                 <option value="suspended">Suspended</option>
                 <option value="inactive">Inactive</option>
               </select>
+              <select
+                value={state.verificationFilter}
+                onChange={(e) =>
+                  setState((prev) => ({
+                    ...prev,
+                    verificationFilter: e.target.value,
+                    currentPage: 1,
+                  }))
+                }
+                className="px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="all">All Verification</option>
+                {Object.entries(VERIFICATION_STATUS_LABELS).map(
+                  ([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  )
+                )}
+              </select>
+              <select
+                value={state.onboardingFilter}
+                onChange={(e) =>
+                  setState((prev) => ({
+                    ...prev,
+                    onboardingFilter: e.target.value,
+                    currentPage: 1,
+                  }))
+                }
+                className="px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="all">All Onboarding</option>
+                <option value="complete">Onboarding complete</option>
+                {ONBOARDING_STEPS.map((step) => (
+                  <option key={step.key} value={step.key}>
+                    Stuck: {step.label}
+                  </option>
+                ))}
+              </select>
             </div>
           </div>
         </div>
@@ -362,6 +440,9 @@ export default function BrandManagement() {
                           )}
                         </div>
                       </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                        Onboarding
+                      </th>
                       <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
                         Status
                       </th>
@@ -436,11 +517,17 @@ export default function BrandManagement() {
           )}
         </div>
 
+        <BrandInvitationsPanel />
+
         {/* Brand Details Modal */}
         {selectedBrand && (
           <BrandDetailModal
             brand={selectedBrand}
             onClose={() => setSelectedBrand(null)}
+            onVerificationReviewed={() => {
+              setSelectedBrand(null);
+              refreshData();
+            }}
             getStatusColor={getStatusColor}
             formatTimeAgo={formatTimeAgo}
           />
@@ -462,6 +549,49 @@ export default function BrandManagement() {
   );
 }
 
+// Inactive brands can only be activated once their documents are verified
+const needsVerification = (brand: BrandWithStats) =>
+  brand.status !== "active" && brand.verification_status !== "verified";
+
+// Onboarding progress with the step the brand is stuck on
+function OnboardingSummary({
+  progress,
+}: {
+  progress: BrandOnboardingProgress | null;
+}) {
+  const currentStep = getCurrentStep(progress);
+  const completed = countCompletedSteps(progress);
+
+  if (!currentStep) {
+    return (
+      <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-green-100 text-green-800">
+        Complete
+      </span>
+    );
+  }
+
+  return (
+    <div className="min-w-40">
+      <div className="flex items-center gap-2">
+        <div className="flex-1 h-1.5 bg-slate-100 rounded-full overflow-hidden">
+          <div
+            className="h-full bg-blue-500 rounded-full"
+            style={{
+              width: `${(completed / ONBOARDING_STEPS.length) * 100}%`,
+            }}
+          />
+        </div>
+        <span className="text-xs text-slate-500">
+          {completed}/{ONBOARDING_STEPS.length}
+        </span>
+      </div>
+      <div className="text-xs text-amber-700 mt-1">
+        Stuck on: {currentStep.label}
+      </div>
+    </div>
+  );
+}
+
 // Brand Mobile Card Component
 function BrandMobileCard({
   brand,
@@ -496,6 +626,9 @@ function BrandMobileCard({
           <div className="mt-2 text-sm text-slate-500">
             <span className="font-medium">{brand.product_count}</span> products
           </div>
+          <div className="mt-2">
+            <OnboardingSummary progress={brand.onboarding} />
+          </div>
           <div className="mt-1 text-xs text-slate-500">
             Joined: {new Date(brand.created_at).toLocaleDateString()}
           </div>
@@ -521,20 +654,22 @@ function BrandMobileCard({
                 <Info className="h-3 w-3 mr-2" />
                 Info
               </button>
-              <button
-                onClick={() => {
-                  onToggleStatus();
-                  setShowActions(false);
-                }}
-                className="w-full text-left px-3 py-2 text-sm hover:bg-slate-50 flex items-center"
-              >
-                {brand.status === "active" ? (
-                  <Pause className="h-3 w-3 mr-2" />
-                ) : (
-                  <Play className="h-3 w-3 mr-2" />
-                )}
-                {brand.status === "active" ? "Pause" : "Activate"}
-              </button>
+              {!needsVerification(brand) && (
+                <button
+                  onClick={() => {
+                    onToggleStatus();
+                    setShowActions(false);
+                  }}
+                  className="w-full text-left px-3 py-2 text-sm hover:bg-slate-50 flex items-center"
+                >
+                  {brand.status === "active" ? (
+                    <Pause className="h-3 w-3 mr-2" />
+                  ) : (
+                    <Play className="h-3 w-3 mr-2" />
+                  )}
+                  {brand.status === "active" ? "Pause" : "Activate"}
+                </button>
+              )}
             </div>
           )}
         </div>
@@ -557,6 +692,8 @@ function BrandTableRow({
   getStatusIcon: (status: string) => JSX.Element | null;
   getStatusColor: (status: string) => string;
 }) {
+  const verificationStatus = brand.verification_status ?? "unverified";
+
   return (
     <tr className="hover:bg-slate-50">
       <td className="px-6 py-4 whitespace-nowrap">
@@ -576,6 +713,9 @@ function BrandTableRow({
         </div>
         <div className="text-sm text-slate-500">products</div>
       </td>
+      <td className="px-6 py-4 whitespace-nowrap">
+        <OnboardingSummary progress={brand.onboarding} />
+      </td>
       <td className="px-6 py-4 whitespace-nowrap">
         <div className="flex items-center">
           {getStatusIcon(brand.status)}
@@ -587,6 +727,9 @@ function BrandTableRow({
             {brand.status}
           </span>
         </div>
+        <div className="text-xs text-slate-500 mt-1">
+          {VERIFICATION_STATUS_LABELS[verificationStatus]}
+        </div>
       </td>
       <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
         <div className="flex items-center space-x-2">
@@ -599,19 +742,31 @@ function BrandTableRow({
           >
             Info
           </Button>
-          <Button
-            size="sm"
-            variant="outline"
-            onClick={onToggleStatus}
-            icon={brand.status === "active" ? Pause : Play}
-            className={
-              brand.status === "active"
-                ? "text-amber-600 hover:text-amber-700"
-                : "text-green-600 hover:text-green-700"
-            }
-          >
-            {brand.status === "active" ? "Pause" : "Activate"}
-          </Button>
+          {needsVerification(brand) ? (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={onInfo}
+              icon={ShieldCheck}
+              className="text-slate-600 hover:text-slate-700"
+            >
+              Verify
+            </Button>
+          ) : (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={onToggleStatus}
+              icon={brand.status === "active" ? Pause : Play}
+              className={
+                brand.status === "active"
+                  ? "text-amber-600 hover:text-amber-700"
+                  : "text-green-600 hover:text-green-700"
+              }
+            >
+              {brand.status === "active" ? "Pause" : "Activate"}
+            </Button>
+          )}
         </div>
       </td>
     </tr>
@@ -622,11 +777,13 @@ function BrandTableRow({
 function BrandDetailModal({
   brand,
   onClose,
+  onVerificationReviewed,
   getStatusColor,
   formatTimeAgo,
 }: {
   brand: BrandWithStats;
   onClose: () => void;
+  onVerificationReviewed: () => void;
   getStatusColor: (status: string) => string;
   formatTimeAgo: (dateString: string | null) => string;
 }) {
@@ -716,6 +873,37 @@ function BrandDetailModal({
               </div>
             </div>
 
+            <div className="mt-4">
+              <label className="block text-sm font-medium text-slate-700 mb-2">
+                Onboarding
+              </label>
+              <ul className="space-y-1">
+                {ONBOARDING_STEPS.map((step) => {
+                  const completedAt = brand.onboarding?.[step.field];
+                  return (
+                    <li
+                      key={step.key}
+                      className="flex items-center justify-between text-sm"
+                    >
+                      <span className="flex items-center gap-2 text-slate-900">
+                        {isStepComplete(brand.onboarding, step) ? (
+                          <CheckCircle className="h-4 w-4 text-green-500" />
+                        ) : (
+                          <XCircle className="h-4 w-4 text-slate-300" />
+                        )}
+                        {step.label}
+                      </span>
+                      <span className="text-xs text-slate-500">
+                        {completedAt
+                          ? new Date(completedAt).toLocaleDateString()
+                          : "Not done"}
+                      </span>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+
             {brand.description && (
               <div className="mt-4">
                 <label className="block text-sm font-medium text-slate-700">
@@ -726,6 +914,11 @@ function BrandDetailModal({
                 </p>
               </div>
             )}
+
+            <BrandVerificationReview
+              brand={brand}
+              onReviewed={onVerificationReviewed}
+            />
           </div>
 
           <div className="bg-slate-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse">
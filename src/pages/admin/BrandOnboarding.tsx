@@ -14,6 +14,7 @@ import {
 } from "lucide-react";
 import Button from "../../components/ui/Button";
 import { supabase } from "../../lib/supabase";
+import { createOnboardingInvitation } from "../../lib/brandInvitations";
 
 interface BrandFormData {
   brandName: string;
@@ -136,37 +137,26 @@ export default function BrandOnboarding() {
           .eq("id", brandData.id);
       }
 
-      // Step 3: Create an invite record (using support_requests table as a temporary solution)
-      const inviteToken = `inv_${Date.now()}_${Math.random()
-        .toString(36)
-        .substr(2, 9)}`;
-
+      // Step 3: Issue a single-use invitation; the token is generated and
+      // stored (hashed) server-side
+      let signupUrl: string;
       try {
-        // Create a support request record as an invite placeholder
-        await supabase.from("support_requests").insert({
-          subject: `Brand Invite: ${formData.brandName}`,
-          description: `Invitation created for brand: ${formData.brandName}
-Email: ${formData.email}
-Contact Person: ${formData.contactPerson}
-Website: ${formData.website}
-Phone: ${formData.phone}
-Invite Token: ${inviteToken}
-Status: Pending Registration`,
-          status: "new",
-          priority: "medium",
-        });
+        signupUrl = await createOnboardingInvitation(
+          brandData.id,
+          formData.email,
+          formData.contactPerson
+        );
       } catch (inviteError) {
-        console.warn("Could not create invite record:", inviteError);
-        // Continue even if invite record creation fails
+        console.error("Invitation creation error:", inviteError);
+        showNotification(
+          "error",
+          `Brand created, but the invitation could not be issued: ${
+            (inviteError as { message?: string }).message
+          }`
+        );
+        return;
       }
 
-      // Step 4: Create a signup URL for the brand
-      const signupUrl = `${
-        window.location.origin
-      }/auth/signup?email=${encodeURIComponent(
-        formData.email
-      )}&brand=${encodeURIComponent(formData.brandName)}&token=${inviteToken}`;
-
       // Store the signup URL for display
       setGeneratedSignupUrl(signupUrl);
 
@@ -498,11 +488,16 @@ Status: Pending Registration`,
                 <li>
                   The brand will be created with "pending" status in the system
                 </li>
-                <li>A custom signup link will be generated for the brand</li>
+                <li>
+                  A single-use signup link tied to the email address above is
+                  generated and expires after 7 days
+                </li>
                 <li>
                   Share the signup link with the brand via email or other means
                 </li>
-                <li>The brand can register using the provided signup link</li>
+                <li>
+                  Track, resend or revoke the invitation from Brand Management
+                </li>
                 <li>Once verified, they can access their brand dashboard</li>
               </ul>
             </div>
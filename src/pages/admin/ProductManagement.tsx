@@ -8,18 +8,21 @@ import {
   MoreVertical,
   Pause,
   AlertTriangle,
+  Clock,
 } from "lucide-react";
 import Button from "../../components/ui/Button";
-import { useAdminProducts } from "../../hooks/useAdminProducts";
-import type { DatabaseProduct, DatabaseBrand } from "../../types/database";
-
-interface AdminProduct extends DatabaseProduct {
-  brand: Pick<DatabaseBrand, "id" | "name">;
-}
+import CatalogExportMenu from "../../components/product/CatalogExportMenu";
+import { ProductRepository } from "../../lib/database";
+import ModerationQueue from "../../components/admin/ModerationQueue";
+import {
+  useAdminProducts,
+  type AdminProduct,
+} from "../../hooks/useAdminProducts";
 
 export default function ProductManagement() {
   const [searchTerm, setSearchTerm] = useState("");
   const [statusFilter, setStatusFilter] = useState("all");
+  const [view, setView] = useState<"all" | "queue">("all");
   const [selectedProduct, setSelectedProduct] = useState<AdminProduct | null>(
     null
   );
@@ -32,7 +35,16 @@ export default function ProductManagement() {
     product: AdminProduct | null;
   }>({ show: false, type: "pause", product: null });
 
-  const { products, loading, error, refreshData } = useAdminProducts();
+  const { products, loading, error, refreshData, moderateProducts } =
+    useAdminProducts();
+
+  // Oldest submissions first so nothing waits indefinitely
+  const pendingProducts = products
+    .filter((product) => product.status === "pending")
+    .sort(
+      (a, b) =>
+        new Date(a.updated_at).getTime() - new Date(b.updated_at).getTime()
+    );
 
   const handlePauseProduct = (product: AdminProduct) => {
     setShowConfirmDialog({
@@ -82,6 +94,8 @@ export default function ProductManagement() {
         return <CheckCircle className="h-4 w-4 text-green-500" />;
       case "inactive":
         return <XCircle className="h-4 w-4 text-red-500" />;
+      case "pending":
+        return <Clock className="h-4 w-4 text-amber-500" />;
       default:
         return null;
     }
@@ -93,6 +107,8 @@ export default function ProductManagement() {
         return "bg-green-100 text-green-800";
       case "inactive":
         return "bg-red-100 text-red-800";
+      case "pending":
+        return "bg-amber-100 text-amber-800";
       default:
         return "bg-slate-100 text-slate-800";
     }
@@ -160,13 +176,26 @@ export default function ProductManagement() {
               Review and approve product submissions
             </p>
           </div>
-          <Button onClick={refreshData} variant="outline" className="text-sm">
-            Refresh
-          </Button>
+          <div className="flex items-center gap-3">
+            <CatalogExportMenu
+              fileName="stylsia-products"
+              disabled={filteredProducts.length === 0}
+              className="text-sm"
+              loadProducts={() =>
+                ProductRepository.getForExport(
+                  {},
+                  filteredProducts.map((product) => product.id)
+                )
+              }
+            />
+            <Button onClick={refreshData} variant="outline" className="text-sm">
+              Refresh
+            </Button>
+          </div>
         </div>
 
         {/* Stats Cards */}
-        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
           <div className="bg-white rounded-lg border border-slate-200 p-4">
             <div className="flex items-center">
               <div className="w-10 h-10 bg-blue-100 rounded-lg flex items-center justify-center">
@@ -208,182 +237,234 @@ export default function ProductManagement() {
               </div>
             </div>
           </div>
-        </div>
 
-        {/* Filters */}
-        <div className="bg-white rounded-lg border border-slate-200 p-4">
-          <div className="flex flex-col lg:flex-row gap-4">
-            <div className="flex-1">
-              <div className="relative">
-                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-slate-400" />
-                <input
-                  type="text"
-                  placeholder="Search products or brands..."
-                  value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
-                  className="w-full pl-10 pr-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                />
+          <div className="bg-white rounded-lg border border-slate-200 p-4">
+            <div className="flex items-center">
+              <div className="w-10 h-10 bg-amber-100 rounded-lg flex items-center justify-center">
+                <Clock className="h-5 w-5 text-amber-600" />
+              </div>
+              <div className="ml-4">
+                <p className="text-sm text-slate-600">Pending Review</p>
+                <p className="text-2xl font-bold text-slate-900">
+                  {pendingProducts.length}
+                </p>
               </div>
-            </div>
-
-            <div className="flex gap-3">
-              <select
-                value={statusFilter}
-                onChange={(e) => setStatusFilter(e.target.value)}
-                className="px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              >
-                <option value="all">All Status</option>
-                <option value="active">Active</option>
-                <option value="inactive">Inactive</option>
-              </select>
             </div>
           </div>
         </div>
 
-        {/* Products List */}
-        <div className="bg-white rounded-lg border border-slate-200 overflow-hidden shadow-sm">
-          <div className="overflow-x-auto">
-            <table className="min-w-full divide-y divide-slate-200">
-              <thead className="bg-slate-50">
-                <tr>
-                  <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider lg:px-6">
-                    Product
-                  </th>
-                  <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider lg:px-6">
-                    Brand
-                  </th>
-                  <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider lg:px-6">
-                    Category
-                  </th>
-                  <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider lg:px-6">
-                    Price
-                  </th>
-                  <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider lg:px-6">
-                    Status
-                  </th>
-                  <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider lg:px-6">
-                    Date
-                  </th>
-                  <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider lg:px-6">
-                    Actions
-                  </th>
-                </tr>
-              </thead>
-              <tbody className="bg-white divide-y divide-slate-200">
-                {filteredProducts.map((product) => (
-                  <tr
-                    key={product.id}
-                    className="hover:bg-slate-50 transition-colors duration-150"
+        {/* View tabs */}
+        <div className="flex border-b border-slate-200">
+          {(
+            [
+              { key: "all", label: "All Products" },
+              {
+                key: "queue",
+                label: `Moderation Queue (${pendingProducts.length})`,
+              },
+            ] as const
+          ).map((tab) => (
+            <button
+              key={tab.key}
+              onClick={() => setView(tab.key)}
+              className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px transition-colors ${
+                view === tab.key
+                  ? "border-blue-600 text-blue-600"
+                  : "border-transparent text-slate-500 hover:text-slate-700"
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+
+        {view === "queue" && (
+          <ModerationQueue
+            products={pendingProducts}
+            onModerate={moderateProducts}
+          />
+        )}
+
+        {view === "all" && (
+          <>
+            {/* Filters */}
+            <div className="bg-white rounded-lg border border-slate-200 p-4">
+              <div className="flex flex-col lg:flex-row gap-4">
+                <div className="flex-1">
+                  <div className="relative">
+                    <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-slate-400" />
+                    <input
+                      type="text"
+                      placeholder="Search products or brands..."
+                      value={searchTerm}
+                      onChange={(e) => setSearchTerm(e.target.value)}
+                      className="w-full pl-10 pr-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                </div>
+
+                <div className="flex gap-3">
+                  <select
+                    value={statusFilter}
+                    onChange={(e) => setStatusFilter(e.target.value)}
+                    className="px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                   >
-                    <td className="px-4 py-4 whitespace-nowrap lg:px-6">
-                      <div className="flex items-center">
-                        <img
-                          className="h-10 w-10 lg:h-12 lg:w-12 rounded-lg object-cover"
-                          src={
-                            product.main_image_url ||
-                            "https://via.placeholder.com/150"
-                          }
-                          alt={product.name}
-                        />
-                        <div className="ml-3 lg:ml-4 min-w-0 flex-1">
-                          <div className="text-sm font-medium text-slate-900 truncate max-w-32 sm:max-w-40 lg:max-w-56">
-                            {product.name}
+                    <option value="all">All Status</option>
+                    <option value="active">Active</option>
+                    <option value="inactive">Inactive</option>
+                    <option value="pending">Pending Review</option>
+                    <option value="draft">Draft</option>
+                  </select>
+                </div>
+              </div>
+            </div>
+
+            {/* Products List */}
+            <div className="bg-white rounded-lg border border-slate-200 overflow-hidden shadow-sm">
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-slate-200">
+                  <thead className="bg-slate-50">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider lg:px-6">
+                        Product
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider lg:px-6">
+                        Brand
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider lg:px-6">
+                        Category
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider lg:px-6">
+                        Price
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider lg:px-6">
+                        Status
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider lg:px-6">
+                        Date
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider lg:px-6">
+                        Actions
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-slate-200">
+                    {filteredProducts.map((product) => (
+                      <tr
+                        key={product.id}
+                        className="hover:bg-slate-50 transition-colors duration-150"
+                      >
+                        <td className="px-4 py-4 whitespace-nowrap lg:px-6">
+                          <div className="flex items-center">
+                            <img
+                              className="h-10 w-10 lg:h-12 lg:w-12 rounded-lg object-cover"
+                              src={
+                                product.main_image_url ||
+                                "https://via.placeholder.com/150"
+                              }
+                              alt={product.name}
+                            />
+                            <div className="ml-3 lg:ml-4 min-w-0 flex-1">
+                              <div className="text-sm font-medium text-slate-900 truncate max-w-32 sm:max-w-40 lg:max-w-56">
+                                {product.name}
+                              </div>
+                            </div>
+                          </div>
+                        </td>
+                        <td className="px-4 py-4 lg:px-6">
+                          <div className="text-sm text-slate-900">
+                            {product.brand &&
+                            typeof product.brand === "object" &&
+                            "name" in product.brand
+                              ? product.brand.name
+                              : "Unknown Brand"}
+                          </div>
+                        </td>
+                        <td className="px-4 py-4 lg:px-6">
+                          <div className="text-sm text-slate-900">
+                            {product.category || "Uncategorized"}
+                          </div>
+                          <div className="text-sm text-slate-500">
+                            {product.sub_category || "-"}
                           </div>
-                        </div>
-                      </div>
-                    </td>
-                    <td className="px-4 py-4 lg:px-6">
-                      <div className="text-sm text-slate-900">
-                        {product.brand &&
-                        typeof product.brand === "object" &&
-                        "name" in product.brand
-                          ? product.brand.name
-                          : "Unknown Brand"}
-                      </div>
-                    </td>
-                    <td className="px-4 py-4 lg:px-6">
-                      <div className="text-sm text-slate-900">
-                        {product.category || "Uncategorized"}
-                      </div>
-                      <div className="text-sm text-slate-500">
-                        {product.sub_category || "-"}
-                      </div>
-                    </td>
-                    <td className="px-4 py-4 whitespace-nowrap text-sm font-medium text-slate-900 lg:px-6">
-                      ₹{product.current_price.toLocaleString("en-IN")}
-                    </td>
-                    <td className="px-4 py-4 whitespace-nowrap lg:px-6">
-                      <div className="flex items-center">
-                        {getStatusIcon(product.status)}
-                        <span
-                          className={`ml-2 inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getStatusColor(
-                            product.status
-                          )}`}
-                        >
-                          {product.status.charAt(0).toUpperCase() +
-                            product.status.slice(1)}
-                        </span>
-                      </div>
-                    </td>
-                    <td className="px-4 py-4 whitespace-nowrap text-sm text-slate-500 lg:px-6">
-                      {new Date(product.created_at).toLocaleDateString()}
-                    </td>
-                    <td className="px-4 py-4 whitespace-nowrap text-sm font-medium lg:px-6">
-                      <div className="flex items-center space-x-3">
-                        <button
-                          className="text-blue-600 hover:text-blue-700 transition-colors duration-200"
-                          onClick={() => setSelectedProduct(product)}
-                          title="View product details"
-                        >
-                          <Eye className="h-4 w-4" />
-                        </button>
-                        <div className="relative">
-                          <button
-                            className="text-slate-400 hover:text-slate-600 transition-colors duration-200"
-                            onClick={() =>
-                              setShowProductActions(
-                                showProductActions === product.id
-                                  ? null
-                                  : product.id
-                              )
-                            }
-                            title="Product actions"
-                          >
-                            <MoreVertical className="h-4 w-4" />
-                          </button>
-
-                          {showProductActions === product.id && (
-                            <div className="absolute right-0 top-8 bg-white border border-slate-200 rounded-lg shadow-lg z-10 min-w-32">
+                        </td>
+                        <td className="px-4 py-4 whitespace-nowrap text-sm font-medium text-slate-900 lg:px-6">
+                          ₹{product.current_price.toLocaleString("en-IN")}
+                        </td>
+                        <td className="px-4 py-4 whitespace-nowrap lg:px-6">
+                          <div className="flex items-center">
+                            {getStatusIcon(product.status)}
+                            <span
+                              className={`ml-2 inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getStatusColor(
+                                product.status
+                              )}`}
+                            >
+                              {product.status.charAt(0).toUpperCase() +
+                                product.status.slice(1)}
+                            </span>
+                          </div>
+                        </td>
+                        <td className="px-4 py-4 whitespace-nowrap text-sm text-slate-500 lg:px-6">
+                          {new Date(product.created_at).toLocaleDateString()}
+                        </td>
+                        <td className="px-4 py-4 whitespace-nowrap text-sm font-medium lg:px-6">
+                          <div className="flex items-center space-x-3">
+                            <button
+                              className="text-blue-600 hover:text-blue-700 transition-colors duration-200"
+                              onClick={() => setSelectedProduct(product)}
+                              title="View product details"
+                            >
+                              <Eye className="h-4 w-4" />
+                            </button>
+                            <div className="relative">
                               <button
-                                onClick={() => {
-                                  handlePauseProduct(product);
-                                  setShowProductActions(null);
-                                }}
-                                className="w-full text-left px-3 py-2 text-sm hover:bg-slate-50 flex items-center text-amber-600"
+                                className="text-slate-400 hover:text-slate-600 transition-colors duration-200"
+                                onClick={() =>
+                                  setShowProductActions(
+                                    showProductActions === product.id
+                                      ? null
+                                      : product.id
+                                  )
+                                }
+                                title="Product actions"
                               >
-                                <Pause className="h-3 w-3 mr-2" />
-                                {product.status === "active"
-                                  ? "Pause"
-                                  : "Activate"}
+                                <MoreVertical className="h-4 w-4" />
                               </button>
+
+                              {showProductActions === product.id && (
+                                <div className="absolute right-0 top-8 bg-white border border-slate-200 rounded-lg shadow-lg z-10 min-w-32">
+                                  <button
+                                    onClick={() => {
+                                      handlePauseProduct(product);
+                                      setShowProductActions(null);
+                                    }}
+                                    className="w-full text-left px-3 py-2 text-sm hover:bg-slate-50 flex items-center text-amber-600"
+                                  >
+                                    <Pause className="h-3 w-3 mr-2" />
+                                    {product.status === "active"
+                                      ? "Pause"
+                                      : "Activate"}
+                                  </button>
+                                </div>
+                              )}
                             </div>
-                          )}
-                        </div>
-                      </div>
-                    </td>
-                  </tr>
-                ))}
-              </tbody>
-            </table>
-          </div>
-        </div>
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
 
-        {filteredProducts.length === 0 && (
-          <div className="bg-white rounded-lg border border-slate-200 p-12 text-center">
-            <p className="text-slate-500">
-              No products found matching your criteria.
-            </p>
-          </div>
+            {filteredProducts.length === 0 && (
+              <div className="bg-white rounded-lg border border-slate-200 p-12 text-center">
+                <p className="text-slate-500">
+                  No products found matching your criteria.
+                </p>
+              </div>
+            )}
+          </>
         )}
 
         {/* Product Detail Modal */}
@@ -2,7 +2,9 @@ import React, { useState, useEffect } from "react";
 import { SearchBar } from "../../components/customer/SearchBar";
 import { PreviewCard } from "../../components/product/PreviewCard";
 import { ProductDetailModal } from "../../components/customer/ProductDetailModal";
-import { fetchCustomerProducts } from "../../lib/fetchCustomerProducts";
+import { fetchCustomerProducts, fetchProductById } from "../../lib/fetchCustomerProducts";
+import { logSearch } from "../../lib/productSearch";
+import { ProductRepository } from "../../lib/database";
 
 interface Product {
   id: string;
@@ -22,18 +24,33 @@ const Home: React.FC = () => {
   const [search, setSearch] = useState("");
   const [selected, setSelected] = useState<Product | null>(null);
   const [loading, setLoading] = useState(false);
+  const [suggestion, setSuggestion] = useState<string | null>(null);
 
   useEffect(() => {
     setLoading(true);
+    setSuggestion(null);
     fetchCustomerProducts(search)
-      .then(setProducts)
+      .then(results => {
+        setProducts(results);
+        if (search) logSearch(search);
+        // Offer a corrected query when a search finds nothing
+        if (search && results.length === 0) {
+          ProductRepository.getSearchSuggestion(search)
+            .then(setSuggestion)
+            .catch(() => setSuggestion(null));
+        }
+      })
       .finally(() => setLoading(false));
   }, [search]);
 
   return (
     <main className="min-h-screen bg-gray-50 pb-8">
       <div className="max-w-2xl mx-auto px-2 sm:px-4">
-        <SearchBar onSearch={setSearch} />
+        <SearchBar
+          onSearch={setSearch}
+          suggestion={suggestion}
+          onProductSelect={id => fetchProductById(id).then(product => product && setSelected(product))}
+        />
         {loading ? (
           <div className="text-center py-8 text-gray-400">Loading products...</div>
         ) : products.length === 0 ? (
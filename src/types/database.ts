@@ -18,6 +18,11 @@ export interface DatabaseBrand {
   business_type?: string;
   founded_year?: number;
   status: "active" | "inactive" | "pending" | "suspended";
+  verification_status?:
+    "unverified" | "submitted" | "changes_requested" | "verified";
+  verification_notes?: string | null;
+  verification_submitted_at?: string | null;
+  verified_at?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -35,7 +40,7 @@ export interface DatabaseProduct {
   main_image_url?: string;
   description?: string;
   sku?: string;
-  status: "active" | "inactive" | "pending" | "out_of_stock";
+  status: "draft" | "active" | "inactive" | "pending" | "out_of_stock";
   is_featured: boolean;
   created_at: string;
   updated_at: string;
@@ -97,6 +102,7 @@ export interface DatabaseProductMetricsDaily {
   clicks: number;
   conversions: number;
   saves: number;
+  revenue: number;
   avg_price?: number;
   discount_rate?: number;
   bounce_rate?: number;
@@ -131,6 +137,47 @@ export interface DatabaseSupportRequest {
   created_at: string;
   updated_at: string;
   resolved_at?: string;
+  // SLA tracking
+  first_response_at?: string;
+  escalated_at?: string;
+  // Admin who owns the request
+  assigned_to?: string | null;
+  assigned_at?: string | null;
+}
+
+export interface DatabaseSupportMessage {
+  id: string;
+  request_id: string;
+  author_id?: string;
+  author_role: "brand" | "admin";
+  body: string;
+  attachment_urls: string[];
+  // Admin-only notes, never returned to brands
+  is_internal: boolean;
+  created_at: string;
+}
+
+export interface DatabaseSupportCannedResponse {
+  id: string;
+  title: string;
+  category: string;
+  // May contain {{placeholders}}, see lib/cannedResponses
+  body: string;
+  usage_count: number;
+  last_used_at?: string | null;
+  created_by?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DatabaseProductModerationDecision {
+  id: string;
+  product_id: string;
+  brand_id: string;
+  decision: "approved" | "rejected";
+  reason: string;
+  moderator_id?: string;
+  created_at: string;
 }
 
 // Joined/computed interfaces for complex queries
@@ -144,6 +191,11 @@ export interface ProductWithDetails extends DatabaseProduct {
     total_clicks: number;
     conversion_rate: number;
   };
+  // Set on search results: matched words are wrapped in \u0002 and \u0003
+  search_highlights?: {
+    name: string;
+    description: string | null;
+  };
 }
 
 export interface BrandWithMetrics extends DatabaseBrand {
@@ -160,7 +212,61 @@ export interface SupportRequestWithBrand extends DatabaseSupportRequest {
   brand: Pick<DatabaseBrand, "id" | "name" | "contact_email">;
 }
 
+// Product editor and catalog import interfaces
+export interface ProductInput {
+  product: Pick<
+    DatabaseProduct,
+    "name" | "source_url" | "original_price" | "current_price"
+  > &
+    Partial<
+      Pick<
+        DatabaseProduct,
+        "category" | "sub_category" | "main_image_url" | "description" | "sku"
+      >
+    >;
+  attributes?: Partial<
+    Omit<DatabaseProductAttribute, "id" | "product_id" | "created_at">
+  >;
+  images: Array<
+    Pick<DatabaseProductImage, "image_url" | "is_main" | "display_order"> &
+      Partial<Pick<DatabaseProductImage, "alt_text">>
+  >;
+  sizes: Array<
+    Pick<DatabaseProductSize, "size" | "is_available" | "stock_count">
+  >;
+}
+
+export interface ProductImportRecord extends ProductInput {
+  row_number: number;
+}
+
+export interface ProductImportResult {
+  created: number;
+  updated: number;
+}
+
 // Query filter interfaces
+// Attribute facets the public catalog can filter on; sizes come from
+// product_sizes, the rest from product_attributes
+export type ProductFacet =
+  | "fabric"
+  | "fit"
+  | "collar"
+  | "sleeve"
+  | "closure"
+  | "pattern"
+  | "color"
+  | "style"
+  | "occasion"
+  | "size";
+
+export interface ProductFacetCount {
+  facet: ProductFacet;
+  // Lower-cased and trimmed
+  value: string;
+  product_count: number;
+}
+
 export interface ProductFilters {
   brand_id?: string;
   status?: DatabaseProduct["status"];
@@ -171,6 +277,8 @@ export interface ProductFilters {
   price_max?: number;
   search?: string;
   has_discount?: boolean; // New filter for discount availability
+  // Any of the listed values per facet; facets combine with AND
+  facets?: Partial<Record<ProductFacet, string[]>>;
   limit?: number;
   offset?: number;
   sort_by?:
@@ -208,6 +316,7 @@ export interface AnalyticsResponse {
     total_views: number;
     total_clicks: number;
     total_conversions: number;
+    total_saves: number;
     total_revenue: number;
     conversion_rate: number;
   };
@@ -224,6 +333,33 @@ export interface AnalyticsResponse {
     views: number;
     clicks: number;
     conversions: number;
+    saves: number;
+    revenue: number;
+  }>;
+}
+
+export interface ProductAnalyticsResponse {
+  product: Pick<
+    DatabaseProduct,
+    "id" | "name" | "brand_id" | "current_price" | "original_price" | "status" | "main_image_url"
+  >;
+  // Daily rows; price and size columns are snapshots taken by the rollup
+  trends: Array<{
+    date: string;
+    views: number;
+    unique_views: number;
+    clicks: number;
+    conversions: number;
     revenue: number;
+    avg_price: number | null;
+    discount_rate: number | null;
+    sizes_available: number | null;
+    sizes_total: number | null;
+  }>;
+  referrers: Array<{
+    source: string;
+    views: number;
+    sessions: number;
   }>;
+  sizes: DatabaseProductSize[];
 }
@@ -1,14 +1,22 @@
-// This file is intentionally left empty as part of the notification system removal.
-// The file is kept to prevent import errors, but all functionality has been removed.
+// In-app notifications for brand partners. Rows are created by database
+// triggers (see the notifications migration) and streamed over realtime.
+
+export type NotificationType =
+  | 'product_approval'
+  | 'product_rejection'
+  | 'support_update'
+  | 'account_update';
 
 export interface Notification {
   id: string;
-  type: string;
+  brand_id: string;
+  type: NotificationType;
   title: string;
   message: string;
   read: boolean;
   created_at: string;
   action_url?: string;
+  metadata?: Record<string, unknown>;
 }
 
 export interface NotificationPreferences {
@@ -20,6 +28,16 @@ export interface NotificationPreferences {
   email_notifications: boolean;
 }
 
+// Matches the column defaults on notification_preferences
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  product_approval: true,
+  weekly_report: true,
+  system_updates: true,
+  marketing_emails: false,
+  push_notifications: false,
+  email_notifications: true,
+};
+
 export interface NotificationContextType {
   notifications: Notification[];
   unreadCount: number;
@@ -30,4 +48,4 @@ export interface NotificationContextType {
   deleteNotification: (id: string) => Promise<void>;
   updatePreferences: (preferences: Partial<NotificationPreferences>) => Promise<void>;
   fetchNotifications: () => Promise<void>;
-}
\ No newline at end of file
+}
@@ -0,0 +1,162 @@
+// Outgoing mail for Edge Functions
+//
+// Functions build a MailMessage and hand it to whichever transport the
+// environment selects, so the same code sends through a provider in
+// production and into a local SMTP sink during development.
+//
+//   MAIL_TRANSPORT=smtp    SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASSWORD,
+//                          SMTP_TLS ("true" for implicit TLS)
+//   MAIL_TRANSPORT=resend  RESEND_API_KEY
+//   MAIL_TRANSPORT=log     Logs a summary instead of sending (the default)
+//
+//   MAIL_FROM              Sender, e.g. "Stylsia <reports@stylsia.com>"
+//
+// For a local sink such as Mailpit (SMTP on 1025, inbox on
+// http://localhost:8025), serve functions with an env file containing
+//   MAIL_TRANSPORT=smtp
+//   SMTP_HOST=host.docker.internal
+//   SMTP_PORT=1025
+import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts";
+
+export interface MailAttachment {
+  filename: string;
+  content: Uint8Array;
+  contentType: string;
+}
+
+export interface MailMessage {
+  to: string[];
+  subject: string;
+  html: string;
+  text: string;
+  attachments?: MailAttachment[];
+}
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+const DEFAULT_FROM = "Stylsia <no-reply@stylsia.com>";
+
+function requireEnv(name: string): string {
+  const value = Deno.env.get(name);
+  if (!value) {
+    throw new Error(`${name} must be set for the selected mail transport`);
+  }
+  return value;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function createSmtpTransport(from: string): MailTransport {
+  const tls = Deno.env.get("SMTP_TLS") === "true";
+  const username = Deno.env.get("SMTP_USER");
+
+  return {
+    name: "smtp",
+    async send(message) {
+      const client = new SMTPClient({
+        connection: {
+          hostname: requireEnv("SMTP_HOST"),
+          port: Number(Deno.env.get("SMTP_PORT") ?? (tls ? 465 : 587)),
+          tls,
+          ...(username && {
+            auth: { username, password: requireEnv("SMTP_PASSWORD") },
+          }),
+        },
+        // Local sinks accept plain connections without STARTTLS
+        debug: { allowUnsecure: !tls, noStartTLS: !tls && !username },
+      });
+
+      try {
+        await client.send({
+          from,
+          to: message.to,
+          subject: message.subject,
+          content: message.text,
+          html: message.html,
+          attachments: (message.attachments ?? []).map((attachment) => ({
+            filename: attachment.filename,
+            contentType: attachment.contentType,
+            encoding: "binary" as const,
+            content: attachment.content,
+          })),
+        });
+      } finally {
+        await client.close();
+      }
+    },
+  };
+}
+
+function createResendTransport(from: string): MailTransport {
+  const apiKey = requireEnv("RESEND_API_KEY");
+
+  return {
+    name: "resend",
+    async send(message) {
+      const response = await fetch("https://api.resend.com/emails", {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          from,
+          to: message.to,
+          subject: message.subject,
+          html: message.html,
+          text: message.text,
+          attachments: (message.attachments ?? []).map((attachment) => ({
+            filename: attachment.filename,
+            content: toBase64(attachment.content),
+          })),
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(
+          `Resend rejected the message (${response.status}): ${await response.text()}`
+        );
+      }
+    },
+  };
+}
+
+function createLogTransport(): MailTransport {
+  return {
+    name: "log",
+    send(message) {
+      console.log(
+        `[mail] To ${message.to.join(", ")}: ${message.subject} (${
+          message.attachments?.length ?? 0
+        } attachment(s))`
+      );
+      return Promise.resolve();
+    },
+  };
+}
+
+/** The transport chosen by MAIL_TRANSPORT. */
+export function createMailTransport(): MailTransport {
+  const from = Deno.env.get("MAIL_FROM") ?? DEFAULT_FROM;
+  const transport = Deno.env.get("MAIL_TRANSPORT") ?? "log";
+
+  switch (transport) {
+    case "smtp":
+      return createSmtpTransport(from);
+    case "resend":
+      return createResendTransport(from);
+    case "log":
+      return createLogTransport();
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${transport}"`);
+  }
+}
@@ -0,0 +1,149 @@
+// Conversion postback endpoint
+//
+// Brands report orders for shoppers we sent them. Outbound links carry a
+// stylsia_click_id parameter; the brand posts it back with the order and
+// authenticates with the postback key from their dashboard settings.
+// De-duplication and the metrics roll-up happen in
+// record_conversion_postback (see the conversion postbacks migration).
+//
+// Brands have no Supabase session, so deploy without JWT verification:
+//   supabase functions deploy conversion-postback --no-verify-jwt
+//
+// Request:
+//   POST /functions/v1/conversion-postback
+//   X-Stylsia-Postback-Key: spk_...
+//   { "click_id": "...", "order_id": "1001", "amount": 2499.0,
+//     "currency": "INR", "occurred_at": "2025-08-03T10:15:00Z" }
+//
+// Try it locally with scripts/test-conversion-postback.js.
+import { createClient } from "jsr:@supabase/supabase-js@2";
+
+interface ConversionEvent {
+  click_id: string;
+  order_id: string;
+  amount: number;
+  currency?: string;
+  occurred_at?: string;
+}
+
+type PostbackStatus =
+  | "recorded"
+  | "duplicate"
+  | "invalid_key"
+  | "unknown_click"
+  | "outside_window"
+  | "unsupported_currency";
+
+const STATUS_CODES: Record<PostbackStatus, number> = {
+  recorded: 201,
+  // Retries of an order that was already recorded are not an error
+  duplicate: 200,
+  invalid_key: 401,
+  unknown_click: 422,
+  outside_window: 422,
+  unsupported_currency: 422,
+};
+
+const KEY_HEADER = "x-stylsia-postback-key";
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const supabase = createClient(
+  Deno.env.get("SUPABASE_URL")!,
+  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+);
+
+function json(body: Record<string, unknown>, status: number): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+/** Returns the event, or a message describing what is wrong with it. */
+function parseEvent(body: unknown): ConversionEvent | string {
+  if (!body || typeof body !== "object") {
+    return "Body must be a JSON object";
+  }
+
+  const event = body as Record<string, unknown>;
+  if (
+    typeof event.click_id !== "string" ||
+    !UUID_PATTERN.test(event.click_id)
+  ) {
+    return "click_id must be the stylsia_click_id from the store URL";
+  }
+  if (
+    (typeof event.order_id !== "string" &&
+      typeof event.order_id !== "number") ||
+    String(event.order_id).trim() === "" ||
+    String(event.order_id).length > 200
+  ) {
+    return "order_id is required and must be at most 200 characters";
+  }
+  if (
+    typeof event.amount !== "number" ||
+    !Number.isFinite(event.amount) ||
+    event.amount < 0
+  ) {
+    return "amount must be a non-negative number";
+  }
+  if (event.currency !== undefined && typeof event.currency !== "string") {
+    return "currency must be an ISO 4217 code";
+  }
+  if (
+    event.occurred_at !== undefined &&
+    (typeof event.occurred_at !== "string" ||
+      Number.isNaN(Date.parse(event.occurred_at)))
+  ) {
+    return "occurred_at must be an ISO 8601 timestamp";
+  }
+
+  return {
+    click_id: event.click_id,
+    order_id: String(event.order_id).trim(),
+    amount: event.amount,
+    currency: event.currency as string | undefined,
+    occurred_at: event.occurred_at as string | undefined,
+  };
+}
+
+Deno.serve(async (req) => {
+  if (req.method !== "POST") {
+    return json({ error: "Method not allowed" }, 405);
+  }
+
+  const key = req.headers.get(KEY_HEADER);
+  if (!key) {
+    return json({ error: `Missing ${KEY_HEADER} header` }, 401);
+  }
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return json({ error: "Body must be valid JSON" }, 400);
+  }
+
+  const event = parseEvent(body);
+  if (typeof event === "string") {
+    return json({ error: event }, 400);
+  }
+
+  const { data, error } = await supabase.rpc("record_conversion_postback", {
+    postback_key: key,
+    click: event.click_id,
+    order_ref: event.order_id,
+    order_amount: event.amount,
+    order_currency: event.currency ?? "INR",
+    occurred: event.occurred_at ?? null,
+  });
+
+  if (error) {
+    console.error("Failed to record conversion:", error);
+    return json({ error: "Could not record the conversion" }, 500);
+  }
+
+  const status = data as PostbackStatus;
+  return json({ status }, STATUS_CODES[status] ?? 500);
+});
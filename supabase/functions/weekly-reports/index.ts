@@ -0,0 +1,209 @@
+// Weekly performance reports
+//
+// Renders each brand's last full week (Monday to Sunday, UTC) into an HTML
+// email with a PDF copy, archives both in the weekly-reports bucket and
+// mails them to the brand's owners. Which brands get a report, and who
+// receives it, comes from get_weekly_report_recipients (see the weekly
+// reports migration); weeks that were already sent are skipped.
+//
+// pg_cron calls this every Monday with the service role key. It can also
+// be called by hand, for a past week or a single brand:
+//   POST /functions/v1/weekly-reports
+//   Authorization: Bearer <service role key>
+//   { "week_start": "2025-07-28", "brand_id": "...", "dry_run": false }
+//
+// dry_run renders and archives the report without sending it. Mail goes
+// through the transport chosen by MAIL_TRANSPORT (see _shared/mail.ts);
+// point it at a local SMTP sink to check the emails during development.
+import { createClient } from "jsr:@supabase/supabase-js@2";
+import { createMailTransport } from "../_shared/mail.ts";
+import {
+  renderReportHtml,
+  renderReportPdf,
+  renderReportText,
+  reportSubject,
+  type WeeklyReportData,
+} from "./report.ts";
+
+interface ReportRequest {
+  week_start?: string;
+  brand_id?: string;
+  dry_run?: boolean;
+}
+
+interface ReportRecipient {
+  brand_id: string;
+  brand_name: string;
+  recipients: string[];
+}
+
+type ReportOutcome = "sent" | "generated" | "failed";
+
+const BUCKET = "weekly-reports";
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+const dashboardUrl = Deno.env.get("DASHBOARD_URL") ?? "https://stylsia.com";
+
+const supabase = createClient(Deno.env.get("SUPABASE_URL")!, serviceRoleKey);
+
+function json(body: Record<string, unknown>, status: number): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+/** Monday of the last week that has fully ended. */
+function lastFullWeekStart(now = new Date()): string {
+  const today = Date.UTC(
+    now.getUTCFullYear(),
+    now.getUTCMonth(),
+    now.getUTCDate()
+  );
+  const daysSinceMonday = (now.getUTCDay() + 6) % 7;
+  return new Date(today - (daysSinceMonday + 7) * DAY_MS)
+    .toISOString()
+    .slice(0, 10);
+}
+
+async function upload(
+  path: string,
+  content: string | Uint8Array,
+  type: string
+) {
+  const { error } = await supabase.storage
+    .from(BUCKET)
+    .upload(path, new Blob([content], { type }), {
+      contentType: type,
+      upsert: true,
+    });
+  if (error) throw error;
+}
+
+async function generateReport(
+  recipient: ReportRecipient,
+  weekStart: string,
+  dryRun: boolean
+): Promise<ReportOutcome> {
+  const { data, error } = await supabase.rpc("get_weekly_report_data", {
+    brand_uuid: recipient.brand_id,
+    week_start: weekStart,
+  });
+  if (error) throw error;
+
+  const report = data as WeeklyReportData;
+  const html = renderReportHtml(report, dashboardUrl);
+  const pdf = renderReportPdf(report);
+  const htmlPath = `${recipient.brand_id}/${weekStart}.html`;
+  const pdfPath = `${recipient.brand_id}/${weekStart}.pdf`;
+
+  await upload(htmlPath, html, "text/html");
+  await upload(pdfPath, pdf, "application/pdf");
+
+  const { data: archived, error: archiveError } = await supabase
+    .from("weekly_reports")
+    .upsert(
+      {
+        brand_id: recipient.brand_id,
+        week_start: report.week_start,
+        week_end: report.week_end,
+        summary: report,
+        html_path: htmlPath,
+        pdf_path: pdfPath,
+        recipients: recipient.recipients,
+        // A dry run of a week that was already sent keeps its status
+        ...(!dryRun && { status: "generated", error: null }),
+      },
+      { onConflict: "brand_id,week_start" }
+    )
+    .select("id")
+    .single();
+  if (archiveError) throw archiveError;
+
+  if (dryRun || recipient.recipients.length === 0) return "generated";
+
+  try {
+    await createMailTransport().send({
+      to: recipient.recipients,
+      subject: reportSubject(report),
+      html,
+      text: renderReportText(report, dashboardUrl),
+      attachments: [
+        {
+          filename: `stylsia-weekly-report-${weekStart}.pdf`,
+          content: pdf,
+          contentType: "application/pdf",
+        },
+      ],
+    });
+  } catch (err) {
+    // Keep the archived copy; running the week again retries the send
+    await supabase
+      .from("weekly_reports")
+      .update({ status: "failed", error: String(err) })
+      .eq("id", archived.id);
+    throw err;
+  }
+
+  await supabase
+    .from("weekly_reports")
+    .update({ status: "sent", sent_at: new Date().toISOString() })
+    .eq("id", archived.id);
+  return "sent";
+}
+
+Deno.serve(async (req) => {
+  if (req.method !== "POST") {
+    return json({ error: "Method not allowed" }, 405);
+  }
+
+  // Reports cover every brand, so only the scheduler may trigger them
+  if (req.headers.get("Authorization") !== `Bearer ${serviceRoleKey}`) {
+    return json({ error: "Unauthorized" }, 401);
+  }
+
+  let body: ReportRequest = {};
+  try {
+    const text = await req.text();
+    if (text) body = JSON.parse(text);
+  } catch {
+    return json({ error: "Body must be valid JSON" }, 400);
+  }
+
+  const weekStart = body.week_start ?? lastFullWeekStart();
+  if (
+    !DATE_PATTERN.test(weekStart) ||
+    new Date(`${weekStart}T00:00:00Z`).getUTCDay() !== 1
+  ) {
+    return json({ error: "week_start must be a Monday (YYYY-MM-DD)" }, 400);
+  }
+
+  const { data: recipients, error } = await supabase.rpc(
+    "get_weekly_report_recipients",
+    { week_start: weekStart, target_brand: body.brand_id ?? null }
+  );
+  if (error) {
+    console.error("Failed to list report recipients:", error);
+    return json({ error: "Could not list report recipients" }, 500);
+  }
+
+  // One brand at a time keeps the SMTP connection count and memory low
+  const results: Array<{ brand_id: string; status: ReportOutcome }> = [];
+  for (const recipient of recipients as ReportRecipient[]) {
+    try {
+      const status = await generateReport(
+        recipient,
+        weekStart,
+        Boolean(body.dry_run)
+      );
+      results.push({ brand_id: recipient.brand_id, status });
+    } catch (err) {
+      console.error(`Weekly report failed for ${recipient.brand_id}:`, err);
+      results.push({ brand_id: recipient.brand_id, status: "failed" });
+    }
+  }
+
+  return json({ week_start: weekStart, results }, 200);
+});
@@ -0,0 +1,97 @@
+// Minimal PDF writer for text reports
+//
+// Lays out lines of Helvetica text on A4 pages, which is all the weekly
+// report needs, without pulling a PDF library into the function. Text is
+// limited to printable ASCII; anything else is replaced.
+
+export interface PdfLine {
+  text: string;
+  size?: number;
+  bold?: boolean;
+  // Extra space above the line, in points
+  gap?: number;
+}
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const DEFAULT_SIZE = 10;
+
+const escapeText = (text: string) =>
+  text
+    .replace(/[^\x20-\x7e]/g, "?")
+    .replace(/\\/g, "\\\\")
+    .replace(/\(/g, "\\(")
+    .replace(/\)/g, "\\)");
+
+function layoutPages(lines: PdfLine[]): string[] {
+  const pages: string[] = [];
+  let commands: string[] = [];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  lines.forEach((line) => {
+    const size = line.size ?? DEFAULT_SIZE;
+    const advance = (line.gap ?? 0) + size * 1.4;
+
+    if (y - advance < MARGIN && commands.length > 0) {
+      pages.push(commands.join("\n"));
+      commands = [];
+      y = PAGE_HEIGHT - MARGIN;
+    }
+
+    y -= advance;
+    commands.push(
+      `BT /${line.bold ? "F2" : "F1"} ${size} Tf ${MARGIN} ${y.toFixed(
+        1
+      )} Td (${escapeText(line.text)}) Tj ET`
+    );
+  });
+
+  pages.push(commands.join("\n"));
+  return pages;
+}
+
+/** Renders the lines into a PDF document. */
+export function renderPdf(lines: PdfLine[]): Uint8Array {
+  const pages = layoutPages(lines);
+
+  // Objects 1-4 are fixed; each page adds a page object and its content
+  const pageIds = pages.map((_, index) => 5 + index * 2);
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    `<< /Type /Pages /Kids [${pageIds
+      .map((id) => `${id} 0 R`)
+      .join(" ")}] /Count ${pages.length} >>`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+  ];
+
+  pages.forEach((content, index) => {
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${
+          pageIds[index] + 1
+        } 0 R >>`,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+    );
+  });
+
+  // Everything is ASCII, so string offsets are byte offsets
+  let output = "%PDF-1.4\n";
+  const offsets = objects.map((object, index) => {
+    const offset = output.length;
+    output += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  offsets.forEach((offset) => {
+    output += `${String(offset).padStart(10, "0")} 00000 n \n`;
+  });
+  output += `trailer\n<< /Size ${
+    objects.length + 1
+  } /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return new TextEncoder().encode(output);
+}
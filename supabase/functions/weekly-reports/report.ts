@@ -0,0 +1,234 @@
+// Weekly report rendering
+//
+// Turns the figures from get_weekly_report_data into the email (HTML and
+// plain text) and the PDF copy kept in the archive.
+import { renderPdf, type PdfLine } from "./pdf.ts";
+
+export interface ReportTotals {
+  views: number;
+  unique_views: number;
+  clicks: number;
+  conversions: number;
+  revenue: number;
+}
+
+export interface WeeklyReportData {
+  brand: { id: string; name: string };
+  week_start: string;
+  week_end: string;
+  active_products: number;
+  current: ReportTotals;
+  previous: ReportTotals;
+  top_products: Array<{
+    product_id: string;
+    name: string;
+    views: number;
+    clicks: number;
+    conversions: number;
+    revenue: number;
+  }>;
+}
+
+const METRICS: Array<{
+  key: keyof ReportTotals;
+  label: string;
+  money?: boolean;
+}> = [
+  { key: "views", label: "Views" },
+  { key: "unique_views", label: "Unique visitors" },
+  { key: "clicks", label: "Store clicks" },
+  { key: "conversions", label: "Sales" },
+  { key: "revenue", label: "Revenue", money: true },
+];
+
+const formatNumber = (value: number) =>
+  Number(value).toLocaleString("en-IN", { maximumFractionDigits: 0 });
+
+// The PDF fonts have no rupee sign
+const formatMoney = (value: number, symbol = "₹") =>
+  `${symbol}${formatNumber(value)}`;
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString("en-IN", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+
+/** Week-over-week change, e.g. "+12.5%", or "new" when last week was zero. */
+export function formatChange(current: number, previous: number): string {
+  if (!previous) return current ? "new" : "-";
+  const change = ((current - previous) / previous) * 100;
+  return `${change >= 0 ? "+" : ""}${change.toFixed(1)}%`;
+}
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+export const reportSubject = (data: WeeklyReportData) =>
+  `${data.brand.name}: your week on Stylsia (${formatDay(data.week_start)})`;
+
+const periodLabel = (data: WeeklyReportData) =>
+  `${formatDay(data.week_start)} - ${formatDay(data.week_end)}`;
+
+export function renderReportHtml(
+  data: WeeklyReportData,
+  dashboardUrl: string
+): string {
+  const metricRows = METRICS.map(({ key, label, money }) => {
+    const current = Number(data.current[key]) || 0;
+    const previous = Number(data.previous[key]) || 0;
+    const change = formatChange(current, previous);
+    const color =
+      change === "-"
+        ? "#6b7280"
+        : change.startsWith("-")
+          ? "#dc2626"
+          : "#16a34a";
+    return `
+      <tr>
+        <td style="padding:8px 0;color:#4b5563">${label}</td>
+        <td style="padding:8px 0;text-align:right;font-weight:600;color:#111827">${
+          money ? formatMoney(current) : formatNumber(current)
+        }</td>
+        <td style="padding:8px 0 8px 12px;text-align:right;color:${color}">${change}</td>
+      </tr>`;
+  }).join("");
+
+  const productRows = data.top_products.length
+    ? data.top_products
+        .map(
+          (product) => `
+      <tr>
+        <td style="padding:6px 0;color:#111827">${escapeHtml(product.name)}</td>
+        <td style="padding:6px 0;text-align:right">${formatNumber(product.views)}</td>
+        <td style="padding:6px 0;text-align:right">${formatNumber(product.clicks)}</td>
+        <td style="padding:6px 0;text-align:right">${formatNumber(product.conversions)}</td>
+      </tr>`
+        )
+        .join("")
+    : `<tr><td colspan="4" style="padding:6px 0;color:#6b7280">No product had traffic this week.</td></tr>`;
+
+  return `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><title>${escapeHtml(reportSubject(data))}</title></head>
+<body style="margin:0;padding:24px;background:#f9fafb;font-family:Arial,Helvetica,sans-serif;font-size:14px">
+  <div style="max-width:560px;margin:0 auto;background:#ffffff;border:1px solid #e5e7eb;border-radius:8px;padding:24px">
+    <h1 style="margin:0 0 4px;font-size:20px;color:#111827">${escapeHtml(data.brand.name)}</h1>
+    <p style="margin:0 0 20px;color:#6b7280">Weekly performance, ${periodLabel(data)}</p>
+
+    <table style="width:100%;border-collapse:collapse">
+      <tr>
+        <th style="text-align:left;font-size:12px;color:#6b7280">This week</th>
+        <th></th>
+        <th style="text-align:right;font-size:12px;color:#6b7280">vs last week</th>
+      </tr>
+      ${metricRows}
+    </table>
+    <p style="margin:12px 0 24px;color:#6b7280">${formatNumber(
+      data.active_products
+    )} active products</p>
+
+    <h2 style="margin:0 0 8px;font-size:16px;color:#111827">Top products</h2>
+    <table style="width:100%;border-collapse:collapse;color:#4b5563">
+      <tr>
+        <th style="text-align:left;font-size:12px">Product</th>
+        <th style="text-align:right;font-size:12px">Views</th>
+        <th style="text-align:right;font-size:12px">Clicks</th>
+        <th style="text-align:right;font-size:12px">Sales</th>
+      </tr>
+      ${productRows}
+    </table>
+
+    <p style="margin:24px 0 0">
+      <a href="${dashboardUrl}/dashboard/analytics" style="color:#2563eb">Open your analytics</a>
+    </p>
+    <p style="margin:16px 0 0;font-size:12px;color:#9ca3af">
+      You receive this because weekly reports are on in your
+      <a href="${dashboardUrl}/dashboard/settings" style="color:#9ca3af">notification settings</a>.
+    </p>
+  </div>
+</body>
+</html>`;
+}
+
+export function renderReportText(
+  data: WeeklyReportData,
+  dashboardUrl: string
+): string {
+  const metrics = METRICS.map(({ key, label, money }) => {
+    const current = Number(data.current[key]) || 0;
+    const value = money ? formatMoney(current, "INR ") : formatNumber(current);
+    return `${label}: ${value} (${formatChange(
+      current,
+      Number(data.previous[key]) || 0
+    )} vs last week)`;
+  });
+  const products = data.top_products.length
+    ? data.top_products.map(
+        (product, index) =>
+          `${index + 1}. ${product.name}: ${formatNumber(
+            product.views
+          )} views, ${formatNumber(product.clicks)} clicks, ${formatNumber(
+            product.conversions
+          )} sales`
+      )
+    : ["No product had traffic this week."];
+
+  return [
+    `${data.brand.name} - weekly performance, ${periodLabel(data)}`,
+    "",
+    ...metrics,
+    `Active products: ${formatNumber(data.active_products)}`,
+    "",
+    "Top products",
+    ...products,
+    "",
+    `Open your analytics: ${dashboardUrl}/dashboard/analytics`,
+  ].join("\n");
+}
+
+export function renderReportPdf(data: WeeklyReportData): Uint8Array {
+  const lines: PdfLine[] = [
+    { text: data.brand.name, size: 18, bold: true },
+    { text: `Weekly performance, ${periodLabel(data)}`, size: 11 },
+    { text: "This week", size: 13, bold: true, gap: 16 },
+    ...METRICS.map(({ key, label, money }) => {
+      const current = Number(data.current[key]) || 0;
+      const value = money
+        ? formatMoney(current, "INR ")
+        : formatNumber(current);
+      return {
+        text: `${label}: ${value}   (${formatChange(
+          current,
+          Number(data.previous[key]) || 0
+        )} vs last week)`,
+      };
+    }),
+    { text: `Active products: ${formatNumber(data.active_products)}` },
+    { text: "Top products", size: 13, bold: true, gap: 16 },
+  ];
+
+  if (data.top_products.length) {
+    data.top_products.forEach((product, index) => {
+      lines.push({ text: `${index + 1}. ${product.name}`, bold: true, gap: 4 });
+      lines.push({
+        text: `    ${formatNumber(product.views)} views, ${formatNumber(
+          product.clicks
+        )} clicks, ${formatNumber(product.conversions)} sales, ${formatMoney(
+          product.revenue,
+          "INR "
+        )}`,
+      });
+    });
+  } else {
+    lines.push({ text: "No product had traffic this week." });
+  }
+
+  return renderPdf(lines);
+}
@@ -0,0 +1,230 @@
+/*
+  # Bulk Catalog Import
+
+  This migration adds a transactional import function so partner brands can
+  create and update products in bulk from CSV/JSON catalog feeds.
+
+  1. New Functions
+    - import_brand_catalog: Upserts products together with their attributes,
+      images and sizes in a single transaction
+
+  2. Behaviour
+    - Products are matched on source_url first, then on SKU within the brand
+    - Newly created products start in 'pending' status for admin review
+    - Any failing row aborts the whole import and reports the row number
+    - The import is recorded through record_audit_event
+
+  3. Security
+    - Only the owning brand or an admin can import into a brand catalog
+*/
+
+-- =============================================
+-- 1. CATALOG IMPORT FUNCTION
+-- =============================================
+
+CREATE OR REPLACE FUNCTION import_brand_catalog(
+    brand_uuid UUID,
+    catalog JSONB
+)
+RETURNS TABLE (
+    created_count INTEGER,
+    updated_count INTEGER
+)
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    item JSONB;
+    product_data JSONB;
+    attributes_data JSONB;
+    target_id UUID;
+    row_label TEXT;
+    created_total INTEGER := 0;
+    updated_total INTEGER := 0;
+BEGIN
+    -- Only the brand itself or an admin may import into this catalog
+    IF NOT (
+        auth.uid() = brand_uuid
+        OR (auth.jwt() ->> 'user_metadata')::jsonb ->> 'role' = 'admin'
+    ) THEN
+        RAISE EXCEPTION 'Unauthorized: cannot import products for brand %', brand_uuid;
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM brands WHERE id = brand_uuid) THEN
+        RAISE EXCEPTION 'Brand with ID % does not exist', brand_uuid;
+    END IF;
+
+    IF jsonb_typeof(catalog) IS DISTINCT FROM 'array' THEN
+        RAISE EXCEPTION 'Catalog payload must be a JSON array';
+    END IF;
+
+    FOR item IN SELECT value FROM jsonb_array_elements(catalog) LOOP
+        row_label := COALESCE(item ->> 'row_number', '?');
+        product_data := item -> 'product';
+        attributes_data := item -> 'attributes';
+        target_id := NULL;
+
+        BEGIN
+            -- Match an existing product of this brand
+            SELECT id INTO target_id
+            FROM products
+            WHERE brand_id = brand_uuid
+              AND (
+                source_url = product_data ->> 'source_url'
+                OR (
+                    NULLIF(product_data ->> 'sku', '') IS NOT NULL
+                    AND sku = product_data ->> 'sku'
+                )
+              )
+            ORDER BY (source_url = product_data ->> 'source_url') DESC
+            LIMIT 1;
+
+            IF target_id IS NULL THEN
+                INSERT INTO products (
+                    name,
+                    source_url,
+                    brand_id,
+                    original_price,
+                    current_price,
+                    category,
+                    sub_category,
+                    main_image_url,
+                    description,
+                    sku,
+                    status
+                ) VALUES (
+                    product_data ->> 'name',
+                    product_data ->> 'source_url',
+                    brand_uuid,
+                    (product_data ->> 'original_price')::NUMERIC,
+                    (product_data ->> 'current_price')::NUMERIC,
+                    NULLIF(product_data ->> 'category', ''),
+                    NULLIF(product_data ->> 'sub_category', ''),
+                    NULLIF(product_data ->> 'main_image_url', ''),
+                    NULLIF(product_data ->> 'description', ''),
+                    NULLIF(product_data ->> 'sku', ''),
+                    'pending'
+                ) RETURNING id INTO target_id;
+
+                created_total := created_total + 1;
+            ELSE
+                UPDATE products
+                SET
+                    name = product_data ->> 'name',
+                    source_url = product_data ->> 'source_url',
+                    original_price = (product_data ->> 'original_price')::NUMERIC,
+                    current_price = (product_data ->> 'current_price')::NUMERIC,
+                    category = NULLIF(product_data ->> 'category', ''),
+                    sub_category = NULLIF(product_data ->> 'sub_category', ''),
+                    main_image_url = COALESCE(NULLIF(product_data ->> 'main_image_url', ''), main_image_url),
+                    description = NULLIF(product_data ->> 'description', ''),
+                    sku = NULLIF(product_data ->> 'sku', ''),
+                    updated_at = NOW()
+                WHERE id = target_id;
+
+                updated_total := updated_total + 1;
+            END IF;
+
+            -- Attributes (one row per product)
+            IF jsonb_typeof(attributes_data) = 'object' THEN
+                INSERT INTO product_attributes (
+                    product_id, fabric, fit, collar, sleeve, closure, pattern,
+                    occasion, care_instructions, material, color, style
+                ) VALUES (
+                    target_id,
+                    NULLIF(attributes_data ->> 'fabric', ''),
+                    NULLIF(attributes_data ->> 'fit', ''),
+                    NULLIF(attributes_data ->> 'collar', ''),
+                    NULLIF(attributes_data ->> 'sleeve', ''),
+                    NULLIF(attributes_data ->> 'closure', ''),
+                    NULLIF(attributes_data ->> 'pattern', ''),
+                    NULLIF(attributes_data ->> 'occasion', ''),
+                    NULLIF(attributes_data ->> 'care_instructions', ''),
+                    NULLIF(attributes_data ->> 'material', ''),
+                    NULLIF(attributes_data ->> 'color', ''),
+                    NULLIF(attributes_data ->> 'style', '')
+                )
+                ON CONFLICT (product_id) DO UPDATE SET
+                    fabric = EXCLUDED.fabric,
+                    fit = EXCLUDED.fit,
+                    collar = EXCLUDED.collar,
+                    sleeve = EXCLUDED.sleeve,
+                    closure = EXCLUDED.closure,
+                    pattern = EXCLUDED.pattern,
+                    occasion = EXCLUDED.occasion,
+                    care_instructions = EXCLUDED.care_instructions,
+                    material = EXCLUDED.material,
+                    color = EXCLUDED.color,
+                    style = EXCLUDED.style;
+            END IF;
+
+            -- Images replace the existing gallery when supplied
+            IF jsonb_array_length(COALESCE(item -> 'images', '[]'::jsonb)) > 0 THEN
+                DELETE FROM product_images WHERE product_id = target_id;
+
+                INSERT INTO product_images (product_id, image_url, alt_text, is_main, display_order)
+                SELECT
+                    target_id,
+                    img ->> 'image_url',
+                    NULLIF(img ->> 'alt_text', ''),
+                    COALESCE((img ->> 'is_main')::BOOLEAN, FALSE),
+                    COALESCE((img ->> 'display_order')::INTEGER, 0)
+                FROM jsonb_array_elements(item -> 'images') AS img;
+            END IF;
+
+            -- Sizes replace the existing size run when supplied
+            IF jsonb_array_length(COALESCE(item -> 'sizes', '[]'::jsonb)) > 0 THEN
+                DELETE FROM product_sizes WHERE product_id = target_id;
+
+                INSERT INTO product_sizes (product_id, size, is_available, stock_count)
+                SELECT
+                    target_id,
+                    sz ->> 'size',
+                    COALESCE((sz ->> 'is_available')::BOOLEAN, (sz ->> 'stock_count')::INTEGER > 0),
+                    COALESCE((sz ->> 'stock_count')::INTEGER, 0)
+                FROM jsonb_array_elements(item -> 'sizes') AS sz;
+            END IF;
+        EXCEPTION
+            WHEN OTHERS THEN
+                RAISE EXCEPTION 'Row %: %', row_label, SQLERRM;
+        END;
+    END LOOP;
+
+    -- Record audit event for the whole import
+    PERFORM record_audit_event(
+        auth.uid(),
+        'INSERT',
+        'products',
+        brand_uuid::TEXT,
+        jsonb_build_object(
+            'source', 'catalog_import',
+            'created', created_total,
+            'updated', updated_total
+        )
+    );
+
+    RETURN QUERY SELECT created_total, updated_total;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- 2. GRANT PERMISSIONS
+-- =============================================
+
+GRANT EXECUTE ON FUNCTION import_brand_catalog(UUID, JSONB) TO authenticated;
+
+-- =============================================
+-- 3. VERIFICATION
+-- =============================================
+
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.routines
+        WHERE routine_schema = 'public' AND routine_name = 'import_brand_catalog'
+    ) THEN
+        RAISE NOTICE 'Catalog import function created successfully!';
+    ELSE
+        RAISE WARNING 'Catalog import function may not have been created properly.';
+    END IF;
+END $$;
@@ -0,0 +1,252 @@
+/*
+  # Partner Product Editor
+
+  This migration lets partner brands create and edit their own products from
+  the dashboard, with drafts and an admin review step before going live.
+
+  1. Schema Changes
+    - products.status now allows 'draft' for unsubmitted partner edits
+
+  2. New Functions
+    - save_brand_product: Creates or updates a product together with its
+      attributes, ordered images and sizes in a single transaction
+
+  3. Status Flow
+    - Saving without submitting keeps (or puts) the product in 'draft'
+    - Submitting moves the product to 'pending' for admin review
+    - Admins keep control of 'active', 'inactive' and 'out_of_stock'
+
+  4. Storage
+    - product-images bucket for partner-uploaded product photos
+*/
+
+-- =============================================
+-- 1. DRAFT STATUS
+-- =============================================
+
+ALTER TABLE products DROP CONSTRAINT IF EXISTS products_status_check;
+
+ALTER TABLE products
+    ADD CONSTRAINT products_status_check
+    CHECK (status IN ('draft', 'active', 'inactive', 'pending', 'out_of_stock'));
+
+-- =============================================
+-- 2. SAVE PRODUCT FUNCTION
+-- =============================================
+
+CREATE OR REPLACE FUNCTION save_brand_product(
+    brand_uuid UUID,
+    product_uuid UUID,
+    payload JSONB,
+    submit_for_review BOOLEAN DEFAULT FALSE
+)
+RETURNS UUID
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    target_id UUID := product_uuid;
+    current_status TEXT;
+    next_status TEXT;
+    product_data JSONB := payload -> 'product';
+    attributes_data JSONB := payload -> 'attributes';
+    main_image TEXT;
+BEGIN
+    -- Only the brand itself or an admin may edit this catalog
+    IF NOT (
+        auth.uid() = brand_uuid
+        OR (auth.jwt() ->> 'user_metadata')::jsonb ->> 'role' = 'admin'
+    ) THEN
+        RAISE EXCEPTION 'Unauthorized: cannot edit products for brand %', brand_uuid;
+    END IF;
+
+    IF target_id IS NOT NULL THEN
+        SELECT status INTO current_status
+        FROM products
+        WHERE id = target_id AND brand_id = brand_uuid;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Product % not found for this brand', target_id;
+        END IF;
+    END IF;
+
+    -- Partner edits always go back through review before going live
+    next_status := CASE WHEN submit_for_review THEN 'pending' ELSE 'draft' END;
+
+    -- Main image: explicit value, otherwise the image flagged as main
+    SELECT COALESCE(
+        NULLIF(product_data ->> 'main_image_url', ''),
+        (
+            SELECT img ->> 'image_url'
+            FROM jsonb_array_elements(COALESCE(payload -> 'images', '[]'::jsonb)) AS img
+            ORDER BY COALESCE((img ->> 'is_main')::BOOLEAN, FALSE) DESC,
+                     COALESCE((img ->> 'display_order')::INTEGER, 0)
+            LIMIT 1
+        )
+    ) INTO main_image;
+
+    IF target_id IS NULL THEN
+        INSERT INTO products (
+            name,
+            source_url,
+            brand_id,
+            original_price,
+            current_price,
+            category,
+            sub_category,
+            main_image_url,
+            description,
+            sku,
+            status
+        ) VALUES (
+            product_data ->> 'name',
+            product_data ->> 'source_url',
+            brand_uuid,
+            (product_data ->> 'original_price')::NUMERIC,
+            (product_data ->> 'current_price')::NUMERIC,
+            NULLIF(product_data ->> 'category', ''),
+            NULLIF(product_data ->> 'sub_category', ''),
+            main_image,
+            NULLIF(product_data ->> 'description', ''),
+            NULLIF(product_data ->> 'sku', ''),
+            next_status
+        ) RETURNING id INTO target_id;
+    ELSE
+        UPDATE products
+        SET
+            name = product_data ->> 'name',
+            source_url = product_data ->> 'source_url',
+            original_price = (product_data ->> 'original_price')::NUMERIC,
+            current_price = (product_data ->> 'current_price')::NUMERIC,
+            category = NULLIF(product_data ->> 'category', ''),
+            sub_category = NULLIF(product_data ->> 'sub_category', ''),
+            main_image_url = main_image,
+            description = NULLIF(product_data ->> 'description', ''),
+            sku = NULLIF(product_data ->> 'sku', ''),
+            status = next_status,
+            updated_at = NOW()
+        WHERE id = target_id;
+    END IF;
+
+    -- Attributes (one row per product)
+    IF jsonb_typeof(attributes_data) = 'object' THEN
+        INSERT INTO product_attributes (
+            product_id, fabric, fit, collar, sleeve, closure, pattern,
+            occasion, care_instructions, material, color, style
+        ) VALUES (
+            target_id,
+            NULLIF(attributes_data ->> 'fabric', ''),
+            NULLIF(attributes_data ->> 'fit', ''),
+            NULLIF(attributes_data ->> 'collar', ''),
+            NULLIF(attributes_data ->> 'sleeve', ''),
+            NULLIF(attributes_data ->> 'closure', ''),
+            NULLIF(attributes_data ->> 'pattern', ''),
+            NULLIF(attributes_data ->> 'occasion', ''),
+            NULLIF(attributes_data ->> 'care_instructions', ''),
+            NULLIF(attributes_data ->> 'material', ''),
+            NULLIF(attributes_data ->> 'color', ''),
+            NULLIF(attributes_data ->> 'style', '')
+        )
+        ON CONFLICT (product_id) DO UPDATE SET
+            fabric = EXCLUDED.fabric,
+            fit = EXCLUDED.fit,
+            collar = EXCLUDED.collar,
+            sleeve = EXCLUDED.sleeve,
+            closure = EXCLUDED.closure,
+            pattern = EXCLUDED.pattern,
+            occasion = EXCLUDED.occasion,
+            care_instructions = EXCLUDED.care_instructions,
+            material = EXCLUDED.material,
+            color = EXCLUDED.color,
+            style = EXCLUDED.style;
+    END IF;
+
+    -- The editor always sends the full image gallery and size run
+    DELETE FROM product_images WHERE product_id = target_id;
+
+    INSERT INTO product_images (product_id, image_url, alt_text, is_main, display_order)
+    SELECT
+        target_id,
+        img ->> 'image_url',
+        NULLIF(img ->> 'alt_text', ''),
+        COALESCE((img ->> 'is_main')::BOOLEAN, FALSE),
+        COALESCE((img ->> 'display_order')::INTEGER, 0)
+    FROM jsonb_array_elements(COALESCE(payload -> 'images', '[]'::jsonb)) AS img;
+
+    DELETE FROM product_sizes WHERE product_id = target_id;
+
+    INSERT INTO product_sizes (product_id, size, is_available, stock_count)
+    SELECT
+        target_id,
+        sz ->> 'size',
+        COALESCE((sz ->> 'is_available')::BOOLEAN, (sz ->> 'stock_count')::INTEGER > 0),
+        COALESCE((sz ->> 'stock_count')::INTEGER, 0)
+    FROM jsonb_array_elements(COALESCE(payload -> 'sizes', '[]'::jsonb)) AS sz;
+
+    -- Record audit event
+    PERFORM record_audit_event(
+        auth.uid(),
+        CASE WHEN product_uuid IS NULL THEN 'INSERT' ELSE 'UPDATE' END,
+        'products',
+        target_id::TEXT,
+        jsonb_build_object(
+            'source', 'product_editor',
+            'old_status', current_status,
+            'new_status', next_status
+        )
+    );
+
+    RETURN target_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- 3. PRODUCT IMAGES BUCKET
+-- =============================================
+
+insert into storage.buckets (id, name, public)
+values ('product-images', 'product-images', true)
+on conflict (id) do nothing;
+
+-- Brands upload into a folder named after their brand id
+create policy "Allow brands to upload their product images"
+on storage.objects for insert
+with check (
+  bucket_id = 'product-images'
+  and auth.role() = 'authenticated'
+  and (storage.foldername(name))[1] = auth.uid()::text
+);
+
+create policy "Allow public access to product images"
+on storage.objects for select
+using (bucket_id = 'product-images');
+
+create policy "Allow brands to delete their product images"
+on storage.objects for delete
+using (
+  bucket_id = 'product-images'
+  and auth.role() = 'authenticated'
+  and (storage.foldername(name))[1] = auth.uid()::text
+);
+
+-- =============================================
+-- 4. GRANT PERMISSIONS
+-- =============================================
+
+GRANT EXECUTE ON FUNCTION save_brand_product(UUID, UUID, JSONB, BOOLEAN) TO authenticated;
+
+-- =============================================
+-- 5. VERIFICATION
+-- =============================================
+
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.routines
+        WHERE routine_schema = 'public' AND routine_name = 'save_brand_product'
+    ) THEN
+        RAISE NOTICE 'Product editor function created successfully!';
+    ELSE
+        RAISE WARNING 'Product editor function may not have been created properly.';
+    END IF;
+END $$;
@@ -0,0 +1,154 @@
+/*
+  # Product Moderation Queue
+
+  This migration adds admin approve/reject decisions for products submitted
+  for review, with a required reason that is kept for the brand to see.
+
+  1. New Tables
+    - product_moderation_decisions: One row per approve/reject decision
+
+  2. New Functions
+    - admin_moderate_products: Approves or rejects a batch of pending products
+
+  3. Status Flow
+    - Approved products move from 'pending' to 'active'
+    - Rejected products move from 'pending' back to 'draft' so the brand can
+      edit and resubmit them
+
+  4. Security
+    - Brands can read decisions about their own products
+    - Admins can read all decisions; writes go through the function only
+*/
+
+-- =============================================
+-- 1. MODERATION DECISIONS TABLE
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS product_moderation_decisions (
+    id           UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    product_id   UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    brand_id     UUID NOT NULL REFERENCES brands(id) ON DELETE CASCADE,
+    decision     TEXT NOT NULL CHECK (decision IN ('approved', 'rejected')),
+    reason       TEXT NOT NULL CHECK (length(trim(reason)) > 0),
+    moderator_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at   TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_moderation_decisions_product ON product_moderation_decisions(product_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_moderation_decisions_brand ON product_moderation_decisions(brand_id);
+
+ALTER TABLE product_moderation_decisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Brands can view their moderation decisions" ON product_moderation_decisions
+    FOR SELECT
+    USING (auth.uid() = brand_id);
+
+CREATE POLICY "Admins can view all moderation decisions" ON product_moderation_decisions
+    FOR SELECT
+    USING (
+        auth.role() = 'authenticated' AND (
+            (auth.jwt() ->> 'user_metadata')::jsonb ->> 'role' = 'admin'
+            OR auth.jwt() ->> 'email' IN (
+                'admin@stylsia.com',
+                'support@stylsia.com',
+                'manager@stylsia.com'
+            )
+        )
+    );
+
+-- =============================================
+-- 2. MODERATION FUNCTION
+-- =============================================
+
+CREATE OR REPLACE FUNCTION admin_moderate_products(
+    product_ids UUID[],
+    decision TEXT,
+    reason TEXT
+)
+RETURNS INTEGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    target RECORD;
+    next_status TEXT;
+    moderated_count INTEGER := 0;
+BEGIN
+    IF NOT (
+        (auth.jwt() ->> 'user_metadata')::jsonb ->> 'role' = 'admin'
+        OR auth.jwt() ->> 'email' IN (
+            'admin@stylsia.com',
+            'support@stylsia.com',
+            'manager@stylsia.com'
+        )
+    ) THEN
+        RAISE EXCEPTION 'Unauthorized: only admins can moderate products';
+    END IF;
+
+    IF decision NOT IN ('approved', 'rejected') THEN
+        RAISE EXCEPTION 'Invalid decision: %', decision;
+    END IF;
+
+    IF reason IS NULL OR length(trim(reason)) = 0 THEN
+        RAISE EXCEPTION 'A reason is required for every moderation decision';
+    END IF;
+
+    next_status := CASE WHEN decision = 'approved' THEN 'active' ELSE 'draft' END;
+
+    -- Only products still waiting for review are moderated
+    FOR target IN
+        SELECT id, brand_id
+        FROM products
+        WHERE id = ANY(product_ids) AND status = 'pending'
+        FOR UPDATE
+    LOOP
+        UPDATE products
+        SET status = next_status, updated_at = NOW()
+        WHERE id = target.id;
+
+        INSERT INTO product_moderation_decisions (product_id, brand_id, decision, reason, moderator_id)
+        VALUES (target.id, target.brand_id, decision, trim(reason), auth.uid());
+
+        PERFORM record_audit_event(
+            auth.uid(),
+            'UPDATE',
+            'products',
+            target.id::TEXT,
+            jsonb_build_object(
+                'source', 'moderation',
+                'decision', decision,
+                'reason', trim(reason),
+                'old_status', 'pending',
+                'new_status', next_status
+            )
+        );
+
+        moderated_count := moderated_count + 1;
+    END LOOP;
+
+    RETURN moderated_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- 3. GRANT PERMISSIONS
+-- =============================================
+
+GRANT SELECT ON product_moderation_decisions TO authenticated;
+GRANT EXECUTE ON FUNCTION admin_moderate_products(UUID[], TEXT, TEXT) TO authenticated;
+
+-- =============================================
+-- 4. VERIFICATION
+-- =============================================
+
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.tables
+        WHERE table_schema = 'public' AND table_name = 'product_moderation_decisions'
+    ) THEN
+        RAISE NOTICE 'Product moderation tables and functions created successfully!';
+    ELSE
+        RAISE WARNING 'Product moderation setup may not have completed properly.';
+    END IF;
+END $$;
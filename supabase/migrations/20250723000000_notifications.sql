@@ -0,0 +1,310 @@
+/*
+  # In-App Notifications
+
+  This migration adds persistent notifications for brand partners. Rows are
+  written by triggers when something changes on the brand's behalf, and the
+  dashboard receives them live through Supabase realtime.
+
+  1. New Tables
+    - notifications: One row per notification delivered to a brand
+    - notification_preferences: Per-brand delivery preferences
+
+  2. New Functions
+    - create_brand_notification: Inserts a notification if the brand's
+      preferences allow it
+    - notify_support_request_status: Trigger for support status changes
+    - notify_product_moderation: Trigger for approve/reject decisions
+    - notify_brand_status: Trigger for brand account status changes
+
+  3. Preferences
+    - product_approval gates product approval and rejection notices
+    - system_updates gates support request updates
+    - Account status changes are always delivered
+    - Brands without a preferences row get every notification
+
+  4. Security
+    - Brands can read, mark as read and delete their own notifications
+    - Brands can read and update their own preferences
+    - Notifications are only inserted by the trigger functions
+*/
+
+-- =============================================
+-- 1. NOTIFICATIONS TABLE
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS notifications (
+    id         UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    brand_id   UUID NOT NULL REFERENCES brands(id) ON DELETE CASCADE,
+    type       TEXT NOT NULL CHECK (type IN ('product_approval', 'product_rejection', 'support_update', 'account_update')),
+    title      TEXT NOT NULL,
+    message    TEXT NOT NULL,
+    read       BOOLEAN NOT NULL DEFAULT FALSE,
+    action_url TEXT,
+    metadata   JSONB NOT NULL DEFAULT '{}'::jsonb,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_brand ON notifications(brand_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_unread ON notifications(brand_id) WHERE read = FALSE;
+
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Brands can view their notifications" ON notifications
+    FOR SELECT
+    USING (auth.uid() = brand_id);
+
+CREATE POLICY "Brands can update their notifications" ON notifications
+    FOR UPDATE
+    USING (auth.uid() = brand_id)
+    WITH CHECK (auth.uid() = brand_id);
+
+CREATE POLICY "Brands can delete their notifications" ON notifications
+    FOR DELETE
+    USING (auth.uid() = brand_id);
+
+-- =============================================
+-- 2. NOTIFICATION PREFERENCES TABLE
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS notification_preferences (
+    brand_id            UUID PRIMARY KEY REFERENCES brands(id) ON DELETE CASCADE,
+    product_approval    BOOLEAN NOT NULL DEFAULT TRUE,
+    weekly_report       BOOLEAN NOT NULL DEFAULT TRUE,
+    system_updates      BOOLEAN NOT NULL DEFAULT TRUE,
+    marketing_emails    BOOLEAN NOT NULL DEFAULT FALSE,
+    push_notifications  BOOLEAN NOT NULL DEFAULT FALSE,
+    email_notifications BOOLEAN NOT NULL DEFAULT TRUE,
+    updated_at          TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Brands can view their notification preferences" ON notification_preferences
+    FOR SELECT
+    USING (auth.uid() = brand_id);
+
+CREATE POLICY "Brands can create their notification preferences" ON notification_preferences
+    FOR INSERT
+    WITH CHECK (auth.uid() = brand_id);
+
+CREATE POLICY "Brands can update their notification preferences" ON notification_preferences
+    FOR UPDATE
+    USING (auth.uid() = brand_id)
+    WITH CHECK (auth.uid() = brand_id);
+
+CREATE TRIGGER update_notification_preferences_updated_at
+    BEFORE UPDATE ON notification_preferences
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================
+-- 3. NOTIFICATION HELPER
+-- =============================================
+
+CREATE OR REPLACE FUNCTION create_brand_notification(
+    target_brand UUID,
+    notification_type TEXT,
+    notification_title TEXT,
+    notification_message TEXT,
+    notification_action_url TEXT DEFAULT NULL,
+    notification_metadata JSONB DEFAULT '{}'::jsonb
+)
+RETURNS UUID
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    prefs notification_preferences%ROWTYPE;
+    new_id UUID;
+BEGIN
+    SELECT * INTO prefs FROM notification_preferences WHERE brand_id = target_brand;
+
+    IF FOUND THEN
+        IF notification_type IN ('product_approval', 'product_rejection') AND NOT prefs.product_approval THEN
+            RETURN NULL;
+        END IF;
+
+        IF notification_type = 'support_update' AND NOT prefs.system_updates THEN
+            RETURN NULL;
+        END IF;
+    END IF;
+
+    INSERT INTO notifications (brand_id, type, title, message, action_url, metadata)
+    VALUES (
+        target_brand,
+        notification_type,
+        notification_title,
+        notification_message,
+        notification_action_url,
+        COALESCE(notification_metadata, '{}'::jsonb)
+    )
+    RETURNING id INTO new_id;
+
+    RETURN new_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- 4. TRIGGERS
+-- =============================================
+
+-- Support request status changes
+CREATE OR REPLACE FUNCTION notify_support_request_status()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.brand_id IS NULL OR NEW.status IS NOT DISTINCT FROM OLD.status THEN
+        RETURN NEW;
+    END IF;
+
+    PERFORM create_brand_notification(
+        NEW.brand_id,
+        'support_update',
+        'Support request updated',
+        format(
+            'Your request "%s" is now %s.',
+            NEW.subject,
+            replace(NEW.status, '_', ' ')
+        ),
+        '/dashboard/messages',
+        jsonb_build_object(
+            'support_request_id', NEW.id,
+            'old_status', OLD.status,
+            'new_status', NEW.status
+        )
+    );
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS notify_support_request_status ON support_requests;
+CREATE TRIGGER notify_support_request_status
+    AFTER UPDATE OF status ON support_requests
+    FOR EACH ROW
+    EXECUTE FUNCTION notify_support_request_status();
+
+-- Product approve/reject decisions
+CREATE OR REPLACE FUNCTION notify_product_moderation()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    product_name TEXT;
+BEGIN
+    SELECT name INTO product_name FROM products WHERE id = NEW.product_id;
+
+    IF NEW.decision = 'approved' THEN
+        PERFORM create_brand_notification(
+            NEW.brand_id,
+            'product_approval',
+            'Product approved',
+            format('"%s" has been approved and is now live.', product_name),
+            '/dashboard/products',
+            jsonb_build_object('product_id', NEW.product_id, 'reason', NEW.reason)
+        );
+    ELSE
+        PERFORM create_brand_notification(
+            NEW.brand_id,
+            'product_rejection',
+            'Changes requested',
+            format('"%s" needs changes before it can go live: %s', product_name, NEW.reason),
+            '/dashboard/products/' || NEW.product_id || '/edit',
+            jsonb_build_object('product_id', NEW.product_id, 'reason', NEW.reason)
+        );
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS notify_product_moderation ON product_moderation_decisions;
+CREATE TRIGGER notify_product_moderation
+    AFTER INSERT ON product_moderation_decisions
+    FOR EACH ROW
+    EXECUTE FUNCTION notify_product_moderation();
+
+-- Brand account status changes
+CREATE OR REPLACE FUNCTION notify_brand_status()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+        RETURN NEW;
+    END IF;
+
+    PERFORM create_brand_notification(
+        NEW.id,
+        'account_update',
+        CASE NEW.status
+            WHEN 'active' THEN 'Your account is active'
+            WHEN 'suspended' THEN 'Your account has been suspended'
+            WHEN 'inactive' THEN 'Your account has been deactivated'
+            ELSE 'Your account status changed'
+        END,
+        CASE NEW.status
+            WHEN 'active' THEN 'Your brand account has been approved. Your products can now go live on Stylsia.'
+            WHEN 'suspended' THEN 'Your products are hidden from shoppers. Contact support if you think this is a mistake.'
+            WHEN 'inactive' THEN 'Your brand account is no longer active. Contact support to reactivate it.'
+            ELSE format('Your brand account status is now %s.', NEW.status)
+        END,
+        '/dashboard/profile',
+        jsonb_build_object('old_status', OLD.status, 'new_status', NEW.status)
+    );
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS notify_brand_status ON brands;
+CREATE TRIGGER notify_brand_status
+    AFTER UPDATE OF status ON brands
+    FOR EACH ROW
+    EXECUTE FUNCTION notify_brand_status();
+
+-- =============================================
+-- 5. REALTIME
+-- =============================================
+
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+       AND NOT EXISTS (
+           SELECT 1 FROM pg_publication_tables
+           WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'notifications'
+       ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
+    END IF;
+END $$;
+
+-- =============================================
+-- 6. GRANT PERMISSIONS
+-- =============================================
+
+GRANT SELECT, DELETE ON notifications TO authenticated;
+GRANT UPDATE (read) ON notifications TO authenticated;
+GRANT SELECT, INSERT, UPDATE ON notification_preferences TO authenticated;
+
+-- =============================================
+-- 7. VERIFICATION
+-- =============================================
+
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.tables
+        WHERE table_schema = 'public' AND table_name = 'notifications'
+    ) AND EXISTS (
+        SELECT 1 FROM information_schema.tables
+        WHERE table_schema = 'public' AND table_name = 'notification_preferences'
+    ) THEN
+        RAISE NOTICE 'Notification tables, triggers and realtime publication created successfully!';
+    ELSE
+        RAISE WARNING 'Notification setup may not have completed properly.';
+    END IF;
+END $$;
@@ -0,0 +1,169 @@
+/*
+  # Support Request Threads
+
+  This migration adds a conversation thread to every support request so
+  brands and admins can reply to each other inside the dashboard instead of
+  over email.
+
+  1. New Tables
+    - support_messages: One row per reply on a support request
+
+  2. New Functions
+    - add_support_message: Posts a brand reply, admin reply or internal note
+
+  3. Behaviour
+    - The first admin reply on a 'new' request moves it to 'in_progress'
+    - A brand reply on a resolved or closed request reopens it
+    - Admin replies that are not internal notify the brand
+
+  4. Security
+    - Brands can read the non-internal messages on their own requests
+    - Admins can read every message, including internal notes
+    - Messages are only written through add_support_message
+*/
+
+-- =============================================
+-- 1. SUPPORT MESSAGES TABLE
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS support_messages (
+    id              UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    request_id      UUID NOT NULL REFERENCES support_requests(id) ON DELETE CASCADE,
+    author_id       UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    author_role     TEXT NOT NULL CHECK (author_role IN ('brand', 'admin')),
+    body            TEXT NOT NULL CHECK (length(trim(body)) > 0),
+    attachment_urls TEXT[] NOT NULL DEFAULT '{}',
+    is_internal     BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT support_messages_internal_admin_only CHECK (NOT is_internal OR author_role = 'admin')
+);
+
+CREATE INDEX IF NOT EXISTS idx_support_messages_request ON support_messages(request_id, created_at);
+
+ALTER TABLE support_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Brands can view replies on their requests" ON support_messages
+    FOR SELECT
+    USING (
+        NOT is_internal AND EXISTS (
+            SELECT 1 FROM support_requests sr
+            WHERE sr.id = support_messages.request_id AND sr.brand_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Admins can view all support messages" ON support_messages
+    FOR SELECT
+    USING (
+        auth.role() = 'authenticated' AND (
+            (auth.jwt() ->> 'user_metadata')::jsonb ->> 'role' = 'admin'
+            OR auth.jwt() ->> 'email' IN (
+                'admin@stylsia.com',
+                'support@stylsia.com',
+                'manager@stylsia.com'
+            )
+        )
+    );
+
+-- =============================================
+-- 2. POST MESSAGE FUNCTION
+-- =============================================
+
+CREATE OR REPLACE FUNCTION add_support_message(
+    request_uuid UUID,
+    message_body TEXT,
+    attachments TEXT[] DEFAULT '{}',
+    internal BOOLEAN DEFAULT FALSE
+)
+RETURNS UUID
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    request_row support_requests%ROWTYPE;
+    is_admin BOOLEAN;
+    role TEXT;
+    new_id UUID;
+BEGIN
+    SELECT * INTO request_row FROM support_requests WHERE id = request_uuid FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Support request not found';
+    END IF;
+
+    is_admin := (auth.jwt() ->> 'user_metadata')::jsonb ->> 'role' = 'admin'
+        OR auth.jwt() ->> 'email' IN (
+            'admin@stylsia.com',
+            'support@stylsia.com',
+            'manager@stylsia.com'
+        );
+
+    IF is_admin THEN
+        role := 'admin';
+    ELSIF auth.uid() = request_row.brand_id THEN
+        role := 'brand';
+    ELSE
+        RAISE EXCEPTION 'Unauthorized: you cannot reply to this support request';
+    END IF;
+
+    IF internal AND role <> 'admin' THEN
+        RAISE EXCEPTION 'Only admins can add internal notes';
+    END IF;
+
+    IF message_body IS NULL OR length(trim(message_body)) = 0 THEN
+        RAISE EXCEPTION 'Message cannot be empty';
+    END IF;
+
+    INSERT INTO support_messages (request_id, author_id, author_role, body, attachment_urls, is_internal)
+    VALUES (request_uuid, auth.uid(), role, trim(message_body), COALESCE(attachments, '{}'), internal)
+    RETURNING id INTO new_id;
+
+    -- Internal notes never change what the brand sees
+    IF NOT internal THEN
+        UPDATE support_requests
+        SET
+            status = CASE
+                WHEN role = 'admin' AND status = 'new' THEN 'in_progress'
+                WHEN role = 'brand' AND status IN ('resolved', 'closed') THEN 'in_progress'
+                ELSE status
+            END,
+            updated_at = NOW()
+        WHERE id = request_uuid;
+
+        IF role = 'admin' AND request_row.brand_id IS NOT NULL THEN
+            PERFORM create_brand_notification(
+                request_row.brand_id,
+                'support_update',
+                'New reply from Stylsia support',
+                format('Support replied to "%s".', request_row.subject),
+                '/dashboard/messages',
+                jsonb_build_object('support_request_id', request_uuid, 'message_id', new_id)
+            );
+        END IF;
+    END IF;
+
+    RETURN new_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- 3. GRANT PERMISSIONS
+-- =============================================
+
+GRANT SELECT ON support_messages TO authenticated;
+GRANT EXECUTE ON FUNCTION add_support_message(UUID, TEXT, TEXT[], BOOLEAN) TO authenticated;
+
+-- =============================================
+-- 4. VERIFICATION
+-- =============================================
+
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.tables
+        WHERE table_schema = 'public' AND table_name = 'support_messages'
+    ) THEN
+        RAISE NOTICE 'Support message threads created successfully!';
+    ELSE
+        RAISE WARNING 'Support thread setup may not have completed properly.';
+    END IF;
+END $$;
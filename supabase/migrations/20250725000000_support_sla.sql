@@ -0,0 +1,354 @@
+/*
+  # Support SLA Tracking and Escalation
+
+  This migration measures support response times against configurable
+  targets and escalates requests that miss them.
+
+  1. Settings
+    - system_settings 'support_sla': first-response and resolution targets
+      in hours per priority, plus an auto_escalate switch
+
+  2. Table Changes
+    - support_requests.first_response_at: Time of the first public admin reply
+    - support_requests.escalated_at: Time of the last automatic escalation
+
+  3. New Functions
+    - get_support_sla_targets: Returns the configured targets
+    - escalate_breached_support_requests: Raises the priority of open requests
+      that missed a target, one level per breach
+    - get_support_sla_metrics: SLA compliance per priority for a date range
+
+  4. Changed Functions
+    - admin_get_all_support_requests now also returns attachment_urls and the
+      SLA timestamps
+
+  5. Escalation Rules
+    - Targets are measured from escalated_at when set, otherwise created_at,
+      so each escalation starts a fresh window at the new priority
+    - Requests already at 'high' priority are not escalated further
+*/
+
+-- =============================================
+-- 1. SLA SETTINGS
+-- =============================================
+
+INSERT INTO system_settings (key, value, description)
+VALUES (
+    'support_sla',
+    '{
+        "high": { "first_response_hours": 4, "resolution_hours": 24 },
+        "medium": { "first_response_hours": 8, "resolution_hours": 72 },
+        "low": { "first_response_hours": 24, "resolution_hours": 120 },
+        "auto_escalate": true
+    }'::jsonb,
+    'Support SLA targets in hours per priority and whether breached requests are escalated automatically'
+) ON CONFLICT (key) DO NOTHING;
+
+-- =============================================
+-- 2. SLA TIMESTAMPS
+-- =============================================
+
+ALTER TABLE support_requests ADD COLUMN IF NOT EXISTS first_response_at TIMESTAMPTZ;
+ALTER TABLE support_requests ADD COLUMN IF NOT EXISTS escalated_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_support_requests_open_sla
+    ON support_requests(priority, created_at)
+    WHERE status IN ('new', 'in_progress');
+
+-- Backfill from replies posted before this migration
+UPDATE support_requests sr
+SET first_response_at = first_reply.created_at
+FROM (
+    SELECT request_id, MIN(created_at) AS created_at
+    FROM support_messages
+    WHERE author_role = 'admin' AND NOT is_internal
+    GROUP BY request_id
+) first_reply
+WHERE sr.id = first_reply.request_id AND sr.first_response_at IS NULL;
+
+-- The first public admin reply stops the first-response timer
+CREATE OR REPLACE FUNCTION record_support_first_response()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.author_role = 'admin' AND NOT NEW.is_internal THEN
+        UPDATE support_requests
+        SET first_response_at = NEW.created_at
+        WHERE id = NEW.request_id AND first_response_at IS NULL;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS record_support_first_response ON support_messages;
+CREATE TRIGGER record_support_first_response
+    AFTER INSERT ON support_messages
+    FOR EACH ROW
+    EXECUTE FUNCTION record_support_first_response();
+
+-- =============================================
+-- 3. SLA FUNCTIONS
+-- =============================================
+
+CREATE OR REPLACE FUNCTION get_support_sla_targets()
+RETURNS JSONB
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    defaults JSONB := '{
+        "high": { "first_response_hours": 4, "resolution_hours": 24 },
+        "medium": { "first_response_hours": 8, "resolution_hours": 72 },
+        "low": { "first_response_hours": 24, "resolution_hours": 120 },
+        "auto_escalate": true
+    }'::jsonb;
+    configured JSONB;
+BEGIN
+    SELECT value INTO configured FROM system_settings WHERE key = 'support_sla';
+    RETURN defaults || COALESCE(configured, '{}'::jsonb);
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION escalate_breached_support_requests()
+RETURNS INTEGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    targets JSONB;
+    target RECORD;
+    next_priority TEXT;
+    escalated_count INTEGER := 0;
+BEGIN
+    -- Scheduled runs have no user; signed-in callers must be admins
+    IF auth.uid() IS NOT NULL AND NOT (
+        (auth.jwt() ->> 'user_metadata')::jsonb ->> 'role' = 'admin'
+        OR auth.jwt() ->> 'email' IN (
+            'admin@stylsia.com',
+            'support@stylsia.com',
+            'manager@stylsia.com'
+        )
+    ) THEN
+        RAISE EXCEPTION 'Unauthorized: only admins can escalate support requests';
+    END IF;
+
+    targets := get_support_sla_targets();
+
+    IF NOT COALESCE((targets ->> 'auto_escalate')::BOOLEAN, TRUE) THEN
+        RETURN 0;
+    END IF;
+
+    FOR target IN
+        SELECT sr.id, sr.priority, sr.first_response_at, COALESCE(sr.escalated_at, sr.created_at) AS clock_start
+        FROM support_requests sr
+        WHERE sr.status IN ('new', 'in_progress') AND sr.priority IN ('low', 'medium')
+        FOR UPDATE
+    LOOP
+        IF (
+            target.first_response_at IS NULL
+            AND NOW() > target.clock_start
+                + make_interval(hours => (targets -> target.priority ->> 'first_response_hours')::INTEGER)
+        ) OR (
+            NOW() > target.clock_start
+                + make_interval(hours => (targets -> target.priority ->> 'resolution_hours')::INTEGER)
+        ) THEN
+            next_priority := CASE target.priority WHEN 'low' THEN 'medium' ELSE 'high' END;
+
+            UPDATE support_requests
+            SET priority = next_priority, escalated_at = NOW(), updated_at = NOW()
+            WHERE id = target.id;
+
+            PERFORM record_audit_event(
+                auth.uid(),
+                'UPDATE',
+                'support_requests',
+                target.id::TEXT,
+                jsonb_build_object(
+                    'source', 'sla_escalation',
+                    'priority', jsonb_build_object('old', target.priority, 'new', next_priority)
+                )
+            );
+
+            escalated_count := escalated_count + 1;
+        END IF;
+    END LOOP;
+
+    RETURN escalated_count;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION get_support_sla_metrics(
+    start_date DATE DEFAULT NULL,
+    end_date DATE DEFAULT NULL
+)
+RETURNS TABLE (
+    priority TEXT,
+    total_requests INTEGER,
+    first_response_met INTEGER,
+    first_response_breached INTEGER,
+    resolution_met INTEGER,
+    resolution_breached INTEGER,
+    escalated_requests INTEGER,
+    avg_first_response_hours NUMERIC,
+    avg_resolution_hours NUMERIC
+)
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    start_date_val DATE;
+    end_date_val DATE;
+    targets JSONB;
+BEGIN
+    start_date_val := COALESCE(start_date, CURRENT_DATE - INTERVAL '30 days');
+    end_date_val := COALESCE(end_date, CURRENT_DATE);
+    targets := get_support_sla_targets();
+
+    -- Escalated requests count as breached: they only escalate after a miss.
+    -- Open requests still inside their window are neither met nor breached.
+    RETURN QUERY
+    WITH timed AS (
+        SELECT
+            sr.priority,
+            sr.escalated_at IS NOT NULL AS escalated,
+            EXTRACT(EPOCH FROM (sr.first_response_at - sr.created_at)) / 3600 AS first_response_hours,
+            CASE
+                WHEN sr.status IN ('resolved', 'closed') AND sr.resolved_at IS NOT NULL
+                THEN EXTRACT(EPOCH FROM (sr.resolved_at - sr.created_at)) / 3600
+            END AS resolution_hours,
+            EXTRACT(EPOCH FROM (NOW() - sr.created_at)) / 3600 AS age_hours,
+            (targets -> sr.priority ->> 'first_response_hours')::NUMERIC AS first_response_target,
+            (targets -> sr.priority ->> 'resolution_hours')::NUMERIC AS resolution_target
+        FROM support_requests sr
+        WHERE sr.created_at BETWEEN start_date_val AND (end_date_val + INTERVAL '1 day')
+    )
+    SELECT
+        t.priority,
+        COUNT(*)::INTEGER,
+        COUNT(*) FILTER (
+            WHERE NOT t.escalated AND t.first_response_hours <= t.first_response_target
+        )::INTEGER,
+        COUNT(*) FILTER (
+            WHERE t.escalated
+               OR t.first_response_hours > t.first_response_target
+               OR (t.first_response_hours IS NULL AND t.age_hours > t.first_response_target)
+        )::INTEGER,
+        COUNT(*) FILTER (
+            WHERE NOT t.escalated AND t.resolution_hours <= t.resolution_target
+        )::INTEGER,
+        COUNT(*) FILTER (
+            WHERE t.escalated
+               OR t.resolution_hours > t.resolution_target
+               OR (t.resolution_hours IS NULL AND t.age_hours > t.resolution_target)
+        )::INTEGER,
+        COUNT(*) FILTER (WHERE t.escalated)::INTEGER,
+        ROUND(AVG(t.first_response_hours), 2),
+        ROUND(AVG(t.resolution_hours), 2)
+    FROM timed t
+    GROUP BY t.priority
+    ORDER BY CASE t.priority WHEN 'high' THEN 1 WHEN 'medium' THEN 2 ELSE 3 END;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- 4. ADMIN SUPPORT LIST WITH SLA FIELDS
+-- =============================================
+
+-- The return type changes, so the old definition has to go first
+DROP FUNCTION IF EXISTS admin_get_all_support_requests();
+
+CREATE OR REPLACE FUNCTION admin_get_all_support_requests()
+RETURNS TABLE (
+    id UUID,
+    brand_id UUID,
+    subject TEXT,
+    description TEXT,
+    priority TEXT,
+    status TEXT,
+    has_attachment BOOLEAN,
+    attachment_url TEXT,
+    attachment_urls TEXT[],
+    created_at TIMESTAMPTZ,
+    updated_at TIMESTAMPTZ,
+    resolved_at TIMESTAMPTZ,
+    first_response_at TIMESTAMPTZ,
+    escalated_at TIMESTAMPTZ,
+    brand_name TEXT,
+    brand_email TEXT
+)
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        sr.id,
+        sr.brand_id,
+        sr.subject,
+        sr.description,
+        sr.priority,
+        sr.status,
+        sr.has_attachment,
+        sr.attachment_url,
+        sr.attachment_urls,
+        sr.created_at,
+        sr.updated_at,
+        sr.resolved_at,
+        sr.first_response_at,
+        sr.escalated_at,
+        COALESCE(b.name, 'Unknown Brand') as brand_name,
+        COALESCE(b.contact_email, 'unknown@example.com') as brand_email
+    FROM support_requests sr
+    LEFT JOIN brands b ON sr.brand_id = b.id
+    ORDER BY sr.created_at DESC;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- 5. SCHEDULED ESCALATION
+-- =============================================
+
+-- Run every 15 minutes where pg_cron is available; the admin dashboard also
+-- triggers a run whenever the support queue is opened
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+        PERFORM cron.schedule(
+            'escalate-breached-support-requests',
+            '*/15 * * * *',
+            'SELECT escalate_breached_support_requests()'
+        );
+    ELSE
+        RAISE NOTICE 'pg_cron not installed; support escalation runs when admins open the support queue';
+    END IF;
+END $$;
+
+-- =============================================
+-- 6. GRANT PERMISSIONS
+-- =============================================
+
+GRANT EXECUTE ON FUNCTION get_support_sla_targets() TO authenticated;
+GRANT EXECUTE ON FUNCTION escalate_breached_support_requests() TO authenticated;
+GRANT EXECUTE ON FUNCTION get_support_sla_metrics(DATE, DATE) TO authenticated;
+GRANT EXECUTE ON FUNCTION admin_get_all_support_requests() TO authenticated;
+
+-- =============================================
+-- 7. VERIFICATION
+-- =============================================
+
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'support_requests' AND column_name = 'first_response_at'
+    ) AND EXISTS (
+        SELECT 1 FROM system_settings WHERE key = 'support_sla'
+    ) THEN
+        RAISE NOTICE 'Support SLA tracking and escalation set up successfully!';
+    ELSE
+        RAISE WARNING 'Support SLA setup may not have completed properly.';
+    END IF;
+END $$;
@@ -0,0 +1,151 @@
+/*
+  # Support Canned Responses
+
+  This migration adds a shared library of reply templates for support
+  agents. Templates can contain placeholders that are filled in on the
+  client when they are inserted into a reply.
+
+  1. New Tables
+    - support_canned_responses: Reply templates with usage tracking
+
+  2. New Functions
+    - record_canned_response_usage: Bumps the usage count when a template
+      is sent as part of a reply
+
+  3. Placeholders
+    - {{brand_name}}, {{request_subject}}, {{request_date}}, {{today}}
+
+  4. Security
+    - Only admins can read or manage templates
+*/
+
+-- =============================================
+-- 1. CANNED RESPONSES TABLE
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS support_canned_responses (
+    id           UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    title        TEXT NOT NULL CHECK (length(trim(title)) > 0),
+    category     TEXT NOT NULL DEFAULT 'general',
+    body         TEXT NOT NULL CHECK (length(trim(body)) > 0),
+    usage_count  INTEGER NOT NULL DEFAULT 0,
+    last_used_at TIMESTAMPTZ,
+    created_by   UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at   TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at   TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_support_canned_responses_usage ON support_canned_responses(usage_count DESC);
+
+-- Only edits count as updates; usage tracking leaves updated_at alone
+CREATE TRIGGER update_support_canned_responses_updated_at
+    BEFORE UPDATE OF title, category, body ON support_canned_responses
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE support_canned_responses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage canned responses" ON support_canned_responses
+    FOR ALL
+    USING (
+        auth.role() = 'authenticated' AND (
+            (auth.jwt() ->> 'user_metadata')::jsonb ->> 'role' = 'admin'
+            OR auth.jwt() ->> 'email' IN (
+                'admin@stylsia.com',
+                'support@stylsia.com',
+                'manager@stylsia.com'
+            )
+        )
+    )
+    WITH CHECK (
+        auth.role() = 'authenticated' AND (
+            (auth.jwt() ->> 'user_metadata')::jsonb ->> 'role' = 'admin'
+            OR auth.jwt() ->> 'email' IN (
+                'admin@stylsia.com',
+                'support@stylsia.com',
+                'manager@stylsia.com'
+            )
+        )
+    );
+
+-- =============================================
+-- 2. SEED TEMPLATES
+-- =============================================
+
+INSERT INTO support_canned_responses (title, category, body)
+SELECT seed.title, seed.category, seed.body
+FROM (VALUES
+    (
+        'Welcome and onboarding',
+        'onboarding',
+        E'Hi {{brand_name}},\n\nThanks for reaching out about "{{request_subject}}". To get your store live, complete your brand profile in Settings, then add your first products from the Products page. New products are reviewed by our team before they appear in the public catalog.\n\nLet us know if anything is unclear.\n\nStylsia Support'
+    ),
+    (
+        'Product pending review',
+        'catalog',
+        E'Hi {{brand_name}},\n\nYour products are in our moderation queue and are usually reviewed within one business day. You will get a notification as soon as a decision is made, including the reason if anything needs to change.\n\nStylsia Support'
+    ),
+    (
+        'Catalog import help',
+        'catalog',
+        E'Hi {{brand_name}},\n\nFor bulk uploads, download the CSV template from the Products page, fill in one row per product and import it back. Rows with errors are listed after the import so you can fix them and try again.\n\nStylsia Support'
+    ),
+    (
+        'Request resolved',
+        'general',
+        E'Hi {{brand_name}},\n\nWe have resolved your request from {{request_date}}. If the issue comes back, just reply here and the request will be reopened.\n\nStylsia Support'
+    )
+) AS seed(title, category, body)
+WHERE NOT EXISTS (SELECT 1 FROM support_canned_responses);
+
+-- =============================================
+-- 3. USAGE TRACKING
+-- =============================================
+
+CREATE OR REPLACE FUNCTION record_canned_response_usage(response_id UUID)
+RETURNS VOID
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT (
+        (auth.jwt() ->> 'user_metadata')::jsonb ->> 'role' = 'admin'
+        OR auth.jwt() ->> 'email' IN (
+            'admin@stylsia.com',
+            'support@stylsia.com',
+            'manager@stylsia.com'
+        )
+    ) THEN
+        RAISE EXCEPTION 'Unauthorized: only admins can use canned responses';
+    END IF;
+
+    UPDATE support_canned_responses cr
+    SET
+        usage_count = cr.usage_count + 1,
+        last_used_at = NOW()
+    WHERE cr.id = response_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- 4. GRANT PERMISSIONS
+-- =============================================
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON support_canned_responses TO authenticated;
+GRANT EXECUTE ON FUNCTION record_canned_response_usage(UUID) TO authenticated;
+
+-- =============================================
+-- 5. VERIFICATION
+-- =============================================
+
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.tables
+        WHERE table_name = 'support_canned_responses'
+    ) THEN
+        RAISE NOTICE 'Support canned responses set up successfully!';
+    ELSE
+        RAISE WARNING 'Canned responses setup may not have completed properly.';
+    END IF;
+END $$;
@@ -0,0 +1,1227 @@
+/*
+  # Role-Based Admin Permissions
+
+  Admin access used to come from a hard-coded email whitelist plus the
+  'role' key in user_metadata, which any signed-in user can change for
+  themselves. This migration stores admin roles server-side and switches
+  every admin policy and function over to them.
+
+  1. New Tables
+    - admin_users: One row per admin with their role
+    - admin_invitations: Pending invitations, claimed on first admin sign-in
+
+  2. Roles and Permissions
+    - super_admin: Everything, including settings and managing admins
+    - catalog_moderator: brands, catalog
+    - support_agent: support
+    - analyst: analytics
+    - Every admin can open the dashboard and read audit logs
+
+  3. New Functions
+    - current_admin_role / has_admin_permission: Used by policies and functions
+    - resolve_admin_role: Claims a pending invitation, then returns the role
+    - admin_invite_admin, admin_set_admin_role, admin_remove_admin,
+      admin_revoke_invitation: Admin management (super_admin only)
+
+  4. Changed Policies and Functions
+    - All admin RLS policies now check has_admin_permission
+    - Admin support, moderation, catalog and settings functions check the
+      matching permission instead of user_metadata or the email whitelist
+    - admin_get_all_support_requests and admin_update_support_request_status
+      were callable by any signed-in user and are now restricted to support
+
+  5. Seed Data
+    - Existing whitelist accounts keep access: support@ becomes a support
+      agent, admin@ and manager@ become super admins
+*/
+
+-- =============================================
+-- 1. ADMIN TABLES
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS admin_users (
+    user_id    UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    email      TEXT NOT NULL,
+    role       TEXT NOT NULL CHECK (role IN ('super_admin', 'catalog_moderator', 'support_agent', 'analyst')),
+    invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS admin_invitations (
+    id         UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    email      TEXT NOT NULL UNIQUE CHECK (email = lower(trim(email))),
+    role       TEXT NOT NULL CHECK (role IN ('super_admin', 'catalog_moderator', 'support_agent', 'analyst')),
+    invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TRIGGER update_admin_users_updated_at
+    BEFORE UPDATE ON admin_users
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE admin_users ENABLE ROW LEVEL SECURITY;
+ALTER TABLE admin_invitations ENABLE ROW LEVEL SECURITY;
+
+-- =============================================
+-- 2. PERMISSION HELPERS
+-- =============================================
+
+CREATE OR REPLACE FUNCTION current_admin_role()
+RETURNS TEXT
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT au.role FROM admin_users au WHERE au.user_id = auth.uid();
+$$ LANGUAGE sql;
+
+-- Keep in sync with ADMIN_ROLE_PERMISSIONS in src/lib/adminAuth.ts
+CREATE OR REPLACE FUNCTION has_admin_permission(permission TEXT)
+RETURNS BOOLEAN
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT COALESCE(
+        CASE current_admin_role()
+            WHEN 'super_admin' THEN TRUE
+            WHEN 'catalog_moderator' THEN permission IN ('dashboard', 'audit', 'brands', 'catalog')
+            WHEN 'support_agent' THEN permission IN ('dashboard', 'audit', 'support')
+            WHEN 'analyst' THEN permission IN ('dashboard', 'audit', 'analytics')
+        END,
+        FALSE
+    );
+$$ LANGUAGE sql;
+
+CREATE POLICY "Admins can view admin users" ON admin_users
+    FOR SELECT
+    USING (current_admin_role() IS NOT NULL);
+
+CREATE POLICY "Super admins can view invitations" ON admin_invitations
+    FOR SELECT
+    USING (has_admin_permission('admins'));
+
+-- =============================================
+-- 3. SEED EXISTING ADMINS
+-- =============================================
+
+INSERT INTO admin_users (user_id, email, role)
+SELECT
+    u.id,
+    lower(u.email),
+    CASE WHEN lower(u.email) = 'support@stylsia.com' THEN 'support_agent' ELSE 'super_admin' END
+FROM auth.users u
+WHERE lower(u.email) IN ('admin@stylsia.com', 'support@stylsia.com', 'manager@stylsia.com')
+ON CONFLICT (user_id) DO NOTHING;
+
+-- Whitelist addresses without an account yet get access on first sign-in
+INSERT INTO admin_invitations (email, role)
+SELECT seed.email, seed.role
+FROM (VALUES
+    ('admin@stylsia.com', 'super_admin'),
+    ('manager@stylsia.com', 'super_admin'),
+    ('support@stylsia.com', 'support_agent')
+) AS seed(email, role)
+WHERE NOT EXISTS (SELECT 1 FROM admin_users au WHERE au.email = seed.email)
+ON CONFLICT (email) DO NOTHING;
+
+-- =============================================
+-- 4. SIGN-IN AND ADMIN MANAGEMENT
+-- =============================================
+
+-- Called by the dashboard after sign-in. Only confirmed email addresses can
+-- claim an invitation.
+CREATE OR REPLACE FUNCTION resolve_admin_role()
+RETURNS TEXT
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    caller_email TEXT;
+    invitation admin_invitations%ROWTYPE;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM admin_users WHERE user_id = auth.uid()) THEN
+        SELECT lower(u.email) INTO caller_email
+        FROM auth.users u
+        WHERE u.id = auth.uid() AND u.email_confirmed_at IS NOT NULL;
+
+        SELECT * INTO invitation FROM admin_invitations WHERE email = caller_email FOR UPDATE;
+
+        IF FOUND THEN
+            INSERT INTO admin_users (user_id, email, role, invited_by)
+            VALUES (auth.uid(), caller_email, invitation.role, invitation.invited_by);
+
+            DELETE FROM admin_invitations WHERE id = invitation.id;
+
+            PERFORM record_audit_event(
+                auth.uid(),
+                'INSERT',
+                'admin_users',
+                auth.uid()::TEXT,
+                jsonb_build_object('source', 'invitation', 'role', invitation.role)
+            );
+        END IF;
+    END IF;
+
+    RETURN current_admin_role();
+END;
+$$ LANGUAGE plpgsql;
+
+-- Existing accounts are granted the role straight away; anyone else gets a
+-- pending invitation. Returns 'added' or 'invited'.
+CREATE OR REPLACE FUNCTION admin_invite_admin(invite_email TEXT, invite_role TEXT)
+RETURNS TEXT
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    normalized_email TEXT := lower(trim(invite_email));
+    existing_user UUID;
+BEGIN
+    IF NOT has_admin_permission('admins') THEN
+        RAISE EXCEPTION 'Unauthorized: only super admins can invite admins';
+    END IF;
+
+    IF invite_role NOT IN ('super_admin', 'catalog_moderator', 'support_agent', 'analyst') THEN
+        RAISE EXCEPTION 'Invalid admin role: %', invite_role;
+    END IF;
+
+    IF normalized_email !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+        RAISE EXCEPTION 'Invalid email address: %', invite_email;
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM admin_users WHERE email = normalized_email) THEN
+        RAISE EXCEPTION '% is already an admin', normalized_email;
+    END IF;
+
+    SELECT u.id INTO existing_user FROM auth.users u WHERE lower(u.email) = normalized_email;
+
+    -- Brand accounts cannot double as admins
+    IF existing_user IS NOT NULL AND EXISTS (SELECT 1 FROM brands WHERE id = existing_user) THEN
+        RAISE EXCEPTION '% belongs to a brand account and cannot be made an admin', normalized_email;
+    END IF;
+
+    IF existing_user IS NOT NULL THEN
+        INSERT INTO admin_users (user_id, email, role, invited_by)
+        VALUES (existing_user, normalized_email, invite_role, auth.uid());
+
+        PERFORM record_audit_event(
+            auth.uid(),
+            'INSERT',
+            'admin_users',
+            existing_user::TEXT,
+            jsonb_build_object('source', 'admin_management', 'email', normalized_email, 'role', invite_role)
+        );
+
+        RETURN 'added';
+    END IF;
+
+    INSERT INTO admin_invitations (email, role, invited_by)
+    VALUES (normalized_email, invite_role, auth.uid())
+    ON CONFLICT (email) DO UPDATE
+    SET role = EXCLUDED.role, invited_by = EXCLUDED.invited_by, created_at = NOW();
+
+    PERFORM record_audit_event(
+        auth.uid(),
+        'INSERT',
+        'admin_invitations',
+        normalized_email,
+        jsonb_build_object('source', 'admin_management', 'role', invite_role)
+    );
+
+    RETURN 'invited';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION admin_set_admin_role(target_user UUID, new_role TEXT)
+RETURNS BOOLEAN
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    previous_role TEXT;
+BEGIN
+    IF NOT has_admin_permission('admins') THEN
+        RAISE EXCEPTION 'Unauthorized: only super admins can change admin roles';
+    END IF;
+
+    IF new_role NOT IN ('super_admin', 'catalog_moderator', 'support_agent', 'analyst') THEN
+        RAISE EXCEPTION 'Invalid admin role: %', new_role;
+    END IF;
+
+    IF target_user = auth.uid() THEN
+        RAISE EXCEPTION 'You cannot change your own role';
+    END IF;
+
+    SELECT role INTO previous_role FROM admin_users WHERE user_id = target_user FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Admin not found';
+    END IF;
+
+    IF previous_role = new_role THEN
+        RETURN FALSE;
+    END IF;
+
+    UPDATE admin_users SET role = new_role WHERE user_id = target_user;
+
+    PERFORM record_audit_event(
+        auth.uid(),
+        'UPDATE',
+        'admin_users',
+        target_user::TEXT,
+        jsonb_build_object(
+            'source', 'admin_management',
+            'role', jsonb_build_object('old', previous_role, 'new', new_role)
+        )
+    );
+
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION admin_remove_admin(target_user UUID)
+RETURNS BOOLEAN
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    removed admin_users%ROWTYPE;
+BEGIN
+    IF NOT has_admin_permission('admins') THEN
+        RAISE EXCEPTION 'Unauthorized: only super admins can remove admins';
+    END IF;
+
+    IF target_user = auth.uid() THEN
+        RAISE EXCEPTION 'You cannot remove your own admin access';
+    END IF;
+
+    DELETE FROM admin_users WHERE user_id = target_user RETURNING * INTO removed;
+
+    IF NOT FOUND THEN
+        RETURN FALSE;
+    END IF;
+
+    -- Open requests go back to the shared queue
+    UPDATE support_requests
+    SET assigned_to = NULL, assigned_at = NULL
+    WHERE assigned_to = target_user AND status IN ('new', 'in_progress');
+
+    PERFORM record_audit_event(
+        auth.uid(),
+        'DELETE',
+        'admin_users',
+        target_user::TEXT,
+        jsonb_build_object('source', 'admin_management', 'email', removed.email, 'role', removed.role)
+    );
+
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION admin_revoke_invitation(invitation_id UUID)
+RETURNS BOOLEAN
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    revoked_email TEXT;
+BEGIN
+    IF NOT has_admin_permission('admins') THEN
+        RAISE EXCEPTION 'Unauthorized: only super admins can revoke invitations';
+    END IF;
+
+    DELETE FROM admin_invitations WHERE id = invitation_id RETURNING email INTO revoked_email;
+
+    IF NOT FOUND THEN
+        RETURN FALSE;
+    END IF;
+
+    PERFORM record_audit_event(
+        auth.uid(),
+        'DELETE',
+        'admin_invitations',
+        revoked_email,
+        jsonb_build_object('source', 'admin_management')
+    );
+
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- 5. ROLE-BASED RLS POLICIES
+-- =============================================
+
+DROP POLICY IF EXISTS "Admins can access all product views" ON product_views;
+CREATE POLICY "Admins can access all product views" ON product_views
+    FOR ALL
+    USING (has_admin_permission('analytics'));
+
+DROP POLICY IF EXISTS "Admins can access all product metrics" ON product_metrics_daily;
+CREATE POLICY "Admins can access all product metrics" ON product_metrics_daily
+    FOR ALL
+    USING (has_admin_permission('analytics'));
+
+DROP POLICY IF EXISTS "Admins can access all brand metrics" ON brand_metrics_daily;
+CREATE POLICY "Admins can access all brand metrics" ON brand_metrics_daily
+    FOR ALL
+    USING (has_admin_permission('analytics'));
+
+DROP POLICY IF EXISTS "admins_read_all_support_requests" ON support_requests;
+CREATE POLICY "admins_read_all_support_requests" ON support_requests
+    FOR SELECT
+    USING (has_admin_permission('support'));
+
+DROP POLICY IF EXISTS "admins_update_support_requests" ON support_requests;
+CREATE POLICY "admins_update_support_requests" ON support_requests
+    FOR UPDATE
+    USING (has_admin_permission('support'));
+
+DROP POLICY IF EXISTS "Admins can manage all brands" ON brands;
+CREATE POLICY "Admins can manage all brands" ON brands
+    FOR ALL
+    USING (has_admin_permission('brands'));
+
+DROP POLICY IF EXISTS "Authenticated users can create brand records" ON brands;
+CREATE POLICY "Authenticated users can create brand records" ON brands
+    FOR INSERT
+    WITH CHECK (
+        auth.role() = 'authenticated'
+        AND (auth.uid() = id OR has_admin_permission('brands'))
+    );
+
+DROP POLICY IF EXISTS "Admins can view audit logs" ON audit_logs;
+CREATE POLICY "Admins can view audit logs" ON audit_logs
+    FOR SELECT
+    USING (has_admin_permission('audit'));
+
+DROP POLICY IF EXISTS "Only admins can modify system settings" ON system_settings;
+CREATE POLICY "Only admins can modify system settings" ON system_settings
+    FOR ALL
+    USING (has_admin_permission('settings'));
+
+DROP POLICY IF EXISTS "Admins can view all moderation decisions" ON product_moderation_decisions;
+CREATE POLICY "Admins can view all moderation decisions" ON product_moderation_decisions
+    FOR SELECT
+    USING (has_admin_permission('catalog'));
+
+DROP POLICY IF EXISTS "Admins can view all support messages" ON support_messages;
+CREATE POLICY "Admins can view all support messages" ON support_messages
+    FOR SELECT
+    USING (has_admin_permission('support'));
+
+DROP POLICY IF EXISTS "Admins can manage canned responses" ON support_canned_responses;
+CREATE POLICY "Admins can manage canned responses" ON support_canned_responses
+    FOR ALL
+    USING (has_admin_permission('support'))
+    WITH CHECK (has_admin_permission('support'));
+
+-- =============================================
+-- 6. SETTINGS
+-- =============================================
+
+CREATE OR REPLACE FUNCTION update_system_setting(
+    setting_key TEXT,
+    setting_value JSONB,
+    user_id UUID DEFAULT auth.uid()
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    IF NOT has_admin_permission('settings') THEN
+        RAISE EXCEPTION 'Unauthorized: Only admins can update system settings';
+    END IF;
+
+    -- Update or insert the setting
+    INSERT INTO system_settings (key, value, updated_by)
+    VALUES (setting_key, setting_value, user_id)
+    ON CONFLICT (key)
+    DO UPDATE SET
+        value = EXCLUDED.value,
+        updated_at = NOW(),
+        updated_by = EXCLUDED.updated_by;
+
+    RETURN TRUE;
+END;
+$$;
+
+-- =============================================
+-- 7. CATALOG FUNCTIONS
+-- =============================================
+
+CREATE OR REPLACE FUNCTION import_brand_catalog(
+    brand_uuid UUID,
+    catalog JSONB
+)
+RETURNS TABLE (
+    created_count INTEGER,
+    updated_count INTEGER
+)
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    item JSONB;
+    product_data JSONB;
+    attributes_data JSONB;
+    target_id UUID;
+    row_label TEXT;
+    created_total INTEGER := 0;
+    updated_total INTEGER := 0;
+BEGIN
+    -- Only the brand itself or an admin may import into this catalog
+    IF NOT (
+        auth.uid() = brand_uuid
+        OR has_admin_permission('catalog')
+    ) THEN
+        RAISE EXCEPTION 'Unauthorized: cannot import products for brand %', brand_uuid;
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM brands WHERE id = brand_uuid) THEN
+        RAISE EXCEPTION 'Brand with ID % does not exist', brand_uuid;
+    END IF;
+
+    IF jsonb_typeof(catalog) IS DISTINCT FROM 'array' THEN
+        RAISE EXCEPTION 'Catalog payload must be a JSON array';
+    END IF;
+
+    FOR item IN SELECT value FROM jsonb_array_elements(catalog) LOOP
+        row_label := COALESCE(item ->> 'row_number', '?');
+        product_data := item -> 'product';
+        attributes_data := item -> 'attributes';
+        target_id := NULL;
+
+        BEGIN
+            -- Match an existing product of this brand
+            SELECT id INTO target_id
+            FROM products
+            WHERE brand_id = brand_uuid
+              AND (
+                source_url = product_data ->> 'source_url'
+                OR (
+                    NULLIF(product_data ->> 'sku', '') IS NOT NULL
+                    AND sku = product_data ->> 'sku'
+                )
+              )
+            ORDER BY (source_url = product_data ->> 'source_url') DESC
+            LIMIT 1;
+
+            IF target_id IS NULL THEN
+                INSERT INTO products (
+                    name,
+                    source_url,
+                    brand_id,
+                    original_price,
+                    current_price,
+                    category,
+                    sub_category,
+                    main_image_url,
+                    description,
+                    sku,
+                    status
+                ) VALUES (
+                    product_data ->> 'name',
+                    product_data ->> 'source_url',
+                    brand_uuid,
+                    (product_data ->> 'original_price')::NUMERIC,
+                    (product_data ->> 'current_price')::NUMERIC,
+                    NULLIF(product_data ->> 'category', ''),
+                    NULLIF(product_data ->> 'sub_category', ''),
+                    NULLIF(product_data ->> 'main_image_url', ''),
+                    NULLIF(product_data ->> 'description', ''),
+                    NULLIF(product_data ->> 'sku', ''),
+                    'pending'
+                ) RETURNING id INTO target_id;
+
+                created_total := created_total + 1;
+            ELSE
+                UPDATE products
+                SET
+                    name = product_data ->> 'name',
+                    source_url = product_data ->> 'source_url',
+                    original_price = (product_data ->> 'original_price')::NUMERIC,
+                    current_price = (product_data ->> 'current_price')::NUMERIC,
+                    category = NULLIF(product_data ->> 'category', ''),
+                    sub_category = NULLIF(product_data ->> 'sub_category', ''),
+                    main_image_url = COALESCE(NULLIF(product_data ->> 'main_image_url', ''), main_image_url),
+                    description = NULLIF(product_data ->> 'description', ''),
+                    sku = NULLIF(product_data ->> 'sku', ''),
+                    updated_at = NOW()
+                WHERE id = target_id;
+
+                updated_total := updated_total + 1;
+            END IF;
+
+            -- Attributes (one row per product)
+            IF jsonb_typeof(attributes_data) = 'object' THEN
+                INSERT INTO product_attributes (
+                    product_id, fabric, fit, collar, sleeve, closure, pattern,
+                    occasion, care_instructions, material, color, style
+                ) VALUES (
+                    target_id,
+                    NULLIF(attributes_data ->> 'fabric', ''),
+                    NULLIF(attributes_data ->> 'fit', ''),
+                    NULLIF(attributes_data ->> 'collar', ''),
+                    NULLIF(attributes_data ->> 'sleeve', ''),
+                    NULLIF(attributes_data ->> 'closure', ''),
+                    NULLIF(attributes_data ->> 'pattern', ''),
+                    NULLIF(attributes_data ->> 'occasion', ''),
+                    NULLIF(attributes_data ->> 'care_instructions', ''),
+                    NULLIF(attributes_data ->> 'material', ''),
+                    NULLIF(attributes_data ->> 'color', ''),
+                    NULLIF(attributes_data ->> 'style', '')
+                )
+                ON CONFLICT (product_id) DO UPDATE SET
+                    fabric = EXCLUDED.fabric,
+                    fit = EXCLUDED.fit,
+                    collar = EXCLUDED.collar,
+                    sleeve = EXCLUDED.sleeve,
+                    closure = EXCLUDED.closure,
+                    pattern = EXCLUDED.pattern,
+                    occasion = EXCLUDED.occasion,
+                    care_instructions = EXCLUDED.care_instructions,
+                    material = EXCLUDED.material,
+                    color = EXCLUDED.color,
+                    style = EXCLUDED.style;
+            END IF;
+
+            -- Images replace the existing gallery when supplied
+            IF jsonb_array_length(COALESCE(item -> 'images', '[]'::jsonb)) > 0 THEN
+                DELETE FROM product_images WHERE product_id = target_id;
+
+                INSERT INTO product_images (product_id, image_url, alt_text, is_main, display_order)
+                SELECT
+                    target_id,
+                    img ->> 'image_url',
+                    NULLIF(img ->> 'alt_text', ''),
+                    COALESCE((img ->> 'is_main')::BOOLEAN, FALSE),
+                    COALESCE((img ->> 'display_order')::INTEGER, 0)
+                FROM jsonb_array_elements(item -> 'images') AS img;
+            END IF;
+
+            -- Sizes replace the existing size run when supplied
+            IF jsonb_array_length(COALESCE(item -> 'sizes', '[]'::jsonb)) > 0 THEN
+                DELETE FROM product_sizes WHERE product_id = target_id;
+
+                INSERT INTO product_sizes (product_id, size, is_available, stock_count)
+                SELECT
+                    target_id,
+                    sz ->> 'size',
+                    COALESCE((sz ->> 'is_available')::BOOLEAN, (sz ->> 'stock_count')::INTEGER > 0),
+                    COALESCE((sz ->> 'stock_count')::INTEGER, 0)
+                FROM jsonb_array_elements(item -> 'sizes') AS sz;
+            END IF;
+        EXCEPTION
+            WHEN OTHERS THEN
+                RAISE EXCEPTION 'Row %: %', row_label, SQLERRM;
+        END;
+    END LOOP;
+
+    -- Record audit event for the whole import
+    PERFORM record_audit_event(
+        auth.uid(),
+        'INSERT',
+        'products',
+        brand_uuid::TEXT,
+        jsonb_build_object(
+            'source', 'catalog_import',
+            'created', created_total,
+            'updated', updated_total
+        )
+    );
+
+    RETURN QUERY SELECT created_total, updated_total;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION save_brand_product(
+    brand_uuid UUID,
+    product_uuid UUID,
+    payload JSONB,
+    submit_for_review BOOLEAN DEFAULT FALSE
+)
+RETURNS UUID
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    target_id UUID := product_uuid;
+    current_status TEXT;
+    next_status TEXT;
+    product_data JSONB := payload -> 'product';
+    attributes_data JSONB := payload -> 'attributes';
+    main_image TEXT;
+BEGIN
+    -- Only the brand itself or an admin may edit this catalog
+    IF NOT (
+        auth.uid() = brand_uuid
+        OR has_admin_permission('catalog')
+    ) THEN
+        RAISE EXCEPTION 'Unauthorized: cannot edit products for brand %', brand_uuid;
+    END IF;
+
+    IF target_id IS NOT NULL THEN
+        SELECT status INTO current_status
+        FROM products
+        WHERE id = target_id AND brand_id = brand_uuid;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Product % not found for this brand', target_id;
+        END IF;
+    END IF;
+
+    -- Partner edits always go back through review before going live
+    next_status := CASE WHEN submit_for_review THEN 'pending' ELSE 'draft' END;
+
+    -- Main image: explicit value, otherwise the image flagged as main
+    SELECT COALESCE(
+        NULLIF(product_data ->> 'main_image_url', ''),
+        (
+            SELECT img ->> 'image_url'
+            FROM jsonb_array_elements(COALESCE(payload -> 'images', '[]'::jsonb)) AS img
+            ORDER BY COALESCE((img ->> 'is_main')::BOOLEAN, FALSE) DESC,
+                     COALESCE((img ->> 'display_order')::INTEGER, 0)
+            LIMIT 1
+        )
+    ) INTO main_image;
+
+    IF target_id IS NULL THEN
+        INSERT INTO products (
+            name,
+            source_url,
+            brand_id,
+            original_price,
+            current_price,
+            category,
+            sub_category,
+            main_image_url,
+            description,
+            sku,
+            status
+        ) VALUES (
+            product_data ->> 'name',
+            product_data ->> 'source_url',
+            brand_uuid,
+            (product_data ->> 'original_price')::NUMERIC,
+            (product_data ->> 'current_price')::NUMERIC,
+            NULLIF(product_data ->> 'category', ''),
+            NULLIF(product_data ->> 'sub_category', ''),
+            main_image,
+            NULLIF(product_data ->> 'description', ''),
+            NULLIF(product_data ->> 'sku', ''),
+            next_status
+        ) RETURNING id INTO target_id;
+    ELSE
+        UPDATE products
+        SET
+            name = product_data ->> 'name',
+            source_url = product_data ->> 'source_url',
+            original_price = (product_data ->> 'original_price')::NUMERIC,
+            current_price = (product_data ->> 'current_price')::NUMERIC,
+            category = NULLIF(product_data ->> 'category', ''),
+            sub_category = NULLIF(product_data ->> 'sub_category', ''),
+            main_image_url = main_image,
+            description = NULLIF(product_data ->> 'description', ''),
+            sku = NULLIF(product_data ->> 'sku', ''),
+            status = next_status,
+            updated_at = NOW()
+        WHERE id = target_id;
+    END IF;
+
+    -- Attributes (one row per product)
+    IF jsonb_typeof(attributes_data) = 'object' THEN
+        INSERT INTO product_attributes (
+            product_id, fabric, fit, collar, sleeve, closure, pattern,
+            occasion, care_instructions, material, color, style
+        ) VALUES (
+            target_id,
+            NULLIF(attributes_data ->> 'fabric', ''),
+            NULLIF(attributes_data ->> 'fit', ''),
+            NULLIF(attributes_data ->> 'collar', ''),
+            NULLIF(attributes_data ->> 'sleeve', ''),
+            NULLIF(attributes_data ->> 'closure', ''),
+            NULLIF(attributes_data ->> 'pattern', ''),
+            NULLIF(attributes_data ->> 'occasion', ''),
+            NULLIF(attributes_data ->> 'care_instructions', ''),
+            NULLIF(attributes_data ->> 'material', ''),
+            NULLIF(attributes_data ->> 'color', ''),
+            NULLIF(attributes_data ->> 'style', '')
+        )
+        ON CONFLICT (product_id) DO UPDATE SET
+            fabric = EXCLUDED.fabric,
+            fit = EXCLUDED.fit,
+            collar = EXCLUDED.collar,
+            sleeve = EXCLUDED.sleeve,
+            closure = EXCLUDED.closure,
+            pattern = EXCLUDED.pattern,
+            occasion = EXCLUDED.occasion,
+            care_instructions = EXCLUDED.care_instructions,
+            material = EXCLUDED.material,
+            color = EXCLUDED.color,
+            style = EXCLUDED.style;
+    END IF;
+
+    -- The editor always sends the full image gallery and size run
+    DELETE FROM product_images WHERE product_id = target_id;
+
+    INSERT INTO product_images (product_id, image_url, alt_text, is_main, display_order)
+    SELECT
+        target_id,
+        img ->> 'image_url',
+        NULLIF(img ->> 'alt_text', ''),
+        COALESCE((img ->> 'is_main')::BOOLEAN, FALSE),
+        COALESCE((img ->> 'display_order')::INTEGER, 0)
+    FROM jsonb_array_elements(COALESCE(payload -> 'images', '[]'::jsonb)) AS img;
+
+    DELETE FROM product_sizes WHERE product_id = target_id;
+
+    INSERT INTO product_sizes (product_id, size, is_available, stock_count)
+    SELECT
+        target_id,
+        sz ->> 'size',
+        COALESCE((sz ->> 'is_available')::BOOLEAN, (sz ->> 'stock_count')::INTEGER > 0),
+        COALESCE((sz ->> 'stock_count')::INTEGER, 0)
+    FROM jsonb_array_elements(COALESCE(payload -> 'sizes', '[]'::jsonb)) AS sz;
+
+    -- Record audit event
+    PERFORM record_audit_event(
+        auth.uid(),
+        CASE WHEN product_uuid IS NULL THEN 'INSERT' ELSE 'UPDATE' END,
+        'products',
+        target_id::TEXT,
+        jsonb_build_object(
+            'source', 'product_editor',
+            'old_status', current_status,
+            'new_status', next_status
+        )
+    );
+
+    RETURN target_id;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION admin_moderate_products(
+    product_ids UUID[],
+    decision TEXT,
+    reason TEXT
+)
+RETURNS INTEGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    target RECORD;
+    next_status TEXT;
+    moderated_count INTEGER := 0;
+BEGIN
+    IF NOT has_admin_permission('catalog') THEN
+        RAISE EXCEPTION 'Unauthorized: only admins can moderate products';
+    END IF;
+
+    IF decision NOT IN ('approved', 'rejected') THEN
+        RAISE EXCEPTION 'Invalid decision: %', decision;
+    END IF;
+
+    IF reason IS NULL OR length(trim(reason)) = 0 THEN
+        RAISE EXCEPTION 'A reason is required for every moderation decision';
+    END IF;
+
+    next_status := CASE WHEN decision = 'approved' THEN 'active' ELSE 'draft' END;
+
+    -- Only products still waiting for review are moderated
+    FOR target IN
+        SELECT id, brand_id
+        FROM products
+        WHERE id = ANY(product_ids) AND status = 'pending'
+        FOR UPDATE
+    LOOP
+        UPDATE products
+        SET status = next_status, updated_at = NOW()
+        WHERE id = target.id;
+
+        INSERT INTO product_moderation_decisions (product_id, brand_id, decision, reason, moderator_id)
+        VALUES (target.id, target.brand_id, decision, trim(reason), auth.uid());
+
+        PERFORM record_audit_event(
+            auth.uid(),
+            'UPDATE',
+            'products',
+            target.id::TEXT,
+            jsonb_build_object(
+                'source', 'moderation',
+                'decision', decision,
+                'reason', trim(reason),
+                'old_status', 'pending',
+                'new_status', next_status
+            )
+        );
+
+        moderated_count := moderated_count + 1;
+    END LOOP;
+
+    RETURN moderated_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- 8. SUPPORT FUNCTIONS
+-- =============================================
+
+CREATE OR REPLACE FUNCTION admin_update_support_request_status(
+    request_id UUID,
+    new_status TEXT,
+    admin_user_id UUID DEFAULT NULL
+)
+RETURNS BOOLEAN
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT has_admin_permission('support') THEN
+        RAISE EXCEPTION 'Unauthorized: only admins can update support requests';
+    END IF;
+
+    UPDATE support_requests
+    SET
+        status = new_status,
+        updated_at = NOW(),
+        resolved_at = CASE
+            WHEN new_status = 'resolved' THEN NOW()
+            ELSE resolved_at
+        END
+    WHERE id = request_id;
+
+    RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION admin_list_support_agents()
+RETURNS TABLE (
+    id UUID,
+    email TEXT,
+    full_name TEXT
+)
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT has_admin_permission('support') THEN
+        RAISE EXCEPTION 'Unauthorized: only admins can list support agents';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        au.user_id,
+        au.email,
+        COALESCE(u.raw_user_meta_data ->> 'full_name', u.raw_user_meta_data ->> 'name')
+    FROM admin_users au
+    JOIN auth.users u ON u.id = au.user_id
+    WHERE au.role IN ('super_admin', 'support_agent')
+    ORDER BY au.email;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION admin_get_all_support_requests()
+RETURNS TABLE (
+    id UUID,
+    brand_id UUID,
+    subject TEXT,
+    description TEXT,
+    priority TEXT,
+    status TEXT,
+    has_attachment BOOLEAN,
+    attachment_url TEXT,
+    attachment_urls TEXT[],
+    created_at TIMESTAMPTZ,
+    updated_at TIMESTAMPTZ,
+    resolved_at TIMESTAMPTZ,
+    first_response_at TIMESTAMPTZ,
+    escalated_at TIMESTAMPTZ,
+    assigned_to UUID,
+    assigned_at TIMESTAMPTZ,
+    brand_name TEXT,
+    brand_email TEXT
+)
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT has_admin_permission('support') THEN
+        RAISE EXCEPTION 'Unauthorized: only admins can list support requests';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        sr.id,
+        sr.brand_id,
+        sr.subject,
+        sr.description,
+        sr.priority,
+        sr.status,
+        sr.has_attachment,
+        sr.attachment_url,
+        sr.attachment_urls,
+        sr.created_at,
+        sr.updated_at,
+        sr.resolved_at,
+        sr.first_response_at,
+        sr.escalated_at,
+        sr.assigned_to,
+        sr.assigned_at,
+        COALESCE(b.name, 'Unknown Brand') as brand_name,
+        COALESCE(b.contact_email, 'unknown@example.com') as brand_email
+    FROM support_requests sr
+    LEFT JOIN brands b ON sr.brand_id = b.id
+    ORDER BY sr.created_at DESC;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION admin_assign_support_request(
+    request_id UUID,
+    assignee_id UUID
+)
+RETURNS BOOLEAN
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    previous_assignee UUID;
+BEGIN
+    IF NOT has_admin_permission('support') THEN
+        RAISE EXCEPTION 'Unauthorized: only admins can assign support requests';
+    END IF;
+
+    -- NULL unassigns; anything else must be an admin who handles support
+    IF assignee_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM admin_users au
+        WHERE au.user_id = assignee_id
+          AND au.role IN ('super_admin', 'support_agent')
+    ) THEN
+        RAISE EXCEPTION 'Support requests can only be assigned to support agents';
+    END IF;
+
+    SELECT sr.assigned_to INTO previous_assignee
+    FROM support_requests sr
+    WHERE sr.id = request_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Support request not found';
+    END IF;
+
+    IF previous_assignee IS NOT DISTINCT FROM assignee_id THEN
+        RETURN FALSE;
+    END IF;
+
+    UPDATE support_requests sr
+    SET
+        assigned_to = assignee_id,
+        assigned_at = CASE WHEN assignee_id IS NULL THEN NULL ELSE NOW() END,
+        updated_at = NOW()
+    WHERE sr.id = request_id;
+
+    PERFORM record_audit_event(
+        auth.uid(),
+        'UPDATE',
+        'support_requests',
+        request_id::TEXT,
+        jsonb_build_object(
+            'source', 'assignment',
+            'assigned_to', jsonb_build_object('old', previous_assignee, 'new', assignee_id)
+        )
+    );
+
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION add_support_message(
+    request_uuid UUID,
+    message_body TEXT,
+    attachments TEXT[] DEFAULT '{}',
+    internal BOOLEAN DEFAULT FALSE
+)
+RETURNS UUID
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    request_row support_requests%ROWTYPE;
+    is_admin BOOLEAN;
+    role TEXT;
+    new_id UUID;
+BEGIN
+    SELECT * INTO request_row FROM support_requests WHERE id = request_uuid FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Support request not found';
+    END IF;
+
+    is_admin := has_admin_permission('support');
+
+    IF is_admin THEN
+        role := 'admin';
+    ELSIF auth.uid() = request_row.brand_id THEN
+        role := 'brand';
+    ELSE
+        RAISE EXCEPTION 'Unauthorized: you cannot reply to this support request';
+    END IF;
+
+    IF internal AND role <> 'admin' THEN
+        RAISE EXCEPTION 'Only admins can add internal notes';
+    END IF;
+
+    IF message_body IS NULL OR length(trim(message_body)) = 0 THEN
+        RAISE EXCEPTION 'Message cannot be empty';
+    END IF;
+
+    INSERT INTO support_messages (request_id, author_id, author_role, body, attachment_urls, is_internal)
+    VALUES (request_uuid, auth.uid(), role, trim(message_body), COALESCE(attachments, '{}'), internal)
+    RETURNING id INTO new_id;
+
+    -- Internal notes never change what the brand sees
+    IF NOT internal THEN
+        UPDATE support_requests
+        SET
+            status = CASE
+                WHEN role = 'admin' AND status = 'new' THEN 'in_progress'
+                WHEN role = 'brand' AND status IN ('resolved', 'closed') THEN 'in_progress'
+                ELSE status
+            END,
+            updated_at = NOW()
+        WHERE id = request_uuid;
+
+        IF role = 'admin' AND request_row.brand_id IS NOT NULL THEN
+            PERFORM create_brand_notification(
+                request_row.brand_id,
+                'support_update',
+                'New reply from Stylsia support',
+                format('Support replied to "%s".', request_row.subject),
+                '/dashboard/messages',
+                jsonb_build_object('support_request_id', request_uuid, 'message_id', new_id)
+            );
+        END IF;
+    END IF;
+
+    RETURN new_id;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION escalate_breached_support_requests()
+RETURNS INTEGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    targets JSONB;
+    target RECORD;
+    next_priority TEXT;
+    escalated_count INTEGER := 0;
+BEGIN
+    -- Scheduled runs have no user; signed-in callers must be admins
+    IF auth.uid() IS NOT NULL AND NOT has_admin_permission('support') THEN
+        RAISE EXCEPTION 'Unauthorized: only admins can escalate support requests';
+    END IF;
+
+    targets := get_support_sla_targets();
+
+    IF NOT COALESCE((targets ->> 'auto_escalate')::BOOLEAN, TRUE) THEN
+        RETURN 0;
+    END IF;
+
+    FOR target IN
+        SELECT sr.id, sr.priority, sr.first_response_at, COALESCE(sr.escalated_at, sr.created_at) AS clock_start
+        FROM support_requests sr
+        WHERE sr.status IN ('new', 'in_progress') AND sr.priority IN ('low', 'medium')
+        FOR UPDATE
+    LOOP
+        IF (
+            target.first_response_at IS NULL
+            AND NOW() > target.clock_start
+                + make_interval(hours => (targets -> target.priority ->> 'first_response_hours')::INTEGER)
+        ) OR (
+            NOW() > target.clock_start
+                + make_interval(hours => (targets -> target.priority ->> 'resolution_hours')::INTEGER)
+        ) THEN
+            next_priority := CASE target.priority WHEN 'low' THEN 'medium' ELSE 'high' END;
+
+            UPDATE support_requests
+            SET priority = next_priority, escalated_at = NOW(), updated_at = NOW()
+            WHERE id = target.id;
+
+            PERFORM record_audit_event(
+                auth.uid(),
+                'UPDATE',
+                'support_requests',
+                target.id::TEXT,
+                jsonb_build_object(
+                    'source', 'sla_escalation',
+                    'priority', jsonb_build_object('old', target.priority, 'new', next_priority)
+                )
+            );
+
+            escalated_count := escalated_count + 1;
+        END IF;
+    END LOOP;
+
+    RETURN escalated_count;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION record_canned_response_usage(response_id UUID)
+RETURNS VOID
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT has_admin_permission('support') THEN
+        RAISE EXCEPTION 'Unauthorized: only admins can use canned responses';
+    END IF;
+
+    UPDATE support_canned_responses cr
+    SET
+        usage_count = cr.usage_count + 1,
+        last_used_at = NOW()
+    WHERE cr.id = response_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- 9. GRANT PERMISSIONS
+-- =============================================
+
+GRANT SELECT ON admin_users TO authenticated;
+GRANT SELECT ON admin_invitations TO authenticated;
+GRANT EXECUTE ON FUNCTION current_admin_role() TO authenticated;
+GRANT EXECUTE ON FUNCTION has_admin_permission(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION resolve_admin_role() TO authenticated;
+GRANT EXECUTE ON FUNCTION admin_invite_admin(TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION admin_set_admin_role(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION admin_remove_admin(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION admin_revoke_invitation(UUID) TO authenticated;
+
+-- =============================================
+-- 10. VERIFICATION
+-- =============================================
+
+DO $$
+DECLARE
+    super_admins INTEGER;
+BEGIN
+    SELECT COUNT(*) INTO super_admins FROM admin_users WHERE role = 'super_admin';
+
+    IF super_admins > 0 THEN
+        RAISE NOTICE 'Admin roles set up successfully with % super admin(s)', super_admins;
+    ELSE
+        RAISE WARNING 'No super admin yet: the first whitelisted account to sign in will claim its invitation.';
+    END IF;
+END $$;
@@ -0,0 +1,977 @@
+/*
+  # Brand Team Members
+
+  Every brand used to be a single account: the brand id was the id of the
+  user who signed up, and every brand policy compared it with auth.uid().
+  This migration lets several accounts work on one brand and resolves the
+  brand from membership instead.
+
+  1. New Tables
+    - brand_members: One row per account with access to a brand, with a role
+    - brand_invitations: Pending invitations, claimed on sign-in
+
+  2. Roles
+    - owner: Everything, including brand settings and managing the team
+    - editor: Products, catalog imports and support conversations
+    - viewer: Read-only access to the dashboard
+
+  3. New Functions
+    - brand_member_role / is_brand_member: Used by policies and functions
+    - resolve_brand_memberships: Claims pending invitations, then lists the
+      brands the caller belongs to
+    - brand_invite_member, brand_set_member_role, brand_remove_member,
+      brand_revoke_invitation: Team management (owners only)
+
+  4. Changed Policies and Functions
+    - Brand, product, support, notification and storage policies check
+      membership instead of auth.uid() = brand id
+    - import_brand_catalog, save_brand_product and add_support_message accept
+      any editor of the brand
+
+  5. Seed Data
+    - The account behind every existing brand becomes its owner, and new
+      brands get an owner membership when they are created
+*/
+
+-- =============================================
+-- 1. TEAM TABLES
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS brand_members (
+    brand_id   UUID NOT NULL REFERENCES brands(id) ON DELETE CASCADE,
+    user_id    UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    email      TEXT NOT NULL,
+    role       TEXT NOT NULL CHECK (role IN ('owner', 'editor', 'viewer')),
+    invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (brand_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_brand_members_user ON brand_members(user_id);
+
+CREATE TABLE IF NOT EXISTS brand_invitations (
+    id         UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    brand_id   UUID NOT NULL REFERENCES brands(id) ON DELETE CASCADE,
+    email      TEXT NOT NULL CHECK (email = lower(trim(email))),
+    role       TEXT NOT NULL CHECK (role IN ('owner', 'editor', 'viewer')),
+    invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (brand_id, email)
+);
+
+CREATE INDEX IF NOT EXISTS idx_brand_invitations_email ON brand_invitations(email);
+
+CREATE TRIGGER update_brand_members_updated_at
+    BEFORE UPDATE ON brand_members
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE brand_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE brand_invitations ENABLE ROW LEVEL SECURITY;
+
+-- =============================================
+-- 2. MEMBERSHIP HELPERS
+-- =============================================
+
+CREATE OR REPLACE FUNCTION brand_member_role(brand UUID)
+RETURNS TEXT
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT bm.role FROM brand_members bm
+    WHERE bm.brand_id = brand AND bm.user_id = auth.uid();
+$$ LANGUAGE sql;
+
+-- Roles are ranked viewer < editor < owner; keep in sync with
+-- BRAND_ROLE_RANK in src/lib/brandTeam.ts
+CREATE OR REPLACE FUNCTION is_brand_member(brand UUID, min_role TEXT DEFAULT 'viewer')
+RETURNS BOOLEAN
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT COALESCE(
+        (
+            SELECT array_position(ARRAY['viewer', 'editor', 'owner'], brand_member_role(brand))
+                >= array_position(ARRAY['viewer', 'editor', 'owner'], min_role)
+        ),
+        FALSE
+    );
+$$ LANGUAGE sql;
+
+CREATE POLICY "Members can view their team" ON brand_members
+    FOR SELECT
+    USING (is_brand_member(brand_id));
+
+CREATE POLICY "Owners can view team invitations" ON brand_invitations
+    FOR SELECT
+    USING (is_brand_member(brand_id, 'owner'));
+
+-- =============================================
+-- 3. SEED EXISTING OWNERS
+-- =============================================
+
+INSERT INTO brand_members (brand_id, user_id, email, role)
+SELECT b.id, u.id, lower(u.email), 'owner'
+FROM brands b
+JOIN auth.users u ON u.id = b.id
+ON CONFLICT (brand_id, user_id) DO NOTHING;
+
+-- Brands are created with the id of the account that signs up, which
+-- becomes the first owner
+CREATE OR REPLACE FUNCTION add_brand_owner_membership()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    INSERT INTO brand_members (brand_id, user_id, email, role)
+    SELECT NEW.id, u.id, lower(u.email), 'owner'
+    FROM auth.users u
+    WHERE u.id = NEW.id
+    ON CONFLICT (brand_id, user_id) DO NOTHING;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS add_brand_owner_membership ON brands;
+CREATE TRIGGER add_brand_owner_membership
+    AFTER INSERT ON brands
+    FOR EACH ROW
+    EXECUTE FUNCTION add_brand_owner_membership();
+
+-- =============================================
+-- 4. SIGN-IN AND TEAM MANAGEMENT
+-- =============================================
+
+-- Called by the dashboard after sign-in. Only confirmed email addresses can
+-- claim an invitation.
+CREATE OR REPLACE FUNCTION resolve_brand_memberships()
+RETURNS TABLE (
+    brand_id UUID,
+    brand_name TEXT,
+    role TEXT
+)
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    caller_email TEXT;
+    invitation brand_invitations%ROWTYPE;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RETURN;
+    END IF;
+
+    SELECT lower(u.email) INTO caller_email
+    FROM auth.users u
+    WHERE u.id = auth.uid() AND u.email_confirmed_at IS NOT NULL;
+
+    IF caller_email IS NOT NULL THEN
+        FOR invitation IN
+            SELECT * FROM brand_invitations bi WHERE bi.email = caller_email FOR UPDATE
+        LOOP
+            INSERT INTO brand_members (brand_id, user_id, email, role, invited_by)
+            VALUES (invitation.brand_id, auth.uid(), caller_email, invitation.role, invitation.invited_by)
+            ON CONFLICT ON CONSTRAINT brand_members_pkey DO NOTHING;
+
+            DELETE FROM brand_invitations bi WHERE bi.id = invitation.id;
+
+            PERFORM record_audit_event(
+                auth.uid(),
+                'INSERT',
+                'brand_members',
+                invitation.brand_id::TEXT,
+                jsonb_build_object('source', 'invitation', 'role', invitation.role)
+            );
+        END LOOP;
+    END IF;
+
+    RETURN QUERY
+    SELECT bm.brand_id, b.name::TEXT, bm.role
+    FROM brand_members bm
+    JOIN brands b ON b.id = bm.brand_id
+    WHERE bm.user_id = auth.uid()
+    ORDER BY (bm.brand_id = auth.uid()) DESC, b.name;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Existing accounts join the team straight away; anyone else gets a pending
+-- invitation. Returns 'added' or 'invited'.
+CREATE OR REPLACE FUNCTION brand_invite_member(brand UUID, invite_email TEXT, invite_role TEXT)
+RETURNS TEXT
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    normalized_email TEXT := lower(trim(invite_email));
+    existing_user UUID;
+BEGIN
+    IF NOT is_brand_member(brand, 'owner') THEN
+        RAISE EXCEPTION 'Unauthorized: only brand owners can invite team members';
+    END IF;
+
+    IF invite_role NOT IN ('owner', 'editor', 'viewer') THEN
+        RAISE EXCEPTION 'Invalid team role: %', invite_role;
+    END IF;
+
+    IF normalized_email !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+        RAISE EXCEPTION 'Invalid email address: %', invite_email;
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM brand_members WHERE brand_id = brand AND email = normalized_email) THEN
+        RAISE EXCEPTION '% is already on this team', normalized_email;
+    END IF;
+
+    SELECT u.id INTO existing_user FROM auth.users u WHERE lower(u.email) = normalized_email;
+
+    -- Admin accounts cannot double as brand members
+    IF existing_user IS NOT NULL AND EXISTS (SELECT 1 FROM admin_users WHERE user_id = existing_user) THEN
+        RAISE EXCEPTION '% belongs to an admin account and cannot join a brand team', normalized_email;
+    END IF;
+
+    IF existing_user IS NOT NULL THEN
+        INSERT INTO brand_members (brand_id, user_id, email, role, invited_by)
+        VALUES (brand, existing_user, normalized_email, invite_role, auth.uid());
+
+        PERFORM record_audit_event(
+            auth.uid(),
+            'INSERT',
+            'brand_members',
+            brand::TEXT,
+            jsonb_build_object('source', 'team_management', 'email', normalized_email, 'role', invite_role)
+        );
+
+        RETURN 'added';
+    END IF;
+
+    INSERT INTO brand_invitations (brand_id, email, role, invited_by)
+    VALUES (brand, normalized_email, invite_role, auth.uid())
+    ON CONFLICT (brand_id, email) DO UPDATE
+    SET role = EXCLUDED.role, invited_by = EXCLUDED.invited_by, created_at = NOW();
+
+    PERFORM record_audit_event(
+        auth.uid(),
+        'INSERT',
+        'brand_invitations',
+        brand::TEXT,
+        jsonb_build_object('source', 'team_management', 'email', normalized_email, 'role', invite_role)
+    );
+
+    RETURN 'invited';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION brand_set_member_role(brand UUID, target_user UUID, new_role TEXT)
+RETURNS VOID
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    previous_role TEXT;
+BEGIN
+    IF NOT is_brand_member(brand, 'owner') THEN
+        RAISE EXCEPTION 'Unauthorized: only brand owners can change team roles';
+    END IF;
+
+    IF new_role NOT IN ('owner', 'editor', 'viewer') THEN
+        RAISE EXCEPTION 'Invalid team role: %', new_role;
+    END IF;
+
+    -- Owners cannot demote themselves, so every team keeps at least one owner
+    IF target_user = auth.uid() THEN
+        RAISE EXCEPTION 'You cannot change your own role';
+    END IF;
+
+    SELECT role INTO previous_role
+    FROM brand_members
+    WHERE brand_id = brand AND user_id = target_user
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Team member not found';
+    END IF;
+
+    UPDATE brand_members SET role = new_role
+    WHERE brand_id = brand AND user_id = target_user;
+
+    PERFORM record_audit_event(
+        auth.uid(),
+        'UPDATE',
+        'brand_members',
+        brand::TEXT,
+        jsonb_build_object(
+            'source', 'team_management',
+            'user_id', target_user,
+            'previous_role', previous_role,
+            'role', new_role
+        )
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION brand_remove_member(brand UUID, target_user UUID)
+RETURNS VOID
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    removed brand_members%ROWTYPE;
+BEGIN
+    IF NOT is_brand_member(brand, 'owner') THEN
+        RAISE EXCEPTION 'Unauthorized: only brand owners can remove team members';
+    END IF;
+
+    IF target_user = auth.uid() THEN
+        RAISE EXCEPTION 'You cannot remove yourself from the team';
+    END IF;
+
+    DELETE FROM brand_members
+    WHERE brand_id = brand AND user_id = target_user
+    RETURNING * INTO removed;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Team member not found';
+    END IF;
+
+    PERFORM record_audit_event(
+        auth.uid(),
+        'DELETE',
+        'brand_members',
+        brand::TEXT,
+        jsonb_build_object('source', 'team_management', 'email', removed.email, 'role', removed.role)
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION brand_revoke_invitation(invitation_id UUID)
+RETURNS VOID
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    revoked brand_invitations%ROWTYPE;
+BEGIN
+    SELECT * INTO revoked FROM brand_invitations WHERE id = invitation_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Invitation not found';
+    END IF;
+
+    IF NOT is_brand_member(revoked.brand_id, 'owner') THEN
+        RAISE EXCEPTION 'Unauthorized: only brand owners can revoke invitations';
+    END IF;
+
+    DELETE FROM brand_invitations WHERE id = invitation_id;
+
+    PERFORM record_audit_event(
+        auth.uid(),
+        'DELETE',
+        'brand_invitations',
+        revoked.brand_id::TEXT,
+        jsonb_build_object('source', 'team_management', 'email', revoked.email, 'role', revoked.role)
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- 5. MEMBERSHIP-BASED RLS POLICIES
+-- =============================================
+
+DROP POLICY IF EXISTS "Brands can read own records" ON brands;
+CREATE POLICY "Brands can read own records" ON brands
+    FOR SELECT
+    USING (is_brand_member(id));
+
+-- Brand profile and settings are owner-only
+DROP POLICY IF EXISTS "Brands can update own records" ON brands;
+CREATE POLICY "Brands can update own records" ON brands
+    FOR UPDATE
+    USING (is_brand_member(id, 'owner'));
+
+-- Only active products are public; members also see drafts and inactive ones
+DROP POLICY IF EXISTS "Brand members can view their products" ON products;
+CREATE POLICY "Brand members can view their products" ON products
+    FOR SELECT
+    USING (is_brand_member(brand_id));
+
+DROP POLICY IF EXISTS "brands_read_own_support_requests" ON support_requests;
+CREATE POLICY "brands_read_own_support_requests" ON support_requests
+    FOR SELECT
+    USING (is_brand_member(brand_id));
+
+DROP POLICY IF EXISTS "brands_create_own_support_requests" ON support_requests;
+CREATE POLICY "brands_create_own_support_requests" ON support_requests
+    FOR INSERT
+    WITH CHECK (is_brand_member(brand_id, 'editor'));
+
+DROP POLICY IF EXISTS "Brands can view replies on their requests" ON support_messages;
+CREATE POLICY "Brands can view replies on their requests" ON support_messages
+    FOR SELECT
+    USING (
+        NOT is_internal AND EXISTS (
+            SELECT 1 FROM support_requests sr
+            WHERE sr.id = support_messages.request_id AND is_brand_member(sr.brand_id)
+        )
+    );
+
+DROP POLICY IF EXISTS "Brands can view their moderation decisions" ON product_moderation_decisions;
+CREATE POLICY "Brands can view their moderation decisions" ON product_moderation_decisions
+    FOR SELECT
+    USING (is_brand_member(brand_id));
+
+DROP POLICY IF EXISTS "Brands can view their notifications" ON notifications;
+CREATE POLICY "Brands can view their notifications" ON notifications
+    FOR SELECT
+    USING (is_brand_member(brand_id));
+
+DROP POLICY IF EXISTS "Brands can update their notifications" ON notifications;
+CREATE POLICY "Brands can update their notifications" ON notifications
+    FOR UPDATE
+    USING (is_brand_member(brand_id))
+    WITH CHECK (is_brand_member(brand_id));
+
+DROP POLICY IF EXISTS "Brands can delete their notifications" ON notifications;
+CREATE POLICY "Brands can delete their notifications" ON notifications
+    FOR DELETE
+    USING (is_brand_member(brand_id));
+
+DROP POLICY IF EXISTS "Brands can view their notification preferences" ON notification_preferences;
+CREATE POLICY "Brands can view their notification preferences" ON notification_preferences
+    FOR SELECT
+    USING (is_brand_member(brand_id));
+
+DROP POLICY IF EXISTS "Brands can create their notification preferences" ON notification_preferences;
+CREATE POLICY "Brands can create their notification preferences" ON notification_preferences
+    FOR INSERT
+    WITH CHECK (is_brand_member(brand_id, 'owner'));
+
+DROP POLICY IF EXISTS "Brands can update their notification preferences" ON notification_preferences;
+CREATE POLICY "Brands can update their notification preferences" ON notification_preferences
+    FOR UPDATE
+    USING (is_brand_member(brand_id, 'owner'))
+    WITH CHECK (is_brand_member(brand_id, 'owner'));
+
+-- Product images live in a folder named after the brand id
+DROP POLICY IF EXISTS "Allow brands to upload their product images" ON storage.objects;
+CREATE POLICY "Allow brands to upload their product images"
+ON storage.objects FOR INSERT
+WITH CHECK (
+  bucket_id = 'product-images'
+  AND auth.role() = 'authenticated'
+  AND EXISTS (
+    SELECT 1 FROM brand_members bm
+    WHERE bm.brand_id::text = (storage.foldername(name))[1]
+      AND bm.user_id = auth.uid()
+      AND bm.role IN ('owner', 'editor')
+  )
+);
+
+DROP POLICY IF EXISTS "Allow brands to delete their product images" ON storage.objects;
+CREATE POLICY "Allow brands to delete their product images"
+ON storage.objects FOR DELETE
+USING (
+  bucket_id = 'product-images'
+  AND auth.role() = 'authenticated'
+  AND EXISTS (
+    SELECT 1 FROM brand_members bm
+    WHERE bm.brand_id::text = (storage.foldername(name))[1]
+      AND bm.user_id = auth.uid()
+      AND bm.role IN ('owner', 'editor')
+  )
+);
+
+DROP POLICY IF EXISTS "Users can update their own brand logos" ON storage.objects;
+CREATE POLICY "Users can update their own brand logos"
+ON storage.objects FOR UPDATE
+USING (
+  bucket_id = 'brand-assets' AND
+  (storage.foldername(name))[1] = 'brand-logos' AND
+  auth.role() = 'authenticated' AND
+  (auth.uid() = owner OR EXISTS (
+     SELECT 1 FROM brands b
+     WHERE b.logo_url LIKE '%' || name || '%' AND is_brand_member(b.id, 'owner')
+   ))
+);
+
+DROP POLICY IF EXISTS "Users can delete their own brand logos" ON storage.objects;
+CREATE POLICY "Users can delete their own brand logos"
+ON storage.objects FOR DELETE
+USING (
+  bucket_id = 'brand-assets' AND
+  (storage.foldername(name))[1] = 'brand-logos' AND
+  auth.role() = 'authenticated' AND
+  (auth.uid() = owner OR EXISTS (
+     SELECT 1 FROM brands b
+     WHERE b.logo_url LIKE '%' || name || '%' AND is_brand_member(b.id, 'owner')
+   ))
+);
+
+-- =============================================
+-- 6. CATALOG FUNCTIONS
+-- =============================================
+
+CREATE OR REPLACE FUNCTION import_brand_catalog(
+    brand_uuid UUID,
+    catalog JSONB
+)
+RETURNS TABLE (
+    created_count INTEGER,
+    updated_count INTEGER
+)
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    item JSONB;
+    product_data JSONB;
+    attributes_data JSONB;
+    target_id UUID;
+    row_label TEXT;
+    created_total INTEGER := 0;
+    updated_total INTEGER := 0;
+BEGIN
+    -- Only brand editors or an admin may import into this catalog
+    IF NOT (
+        is_brand_member(brand_uuid, 'editor')
+        OR has_admin_permission('catalog')
+    ) THEN
+        RAISE EXCEPTION 'Unauthorized: cannot import products for brand %', brand_uuid;
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM brands WHERE id = brand_uuid) THEN
+        RAISE EXCEPTION 'Brand with ID % does not exist', brand_uuid;
+    END IF;
+
+    IF jsonb_typeof(catalog) IS DISTINCT FROM 'array' THEN
+        RAISE EXCEPTION 'Catalog payload must be a JSON array';
+    END IF;
+
+    FOR item IN SELECT value FROM jsonb_array_elements(catalog) LOOP
+        row_label := COALESCE(item ->> 'row_number', '?');
+        product_data := item -> 'product';
+        attributes_data := item -> 'attributes';
+        target_id := NULL;
+
+        BEGIN
+            -- Match an existing product of this brand
+            SELECT id INTO target_id
+            FROM products
+            WHERE brand_id = brand_uuid
+              AND (
+                source_url = product_data ->> 'source_url'
+                OR (
+                    NULLIF(product_data ->> 'sku', '') IS NOT NULL
+                    AND sku = product_data ->> 'sku'
+                )
+              )
+            ORDER BY (source_url = product_data ->> 'source_url') DESC
+            LIMIT 1;
+
+            IF target_id IS NULL THEN
+                INSERT INTO products (
+                    name,
+                    source_url,
+                    brand_id,
+                    original_price,
+                    current_price,
+                    category,
+                    sub_category,
+                    main_image_url,
+                    description,
+                    sku,
+                    status
+                ) VALUES (
+                    product_data ->> 'name',
+                    product_data ->> 'source_url',
+                    brand_uuid,
+                    (product_data ->> 'original_price')::NUMERIC,
+                    (product_data ->> 'current_price')::NUMERIC,
+                    NULLIF(product_data ->> 'category', ''),
+                    NULLIF(product_data ->> 'sub_category', ''),
+                    NULLIF(product_data ->> 'main_image_url', ''),
+                    NULLIF(product_data ->> 'description', ''),
+                    NULLIF(product_data ->> 'sku', ''),
+                    'pending'
+                ) RETURNING id INTO target_id;
+
+                created_total := created_total + 1;
+            ELSE
+                UPDATE products
+                SET
+                    name = product_data ->> 'name',
+                    source_url = product_data ->> 'source_url',
+                    original_price = (product_data ->> 'original_price')::NUMERIC,
+                    current_price = (product_data ->> 'current_price')::NUMERIC,
+                    category = NULLIF(product_data ->> 'category', ''),
+                    sub_category = NULLIF(product_data ->> 'sub_category', ''),
+                    main_image_url = COALESCE(NULLIF(product_data ->> 'main_image_url', ''), main_image_url),
+                    description = NULLIF(product_data ->> 'description', ''),
+                    sku = NULLIF(product_data ->> 'sku', ''),
+                    updated_at = NOW()
+                WHERE id = target_id;
+
+                updated_total := updated_total + 1;
+            END IF;
+
+            -- Attributes (one row per product)
+            IF jsonb_typeof(attributes_data) = 'object' THEN
+                INSERT INTO product_attributes (
+                    product_id, fabric, fit, collar, sleeve, closure, pattern,
+                    occasion, care_instructions, material, color, style
+                ) VALUES (
+                    target_id,
+                    NULLIF(attributes_data ->> 'fabric', ''),
+                    NULLIF(attributes_data ->> 'fit', ''),
+                    NULLIF(attributes_data ->> 'collar', ''),
+                    NULLIF(attributes_data ->> 'sleeve', ''),
+                    NULLIF(attributes_data ->> 'closure', ''),
+                    NULLIF(attributes_data ->> 'pattern', ''),
+                    NULLIF(attributes_data ->> 'occasion', ''),
+                    NULLIF(attributes_data ->> 'care_instructions', ''),
+                    NULLIF(attributes_data ->> 'material', ''),
+                    NULLIF(attributes_data ->> 'color', ''),
+                    NULLIF(attributes_data ->> 'style', '')
+                )
+                ON CONFLICT (product_id) DO UPDATE SET
+                    fabric = EXCLUDED.fabric,
+                    fit = EXCLUDED.fit,
+                    collar = EXCLUDED.collar,
+                    sleeve = EXCLUDED.sleeve,
+                    closure = EXCLUDED.closure,
+                    pattern = EXCLUDED.pattern,
+                    occasion = EXCLUDED.occasion,
+                    care_instructions = EXCLUDED.care_instructions,
+                    material = EXCLUDED.material,
+                    color = EXCLUDED.color,
+                    style = EXCLUDED.style;
+            END IF;
+
+            -- Images replace the existing gallery when supplied
+            IF jsonb_array_length(COALESCE(item -> 'images', '[]'::jsonb)) > 0 THEN
+                DELETE FROM product_images WHERE product_id = target_id;
+
+                INSERT INTO product_images (product_id, image_url, alt_text, is_main, display_order)
+                SELECT
+                    target_id,
+                    img ->> 'image_url',
+                    NULLIF(img ->> 'alt_text', ''),
+                    COALESCE((img ->> 'is_main')::BOOLEAN, FALSE),
+                    COALESCE((img ->> 'display_order')::INTEGER, 0)
+                FROM jsonb_array_elements(item -> 'images') AS img;
+            END IF;
+
+            -- Sizes replace the existing size run when supplied
+            IF jsonb_array_length(COALESCE(item -> 'sizes', '[]'::jsonb)) > 0 THEN
+                DELETE FROM product_sizes WHERE product_id = target_id;
+
+                INSERT INTO product_sizes (product_id, size, is_available, stock_count)
+                SELECT
+                    target_id,
+                    sz ->> 'size',
+                    COALESCE((sz ->> 'is_available')::BOOLEAN, (sz ->> 'stock_count')::INTEGER > 0),
+                    COALESCE((sz ->> 'stock_count')::INTEGER, 0)
+                FROM jsonb_array_elements(item -> 'sizes') AS sz;
+            END IF;
+        EXCEPTION
+            WHEN OTHERS THEN
+                RAISE EXCEPTION 'Row %: %', row_label, SQLERRM;
+        END;
+    END LOOP;
+
+    -- Record audit event for the whole import
+    PERFORM record_audit_event(
+        auth.uid(),
+        'INSERT',
+        'products',
+        brand_uuid::TEXT,
+        jsonb_build_object(
+            'source', 'catalog_import',
+            'created', created_total,
+            'updated', updated_total
+        )
+    );
+
+    RETURN QUERY SELECT created_total, updated_total;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION save_brand_product(
+    brand_uuid UUID,
+    product_uuid UUID,
+    payload JSONB,
+    submit_for_review BOOLEAN DEFAULT FALSE
+)
+RETURNS UUID
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    target_id UUID := product_uuid;
+    current_status TEXT;
+    next_status TEXT;
+    product_data JSONB := payload -> 'product';
+    attributes_data JSONB := payload -> 'attributes';
+    main_image TEXT;
+BEGIN
+    -- Only brand editors or an admin may edit this catalog
+    IF NOT (
+        is_brand_member(brand_uuid, 'editor')
+        OR has_admin_permission('catalog')
+    ) THEN
+        RAISE EXCEPTION 'Unauthorized: cannot edit products for brand %', brand_uuid;
+    END IF;
+
+    IF target_id IS NOT NULL THEN
+        SELECT status INTO current_status
+        FROM products
+        WHERE id = target_id AND brand_id = brand_uuid;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Product % not found for this brand', target_id;
+        END IF;
+    END IF;
+
+    -- Partner edits always go back through review before going live
+    next_status := CASE WHEN submit_for_review THEN 'pending' ELSE 'draft' END;
+
+    -- Main image: explicit value, otherwise the image flagged as main
+    SELECT COALESCE(
+        NULLIF(product_data ->> 'main_image_url', ''),
+        (
+            SELECT img ->> 'image_url'
+            FROM jsonb_array_elements(COALESCE(payload -> 'images', '[]'::jsonb)) AS img
+            ORDER BY COALESCE((img ->> 'is_main')::BOOLEAN, FALSE) DESC,
+                     COALESCE((img ->> 'display_order')::INTEGER, 0)
+            LIMIT 1
+        )
+    ) INTO main_image;
+
+    IF target_id IS NULL THEN
+        INSERT INTO products (
+            name,
+            source_url,
+            brand_id,
+            original_price,
+            current_price,
+            category,
+            sub_category,
+            main_image_url,
+            description,
+            sku,
+            status
+        ) VALUES (
+            product_data ->> 'name',
+            product_data ->> 'source_url',
+            brand_uuid,
+            (product_data ->> 'original_price')::NUMERIC,
+            (product_data ->> 'current_price')::NUMERIC,
+            NULLIF(product_data ->> 'category', ''),
+            NULLIF(product_data ->> 'sub_category', ''),
+            main_image,
+            NULLIF(product_data ->> 'description', ''),
+            NULLIF(product_data ->> 'sku', ''),
+            next_status
+        ) RETURNING id INTO target_id;
+    ELSE
+        UPDATE products
+        SET
+            name = product_data ->> 'name',
+            source_url = product_data ->> 'source_url',
+            original_price = (product_data ->> 'original_price')::NUMERIC,
+            current_price = (product_data ->> 'current_price')::NUMERIC,
+            category = NULLIF(product_data ->> 'category', ''),
+            sub_category = NULLIF(product_data ->> 'sub_category', ''),
+            main_image_url = main_image,
+            description = NULLIF(product_data ->> 'description', ''),
+            sku = NULLIF(product_data ->> 'sku', ''),
+            status = next_status,
+            updated_at = NOW()
+        WHERE id = target_id;
+    END IF;
+
+    -- Attributes (one row per product)
+    IF jsonb_typeof(attributes_data) = 'object' THEN
+        INSERT INTO product_attributes (
+            product_id, fabric, fit, collar, sleeve, closure, pattern,
+            occasion, care_instructions, material, color, style
+        ) VALUES (
+            target_id,
+            NULLIF(attributes_data ->> 'fabric', ''),
+            NULLIF(attributes_data ->> 'fit', ''),
+            NULLIF(attributes_data ->> 'collar', ''),
+            NULLIF(attributes_data ->> 'sleeve', ''),
+            NULLIF(attributes_data ->> 'closure', ''),
+            NULLIF(attributes_data ->> 'pattern', ''),
+            NULLIF(attributes_data ->> 'occasion', ''),
+            NULLIF(attributes_data ->> 'care_instructions', ''),
+            NULLIF(attributes_data ->> 'material', ''),
+            NULLIF(attributes_data ->> 'color', ''),
+            NULLIF(attributes_data ->> 'style', '')
+        )
+        ON CONFLICT (product_id) DO UPDATE SET
+            fabric = EXCLUDED.fabric,
+            fit = EXCLUDED.fit,
+            collar = EXCLUDED.collar,
+            sleeve = EXCLUDED.sleeve,
+            closure = EXCLUDED.closure,
+            pattern = EXCLUDED.pattern,
+            occasion = EXCLUDED.occasion,
+            care_instructions = EXCLUDED.care_instructions,
+            material = EXCLUDED.material,
+            color = EXCLUDED.color,
+            style = EXCLUDED.style;
+    END IF;
+
+    -- The editor always sends the full image gallery and size run
+    DELETE FROM product_images WHERE product_id = target_id;
+
+    INSERT INTO product_images (product_id, image_url, alt_text, is_main, display_order)
+    SELECT
+        target_id,
+        img ->> 'image_url',
+        NULLIF(img ->> 'alt_text', ''),
+        COALESCE((img ->> 'is_main')::BOOLEAN, FALSE),
+        COALESCE((img ->> 'display_order')::INTEGER, 0)
+    FROM jsonb_array_elements(COALESCE(payload -> 'images', '[]'::jsonb)) AS img;
+
+    DELETE FROM product_sizes WHERE product_id = target_id;
+
+    INSERT INTO product_sizes (product_id, size, is_available, stock_count)
+    SELECT
+        target_id,
+        sz ->> 'size',
+        COALESCE((sz ->> 'is_available')::BOOLEAN, (sz ->> 'stock_count')::INTEGER > 0),
+        COALESCE((sz ->> 'stock_count')::INTEGER, 0)
+    FROM jsonb_array_elements(COALESCE(payload -> 'sizes', '[]'::jsonb)) AS sz;
+
+    -- Record audit event
+    PERFORM record_audit_event(
+        auth.uid(),
+        CASE WHEN product_uuid IS NULL THEN 'INSERT' ELSE 'UPDATE' END,
+        'products',
+        target_id::TEXT,
+        jsonb_build_object(
+            'source', 'product_editor',
+            'old_status', current_status,
+            'new_status', next_status
+        )
+    );
+
+    RETURN target_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- 7. SUPPORT FUNCTIONS
+-- =============================================
+
+CREATE OR REPLACE FUNCTION add_support_message(
+    request_uuid UUID,
+    message_body TEXT,
+    attachments TEXT[] DEFAULT '{}',
+    internal BOOLEAN DEFAULT FALSE
+)
+RETURNS UUID
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    request_row support_requests%ROWTYPE;
+    is_admin BOOLEAN;
+    role TEXT;
+    new_id UUID;
+BEGIN
+    SELECT * INTO request_row FROM support_requests WHERE id = request_uuid FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Support request not found';
+    END IF;
+
+    is_admin := has_admin_permission('support');
+
+    IF is_admin THEN
+        role := 'admin';
+    ELSIF is_brand_member(request_row.brand_id, 'editor') THEN
+        role := 'brand';
+    ELSE
+        RAISE EXCEPTION 'Unauthorized: you cannot reply to this support request';
+    END IF;
+
+    IF internal AND role <> 'admin' THEN
+        RAISE EXCEPTION 'Only admins can add internal notes';
+    END IF;
+
+    IF message_body IS NULL OR length(trim(message_body)) = 0 THEN
+        RAISE EXCEPTION 'Message cannot be empty';
+    END IF;
+
+    INSERT INTO support_messages (request_id, author_id, author_role, body, attachment_urls, is_internal)
+    VALUES (request_uuid, auth.uid(), role, trim(message_body), COALESCE(attachments, '{}'), internal)
+    RETURNING id INTO new_id;
+
+    -- Internal notes never change what the brand sees
+    IF NOT internal THEN
+        UPDATE support_requests
+        SET
+            status = CASE
+                WHEN role = 'admin' AND status = 'new' THEN 'in_progress'
+                WHEN role = 'brand' AND status IN ('resolved', 'closed') THEN 'in_progress'
+                ELSE status
+            END,
+            updated_at = NOW()
+        WHERE id = request_uuid;
+
+        IF role = 'admin' AND request_row.brand_id IS NOT NULL THEN
+            PERFORM create_brand_notification(
+                request_row.brand_id,
+                'support_update',
+                'New reply from Stylsia support',
+                format('Support replied to "%s".', request_row.subject),
+                '/dashboard/messages',
+                jsonb_build_object('support_request_id', request_uuid, 'message_id', new_id)
+            );
+        END IF;
+    END IF;
+
+    RETURN new_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- 8. GRANT PERMISSIONS
+-- =============================================
+
+GRANT SELECT ON brand_members TO authenticated;
+GRANT SELECT ON brand_invitations TO authenticated;
+GRANT EXECUTE ON FUNCTION brand_member_role(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION is_brand_member(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION resolve_brand_memberships() TO authenticated;
+GRANT EXECUTE ON FUNCTION brand_invite_member(UUID, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION brand_set_member_role(UUID, UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION brand_remove_member(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION brand_revoke_invitation(UUID) TO authenticated;
+
+-- =============================================
+-- 9. VERIFICATION
+-- =============================================
+
+DO $$
+DECLARE
+    brands_without_owner INTEGER;
+BEGIN
+    SELECT COUNT(*) INTO brands_without_owner
+    FROM brands b
+    WHERE NOT EXISTS (
+        SELECT 1 FROM brand_members bm WHERE bm.brand_id = b.id AND bm.role = 'owner'
+    );
+
+    IF brands_without_owner = 0 THEN
+        RAISE NOTICE 'Brand team members set up successfully';
+    ELSE
+        RAISE WARNING '% brand(s) have no owner account and can only be managed by admins', brands_without_owner;
+    END IF;
+END $$;
@@ -0,0 +1,344 @@
+/*
+  # Brand Onboarding Invitations
+
+  Brand onboarding used to generate invite tokens in the browser and store
+  them in the description of a support request, so they never expired and
+  were never checked. This migration adds real invitations for brands
+  created by admins.
+
+  1. New Tables
+    - brand_onboarding_invitations: One row per invitation. Only a SHA-256
+      hash of the token is stored; the token itself is shown to the admin once.
+
+  2. Invitation Lifecycle
+    - pending: Link sent, valid until expires_at (7 days)
+    - accepted: Used once to create the brand owner account
+    - revoked: Cancelled by an admin, or replaced by a newer invitation
+    - Pending invitations past expires_at are reported as expired
+
+  3. New Functions
+    - admin_create_onboarding_invitation, admin_resend_onboarding_invitation,
+      admin_revoke_onboarding_invitation: Admin actions (brands permission)
+    - get_onboarding_invitation: Validates a token for the signup page
+    - accept_onboarding_invitation: Makes the signed-in account the brand owner
+*/
+
+-- =============================================
+-- 1. INVITATIONS TABLE
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS brand_onboarding_invitations (
+    id             UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    brand_id       UUID NOT NULL REFERENCES brands(id) ON DELETE CASCADE,
+    email          TEXT NOT NULL CHECK (email = lower(trim(email))),
+    contact_person TEXT,
+    token_hash     TEXT NOT NULL UNIQUE,
+    status         TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'revoked')),
+    expires_at     TIMESTAMPTZ NOT NULL,
+    sent_count     INTEGER NOT NULL DEFAULT 1,
+    last_sent_at   TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    accepted_at    TIMESTAMPTZ,
+    accepted_by    UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    revoked_at     TIMESTAMPTZ,
+    created_by     UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at     TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at     TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_onboarding_invitations_brand ON brand_onboarding_invitations(brand_id);
+
+-- At most one live invitation per brand
+CREATE UNIQUE INDEX IF NOT EXISTS idx_onboarding_invitations_pending
+    ON brand_onboarding_invitations(brand_id)
+    WHERE status = 'pending';
+
+CREATE TRIGGER update_brand_onboarding_invitations_updated_at
+    BEFORE UPDATE ON brand_onboarding_invitations
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE brand_onboarding_invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view onboarding invitations" ON brand_onboarding_invitations
+    FOR SELECT
+    USING (has_admin_permission('brands'));
+
+-- =============================================
+-- 2. TOKEN HELPERS
+-- =============================================
+
+-- pgcrypto lives in the extensions schema on Supabase
+CREATE OR REPLACE FUNCTION generate_invitation_token()
+RETURNS TEXT
+VOLATILE
+SET search_path = public, extensions
+AS $$
+    SELECT encode(gen_random_bytes(32), 'hex');
+$$ LANGUAGE sql;
+
+CREATE OR REPLACE FUNCTION hash_invitation_token(token TEXT)
+RETURNS TEXT
+IMMUTABLE
+SET search_path = public, extensions
+AS $$
+    SELECT encode(digest(token, 'sha256'), 'hex');
+$$ LANGUAGE sql;
+
+-- =============================================
+-- 3. ADMIN ACTIONS
+-- =============================================
+
+-- Returns the raw token. It is not stored, so the caller has to build the
+-- link from it straight away.
+CREATE OR REPLACE FUNCTION admin_create_onboarding_invitation(
+    brand UUID,
+    invite_email TEXT,
+    invite_contact TEXT DEFAULT NULL
+)
+RETURNS TEXT
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    normalized_email TEXT := lower(trim(invite_email));
+    new_token TEXT := generate_invitation_token();
+    new_id UUID;
+BEGIN
+    IF NOT has_admin_permission('brands') THEN
+        RAISE EXCEPTION 'Unauthorized: only admins can invite brands';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM brands WHERE id = brand) THEN
+        RAISE EXCEPTION 'Brand with ID % does not exist', brand;
+    END IF;
+
+    IF normalized_email !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+        RAISE EXCEPTION 'Invalid email address: %', invite_email;
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM brand_members WHERE brand_id = brand AND role = 'owner') THEN
+        RAISE EXCEPTION 'This brand already has an owner account';
+    END IF;
+
+    -- A new invitation replaces any earlier link for the brand
+    UPDATE brand_onboarding_invitations
+    SET status = 'revoked', revoked_at = NOW()
+    WHERE brand_id = brand AND status = 'pending';
+
+    INSERT INTO brand_onboarding_invitations (
+        brand_id, email, contact_person, token_hash, expires_at, created_by
+    )
+    VALUES (
+        brand,
+        normalized_email,
+        NULLIF(trim(invite_contact), ''),
+        hash_invitation_token(new_token),
+        NOW() + INTERVAL '7 days',
+        auth.uid()
+    )
+    RETURNING id INTO new_id;
+
+    PERFORM record_audit_event(
+        auth.uid(),
+        'INSERT',
+        'brand_onboarding_invitations',
+        new_id::TEXT,
+        jsonb_build_object('brand_id', brand, 'email', normalized_email)
+    );
+
+    RETURN new_token;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Issues a fresh token for a pending or expired invitation; the previous
+-- link stops working
+CREATE OR REPLACE FUNCTION admin_resend_onboarding_invitation(invitation_id UUID)
+RETURNS TEXT
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    invitation brand_onboarding_invitations%ROWTYPE;
+    new_token TEXT := generate_invitation_token();
+BEGIN
+    IF NOT has_admin_permission('brands') THEN
+        RAISE EXCEPTION 'Unauthorized: only admins can resend brand invitations';
+    END IF;
+
+    SELECT * INTO invitation
+    FROM brand_onboarding_invitations
+    WHERE id = invitation_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Invitation not found';
+    END IF;
+
+    IF invitation.status <> 'pending' THEN
+        RAISE EXCEPTION 'Only pending invitations can be resent (this one is %)', invitation.status;
+    END IF;
+
+    UPDATE brand_onboarding_invitations
+    SET
+        token_hash = hash_invitation_token(new_token),
+        expires_at = NOW() + INTERVAL '7 days',
+        sent_count = sent_count + 1,
+        last_sent_at = NOW()
+    WHERE id = invitation_id;
+
+    PERFORM record_audit_event(
+        auth.uid(),
+        'UPDATE',
+        'brand_onboarding_invitations',
+        invitation_id::TEXT,
+        jsonb_build_object('action', 'resend', 'sent_count', invitation.sent_count + 1)
+    );
+
+    RETURN new_token;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION admin_revoke_onboarding_invitation(invitation_id UUID)
+RETURNS VOID
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT has_admin_permission('brands') THEN
+        RAISE EXCEPTION 'Unauthorized: only admins can revoke brand invitations';
+    END IF;
+
+    UPDATE brand_onboarding_invitations
+    SET status = 'revoked', revoked_at = NOW()
+    WHERE id = invitation_id AND status = 'pending';
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Only pending invitations can be revoked';
+    END IF;
+
+    PERFORM record_audit_event(
+        auth.uid(),
+        'UPDATE',
+        'brand_onboarding_invitations',
+        invitation_id::TEXT,
+        jsonb_build_object('action', 'revoke')
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- 4. SIGNUP FLOW
+-- =============================================
+
+-- Public lookup used by the invitation landing page. Returns no rows for an
+-- unknown token.
+CREATE OR REPLACE FUNCTION get_onboarding_invitation(token TEXT)
+RETURNS TABLE (
+    brand_name TEXT,
+    email TEXT,
+    contact_person TEXT,
+    status TEXT,
+    expires_at TIMESTAMPTZ
+)
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT
+        b.name::TEXT,
+        i.email,
+        i.contact_person,
+        CASE
+            WHEN i.status = 'pending' AND i.expires_at < NOW() THEN 'expired'
+            ELSE i.status
+        END,
+        i.expires_at
+    FROM brand_onboarding_invitations i
+    JOIN brands b ON b.id = i.brand_id
+    WHERE i.token_hash = hash_invitation_token(token);
+$$ LANGUAGE sql;
+
+-- Single use: the invitation is marked accepted and the signed-in account,
+-- whose email must match, becomes the brand owner. Returns the brand id.
+CREATE OR REPLACE FUNCTION accept_onboarding_invitation(token TEXT)
+RETURNS UUID
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    invitation brand_onboarding_invitations%ROWTYPE;
+    caller_email TEXT;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Sign in to accept this invitation';
+    END IF;
+
+    SELECT * INTO invitation
+    FROM brand_onboarding_invitations
+    WHERE token_hash = hash_invitation_token(token)
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'This invitation link is not valid';
+    END IF;
+
+    IF invitation.status = 'accepted' THEN
+        RAISE EXCEPTION 'This invitation has already been used';
+    ELSIF invitation.status = 'revoked' THEN
+        RAISE EXCEPTION 'This invitation has been revoked';
+    ELSIF invitation.expires_at < NOW() THEN
+        RAISE EXCEPTION 'This invitation has expired. Ask Stylsia for a new link.';
+    END IF;
+
+    SELECT lower(u.email) INTO caller_email FROM auth.users u WHERE u.id = auth.uid();
+
+    IF caller_email IS DISTINCT FROM invitation.email THEN
+        RAISE EXCEPTION 'This invitation was sent to a different email address';
+    END IF;
+
+    INSERT INTO brand_members (brand_id, user_id, email, role, invited_by)
+    VALUES (invitation.brand_id, auth.uid(), caller_email, 'owner', invitation.created_by)
+    ON CONFLICT (brand_id, user_id) DO UPDATE SET role = 'owner';
+
+    UPDATE brand_onboarding_invitations
+    SET status = 'accepted', accepted_at = NOW(), accepted_by = auth.uid()
+    WHERE id = invitation.id;
+
+    PERFORM record_audit_event(
+        auth.uid(),
+        'UPDATE',
+        'brand_onboarding_invitations',
+        invitation.id::TEXT,
+        jsonb_build_object('action', 'accept', 'brand_id', invitation.brand_id)
+    );
+
+    RETURN invitation.brand_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- 5. GRANT PERMISSIONS
+-- =============================================
+
+GRANT SELECT ON brand_onboarding_invitations TO authenticated;
+GRANT EXECUTE ON FUNCTION admin_create_onboarding_invitation(UUID, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION admin_resend_onboarding_invitation(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION admin_revoke_onboarding_invitation(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_onboarding_invitation(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION accept_onboarding_invitation(TEXT) TO authenticated;
+
+-- =============================================
+-- 6. VERIFICATION
+-- =============================================
+
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.tables
+        WHERE table_schema = 'public' AND table_name = 'brand_onboarding_invitations'
+    ) THEN
+        RAISE NOTICE 'Brand onboarding invitations set up successfully';
+    ELSE
+        RAISE EXCEPTION 'brand_onboarding_invitations table was not created';
+    END IF;
+END $$;
@@ -0,0 +1,243 @@
+/*
+  # Brand Onboarding Checklist
+
+  New brands landed on an empty dashboard with no guidance. This migration
+  tracks four onboarding steps per brand so the dashboard can show what is
+  left and admins can see where each brand is stuck.
+
+  1. Steps
+    - profile: Name, description, website and contact email are filled in
+    - logo: A logo has been uploaded
+    - products: The brand has at least one product
+    - contact_email: The contact email belongs to a confirmed account on the
+      brand's team
+
+  2. New Tables
+    - brand_onboarding_progress: One row per brand with the time each step
+      was first completed. Steps stay completed once reached.
+
+  3. New Functions
+    - refresh_brand_onboarding: Re-evaluates the steps for a brand (internal,
+      called by triggers)
+    - get_brand_onboarding: Refreshes and returns the progress row for a
+      brand member
+
+  4. Triggers
+    - Brand inserts/updates, the first product of a brand and new team
+      members refresh the progress
+
+  5. Seed Data
+    - Progress is calculated for every existing brand
+*/
+
+-- =============================================
+-- 1. PROGRESS TABLE
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS brand_onboarding_progress (
+    brand_id              UUID PRIMARY KEY REFERENCES brands(id) ON DELETE CASCADE,
+    profile_completed_at  TIMESTAMPTZ,
+    logo_uploaded_at      TIMESTAMPTZ,
+    first_product_at      TIMESTAMPTZ,
+    email_verified_at     TIMESTAMPTZ,
+    completed_at          TIMESTAMPTZ,
+    created_at            TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at            TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TRIGGER update_brand_onboarding_progress_updated_at
+    BEFORE UPDATE ON brand_onboarding_progress
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE brand_onboarding_progress ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by refresh_brand_onboarding
+CREATE POLICY "Brand members can view their onboarding progress" ON brand_onboarding_progress
+    FOR SELECT
+    USING (is_brand_member(brand_id));
+
+CREATE POLICY "Admins can view onboarding progress" ON brand_onboarding_progress
+    FOR SELECT
+    USING (has_admin_permission('brands'));
+
+-- =============================================
+-- 2. PROGRESS CALCULATION
+-- =============================================
+
+CREATE OR REPLACE FUNCTION refresh_brand_onboarding(brand UUID)
+RETURNS brand_onboarding_progress
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    b brands%ROWTYPE;
+    profile_done BOOLEAN;
+    logo_done BOOLEAN;
+    products_done BOOLEAN;
+    email_done BOOLEAN;
+    progress brand_onboarding_progress%ROWTYPE;
+BEGIN
+    SELECT * INTO b FROM brands WHERE id = brand;
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    profile_done := coalesce(trim(b.name), '') <> ''
+        AND coalesce(trim(b.description), '') <> ''
+        AND coalesce(trim(b.website), '') <> ''
+        AND coalesce(trim(b.contact_email), '') <> '';
+    logo_done := coalesce(trim(b.logo_url), '') <> '';
+    products_done := EXISTS (SELECT 1 FROM products p WHERE p.brand_id = brand);
+    email_done := EXISTS (
+        SELECT 1
+        FROM brand_members bm
+        JOIN auth.users u ON u.id = bm.user_id
+        WHERE bm.brand_id = brand
+          AND lower(u.email) = lower(trim(b.contact_email))
+          AND u.email_confirmed_at IS NOT NULL
+    );
+
+    INSERT INTO brand_onboarding_progress AS bop (
+        brand_id,
+        profile_completed_at,
+        logo_uploaded_at,
+        first_product_at,
+        email_verified_at
+    )
+    VALUES (
+        brand,
+        CASE WHEN profile_done THEN NOW() END,
+        CASE WHEN logo_done THEN NOW() END,
+        CASE WHEN products_done THEN NOW() END,
+        CASE WHEN email_done THEN NOW() END
+    )
+    ON CONFLICT (brand_id) DO UPDATE SET
+        profile_completed_at = coalesce(bop.profile_completed_at, EXCLUDED.profile_completed_at),
+        logo_uploaded_at = coalesce(bop.logo_uploaded_at, EXCLUDED.logo_uploaded_at),
+        first_product_at = coalesce(bop.first_product_at, EXCLUDED.first_product_at),
+        email_verified_at = coalesce(bop.email_verified_at, EXCLUDED.email_verified_at)
+    RETURNING * INTO progress;
+
+    IF progress.completed_at IS NULL
+       AND progress.profile_completed_at IS NOT NULL
+       AND progress.logo_uploaded_at IS NOT NULL
+       AND progress.first_product_at IS NOT NULL
+       AND progress.email_verified_at IS NOT NULL THEN
+        UPDATE brand_onboarding_progress
+        SET completed_at = NOW()
+        WHERE brand_id = brand
+        RETURNING * INTO progress;
+    END IF;
+
+    RETURN progress;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Called by the dashboard. Email confirmation happens in auth, outside any
+-- trigger, so the dashboard refreshes on load.
+CREATE OR REPLACE FUNCTION get_brand_onboarding(brand UUID)
+RETURNS brand_onboarding_progress
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT is_brand_member(brand) THEN
+        RAISE EXCEPTION 'Unauthorized: not a member of this brand';
+    END IF;
+
+    RETURN refresh_brand_onboarding(brand);
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- 3. TRIGGERS
+-- =============================================
+
+CREATE OR REPLACE FUNCTION brands_refresh_onboarding()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    PERFORM refresh_brand_onboarding(NEW.id);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Runs after add_brand_owner_membership so the owner counts for the email step
+DROP TRIGGER IF EXISTS refresh_brand_onboarding ON brands;
+CREATE TRIGGER refresh_brand_onboarding
+    AFTER INSERT OR UPDATE ON brands
+    FOR EACH ROW
+    EXECUTE FUNCTION brands_refresh_onboarding();
+
+CREATE OR REPLACE FUNCTION products_refresh_onboarding()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    -- Only the first product matters; skip the work during bulk imports
+    IF NOT EXISTS (
+        SELECT 1 FROM brand_onboarding_progress
+        WHERE brand_id = NEW.brand_id AND first_product_at IS NOT NULL
+    ) THEN
+        PERFORM refresh_brand_onboarding(NEW.brand_id);
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS refresh_brand_onboarding ON products;
+CREATE TRIGGER refresh_brand_onboarding
+    AFTER INSERT ON products
+    FOR EACH ROW
+    EXECUTE FUNCTION products_refresh_onboarding();
+
+CREATE OR REPLACE FUNCTION brand_members_refresh_onboarding()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    PERFORM refresh_brand_onboarding(NEW.brand_id);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS refresh_brand_onboarding ON brand_members;
+CREATE TRIGGER refresh_brand_onboarding
+    AFTER INSERT ON brand_members
+    FOR EACH ROW
+    EXECUTE FUNCTION brand_members_refresh_onboarding();
+
+-- =============================================
+-- 4. SEED DATA
+-- =============================================
+
+SELECT refresh_brand_onboarding(id) FROM brands;
+
+-- =============================================
+-- 5. GRANT PERMISSIONS
+-- =============================================
+
+GRANT SELECT ON brand_onboarding_progress TO authenticated;
+GRANT EXECUTE ON FUNCTION get_brand_onboarding(UUID) TO authenticated;
+
+-- =============================================
+-- 6. VERIFICATION
+-- =============================================
+
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.tables
+        WHERE table_schema = 'public' AND table_name = 'brand_onboarding_progress'
+    ) THEN
+        RAISE NOTICE 'Brand onboarding checklist set up successfully';
+    ELSE
+        RAISE EXCEPTION 'brand_onboarding_progress table was not created';
+    END IF;
+END $$;
@@ -0,0 +1,382 @@
+/*
+  # Brand Verification
+
+  Brand status used to move between pending, active and suspended with no
+  evidence behind it. Brands now upload business documents, admins review
+  them, and a brand can only be activated once it is verified.
+
+  1. Brand Columns
+    - verification_status: unverified, submitted, changes_requested, verified
+    - verification_notes: Reviewer notes shown to the brand
+    - verification_submitted_at, verified_at, verified_by
+
+  2. New Tables
+    - brand_verification_documents: The current document of each type for a
+      brand (GST certificate, trademark, address proof). Uploading a new file
+      replaces the previous one.
+
+  3. Storage
+    - brand-verification: Private bucket, one folder per brand id. Owners
+      upload, owners and brand admins read through signed URLs.
+
+  4. New Functions
+    - brand_submit_verification: Owners send their documents for review
+    - admin_review_brand_verification: Approve (activates pending brands) or
+      request changes with notes
+
+  5. Guards
+    - Only admins (or the functions above) can change verification columns
+    - Only admins can change a brand's status
+    - A brand cannot be active unless it is verified
+
+  6. Existing Data
+    - Brands that are already active are marked verified so they stay live
+*/
+
+-- =============================================
+-- 1. BRAND COLUMNS
+-- =============================================
+
+ALTER TABLE brands
+    ADD COLUMN IF NOT EXISTS verification_status TEXT NOT NULL DEFAULT 'unverified'
+        CHECK (verification_status IN ('unverified', 'submitted', 'changes_requested', 'verified')),
+    ADD COLUMN IF NOT EXISTS verification_notes TEXT,
+    ADD COLUMN IF NOT EXISTS verification_submitted_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS verified_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS verified_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_brands_verification_status ON brands(verification_status);
+
+UPDATE brands
+SET verification_status = 'verified'
+WHERE status = 'active' AND verification_status = 'unverified';
+
+-- =============================================
+-- 2. DOCUMENTS TABLE
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS brand_verification_documents (
+    id            UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    brand_id      UUID NOT NULL REFERENCES brands(id) ON DELETE CASCADE,
+    document_type TEXT NOT NULL CHECK (document_type IN ('gst_certificate', 'trademark', 'address_proof')),
+    storage_path  TEXT NOT NULL,
+    file_name     TEXT NOT NULL,
+    mime_type     TEXT,
+    file_size     BIGINT,
+    uploaded_by   UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at    TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at    TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (brand_id, document_type)
+);
+
+CREATE TRIGGER update_brand_verification_documents_updated_at
+    BEFORE UPDATE ON brand_verification_documents
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE brand_verification_documents ENABLE ROW LEVEL SECURITY;
+
+-- Documents are locked while they are under review or once approved
+CREATE OR REPLACE FUNCTION brand_documents_editable(brand UUID)
+RETURNS BOOLEAN
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    RETURN is_brand_member(brand, 'owner') AND EXISTS (
+        SELECT 1 FROM brands b
+        WHERE b.id = brand
+          AND b.verification_status IN ('unverified', 'changes_requested')
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE POLICY "Brand owners can view verification documents" ON brand_verification_documents
+    FOR SELECT
+    USING (is_brand_member(brand_id, 'owner'));
+
+CREATE POLICY "Admins can view verification documents" ON brand_verification_documents
+    FOR SELECT
+    USING (has_admin_permission('brands'));
+
+CREATE POLICY "Brand owners can add verification documents" ON brand_verification_documents
+    FOR INSERT
+    WITH CHECK (brand_documents_editable(brand_id));
+
+CREATE POLICY "Brand owners can replace verification documents" ON brand_verification_documents
+    FOR UPDATE
+    USING (brand_documents_editable(brand_id))
+    WITH CHECK (brand_documents_editable(brand_id));
+
+CREATE POLICY "Brand owners can remove verification documents" ON brand_verification_documents
+    FOR DELETE
+    USING (brand_documents_editable(brand_id));
+
+-- =============================================
+-- 3. STORAGE
+-- =============================================
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+    'brand-verification',
+    'brand-verification',
+    false,
+    10485760,
+    ARRAY['application/pdf', 'image/jpeg', 'image/png']
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- Files live in a folder named after the brand id
+CREATE POLICY "Brand owners can upload verification documents"
+ON storage.objects FOR INSERT
+WITH CHECK (
+  bucket_id = 'brand-verification'
+  AND auth.role() = 'authenticated'
+  AND EXISTS (
+    SELECT 1 FROM brand_members bm
+    WHERE bm.brand_id::text = (storage.foldername(name))[1]
+      AND bm.user_id = auth.uid()
+      AND bm.role = 'owner'
+  )
+);
+
+CREATE POLICY "Brand owners and admins can read verification documents"
+ON storage.objects FOR SELECT
+USING (
+  bucket_id = 'brand-verification'
+  AND auth.role() = 'authenticated'
+  AND (
+    has_admin_permission('brands')
+    OR EXISTS (
+      SELECT 1 FROM brand_members bm
+      WHERE bm.brand_id::text = (storage.foldername(name))[1]
+        AND bm.user_id = auth.uid()
+        AND bm.role = 'owner'
+    )
+  )
+);
+
+CREATE POLICY "Brand owners can delete verification documents"
+ON storage.objects FOR DELETE
+USING (
+  bucket_id = 'brand-verification'
+  AND auth.role() = 'authenticated'
+  AND EXISTS (
+    SELECT 1 FROM brand_members bm
+    WHERE bm.brand_id::text = (storage.foldername(name))[1]
+      AND bm.user_id = auth.uid()
+      AND bm.role = 'owner'
+  )
+);
+
+-- =============================================
+-- 4. GUARDS
+-- =============================================
+
+CREATE OR REPLACE FUNCTION guard_brand_verification()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    -- Set by the verification functions below for the current transaction
+    in_workflow BOOLEAN := coalesce(current_setting('stylsia.brand_verification', true), '') = 'on';
+BEGIN
+    -- auth.uid() is NULL for the service role and maintenance scripts
+    IF TG_OP = 'INSERT'
+       AND auth.uid() IS NOT NULL
+       AND NOT has_admin_permission('brands') THEN
+        NEW.verification_status := 'unverified';
+        NEW.verification_notes := NULL;
+        NEW.verification_submitted_at := NULL;
+        NEW.verified_at := NULL;
+        NEW.verified_by := NULL;
+    END IF;
+
+    IF TG_OP = 'UPDATE'
+       AND auth.uid() IS NOT NULL
+       AND NOT in_workflow
+       AND NOT has_admin_permission('brands') THEN
+        IF (NEW.verification_status, NEW.verification_notes, NEW.verification_submitted_at, NEW.verified_at, NEW.verified_by)
+           IS DISTINCT FROM
+           (OLD.verification_status, OLD.verification_notes, OLD.verification_submitted_at, OLD.verified_at, OLD.verified_by) THEN
+            RAISE EXCEPTION 'Brand verification can only be changed through the verification review';
+        END IF;
+
+        IF NEW.status IS DISTINCT FROM OLD.status THEN
+            RAISE EXCEPTION 'Only admins can change a brand''s status';
+        END IF;
+    END IF;
+
+    IF NEW.status = 'active' AND NEW.verification_status <> 'verified' THEN
+        RAISE EXCEPTION 'Brand "%" must be verified before it can be activated', NEW.name;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_brand_verification ON brands;
+CREATE TRIGGER guard_brand_verification
+    BEFORE INSERT OR UPDATE ON brands
+    FOR EACH ROW
+    EXECUTE FUNCTION guard_brand_verification();
+
+-- =============================================
+-- 5. VERIFICATION WORKFLOW
+-- =============================================
+
+CREATE OR REPLACE FUNCTION brand_submit_verification(brand UUID)
+RETURNS VOID
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    current_status TEXT;
+    missing TEXT[];
+BEGIN
+    IF NOT is_brand_member(brand, 'owner') THEN
+        RAISE EXCEPTION 'Unauthorized: only brand owners can submit verification documents';
+    END IF;
+
+    SELECT verification_status INTO current_status FROM brands WHERE id = brand;
+
+    IF current_status NOT IN ('unverified', 'changes_requested') THEN
+        RAISE EXCEPTION 'Verification cannot be submitted while it is %', current_status;
+    END IF;
+
+    SELECT array_agg(required.document_type) INTO missing
+    FROM unnest(ARRAY['gst_certificate', 'trademark', 'address_proof']) AS required(document_type)
+    WHERE NOT EXISTS (
+        SELECT 1 FROM brand_verification_documents d
+        WHERE d.brand_id = brand AND d.document_type = required.document_type
+    );
+
+    IF missing IS NOT NULL THEN
+        RAISE EXCEPTION 'Missing verification documents: %', array_to_string(missing, ', ');
+    END IF;
+
+    PERFORM set_config('stylsia.brand_verification', 'on', true);
+
+    UPDATE brands
+    SET verification_status = 'submitted',
+        verification_submitted_at = NOW()
+    WHERE id = brand;
+
+    PERFORM record_audit_event(
+        auth.uid(),
+        'UPDATE',
+        'brands',
+        brand::TEXT,
+        jsonb_build_object('action', 'submit_verification')
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION admin_review_brand_verification(
+    brand UUID,
+    decision TEXT,
+    review_notes TEXT DEFAULT NULL
+)
+RETURNS VOID
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    b brands%ROWTYPE;
+    notes TEXT := nullif(trim(review_notes), '');
+BEGIN
+    IF NOT has_admin_permission('brands') THEN
+        RAISE EXCEPTION 'Unauthorized: only admins can review brand verification';
+    END IF;
+
+    IF decision NOT IN ('approve', 'request_changes') THEN
+        RAISE EXCEPTION 'Invalid decision: %', decision;
+    END IF;
+
+    SELECT * INTO b FROM brands WHERE id = brand;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Brand with ID % does not exist', brand;
+    END IF;
+
+    IF b.verification_status <> 'submitted' THEN
+        RAISE EXCEPTION 'Only submitted verifications can be reviewed (this one is %)', b.verification_status;
+    END IF;
+
+    IF decision = 'request_changes' AND notes IS NULL THEN
+        RAISE EXCEPTION 'Explain which changes are needed';
+    END IF;
+
+    PERFORM set_config('stylsia.brand_verification', 'on', true);
+
+    IF decision = 'approve' THEN
+        UPDATE brands
+        SET verification_status = 'verified',
+            verification_notes = notes,
+            verified_at = NOW(),
+            verified_by = auth.uid(),
+            status = CASE WHEN status = 'pending' THEN 'active' ELSE status END
+        WHERE id = brand;
+
+        PERFORM create_brand_notification(
+            brand,
+            'account_update',
+            'Your brand is verified',
+            'We reviewed your business documents and verified your brand.',
+            '/dashboard/profile',
+            jsonb_build_object('verification_status', 'verified')
+        );
+    ELSE
+        UPDATE brands
+        SET verification_status = 'changes_requested',
+            verification_notes = notes
+        WHERE id = brand;
+
+        PERFORM create_brand_notification(
+            brand,
+            'account_update',
+            'Changes needed for verification',
+            notes,
+            '/dashboard/profile',
+            jsonb_build_object('verification_status', 'changes_requested')
+        );
+    END IF;
+
+    PERFORM record_audit_event(
+        auth.uid(),
+        'UPDATE',
+        'brands',
+        brand::TEXT,
+        jsonb_build_object('action', 'review_verification', 'decision', decision, 'notes', notes)
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- 6. GRANT PERMISSIONS
+-- =============================================
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON brand_verification_documents TO authenticated;
+GRANT EXECUTE ON FUNCTION brand_documents_editable(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION brand_submit_verification(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION admin_review_brand_verification(UUID, TEXT, TEXT) TO authenticated;
+
+-- =============================================
+-- 7. VERIFICATION
+-- =============================================
+
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = 'public' AND table_name = 'brands' AND column_name = 'verification_status'
+    ) AND EXISTS (
+        SELECT 1 FROM information_schema.tables
+        WHERE table_schema = 'public' AND table_name = 'brand_verification_documents'
+    ) THEN
+        RAISE NOTICE 'Brand verification set up successfully';
+    ELSE
+        RAISE EXCEPTION 'Brand verification was not set up';
+    END IF;
+END $$;
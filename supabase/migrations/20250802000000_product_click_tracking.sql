@@ -0,0 +1,226 @@
+/*
+  # Product Click Tracking
+
+  "Buy Now" opened the product's source URL directly, so brands never saw
+  the traffic we sent them and product_metrics_daily.clicks stayed at zero.
+  Shoppers now leave through a redirect route that records the click and
+  forwards them to the store with the brand's UTM parameters appended.
+
+  1. New Tables
+    - product_clicks: One row per outbound click with session, referrer,
+      product and brand
+    - brand_utm_settings: UTM parameters appended to a brand's outbound
+      links. Brands without a row use the defaults.
+
+  2. New Functions
+    - with_utm_parameters: Appends UTM parameters to a URL, keeping any the
+      brand already put on the product URL
+    - record_product_click: Records a click, counts it in
+      product_metrics_daily and returns the attributed destination URL
+
+  3. Security
+    - Anyone can record a click through record_product_click
+    - Brand members can view their clicks and UTM settings; owners change
+      the settings
+    - Admins with the analytics permission can view all clicks
+*/
+
+-- =============================================
+-- 1. CLICKS TABLE
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS product_clicks (
+    id          UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    product_id  UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    brand_id    UUID NOT NULL REFERENCES brands(id) ON DELETE CASCADE,
+    session_id  TEXT NOT NULL,
+    user_id     UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    referrer    TEXT,
+    clicked_at  TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_clicks_product_date
+ON product_clicks (product_id, clicked_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_product_clicks_brand_date
+ON product_clicks (brand_id, clicked_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_product_clicks_session
+ON product_clicks (session_id, product_id, clicked_at DESC);
+
+ALTER TABLE product_clicks ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by record_product_click
+CREATE POLICY "Brand members can view their product clicks" ON product_clicks
+    FOR SELECT
+    USING (is_brand_member(brand_id));
+
+CREATE POLICY "Admins can view product clicks" ON product_clicks
+    FOR SELECT
+    USING (has_admin_permission('analytics'));
+
+-- =============================================
+-- 2. UTM SETTINGS TABLE
+-- =============================================
+
+-- Values are restricted to URL-safe characters so they can be appended
+-- without encoding
+CREATE TABLE IF NOT EXISTS brand_utm_settings (
+    brand_id      UUID PRIMARY KEY REFERENCES brands(id) ON DELETE CASCADE,
+    enabled       BOOLEAN NOT NULL DEFAULT true,
+    utm_source    TEXT NOT NULL DEFAULT 'stylsia'
+        CHECK (utm_source ~ '^[A-Za-z0-9._~-]{0,100}$'),
+    utm_medium    TEXT NOT NULL DEFAULT 'referral'
+        CHECK (utm_medium ~ '^[A-Za-z0-9._~-]{0,100}$'),
+    utm_campaign  TEXT
+        CHECK (utm_campaign ~ '^[A-Za-z0-9._~-]{0,100}$'),
+    created_at    TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at    TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TRIGGER update_brand_utm_settings_updated_at
+    BEFORE UPDATE ON brand_utm_settings
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE brand_utm_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Brand members can view their UTM settings" ON brand_utm_settings
+    FOR SELECT
+    USING (is_brand_member(brand_id));
+
+CREATE POLICY "Brand owners can create UTM settings" ON brand_utm_settings
+    FOR INSERT
+    WITH CHECK (is_brand_member(brand_id, 'owner'));
+
+CREATE POLICY "Brand owners can update UTM settings" ON brand_utm_settings
+    FOR UPDATE
+    USING (is_brand_member(brand_id, 'owner'))
+    WITH CHECK (is_brand_member(brand_id, 'owner'));
+
+CREATE POLICY "Admins can view UTM settings" ON brand_utm_settings
+    FOR SELECT
+    USING (has_admin_permission('brands'));
+
+-- =============================================
+-- 3. LINK ATTRIBUTION
+-- =============================================
+
+CREATE OR REPLACE FUNCTION with_utm_parameters(
+    url TEXT,
+    source TEXT,
+    medium TEXT,
+    campaign TEXT
+)
+RETURNS TEXT
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+    base TEXT := split_part(url, '#', 1);
+    fragment TEXT := substring(url FROM '#.*$');
+    param RECORD;
+BEGIN
+    FOR param IN
+        SELECT *
+        FROM (VALUES
+            ('utm_source', source),
+            ('utm_medium', medium),
+            ('utm_campaign', campaign)
+        ) AS p(name, value)
+    LOOP
+        CONTINUE WHEN coalesce(param.value, '') = '';
+        -- Keep parameters the brand already put on the product URL
+        CONTINUE WHEN base ~ ('[?&]' || param.name || '=');
+
+        base := base
+            || CASE
+                WHEN base ~ '[?&]$' THEN ''
+                WHEN position('?' IN base) > 0 THEN '&'
+                ELSE '?'
+            END
+            || param.name || '=' || param.value;
+    END LOOP;
+
+    RETURN base || coalesce(fragment, '');
+END;
+$$ LANGUAGE plpgsql;
+
+-- Returns NULL when the product is not live
+CREATE OR REPLACE FUNCTION record_product_click(
+    product_uuid UUID,
+    session_uuid TEXT,
+    referrer_url TEXT DEFAULT NULL
+)
+RETURNS TEXT
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    target RECORD;
+    settings brand_utm_settings%ROWTYPE;
+    session_key TEXT := left(coalesce(nullif(trim(session_uuid), ''), 'anonymous'), 100);
+BEGIN
+    SELECT p.id, p.brand_id, p.source_url
+    INTO target
+    FROM products p
+    WHERE p.id = product_uuid AND p.status = 'active';
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    -- Double clicks and reloads of the redirect page count once
+    IF NOT EXISTS (
+        SELECT 1 FROM product_clicks
+        WHERE product_id = target.id
+          AND session_id = session_key
+          AND clicked_at > NOW() - INTERVAL '10 seconds'
+    ) THEN
+        INSERT INTO product_clicks (product_id, brand_id, session_id, user_id, referrer)
+        VALUES (target.id, target.brand_id, session_key, auth.uid(), left(referrer_url, 2000));
+
+        INSERT INTO product_metrics_daily (product_id, date, clicks)
+        VALUES (target.id, CURRENT_DATE, 1)
+        ON CONFLICT (product_id, date) DO UPDATE SET
+            clicks = product_metrics_daily.clicks + 1;
+    END IF;
+
+    SELECT * INTO settings FROM brand_utm_settings WHERE brand_id = target.brand_id;
+
+    IF NOT FOUND THEN
+        RETURN with_utm_parameters(target.source_url, 'stylsia', 'referral', NULL);
+    ELSIF NOT settings.enabled THEN
+        RETURN target.source_url;
+    END IF;
+
+    RETURN with_utm_parameters(
+        target.source_url,
+        settings.utm_source,
+        settings.utm_medium,
+        settings.utm_campaign
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- 4. GRANT PERMISSIONS
+-- =============================================
+
+GRANT SELECT ON product_clicks TO authenticated;
+GRANT SELECT, INSERT, UPDATE ON brand_utm_settings TO authenticated;
+GRANT EXECUTE ON FUNCTION record_product_click(UUID, TEXT, TEXT) TO anon, authenticated;
+
+-- =============================================
+-- 5. VERIFICATION
+-- =============================================
+
+DO $$
+BEGIN
+    IF with_utm_parameters('https://shop.example/p?id=1#top', 'stylsia', 'referral', NULL)
+       = 'https://shop.example/p?id=1&utm_source=stylsia&utm_medium=referral#top' THEN
+        RAISE NOTICE 'Product click tracking set up successfully';
+    ELSE
+        RAISE EXCEPTION 'with_utm_parameters produced an unexpected URL';
+    END IF;
+END $$;
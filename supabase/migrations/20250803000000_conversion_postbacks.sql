@@ -0,0 +1,463 @@
+/*
+  # Conversion Postbacks
+
+  Conversions and revenue were never populated because brands had no way to
+  report sales. Outbound links now carry a click id, and brands report
+  orders for that click to the conversion-postback Edge Function using a
+  per-brand secret key. Orders are de-duplicated and rolled into the daily
+  product and brand metrics.
+
+  1. Schema Changes
+    - product_metrics_daily.revenue: Revenue reported for the product
+
+  2. New Tables
+    - brand_postback_keys: Hash of each brand's postback key. The key itself
+      is shown to the owner once.
+    - product_conversions: One row per reported order, unique per brand and
+      order id
+
+  3. New Functions
+    - rotate_brand_postback_key: Issues a new key for a brand (owners only)
+    - record_conversion_postback: Validates the key and click, records the
+      order and updates the daily metrics (called by the Edge Function)
+    - record_product_click: Now also appends the click id to the store URL
+
+  4. Analytics Functions
+    - get_brand_analytics_overview, get_brand_analytics_trends and
+      get_brand_top_products read revenue from product_metrics_daily. They
+      used to join brand_metrics_daily per product row, which multiplied
+      the totals once brand metrics had rows.
+*/
+
+-- =============================================
+-- 1. PRODUCT REVENUE
+-- =============================================
+
+ALTER TABLE product_metrics_daily
+ADD COLUMN IF NOT EXISTS revenue NUMERIC(12,2) NOT NULL DEFAULT 0;
+
+-- =============================================
+-- 2. POSTBACK KEYS
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS brand_postback_keys (
+    brand_id      UUID PRIMARY KEY REFERENCES brands(id) ON DELETE CASCADE,
+    key_hash      TEXT NOT NULL UNIQUE,
+    -- Start of the key so owners can tell which one is in use
+    key_prefix    TEXT NOT NULL,
+    created_by    UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    last_used_at  TIMESTAMPTZ,
+    created_at    TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at    TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TRIGGER update_brand_postback_keys_updated_at
+    BEFORE UPDATE ON brand_postback_keys
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE brand_postback_keys ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by rotate_brand_postback_key
+CREATE POLICY "Brand owners can view their postback key" ON brand_postback_keys
+    FOR SELECT
+    USING (is_brand_member(brand_id, 'owner'));
+
+-- =============================================
+-- 3. CONVERSIONS TABLE
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS product_conversions (
+    id           UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    brand_id     UUID NOT NULL REFERENCES brands(id) ON DELETE CASCADE,
+    product_id   UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    click_id     UUID NOT NULL REFERENCES product_clicks(id) ON DELETE CASCADE,
+    order_id     TEXT NOT NULL,
+    amount       NUMERIC(12,2) NOT NULL CHECK (amount >= 0),
+    currency     TEXT NOT NULL DEFAULT 'INR',
+    occurred_at  TIMESTAMPTZ NOT NULL,
+    received_at  TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (brand_id, order_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_conversions_product_date
+ON product_conversions (product_id, occurred_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_product_conversions_click
+ON product_conversions (click_id);
+
+ALTER TABLE product_conversions ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by record_conversion_postback
+CREATE POLICY "Brand members can view their conversions" ON product_conversions
+    FOR SELECT
+    USING (is_brand_member(brand_id));
+
+CREATE POLICY "Admins can view conversions" ON product_conversions
+    FOR SELECT
+    USING (has_admin_permission('analytics'));
+
+-- =============================================
+-- 4. KEY MANAGEMENT
+-- =============================================
+
+-- Returns the raw key. Only its hash is stored, so the caller has to show it
+-- to the owner straight away. The previous key stops working immediately.
+CREATE OR REPLACE FUNCTION rotate_brand_postback_key(brand UUID)
+RETURNS TEXT
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    new_key TEXT := 'spk_' || generate_invitation_token();
+BEGIN
+    IF NOT is_brand_member(brand, 'owner') THEN
+        RAISE EXCEPTION 'Unauthorized: only brand owners can manage postback keys';
+    END IF;
+
+    INSERT INTO brand_postback_keys AS k (brand_id, key_hash, key_prefix, created_by)
+    VALUES (brand, hash_invitation_token(new_key), left(new_key, 12), auth.uid())
+    ON CONFLICT (brand_id) DO UPDATE SET
+        key_hash = EXCLUDED.key_hash,
+        key_prefix = EXCLUDED.key_prefix,
+        created_by = EXCLUDED.created_by,
+        created_at = NOW(),
+        last_used_at = NULL;
+
+    PERFORM record_audit_event(
+        auth.uid(),
+        'UPDATE',
+        'brand_postback_keys',
+        brand::TEXT,
+        jsonb_build_object('action', 'rotate_postback_key')
+    );
+
+    RETURN new_key;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- 5. CONVERSION POSTBACKS
+-- =============================================
+
+-- Returns 'recorded', 'duplicate', 'invalid_key', 'unknown_click',
+-- 'outside_window' or 'unsupported_currency'. The key authenticates the
+-- call, so a caller without it learns nothing about clicks or orders.
+CREATE OR REPLACE FUNCTION record_conversion_postback(
+    postback_key TEXT,
+    click UUID,
+    order_ref TEXT,
+    order_amount NUMERIC,
+    order_currency TEXT DEFAULT 'INR',
+    occurred TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TEXT
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    key_brand UUID;
+    clicked RECORD;
+    occurred_val TIMESTAMPTZ := least(coalesce(occurred, NOW()), NOW());
+    conversion_id UUID;
+BEGIN
+    UPDATE brand_postback_keys
+    SET last_used_at = NOW()
+    WHERE key_hash = hash_invitation_token(postback_key)
+    RETURNING brand_id INTO key_brand;
+
+    IF key_brand IS NULL THEN
+        RETURN 'invalid_key';
+    END IF;
+
+    -- Revenue is summed across orders, so it has to be in one currency
+    IF upper(coalesce(order_currency, 'INR')) <> 'INR' THEN
+        RETURN 'unsupported_currency';
+    END IF;
+
+    SELECT c.id, c.product_id, c.clicked_at
+    INTO clicked
+    FROM product_clicks c
+    WHERE c.id = click AND c.brand_id = key_brand;
+
+    IF NOT FOUND THEN
+        RETURN 'unknown_click';
+    END IF;
+
+    -- Orders are attributed to clicks from the 30 days before them, allowing
+    -- for an hour of clock skew between our servers and the store
+    IF occurred_val < clicked.clicked_at - INTERVAL '1 hour'
+       OR occurred_val > clicked.clicked_at + INTERVAL '30 days' THEN
+        RETURN 'outside_window';
+    END IF;
+
+    INSERT INTO product_conversions (
+        brand_id, product_id, click_id, order_id, amount, currency, occurred_at
+    )
+    VALUES (
+        key_brand, clicked.product_id, clicked.id, left(trim(order_ref), 200),
+        round(order_amount, 2), 'INR', occurred_val
+    )
+    ON CONFLICT (brand_id, order_id) DO NOTHING
+    RETURNING id INTO conversion_id;
+
+    IF conversion_id IS NULL THEN
+        RETURN 'duplicate';
+    END IF;
+
+    INSERT INTO product_metrics_daily (product_id, date, conversions, revenue)
+    VALUES (clicked.product_id, occurred_val::DATE, 1, round(order_amount, 2))
+    ON CONFLICT (product_id, date) DO UPDATE SET
+        conversions = product_metrics_daily.conversions + 1,
+        revenue = product_metrics_daily.revenue + EXCLUDED.revenue;
+
+    INSERT INTO brand_metrics_daily (brand_id, date, total_revenue)
+    VALUES (key_brand, occurred_val::DATE, round(order_amount, 2))
+    ON CONFLICT (brand_id, date) DO UPDATE SET
+        total_revenue = coalesce(brand_metrics_daily.total_revenue, 0) + EXCLUDED.total_revenue;
+
+    RETURN 'recorded';
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- 6. CLICK IDS ON OUTBOUND LINKS
+-- =============================================
+
+CREATE OR REPLACE FUNCTION record_product_click(
+    product_uuid UUID,
+    session_uuid TEXT,
+    referrer_url TEXT DEFAULT NULL
+)
+RETURNS TEXT
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    target RECORD;
+    settings brand_utm_settings%ROWTYPE;
+    session_key TEXT := left(coalesce(nullif(trim(session_uuid), ''), 'anonymous'), 100);
+    click_id UUID;
+    url TEXT;
+BEGIN
+    SELECT p.id, p.brand_id, p.source_url
+    INTO target
+    FROM products p
+    WHERE p.id = product_uuid AND p.status = 'active';
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    -- Double clicks and reloads of the redirect page count once
+    SELECT c.id INTO click_id
+    FROM product_clicks c
+    WHERE c.product_id = target.id
+      AND c.session_id = session_key
+      AND c.clicked_at > NOW() - INTERVAL '10 seconds'
+    ORDER BY c.clicked_at DESC
+    LIMIT 1;
+
+    IF click_id IS NULL THEN
+        INSERT INTO product_clicks (product_id, brand_id, session_id, user_id, referrer)
+        VALUES (target.id, target.brand_id, session_key, auth.uid(), left(referrer_url, 2000))
+        RETURNING id INTO click_id;
+
+        INSERT INTO product_metrics_daily (product_id, date, clicks)
+        VALUES (target.id, CURRENT_DATE, 1)
+        ON CONFLICT (product_id, date) DO UPDATE SET
+            clicks = product_metrics_daily.clicks + 1;
+    END IF;
+
+    SELECT * INTO settings FROM brand_utm_settings WHERE brand_id = target.brand_id;
+
+    IF NOT FOUND THEN
+        url := with_utm_parameters(target.source_url, 'stylsia', 'referral', NULL);
+    ELSIF NOT settings.enabled THEN
+        url := target.source_url;
+    ELSE
+        url := with_utm_parameters(
+            target.source_url,
+            settings.utm_source,
+            settings.utm_medium,
+            settings.utm_campaign
+        );
+    END IF;
+
+    -- Brands send this id back with conversion postbacks
+    RETURN split_part(url, '#', 1)
+        || CASE WHEN position('?' IN url) > 0 THEN '&' ELSE '?' END
+        || 'stylsia_click_id=' || click_id
+        || coalesce(substring(url FROM '#.*$'), '');
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- 7. ANALYTICS FUNCTIONS
+-- =============================================
+
+CREATE OR REPLACE FUNCTION get_brand_analytics_overview(
+    brand_uuid UUID,
+    start_date DATE DEFAULT NULL,
+    end_date DATE DEFAULT NULL
+)
+RETURNS TABLE (
+    total_products INTEGER,
+    total_views BIGINT,
+    total_clicks BIGINT,
+    total_conversions BIGINT,
+    total_revenue NUMERIC,
+    conversion_rate NUMERIC
+) AS $$
+DECLARE
+    start_date_val DATE;
+    end_date_val DATE;
+BEGIN
+    -- Set default date range if not provided
+    start_date_val := COALESCE(start_date, CURRENT_DATE - INTERVAL '30 days');
+    end_date_val := COALESCE(end_date, CURRENT_DATE);
+
+    RETURN QUERY
+    SELECT
+        COUNT(DISTINCT p.id)::INTEGER as total_products,
+        COALESCE(SUM(pmd.views), 0)::BIGINT as total_views,
+        COALESCE(SUM(pmd.clicks), 0)::BIGINT as total_clicks,
+        COALESCE(SUM(pmd.conversions), 0)::BIGINT as total_conversions,
+        COALESCE(SUM(pmd.revenue), 0)::NUMERIC as total_revenue,
+        CASE
+            WHEN SUM(pmd.clicks) > 0
+            THEN (SUM(pmd.conversions)::NUMERIC / SUM(pmd.clicks)::NUMERIC * 100)
+            ELSE 0
+        END as conversion_rate
+    FROM products p
+    LEFT JOIN product_metrics_daily pmd ON p.id = pmd.product_id
+        AND pmd.date BETWEEN start_date_val AND end_date_val
+    WHERE p.brand_id = brand_uuid;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION get_brand_analytics_trends(
+    brand_uuid UUID,
+    start_date DATE DEFAULT NULL,
+    end_date DATE DEFAULT NULL,
+    period_type TEXT DEFAULT 'day'
+)
+RETURNS TABLE (
+    date TEXT,
+    views BIGINT,
+    clicks BIGINT,
+    conversions BIGINT,
+    revenue NUMERIC
+) AS $$
+DECLARE
+    start_date_val DATE;
+    end_date_val DATE;
+    date_format TEXT;
+    date_trunc_period TEXT;
+BEGIN
+    -- Set default date range if not provided
+    start_date_val := COALESCE(start_date, CURRENT_DATE - INTERVAL '30 days');
+    end_date_val := COALESCE(end_date, CURRENT_DATE);
+
+    -- Set date formatting based on period
+    CASE period_type
+        WHEN 'week' THEN
+            date_format := 'YYYY-"W"WW';
+            date_trunc_period := 'week';
+        WHEN 'month' THEN
+            date_format := 'YYYY-MM';
+            date_trunc_period := 'month';
+        WHEN 'year' THEN
+            date_format := 'YYYY';
+            date_trunc_period := 'year';
+        ELSE
+            date_format := 'YYYY-MM-DD';
+            date_trunc_period := 'day';
+    END CASE;
+
+    RETURN QUERY
+    SELECT
+        TO_CHAR(DATE_TRUNC(date_trunc_period, pmd.date), date_format) as date,
+        SUM(pmd.views)::BIGINT as views,
+        SUM(pmd.clicks)::BIGINT as clicks,
+        SUM(pmd.conversions)::BIGINT as conversions,
+        SUM(pmd.revenue)::NUMERIC as revenue
+    FROM product_metrics_daily pmd
+    JOIN products p ON pmd.product_id = p.id
+    WHERE p.brand_id = brand_uuid
+        AND pmd.date BETWEEN start_date_val AND end_date_val
+    GROUP BY DATE_TRUNC(date_trunc_period, pmd.date)
+    ORDER BY DATE_TRUNC(date_trunc_period, pmd.date);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION get_brand_top_products(
+    brand_uuid UUID,
+    start_date DATE DEFAULT NULL,
+    end_date DATE DEFAULT NULL,
+    limit_count INTEGER DEFAULT 10
+)
+RETURNS TABLE (
+    product_id UUID,
+    product_name TEXT,
+    views BIGINT,
+    clicks BIGINT,
+    conversions BIGINT,
+    revenue NUMERIC
+) AS $$
+DECLARE
+    start_date_val DATE;
+    end_date_val DATE;
+BEGIN
+    -- Set default date range if not provided
+    start_date_val := COALESCE(start_date, CURRENT_DATE - INTERVAL '30 days');
+    end_date_val := COALESCE(end_date, CURRENT_DATE);
+
+    RETURN QUERY
+    SELECT
+        p.id as product_id,
+        p.name as product_name,
+        COALESCE(SUM(pmd.views), 0)::BIGINT as views,
+        COALESCE(SUM(pmd.clicks), 0)::BIGINT as clicks,
+        COALESCE(SUM(pmd.conversions), 0)::BIGINT as conversions,
+        COALESCE(SUM(pmd.revenue), 0)::NUMERIC as revenue
+    FROM products p
+    LEFT JOIN product_metrics_daily pmd ON p.id = pmd.product_id
+        AND pmd.date BETWEEN start_date_val AND end_date_val
+    WHERE p.brand_id = brand_uuid
+        AND p.status = 'active'
+    GROUP BY p.id, p.name
+    ORDER BY COALESCE(SUM(pmd.views), 0) DESC
+    LIMIT limit_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =============================================
+-- 8. GRANT PERMISSIONS
+-- =============================================
+
+GRANT SELECT ON brand_postback_keys TO authenticated;
+GRANT SELECT ON product_conversions TO authenticated;
+GRANT EXECUTE ON FUNCTION rotate_brand_postback_key(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION record_conversion_postback(TEXT, UUID, TEXT, NUMERIC, TEXT, TIMESTAMPTZ) TO service_role;
+
+-- =============================================
+-- 9. VERIFICATION
+-- =============================================
+
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = 'public'
+          AND table_name = 'product_metrics_daily'
+          AND column_name = 'revenue'
+    ) AND EXISTS (
+        SELECT 1 FROM information_schema.tables
+        WHERE table_schema = 'public' AND table_name = 'product_conversions'
+    ) THEN
+        RAISE NOTICE 'Conversion postbacks set up successfully';
+    ELSE
+        RAISE EXCEPTION 'Conversion postback tables were not created';
+    END IF;
+END $$;
@@ -0,0 +1,261 @@
+/*
+  # Daily Metrics Rollup
+
+  Product views were recorded but never aggregated, so the analytics
+  functions read empty views from product_metrics_daily and nothing ever
+  filled brand_metrics_daily. This migration adds a rollup that rebuilds
+  both tables from the event tables for any date range.
+
+  1. New Functions
+    - rollup_daily_metrics: Recalculates product and brand metrics for a
+      date range (defaults to yesterday and today). Returns the number of
+      product-days written.
+
+  2. What Is Calculated
+    - product_metrics_daily: views, unique_views (distinct sessions), clicks,
+      conversions and revenue from product_views, product_clicks and
+      product_conversions; avg_price and discount_rate from the product
+    - brand_metrics_daily: total_views and total_revenue summed from the
+      product rows; total_products, active_products and avg_price from the
+      brand's catalog
+
+  3. Idempotency
+    - Counters are recalculated from the event tables, so running a range
+      again gives the same result and corrects live increments
+    - Prices and catalog counts are not versioned. They are captured for
+      today and for days that have no snapshot yet, and kept otherwise, so a
+      backfill never overwrites a snapshot with today's catalog.
+
+  4. Scheduling
+    - Hourly through pg_cron where it is installed; admins can also run a
+      backfill from the analytics dashboard
+*/
+
+-- =============================================
+-- 1. ROLLUP FUNCTION
+-- =============================================
+
+CREATE OR REPLACE FUNCTION rollup_daily_metrics(
+    start_date DATE DEFAULT NULL,
+    end_date DATE DEFAULT NULL
+)
+RETURNS INTEGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    start_date_val DATE := COALESCE(start_date, CURRENT_DATE - 1);
+    end_date_val DATE := COALESCE(end_date, CURRENT_DATE);
+    product_rows INTEGER;
+BEGIN
+    -- Scheduled runs have no user; signed-in callers must be admins
+    IF auth.uid() IS NOT NULL AND NOT has_admin_permission('analytics') THEN
+        RAISE EXCEPTION 'Unauthorized: only admins can roll up metrics';
+    END IF;
+
+    IF end_date_val < start_date_val THEN
+        RAISE EXCEPTION 'end_date must not be before start_date';
+    END IF;
+
+    IF end_date_val - start_date_val > 366 THEN
+        RAISE EXCEPTION 'Roll up at most one year at a time';
+    END IF;
+
+    -- Days whose events are gone (e.g. deleted products) drop back to zero
+    UPDATE product_metrics_daily
+    SET views = 0,
+        unique_views = 0,
+        clicks = 0,
+        conversions = 0,
+        revenue = 0
+    WHERE date BETWEEN start_date_val AND end_date_val;
+
+    WITH view_counts AS (
+        SELECT
+            product_id,
+            viewed_at::DATE AS date,
+            COUNT(*) AS views,
+            COUNT(DISTINCT session_id) AS unique_views
+        FROM product_views
+        WHERE viewed_at >= start_date_val AND viewed_at < end_date_val + 1
+        GROUP BY product_id, viewed_at::DATE
+    ),
+    click_counts AS (
+        SELECT product_id, clicked_at::DATE AS date, COUNT(*) AS clicks
+        FROM product_clicks
+        WHERE clicked_at >= start_date_val AND clicked_at < end_date_val + 1
+        GROUP BY product_id, clicked_at::DATE
+    ),
+    conversion_counts AS (
+        SELECT
+            product_id,
+            occurred_at::DATE AS date,
+            COUNT(*) AS conversions,
+            SUM(amount) AS revenue
+        FROM product_conversions
+        WHERE occurred_at >= start_date_val AND occurred_at < end_date_val + 1
+        GROUP BY product_id, occurred_at::DATE
+    ),
+    activity AS (
+        SELECT
+            product_id,
+            date,
+            SUM(views) AS views,
+            SUM(unique_views) AS unique_views,
+            SUM(clicks) AS clicks,
+            SUM(conversions) AS conversions,
+            SUM(revenue) AS revenue
+        FROM (
+            SELECT product_id, date, views, unique_views, 0 AS clicks, 0 AS conversions, 0 AS revenue
+            FROM view_counts
+            UNION ALL
+            SELECT product_id, date, 0, 0, clicks, 0, 0
+            FROM click_counts
+            UNION ALL
+            SELECT product_id, date, 0, 0, 0, conversions, revenue
+            FROM conversion_counts
+        ) events
+        GROUP BY product_id, date
+    )
+    INSERT INTO product_metrics_daily AS pmd (
+        product_id,
+        date,
+        views,
+        unique_views,
+        clicks,
+        conversions,
+        revenue,
+        avg_price,
+        discount_rate
+    )
+    SELECT
+        a.product_id,
+        a.date,
+        a.views,
+        a.unique_views,
+        a.clicks,
+        a.conversions,
+        a.revenue,
+        p.current_price,
+        p.discount_percentage
+    FROM activity a
+    JOIN products p ON p.id = a.product_id
+    ON CONFLICT (product_id, date) DO UPDATE SET
+        views = EXCLUDED.views,
+        unique_views = EXCLUDED.unique_views,
+        clicks = EXCLUDED.clicks,
+        conversions = EXCLUDED.conversions,
+        revenue = EXCLUDED.revenue,
+        avg_price = CASE
+            WHEN pmd.date = CURRENT_DATE OR pmd.avg_price IS NULL THEN EXCLUDED.avg_price
+            ELSE pmd.avg_price
+        END,
+        discount_rate = CASE
+            WHEN pmd.date = CURRENT_DATE OR pmd.avg_price IS NULL THEN EXCLUDED.discount_rate
+            ELSE pmd.discount_rate
+        END;
+
+    GET DIAGNOSTICS product_rows = ROW_COUNT;
+
+    -- One row per brand and day, including days without traffic, so catalog
+    -- size is tracked over time
+    INSERT INTO brand_metrics_daily AS bmd (
+        brand_id,
+        date,
+        total_views,
+        total_products,
+        active_products,
+        avg_price,
+        total_revenue
+    )
+    SELECT
+        b.id,
+        d.date,
+        COALESCE(traffic.views, 0),
+        COALESCE(catalog.total_products, 0),
+        COALESCE(catalog.active_products, 0),
+        catalog.avg_price,
+        COALESCE(traffic.revenue, 0)
+    FROM brands b
+    CROSS JOIN (
+        SELECT generate_series(start_date_val, end_date_val, INTERVAL '1 day')::DATE AS date
+    ) d
+    LEFT JOIN LATERAL (
+        SELECT SUM(pmd.views) AS views, SUM(pmd.revenue) AS revenue
+        FROM product_metrics_daily pmd
+        JOIN products p ON p.id = pmd.product_id
+        WHERE p.brand_id = b.id AND pmd.date = d.date
+    ) traffic ON TRUE
+    LEFT JOIN LATERAL (
+        SELECT
+            COUNT(*) AS total_products,
+            COUNT(*) FILTER (WHERE p.status = 'active') AS active_products,
+            AVG(p.current_price) FILTER (WHERE p.status = 'active') AS avg_price
+        FROM products p
+        WHERE p.brand_id = b.id AND p.created_at < d.date + 1
+    ) catalog ON TRUE
+    ON CONFLICT (brand_id, date) DO UPDATE SET
+        total_views = EXCLUDED.total_views,
+        total_revenue = EXCLUDED.total_revenue,
+        total_products = CASE
+            WHEN bmd.date = CURRENT_DATE OR bmd.avg_price IS NULL THEN EXCLUDED.total_products
+            ELSE bmd.total_products
+        END,
+        active_products = CASE
+            WHEN bmd.date = CURRENT_DATE OR bmd.avg_price IS NULL THEN EXCLUDED.active_products
+            ELSE bmd.active_products
+        END,
+        avg_price = CASE
+            WHEN bmd.date = CURRENT_DATE OR bmd.avg_price IS NULL THEN EXCLUDED.avg_price
+            ELSE bmd.avg_price
+        END;
+
+    RETURN product_rows;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- 2. SCHEDULED ROLLUP
+-- =============================================
+
+-- Re-running yesterday picks up events that arrived after midnight
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+        PERFORM cron.schedule(
+            'rollup-daily-metrics',
+            '5 * * * *',
+            'SELECT rollup_daily_metrics()'
+        );
+    ELSE
+        RAISE NOTICE 'pg_cron not installed; run rollup_daily_metrics() from the admin analytics dashboard or an external scheduler';
+    END IF;
+END $$;
+
+-- =============================================
+-- 3. BACKFILL
+-- =============================================
+
+-- Views have been recorded since launch without ever being aggregated
+SELECT rollup_daily_metrics(CURRENT_DATE - 90, CURRENT_DATE);
+
+-- =============================================
+-- 4. GRANT PERMISSIONS
+-- =============================================
+
+GRANT EXECUTE ON FUNCTION rollup_daily_metrics(DATE, DATE) TO authenticated;
+
+-- =============================================
+-- 5. VERIFICATION
+-- =============================================
+
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM pg_proc WHERE proname = 'rollup_daily_metrics'
+    ) THEN
+        RAISE NOTICE 'Daily metrics rollup set up successfully';
+    ELSE
+        RAISE EXCEPTION 'rollup_daily_metrics was not created';
+    END IF;
+END $$;
@@ -0,0 +1,368 @@
+/*
+  # Product Analytics
+
+  Brands could see their top products but not drill into one. This
+  migration adds the data behind the per-product analytics page.
+
+  1. Schema Changes
+    - product_metrics_daily.sizes_available / sizes_total: Daily snapshot of
+      size availability, so traffic can be compared against stock
+
+  2. Changed Functions
+    - rollup_daily_metrics: Also snapshots size availability, with the same
+      rules as prices (captured for today and for days without a snapshot)
+
+  3. New Functions
+    - get_product_analytics_trends: Daily metrics for one product, including
+      price and size snapshots
+    - get_product_referrers: Views grouped by referring site
+
+  4. Security
+    - Both functions are limited to members of the product's brand and
+      admins with the analytics permission
+*/
+
+-- =============================================
+-- 1. SIZE AVAILABILITY SNAPSHOT
+-- =============================================
+
+ALTER TABLE product_metrics_daily
+ADD COLUMN IF NOT EXISTS sizes_available INTEGER,
+ADD COLUMN IF NOT EXISTS sizes_total INTEGER;
+
+-- =============================================
+-- 2. ROLLUP
+-- =============================================
+
+CREATE OR REPLACE FUNCTION rollup_daily_metrics(
+    start_date DATE DEFAULT NULL,
+    end_date DATE DEFAULT NULL
+)
+RETURNS INTEGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    start_date_val DATE := COALESCE(start_date, CURRENT_DATE - 1);
+    end_date_val DATE := COALESCE(end_date, CURRENT_DATE);
+    product_rows INTEGER;
+BEGIN
+    -- Scheduled runs have no user; signed-in callers must be admins
+    IF auth.uid() IS NOT NULL AND NOT has_admin_permission('analytics') THEN
+        RAISE EXCEPTION 'Unauthorized: only admins can roll up metrics';
+    END IF;
+
+    IF end_date_val < start_date_val THEN
+        RAISE EXCEPTION 'end_date must not be before start_date';
+    END IF;
+
+    IF end_date_val - start_date_val > 366 THEN
+        RAISE EXCEPTION 'Roll up at most one year at a time';
+    END IF;
+
+    -- Days whose events are gone (e.g. deleted products) drop back to zero
+    UPDATE product_metrics_daily
+    SET views = 0,
+        unique_views = 0,
+        clicks = 0,
+        conversions = 0,
+        revenue = 0
+    WHERE date BETWEEN start_date_val AND end_date_val;
+
+    WITH view_counts AS (
+        SELECT
+            product_id,
+            viewed_at::DATE AS date,
+            COUNT(*) AS views,
+            COUNT(DISTINCT session_id) AS unique_views
+        FROM product_views
+        WHERE viewed_at >= start_date_val AND viewed_at < end_date_val + 1
+        GROUP BY product_id, viewed_at::DATE
+    ),
+    click_counts AS (
+        SELECT product_id, clicked_at::DATE AS date, COUNT(*) AS clicks
+        FROM product_clicks
+        WHERE clicked_at >= start_date_val AND clicked_at < end_date_val + 1
+        GROUP BY product_id, clicked_at::DATE
+    ),
+    conversion_counts AS (
+        SELECT
+            product_id,
+            occurred_at::DATE AS date,
+            COUNT(*) AS conversions,
+            SUM(amount) AS revenue
+        FROM product_conversions
+        WHERE occurred_at >= start_date_val AND occurred_at < end_date_val + 1
+        GROUP BY product_id, occurred_at::DATE
+    ),
+    activity AS (
+        SELECT
+            product_id,
+            date,
+            SUM(views) AS views,
+            SUM(unique_views) AS unique_views,
+            SUM(clicks) AS clicks,
+            SUM(conversions) AS conversions,
+            SUM(revenue) AS revenue
+        FROM (
+            SELECT product_id, date, views, unique_views, 0 AS clicks, 0 AS conversions, 0 AS revenue
+            FROM view_counts
+            UNION ALL
+            SELECT product_id, date, 0, 0, clicks, 0, 0
+            FROM click_counts
+            UNION ALL
+            SELECT product_id, date, 0, 0, 0, conversions, revenue
+            FROM conversion_counts
+        ) events
+        GROUP BY product_id, date
+    )
+    INSERT INTO product_metrics_daily AS pmd (
+        product_id,
+        date,
+        views,
+        unique_views,
+        clicks,
+        conversions,
+        revenue,
+        avg_price,
+        discount_rate,
+        sizes_available,
+        sizes_total
+    )
+    SELECT
+        a.product_id,
+        a.date,
+        a.views,
+        a.unique_views,
+        a.clicks,
+        a.conversions,
+        a.revenue,
+        p.current_price,
+        p.discount_percentage,
+        sizes.available,
+        sizes.total
+    FROM activity a
+    JOIN products p ON p.id = a.product_id
+    LEFT JOIN LATERAL (
+        SELECT
+            COUNT(*) FILTER (WHERE ps.is_available) AS available,
+            COUNT(*) AS total
+        FROM product_sizes ps
+        WHERE ps.product_id = p.id
+    ) sizes ON TRUE
+    ON CONFLICT (product_id, date) DO UPDATE SET
+        views = EXCLUDED.views,
+        unique_views = EXCLUDED.unique_views,
+        clicks = EXCLUDED.clicks,
+        conversions = EXCLUDED.conversions,
+        revenue = EXCLUDED.revenue,
+        avg_price = CASE
+            WHEN pmd.date = CURRENT_DATE OR pmd.avg_price IS NULL THEN EXCLUDED.avg_price
+            ELSE pmd.avg_price
+        END,
+        discount_rate = CASE
+            WHEN pmd.date = CURRENT_DATE OR pmd.avg_price IS NULL THEN EXCLUDED.discount_rate
+            ELSE pmd.discount_rate
+        END,
+        sizes_available = CASE
+            WHEN pmd.date = CURRENT_DATE OR pmd.sizes_total IS NULL THEN EXCLUDED.sizes_available
+            ELSE pmd.sizes_available
+        END,
+        sizes_total = CASE
+            WHEN pmd.date = CURRENT_DATE OR pmd.sizes_total IS NULL THEN EXCLUDED.sizes_total
+            ELSE pmd.sizes_total
+        END;
+
+    GET DIAGNOSTICS product_rows = ROW_COUNT;
+
+    -- One row per brand and day, including days without traffic, so catalog
+    -- size is tracked over time
+    INSERT INTO brand_metrics_daily AS bmd (
+        brand_id,
+        date,
+        total_views,
+        total_products,
+        active_products,
+        avg_price,
+        total_revenue
+    )
+    SELECT
+        b.id,
+        d.date,
+        COALESCE(traffic.views, 0),
+        COALESCE(catalog.total_products, 0),
+        COALESCE(catalog.active_products, 0),
+        catalog.avg_price,
+        COALESCE(traffic.revenue, 0)
+    FROM brands b
+    CROSS JOIN (
+        SELECT generate_series(start_date_val, end_date_val, INTERVAL '1 day')::DATE AS date
+    ) d
+    LEFT JOIN LATERAL (
+        SELECT SUM(pmd.views) AS views, SUM(pmd.revenue) AS revenue
+        FROM product_metrics_daily pmd
+        JOIN products p ON p.id = pmd.product_id
+        WHERE p.brand_id = b.id AND pmd.date = d.date
+    ) traffic ON TRUE
+    LEFT JOIN LATERAL (
+        SELECT
+            COUNT(*) AS total_products,
+            COUNT(*) FILTER (WHERE p.status = 'active') AS active_products,
+            AVG(p.current_price) FILTER (WHERE p.status = 'active') AS avg_price
+        FROM products p
+        WHERE p.brand_id = b.id AND p.created_at < d.date + 1
+    ) catalog ON TRUE
+    ON CONFLICT (brand_id, date) DO UPDATE SET
+        total_views = EXCLUDED.total_views,
+        total_revenue = EXCLUDED.total_revenue,
+        total_products = CASE
+            WHEN bmd.date = CURRENT_DATE OR bmd.avg_price IS NULL THEN EXCLUDED.total_products
+            ELSE bmd.total_products
+        END,
+        active_products = CASE
+            WHEN bmd.date = CURRENT_DATE OR bmd.avg_price IS NULL THEN EXCLUDED.active_products
+            ELSE bmd.active_products
+        END,
+        avg_price = CASE
+            WHEN bmd.date = CURRENT_DATE OR bmd.avg_price IS NULL THEN EXCLUDED.avg_price
+            ELSE bmd.avg_price
+        END;
+
+    RETURN product_rows;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- 3. PRODUCT ANALYTICS FUNCTIONS
+-- =============================================
+
+CREATE OR REPLACE FUNCTION can_view_product_analytics(product_uuid UUID)
+RETURNS BOOLEAN
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM products p
+        WHERE p.id = product_uuid
+          AND (is_brand_member(p.brand_id) OR has_admin_permission('analytics'))
+    );
+$$ LANGUAGE sql;
+
+CREATE OR REPLACE FUNCTION get_product_analytics_trends(
+    product_uuid UUID,
+    start_date DATE DEFAULT NULL,
+    end_date DATE DEFAULT NULL
+)
+RETURNS TABLE (
+    date TEXT,
+    views BIGINT,
+    unique_views BIGINT,
+    clicks BIGINT,
+    conversions BIGINT,
+    revenue NUMERIC,
+    avg_price NUMERIC,
+    discount_rate INTEGER,
+    sizes_available INTEGER,
+    sizes_total INTEGER
+)
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    start_date_val DATE := COALESCE(start_date, CURRENT_DATE - 30);
+    end_date_val DATE := COALESCE(end_date, CURRENT_DATE);
+BEGIN
+    IF NOT can_view_product_analytics(product_uuid) THEN
+        RAISE EXCEPTION 'Unauthorized: not a member of this product''s brand';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        TO_CHAR(pmd.date, 'YYYY-MM-DD'),
+        pmd.views::BIGINT,
+        pmd.unique_views::BIGINT,
+        pmd.clicks::BIGINT,
+        pmd.conversions::BIGINT,
+        pmd.revenue,
+        pmd.avg_price,
+        pmd.discount_rate,
+        pmd.sizes_available,
+        pmd.sizes_total
+    FROM product_metrics_daily pmd
+    WHERE pmd.product_id = product_uuid
+      AND pmd.date BETWEEN start_date_val AND end_date_val
+    ORDER BY pmd.date;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Referrers are grouped by host; views without one count as direct traffic
+CREATE OR REPLACE FUNCTION get_product_referrers(
+    product_uuid UUID,
+    start_date DATE DEFAULT NULL,
+    end_date DATE DEFAULT NULL,
+    limit_count INTEGER DEFAULT 10
+)
+RETURNS TABLE (
+    source TEXT,
+    views BIGINT,
+    sessions BIGINT
+)
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    start_date_val DATE := COALESCE(start_date, CURRENT_DATE - 30);
+    end_date_val DATE := COALESCE(end_date, CURRENT_DATE);
+BEGIN
+    IF NOT can_view_product_analytics(product_uuid) THEN
+        RAISE EXCEPTION 'Unauthorized: not a member of this product''s brand';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        referrers.source,
+        COUNT(*)::BIGINT AS views,
+        COUNT(DISTINCT referrers.session_id)::BIGINT AS sessions
+    FROM (
+        SELECT
+            COALESCE(
+                lower(substring(pv.referrer FROM '^[a-zA-Z][a-zA-Z0-9+.-]*://(?:www\.)?([^/:?#]+)')),
+                'Direct'
+            ) AS source,
+            pv.session_id
+        FROM product_views pv
+        WHERE pv.product_id = product_uuid
+          AND pv.viewed_at >= start_date_val
+          AND pv.viewed_at < end_date_val + 1
+    ) referrers
+    GROUP BY referrers.source
+    ORDER BY COUNT(*) DESC
+    LIMIT limit_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- 4. GRANT PERMISSIONS
+-- =============================================
+
+GRANT EXECUTE ON FUNCTION get_product_analytics_trends(UUID, DATE, DATE) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_product_referrers(UUID, DATE, DATE, INTEGER) TO authenticated;
+
+-- =============================================
+-- 5. VERIFICATION
+-- =============================================
+
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = 'public'
+          AND table_name = 'product_metrics_daily'
+          AND column_name = 'sizes_available'
+    ) THEN
+        RAISE NOTICE 'Product analytics set up successfully';
+    ELSE
+        RAISE EXCEPTION 'product_metrics_daily.sizes_available was not created';
+    END IF;
+END $$;
@@ -0,0 +1,289 @@
+/*
+  # Weekly Performance Reports
+
+  notification_preferences.weekly_report has been stored since the
+  notifications migration, but nothing sent reports. This migration adds the
+  data and archive behind the weekly-reports Edge Function, which renders
+  each brand's week into an HTML email with a PDF copy.
+
+  1. New Tables
+    - weekly_reports: One row per brand and week, with the figures used, the
+      archived files and the delivery status
+
+  2. New Functions
+    - get_weekly_report_data: Overview, previous week and top products for a
+      brand's week, from product_metrics_daily
+    - get_weekly_report_recipients: Brands due a report for a week, with the
+      addresses to send it to
+
+  3. Storage
+    - weekly-reports: Private bucket, one folder per brand id, holding the
+      HTML and PDF of every report
+
+  4. Preferences
+    - Brands with weekly_report turned off are skipped
+    - Brands without a preferences row get the report (the column default)
+    - Reports go to the brand's owners, or the contact email if it has none
+
+  5. Scheduling
+    - Mondays at 02:00 UTC through pg_cron and pg_net where both are
+      installed, once the hourly rollup has closed Sunday
+    - Weeks already sent are skipped, so re-running the schedule is safe
+
+  6. Security
+    - Brand members and analytics admins can read reports and their files
+    - Only the service role (the Edge Function) writes them
+*/
+
+-- =============================================
+-- 1. WEEKLY REPORTS TABLE
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS weekly_reports (
+    id         UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    brand_id   UUID NOT NULL REFERENCES brands(id) ON DELETE CASCADE,
+    week_start DATE NOT NULL,
+    week_end   DATE NOT NULL,
+    summary    JSONB NOT NULL DEFAULT '{}'::jsonb,
+    html_path  TEXT,
+    pdf_path   TEXT,
+    status     TEXT NOT NULL DEFAULT 'generated' CHECK (status IN ('generated', 'sent', 'failed')),
+    recipients TEXT[] NOT NULL DEFAULT '{}',
+    error      TEXT,
+    sent_at    TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (brand_id, week_start),
+    CHECK (week_end = week_start + 6)
+);
+
+CREATE INDEX IF NOT EXISTS idx_weekly_reports_brand ON weekly_reports(brand_id, week_start DESC);
+
+ALTER TABLE weekly_reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Brand members can view weekly reports" ON weekly_reports
+    FOR SELECT
+    USING (is_brand_member(brand_id));
+
+CREATE POLICY "Admins can view weekly reports" ON weekly_reports
+    FOR SELECT
+    USING (has_admin_permission('analytics'));
+
+CREATE TRIGGER update_weekly_reports_updated_at
+    BEFORE UPDATE ON weekly_reports
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================
+-- 2. STORAGE
+-- =============================================
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+    'weekly-reports',
+    'weekly-reports',
+    false,
+    5242880,
+    ARRAY['text/html', 'application/pdf']
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- Files live in a folder named after the brand id
+CREATE POLICY "Brand members and admins can read weekly reports"
+ON storage.objects FOR SELECT
+USING (
+  bucket_id = 'weekly-reports'
+  AND auth.role() = 'authenticated'
+  AND (
+    has_admin_permission('analytics')
+    OR EXISTS (
+      SELECT 1 FROM brand_members bm
+      WHERE bm.brand_id::text = (storage.foldername(name))[1]
+        AND bm.user_id = auth.uid()
+    )
+  )
+);
+
+-- =============================================
+-- 3. REPORT FUNCTIONS
+-- =============================================
+
+-- Totals for one week of a brand's products. Runs with the caller's rights;
+-- get_weekly_report_data calls it as the definer.
+CREATE OR REPLACE FUNCTION weekly_report_totals(brand_uuid UUID, week_start DATE)
+RETURNS JSONB
+STABLE
+SET search_path = public
+AS $$
+    SELECT jsonb_build_object(
+        'views', COALESCE(SUM(pmd.views), 0),
+        'unique_views', COALESCE(SUM(pmd.unique_views), 0),
+        'clicks', COALESCE(SUM(pmd.clicks), 0),
+        'conversions', COALESCE(SUM(pmd.conversions), 0),
+        'revenue', COALESCE(SUM(pmd.revenue), 0)
+    )
+    FROM product_metrics_daily pmd
+    JOIN products p ON p.id = pmd.product_id
+    WHERE p.brand_id = brand_uuid
+      AND pmd.date BETWEEN week_start AND week_start + 6;
+$$ LANGUAGE sql;
+
+CREATE OR REPLACE FUNCTION get_weekly_report_data(brand_uuid UUID, week_start DATE)
+RETURNS JSONB
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    brand_row brands%ROWTYPE;
+    top_products JSONB;
+BEGIN
+    -- The Edge Function runs as the service role; admins may preview
+    IF auth.uid() IS NOT NULL AND NOT has_admin_permission('analytics') THEN
+        RAISE EXCEPTION 'Unauthorized: only admins can generate weekly reports';
+    END IF;
+
+    SELECT * INTO brand_row FROM brands WHERE id = brand_uuid;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Brand not found';
+    END IF;
+
+    SELECT COALESCE(jsonb_agg(t ORDER BY t.views DESC, t.clicks DESC), '[]'::jsonb)
+    INTO top_products
+    FROM (
+        SELECT
+            p.id AS product_id,
+            p.name,
+            SUM(pmd.views) AS views,
+            SUM(pmd.clicks) AS clicks,
+            SUM(pmd.conversions) AS conversions,
+            SUM(pmd.revenue) AS revenue
+        FROM product_metrics_daily pmd
+        JOIN products p ON p.id = pmd.product_id
+        WHERE p.brand_id = brand_uuid
+          AND pmd.date BETWEEN week_start AND week_start + 6
+        GROUP BY p.id, p.name
+        HAVING SUM(pmd.views) > 0 OR SUM(pmd.clicks) > 0
+        ORDER BY SUM(pmd.views) DESC, SUM(pmd.clicks) DESC
+        LIMIT 5
+    ) t;
+
+    RETURN jsonb_build_object(
+        'brand', jsonb_build_object('id', brand_row.id, 'name', brand_row.name),
+        'week_start', week_start,
+        'week_end', week_start + 6,
+        'active_products', (
+            SELECT COUNT(*) FROM products
+            WHERE brand_id = brand_uuid AND status = 'active'
+        ),
+        'current', weekly_report_totals(brand_uuid, week_start),
+        'previous', weekly_report_totals(brand_uuid, week_start - 7),
+        'top_products', top_products
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Active brands that want the report and have not been sent this week's yet.
+-- Naming a brand includes it even if it was sent, to resend on request.
+CREATE OR REPLACE FUNCTION get_weekly_report_recipients(
+    week_start DATE,
+    target_brand UUID DEFAULT NULL
+)
+RETURNS TABLE (
+    brand_id UUID,
+    brand_name TEXT,
+    recipients TEXT[]
+)
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF auth.uid() IS NOT NULL AND NOT has_admin_permission('analytics') THEN
+        RAISE EXCEPTION 'Unauthorized: only admins can list report recipients';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        b.id,
+        b.name::TEXT,
+        COALESCE(
+            (
+                SELECT array_agg(DISTINCT bm.email ORDER BY bm.email)
+                FROM brand_members bm
+                WHERE bm.brand_id = b.id AND bm.role = 'owner'
+            ),
+            CASE WHEN b.contact_email IS NOT NULL THEN ARRAY[b.contact_email::TEXT] ELSE '{}'::TEXT[] END
+        )
+    FROM brands b
+    LEFT JOIN notification_preferences np ON np.brand_id = b.id
+    WHERE b.status = 'active'
+      AND COALESCE(np.weekly_report, TRUE)
+      AND (target_brand IS NULL OR b.id = target_brand)
+      AND (
+          target_brand IS NOT NULL
+          OR NOT EXISTS (
+              SELECT 1 FROM weekly_reports wr
+              WHERE wr.brand_id = b.id
+                AND wr.week_start = get_weekly_report_recipients.week_start
+                AND wr.status = 'sent'
+          )
+      )
+    ORDER BY b.name;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- 4. SCHEDULED SENDING
+-- =============================================
+
+-- The cron job calls the Edge Function, which needs the project's functions
+-- URL and service role key set as database settings:
+--   ALTER DATABASE postgres SET app.settings.functions_url = 'https://<ref>.supabase.co/functions/v1';
+--   ALTER DATABASE postgres SET app.settings.service_role_key = '<key>';
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron')
+       AND EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net') THEN
+        PERFORM cron.schedule(
+            'send-weekly-reports',
+            '0 2 * * 1',
+            $cron$
+            SELECT net.http_post(
+                url := current_setting('app.settings.functions_url') || '/weekly-reports',
+                headers := jsonb_build_object(
+                    'Content-Type', 'application/json',
+                    'Authorization', 'Bearer ' || current_setting('app.settings.service_role_key')
+                ),
+                body := '{}'::jsonb
+            )
+            $cron$
+        );
+    ELSE
+        RAISE NOTICE 'pg_cron or pg_net not installed; call the weekly-reports function from an external scheduler every Monday';
+    END IF;
+END $$;
+
+-- =============================================
+-- 5. GRANT PERMISSIONS
+-- =============================================
+
+GRANT SELECT ON weekly_reports TO authenticated;
+GRANT EXECUTE ON FUNCTION get_weekly_report_data(UUID, DATE) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION get_weekly_report_recipients(DATE, UUID) TO authenticated, service_role;
+
+-- =============================================
+-- 6. VERIFICATION
+-- =============================================
+
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.tables
+        WHERE table_schema = 'public' AND table_name = 'weekly_reports'
+    ) AND EXISTS (
+        SELECT 1 FROM pg_proc WHERE proname = 'get_weekly_report_data'
+    ) THEN
+        RAISE NOTICE 'Weekly reports set up successfully';
+    ELSE
+        RAISE EXCEPTION 'Weekly reports setup did not complete';
+    END IF;
+END $$;
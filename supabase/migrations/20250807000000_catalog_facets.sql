@@ -0,0 +1,181 @@
+/*
+  # Catalog Facet Filtering
+
+  The public catalog offered fabric, fit, size and other attribute filters,
+  but the product query only understood category, price, discount and
+  search, so the attribute filters did nothing. This migration moves catalog
+  filtering into the database and adds per-facet counts for the filter UI.
+
+  1. New Functions
+    - catalog_product_matches: Whether a product passes the catalog filters,
+      optionally ignoring one facet
+    - filter_catalog_products: Products matching the filters, for the
+      catalog query (PostgREST embeds, sorting and paging still apply)
+    - get_catalog_facet_counts: Number of matching products per facet value
+
+  2. Filters
+    - Passed as one JSONB object: status, brand_id, category, subcategory,
+      is_featured, price_min, price_max, has_discount and search, plus an
+      array of values for each facet (fabric, fit, collar, sleeve, closure,
+      pattern, color, style, occasion, size)
+    - Values within a facet are alternatives; facets combine with AND
+    - Attribute values match case-insensitively, ignoring surrounding
+      whitespace; sizes match available sizes only
+
+  3. Facet Counts
+    - Each facet is counted with every other filter applied but its own, so
+      choosing "Cotton" still shows how many products are linen
+
+  4. Security
+    - The functions run with the caller's rights, so the catalog RLS policies
+      decide which products are visible, as they do for the product query
+*/
+
+-- =============================================
+-- 1. INDEXES
+-- =============================================
+
+CREATE INDEX IF NOT EXISTS idx_product_sizes_available
+    ON product_sizes(product_id, size)
+    WHERE is_available;
+
+-- =============================================
+-- 2. FILTER FUNCTIONS
+-- =============================================
+
+-- TRUE when the facet is not filtered or the value is one of those chosen
+CREATE OR REPLACE FUNCTION catalog_facet_allows(filters JSONB, facet TEXT, value TEXT)
+RETURNS BOOLEAN
+IMMUTABLE
+AS $$
+    SELECT CASE
+        WHEN jsonb_typeof(filters -> facet) IS DISTINCT FROM 'array'
+          OR jsonb_array_length(filters -> facet) = 0 THEN TRUE
+        ELSE COALESCE(
+            lower(btrim(value)) IN (
+                SELECT lower(btrim(selected))
+                FROM jsonb_array_elements_text(filters -> facet) selected
+            ),
+            FALSE
+        )
+    END;
+$$ LANGUAGE sql;
+
+-- pa is the product's attributes row, or NULL when it has none
+CREATE OR REPLACE FUNCTION catalog_product_matches(
+    p products,
+    pa product_attributes,
+    filters JSONB,
+    skip_facet TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN
+STABLE
+SET search_path = public
+AS $$
+    SELECT
+        (filters ->> 'status' IS NULL OR p.status = filters ->> 'status')
+        AND (filters ->> 'brand_id' IS NULL OR p.brand_id = (filters ->> 'brand_id')::UUID)
+        AND (filters ->> 'category' IS NULL OR p.category = filters ->> 'category')
+        AND (filters ->> 'subcategory' IS NULL OR p.sub_category = filters ->> 'subcategory')
+        AND (filters ->> 'is_featured' IS NULL OR p.is_featured = (filters ->> 'is_featured')::BOOLEAN)
+        AND (filters ->> 'price_min' IS NULL OR p.current_price >= (filters ->> 'price_min')::NUMERIC)
+        AND (filters ->> 'price_max' IS NULL OR p.current_price <= (filters ->> 'price_max')::NUMERIC)
+        AND (NOT COALESCE((filters ->> 'has_discount')::BOOLEAN, FALSE) OR p.discount_percentage > 0)
+        AND (
+            filters ->> 'search' IS NULL
+            OR p.name ILIKE '%' || (filters ->> 'search') || '%'
+            OR p.description ILIKE '%' || (filters ->> 'search') || '%'
+        )
+        AND (skip_facet IS NOT DISTINCT FROM 'fabric' OR catalog_facet_allows(filters, 'fabric', pa.fabric))
+        AND (skip_facet IS NOT DISTINCT FROM 'fit' OR catalog_facet_allows(filters, 'fit', pa.fit))
+        AND (skip_facet IS NOT DISTINCT FROM 'collar' OR catalog_facet_allows(filters, 'collar', pa.collar))
+        AND (skip_facet IS NOT DISTINCT FROM 'sleeve' OR catalog_facet_allows(filters, 'sleeve', pa.sleeve))
+        AND (skip_facet IS NOT DISTINCT FROM 'closure' OR catalog_facet_allows(filters, 'closure', pa.closure))
+        AND (skip_facet IS NOT DISTINCT FROM 'pattern' OR catalog_facet_allows(filters, 'pattern', pa.pattern))
+        AND (skip_facet IS NOT DISTINCT FROM 'color' OR catalog_facet_allows(filters, 'color', pa.color))
+        AND (skip_facet IS NOT DISTINCT FROM 'style' OR catalog_facet_allows(filters, 'style', pa.style))
+        AND (skip_facet IS NOT DISTINCT FROM 'occasion' OR catalog_facet_allows(filters, 'occasion', pa.occasion))
+        AND (
+            skip_facet IS NOT DISTINCT FROM 'size'
+            OR catalog_facet_allows(filters, 'size', NULL)
+            OR EXISTS (
+                SELECT 1 FROM product_sizes ps
+                WHERE ps.product_id = p.id
+                  AND ps.is_available
+                  AND catalog_facet_allows(filters, 'size', ps.size)
+            )
+        );
+$$ LANGUAGE sql;
+
+CREATE OR REPLACE FUNCTION filter_catalog_products(filters JSONB DEFAULT '{}'::jsonb)
+RETURNS SETOF products
+STABLE
+SET search_path = public
+AS $$
+    SELECT p.*
+    FROM products p
+    LEFT JOIN product_attributes pa ON pa.product_id = p.id
+    WHERE catalog_product_matches(p, pa, COALESCE(filters, '{}'::jsonb));
+$$ LANGUAGE sql;
+
+-- Values are returned lower-cased and trimmed, as they are matched
+CREATE OR REPLACE FUNCTION get_catalog_facet_counts(filters JSONB DEFAULT '{}'::jsonb)
+RETURNS TABLE (
+    facet TEXT,
+    value TEXT,
+    product_count BIGINT
+)
+STABLE
+SET search_path = public
+AS $$
+    SELECT v.facet, v.value, COUNT(DISTINCT p.id)
+    FROM products p
+    LEFT JOIN product_attributes pa ON pa.product_id = p.id
+    CROSS JOIN LATERAL (
+        SELECT a.facet, lower(btrim(a.value)) AS value
+        FROM (
+            VALUES
+                ('fabric', pa.fabric),
+                ('fit', pa.fit),
+                ('collar', pa.collar),
+                ('sleeve', pa.sleeve),
+                ('closure', pa.closure),
+                ('pattern', pa.pattern),
+                ('color', pa.color),
+                ('style', pa.style),
+                ('occasion', pa.occasion)
+        ) a(facet, value)
+        UNION ALL
+        SELECT 'size', lower(ps.size)
+        FROM product_sizes ps
+        WHERE ps.product_id = p.id AND ps.is_available
+    ) v
+    WHERE NULLIF(v.value, '') IS NOT NULL
+      AND catalog_product_matches(p, pa, COALESCE(filters, '{}'::jsonb), v.facet)
+    GROUP BY v.facet, v.value
+    ORDER BY v.facet, COUNT(DISTINCT p.id) DESC, v.value;
+$$ LANGUAGE sql;
+
+-- =============================================
+-- 3. GRANT PERMISSIONS
+-- =============================================
+
+GRANT EXECUTE ON FUNCTION filter_catalog_products(JSONB) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_catalog_facet_counts(JSONB) TO anon, authenticated;
+
+-- =============================================
+-- 4. VERIFICATION
+-- =============================================
+
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM pg_proc WHERE proname = 'filter_catalog_products'
+    ) AND EXISTS (
+        SELECT 1 FROM pg_proc WHERE proname = 'get_catalog_facet_counts'
+    ) THEN
+        RAISE NOTICE 'Catalog facet filtering set up successfully';
+    ELSE
+        RAISE EXCEPTION 'Catalog facet functions were not created';
+    END IF;
+END $$;
@@ -0,0 +1,345 @@
+/*
+  # Product Search
+
+  Catalog search matched name and description with ILIKE '%term%', which
+  misses plurals ("shirts"), misspellings ("cotten") and words that only
+  appear in the brand, category or attributes ("linen", "slim fit"). This
+  migration adds a ranked full-text search with trigram typo tolerance.
+
+  1. Schema Changes
+    - products.search_vector: Weighted full-text document. Name ranks
+      highest, then brand and category, then attributes, then description.
+    - products.search_text: Name, brand, category and attributes as plain
+      lower-case text, for trigram matching
+    - product_search_words: Materialized view of the words in active
+      products, used for "did you mean" suggestions
+
+  2. Maintenance
+    - Both columns are filled by a trigger on products, and refreshed when a
+      product's attributes or its brand's name change
+    - product_search_words is refreshed hourly through pg_cron
+
+  3. Changed Functions
+    - catalog_product_matches: The search filter uses the new matching, so
+      the catalog, its facet counts and search agree
+
+  4. New Functions
+    - product_matches_search: Full-text match, or a close trigram match for
+      misspelled queries
+    - search_products: Ranked matches with highlighted name and description
+      snippets, plus the total number of matches
+    - suggest_search_query: The query with unknown words replaced by the
+      closest catalog words, or NULL when there is nothing to correct
+
+  5. Highlights
+    - Matched words are wrapped in the control characters U+0002 and U+0003
+      rather than HTML, so clients render them as text
+*/
+
+-- =============================================
+-- 1. EXTENSIONS AND COLUMNS
+-- =============================================
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+ALTER TABLE products
+ADD COLUMN IF NOT EXISTS search_vector TSVECTOR,
+ADD COLUMN IF NOT EXISTS search_text TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_products_search_vector ON products USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_products_search_text ON products USING GIN (search_text gin_trgm_ops);
+
+-- =============================================
+-- 2. SEARCH DOCUMENT MAINTENANCE
+-- =============================================
+
+CREATE OR REPLACE FUNCTION products_refresh_search()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    brand_name TEXT;
+    attribute_words TEXT;
+BEGIN
+    SELECT name INTO brand_name FROM brands WHERE id = NEW.brand_id;
+
+    SELECT concat_ws(' ', pa.fabric, pa.fit, pa.collar, pa.sleeve, pa.closure,
+                     pa.pattern, pa.occasion, pa.material, pa.color, pa.style)
+    INTO attribute_words
+    FROM product_attributes pa
+    WHERE pa.product_id = NEW.id;
+
+    NEW.search_vector :=
+        setweight(to_tsvector('english', COALESCE(NEW.name, '')), 'A')
+        || setweight(to_tsvector('english', concat_ws(' ', brand_name, NEW.category, NEW.sub_category)), 'B')
+        || setweight(to_tsvector('english', COALESCE(attribute_words, '')), 'C')
+        || setweight(to_tsvector('english', COALESCE(NEW.description, '')), 'D');
+
+    NEW.search_text := lower(concat_ws(' ', NEW.name, brand_name, NEW.category, NEW.sub_category, attribute_words));
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Setting search_vector to NULL from elsewhere re-runs this trigger
+DROP TRIGGER IF EXISTS refresh_product_search ON products;
+CREATE TRIGGER refresh_product_search
+    BEFORE INSERT OR UPDATE OF name, description, category, sub_category, brand_id, search_vector ON products
+    FOR EACH ROW
+    EXECUTE FUNCTION products_refresh_search();
+
+CREATE OR REPLACE FUNCTION product_attributes_refresh_search()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE products
+    SET search_vector = NULL
+    WHERE id = COALESCE(NEW.product_id, OLD.product_id);
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS refresh_product_search ON product_attributes;
+CREATE TRIGGER refresh_product_search
+    AFTER INSERT OR UPDATE OR DELETE ON product_attributes
+    FOR EACH ROW
+    EXECUTE FUNCTION product_attributes_refresh_search();
+
+CREATE OR REPLACE FUNCTION brands_refresh_product_search()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.name IS DISTINCT FROM OLD.name THEN
+        UPDATE products SET search_vector = NULL WHERE brand_id = NEW.id;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS refresh_product_search ON brands;
+CREATE TRIGGER refresh_product_search
+    AFTER UPDATE OF name ON brands
+    FOR EACH ROW
+    EXECUTE FUNCTION brands_refresh_product_search();
+
+-- Backfill existing products without touching their updated_at
+ALTER TABLE products DISABLE TRIGGER update_products_updated_at;
+UPDATE products SET search_vector = NULL;
+ALTER TABLE products ENABLE TRIGGER update_products_updated_at;
+
+-- =============================================
+-- 3. SUGGESTION WORDS
+-- =============================================
+
+CREATE MATERIALIZED VIEW IF NOT EXISTS product_search_words AS
+SELECT word, COUNT(DISTINCT id) AS product_count
+FROM (
+    SELECT p.id, regexp_split_to_table(p.search_text, '[^[:alnum:]]+') AS word
+    FROM products p
+    WHERE p.status = 'active'
+) words
+WHERE length(word) >= 3
+GROUP BY word;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_search_words_word ON product_search_words(word);
+CREATE INDEX IF NOT EXISTS idx_product_search_words_trgm ON product_search_words USING GIN (word gin_trgm_ops);
+
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+        PERFORM cron.schedule(
+            'refresh-product-search-words',
+            '15 * * * *',
+            'REFRESH MATERIALIZED VIEW CONCURRENTLY product_search_words'
+        );
+    ELSE
+        RAISE NOTICE 'pg_cron not installed; refresh product_search_words from an external scheduler';
+    END IF;
+END $$;
+
+-- =============================================
+-- 4. SEARCH FUNCTIONS
+-- =============================================
+
+CREATE OR REPLACE FUNCTION product_matches_search(p products, search_query TEXT)
+RETURNS BOOLEAN
+STABLE
+SET search_path = public
+AS $$
+    SELECT
+        NULLIF(btrim(search_query), '') IS NULL
+        OR p.search_vector @@ websearch_to_tsquery('english', search_query)
+        OR lower(btrim(search_query)) <% p.search_text;
+$$ LANGUAGE sql;
+
+-- Same as the catalog facets migration, with the new search matching
+CREATE OR REPLACE FUNCTION catalog_product_matches(
+    p products,
+    pa product_attributes,
+    filters JSONB,
+    skip_facet TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN
+STABLE
+SET search_path = public
+AS $$
+    SELECT
+        (filters ->> 'status' IS NULL OR p.status = filters ->> 'status')
+        AND (filters ->> 'brand_id' IS NULL OR p.brand_id = (filters ->> 'brand_id')::UUID)
+        AND (filters ->> 'category' IS NULL OR p.category = filters ->> 'category')
+        AND (filters ->> 'subcategory' IS NULL OR p.sub_category = filters ->> 'subcategory')
+        AND (filters ->> 'is_featured' IS NULL OR p.is_featured = (filters ->> 'is_featured')::BOOLEAN)
+        AND (filters ->> 'price_min' IS NULL OR p.current_price >= (filters ->> 'price_min')::NUMERIC)
+        AND (filters ->> 'price_max' IS NULL OR p.current_price <= (filters ->> 'price_max')::NUMERIC)
+        AND (NOT COALESCE((filters ->> 'has_discount')::BOOLEAN, FALSE) OR p.discount_percentage > 0)
+        AND product_matches_search(p, filters ->> 'search')
+        AND (skip_facet IS NOT DISTINCT FROM 'fabric' OR catalog_facet_allows(filters, 'fabric', pa.fabric))
+        AND (skip_facet IS NOT DISTINCT FROM 'fit' OR catalog_facet_allows(filters, 'fit', pa.fit))
+        AND (skip_facet IS NOT DISTINCT FROM 'collar' OR catalog_facet_allows(filters, 'collar', pa.collar))
+        AND (skip_facet IS NOT DISTINCT FROM 'sleeve' OR catalog_facet_allows(filters, 'sleeve', pa.sleeve))
+        AND (skip_facet IS NOT DISTINCT FROM 'closure' OR catalog_facet_allows(filters, 'closure', pa.closure))
+        AND (skip_facet IS NOT DISTINCT FROM 'pattern' OR catalog_facet_allows(filters, 'pattern', pa.pattern))
+        AND (skip_facet IS NOT DISTINCT FROM 'color' OR catalog_facet_allows(filters, 'color', pa.color))
+        AND (skip_facet IS NOT DISTINCT FROM 'style' OR catalog_facet_allows(filters, 'style', pa.style))
+        AND (skip_facet IS NOT DISTINCT FROM 'occasion' OR catalog_facet_allows(filters, 'occasion', pa.occasion))
+        AND (
+            skip_facet IS NOT DISTINCT FROM 'size'
+            OR catalog_facet_allows(filters, 'size', NULL)
+            OR EXISTS (
+                SELECT 1 FROM product_sizes ps
+                WHERE ps.product_id = p.id
+                  AND ps.is_available
+                  AND catalog_facet_allows(filters, 'size', ps.size)
+            )
+        );
+$$ LANGUAGE sql;
+
+-- Runs with the caller's rights, so only visible products are returned
+CREATE OR REPLACE FUNCTION search_products(
+    search_query TEXT,
+    filters JSONB DEFAULT '{}'::jsonb,
+    limit_count INTEGER DEFAULT 20,
+    offset_count INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+    product_id UUID,
+    rank REAL,
+    name_highlight TEXT,
+    description_highlight TEXT,
+    total_count BIGINT
+)
+STABLE
+SET search_path = public
+AS $$
+    WITH query AS (
+        SELECT
+            websearch_to_tsquery('english', search_query) AS tsq,
+            lower(btrim(search_query)) AS query_text,
+            'StartSel=' || chr(2) || ', StopSel=' || chr(3) AS markers
+    ),
+    matches AS (
+        SELECT
+            p.id,
+            p.name,
+            p.description,
+            p.created_at,
+            (ts_rank(p.search_vector, q.tsq) + word_similarity(q.query_text, p.search_text))::REAL AS rank
+        FROM products p
+        LEFT JOIN product_attributes pa ON pa.product_id = p.id
+        CROSS JOIN query q
+        WHERE NULLIF(btrim(search_query), '') IS NOT NULL
+          AND catalog_product_matches(
+              p,
+              pa,
+              COALESCE(filters, '{}'::jsonb) || jsonb_build_object('search', search_query)
+          )
+    )
+    SELECT
+        m.id,
+        m.rank,
+        ts_headline('english', m.name, q.tsq, q.markers || ', HighlightAll=TRUE'),
+        CASE
+            WHEN m.description IS NOT NULL THEN
+                ts_headline('english', m.description, q.tsq, q.markers || ', MaxWords=20, MinWords=8, MaxFragments=1')
+        END,
+        COUNT(*) OVER ()
+    FROM matches m
+    CROSS JOIN query q
+    ORDER BY m.rank DESC, m.created_at DESC
+    LIMIT limit_count
+    OFFSET offset_count;
+$$ LANGUAGE sql;
+
+CREATE OR REPLACE FUNCTION suggest_search_query(search_query TEXT)
+RETURNS TEXT
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+    query_word TEXT;
+    closest TEXT;
+    suggestion TEXT[] := '{}';
+    corrected BOOLEAN := FALSE;
+BEGIN
+    FOR query_word IN
+        SELECT w FROM regexp_split_to_table(lower(COALESCE(search_query, '')), '[^[:alnum:]]+') w
+        WHERE w <> ''
+    LOOP
+        closest := NULL;
+
+        IF length(query_word) >= 3 AND NOT EXISTS (
+            SELECT 1 FROM product_search_words psw WHERE psw.word = query_word
+        ) THEN
+            SELECT psw.word INTO closest
+            FROM product_search_words psw
+            WHERE psw.word % query_word
+            ORDER BY similarity(psw.word, query_word) DESC, psw.product_count DESC
+            LIMIT 1;
+        END IF;
+
+        IF closest IS NOT NULL THEN
+            corrected := TRUE;
+        END IF;
+        suggestion := suggestion || COALESCE(closest, query_word);
+    END LOOP;
+
+    IF NOT corrected THEN
+        RETURN NULL;
+    END IF;
+
+    RETURN array_to_string(suggestion, ' ');
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- 5. GRANT PERMISSIONS
+-- =============================================
+
+GRANT SELECT ON product_search_words TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION search_products(TEXT, JSONB, INTEGER, INTEGER) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION suggest_search_query(TEXT) TO anon, authenticated;
+
+-- =============================================
+-- 6. VERIFICATION
+-- =============================================
+
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'products' AND column_name = 'search_vector'
+    ) AND EXISTS (
+        SELECT 1 FROM pg_proc WHERE proname = 'search_products'
+    ) THEN
+        RAISE NOTICE 'Product search set up successfully';
+    ELSE
+        RAISE EXCEPTION 'Product search setup did not complete';
+    END IF;
+END $$;
@@ -0,0 +1,269 @@
+/*
+  # Search Autocomplete
+
+  The search bar only ran a search after the shopper stopped typing. It now
+  suggests products, brands and categories as they type, and offers
+  trending queries taken from what other shoppers searched for.
+
+  1. New Tables
+    - search_queries: One row per shopper search, with the number of
+      results it returned
+
+  2. New Functions
+    - log_search_query: Records a search and returns its id. Searches typed
+      one after another in the same session (as-you-type refinements such
+      as "lin", "line", "linen") update a single row.
+    - get_search_autocomplete: Products, brands and categories matching what
+      has been typed so far
+    - get_trending_searches: Queries most sessions searched for recently
+
+  3. Security
+    - Anyone can log a search through log_search_query
+    - Admins with the analytics permission can view logged searches
+    - Trending queries only include searches made by several sessions that
+      found products, so one shopper's searches are never shown to others
+*/
+
+-- =============================================
+-- 1. SEARCH LOG
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS search_queries (
+    id                UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    query             TEXT NOT NULL,
+    normalized_query  TEXT NOT NULL,
+    result_count      INTEGER NOT NULL DEFAULT 0 CHECK (result_count >= 0),
+    session_id        TEXT NOT NULL,
+    user_id           UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at        TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_search_queries_date
+ON search_queries (created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_search_queries_normalized_date
+ON search_queries (normalized_query, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_search_queries_session
+ON search_queries (session_id, created_at DESC);
+
+ALTER TABLE search_queries ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by log_search_query
+CREATE POLICY "Admins can view search queries" ON search_queries
+    FOR SELECT
+    USING (has_admin_permission('analytics'));
+
+-- Lower-case with single spaces, so "Linen  Shirt" and "linen shirt" match
+CREATE OR REPLACE FUNCTION normalize_search_query(query_text TEXT)
+RETURNS TEXT
+IMMUTABLE
+AS $$
+    SELECT left(lower(regexp_replace(btrim(COALESCE(query_text, '')), '\s+', ' ', 'g')), 200);
+$$ LANGUAGE sql;
+
+CREATE OR REPLACE FUNCTION log_search_query(
+    query_text TEXT,
+    result_count INTEGER,
+    session_uuid TEXT
+)
+RETURNS UUID
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    normalized TEXT := normalize_search_query(query_text);
+    session_key TEXT := left(coalesce(nullif(trim(session_uuid), ''), 'anonymous'), 100);
+    refined_id UUID;
+    new_id UUID;
+BEGIN
+    IF normalized = '' THEN
+        RETURN NULL;
+    END IF;
+
+    -- A search that extends or trims the session's last one moments ago is
+    -- the same search still being typed
+    SELECT sq.id INTO refined_id
+    FROM search_queries sq
+    WHERE sq.session_id = session_key
+      AND session_key <> 'anonymous'
+      AND sq.created_at > NOW() - INTERVAL '30 seconds'
+      AND (
+          starts_with(normalized, sq.normalized_query)
+          OR starts_with(sq.normalized_query, normalized)
+      )
+    ORDER BY sq.created_at DESC
+    LIMIT 1;
+
+    IF refined_id IS NOT NULL THEN
+        UPDATE search_queries SET
+            query = left(btrim(query_text), 200),
+            normalized_query = normalized,
+            result_count = GREATEST(log_search_query.result_count, 0),
+            created_at = NOW()
+        WHERE id = refined_id;
+
+        RETURN refined_id;
+    END IF;
+
+    INSERT INTO search_queries (query, normalized_query, result_count, session_id, user_id)
+    VALUES (
+        left(btrim(query_text), 200),
+        normalized,
+        GREATEST(log_search_query.result_count, 0),
+        session_key,
+        auth.uid()
+    )
+    RETURNING id INTO new_id;
+
+    RETURN new_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- 2. AUTOCOMPLETE
+-- =============================================
+
+-- Runs with the caller's rights; only active products and brands are
+-- suggested
+CREATE OR REPLACE FUNCTION get_search_autocomplete(
+    search_query TEXT,
+    limit_count INTEGER DEFAULT 5
+)
+RETURNS JSONB
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+    typed TEXT := normalize_search_query(search_query);
+    like_pattern TEXT;
+    result JSONB;
+BEGIN
+    IF length(typed) < 2 THEN
+        RETURN jsonb_build_object(
+            'products', '[]'::jsonb,
+            'brands', '[]'::jsonb,
+            'categories', '[]'::jsonb
+        );
+    END IF;
+
+    -- Typed text is matched literally
+    like_pattern := '%' || replace(replace(replace(typed, '\', '\\'), '%', '\%'), '_', '\_') || '%';
+
+    SELECT jsonb_build_object(
+        'products', COALESCE((
+            SELECT jsonb_agg(to_jsonb(matched) ORDER BY matched.score DESC, matched.name)
+            FROM (
+                SELECT
+                    p.id,
+                    p.name,
+                    p.current_price,
+                    p.original_price,
+                    b.name AS brand_name,
+                    COALESCE((
+                        SELECT pi.image_url
+                        FROM product_images pi
+                        WHERE pi.product_id = p.id
+                        ORDER BY pi.is_main DESC, pi.display_order
+                        LIMIT 1
+                    ), p.main_image_url) AS image_url,
+                    word_similarity(typed, p.search_text) AS score
+                FROM products p
+                JOIN brands b ON b.id = p.brand_id
+                WHERE p.status = 'active'
+                  AND (p.search_text LIKE like_pattern OR typed <% p.search_text)
+                ORDER BY word_similarity(typed, p.search_text) DESC, p.name
+                LIMIT limit_count
+            ) matched
+        ), '[]'::jsonb),
+        'brands', COALESCE((
+            SELECT jsonb_agg(to_jsonb(matched) ORDER BY matched.prefix DESC, matched.product_count DESC, matched.name)
+            FROM (
+                SELECT
+                    b.id,
+                    b.name,
+                    b.logo_url,
+                    starts_with(lower(b.name), typed) AS prefix,
+                    (
+                        SELECT COUNT(*) FROM products p
+                        WHERE p.brand_id = b.id AND p.status = 'active'
+                    ) AS product_count
+                FROM brands b
+                WHERE b.status = 'active'
+                  AND lower(b.name) LIKE like_pattern
+                ORDER BY starts_with(lower(b.name), typed) DESC, b.name
+                LIMIT limit_count
+            ) matched
+        ), '[]'::jsonb),
+        'categories', COALESCE((
+            SELECT jsonb_agg(to_jsonb(matched) ORDER BY matched.product_count DESC, matched.category, matched.sub_category)
+            FROM (
+                SELECT c.category, c.sub_category, COUNT(*) AS product_count
+                FROM products p
+                CROSS JOIN LATERAL (
+                    SELECT p.category, NULL::TEXT AS sub_category
+                    WHERE lower(p.category) LIKE like_pattern
+                    UNION ALL
+                    SELECT p.category, p.sub_category
+                    WHERE lower(p.sub_category) LIKE like_pattern
+                ) c
+                WHERE p.status = 'active'
+                GROUP BY c.category, c.sub_category
+                ORDER BY COUNT(*) DESC
+                LIMIT limit_count
+            ) matched
+        ), '[]'::jsonb)
+    ) INTO result;
+
+    RETURN result;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- 3. TRENDING SEARCHES
+-- =============================================
+
+CREATE OR REPLACE FUNCTION get_trending_searches(
+    limit_count INTEGER DEFAULT 8,
+    days INTEGER DEFAULT 7
+)
+RETURNS TABLE (
+    query TEXT,
+    session_count BIGINT
+)
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT sq.normalized_query, COUNT(DISTINCT sq.session_id)
+    FROM search_queries sq
+    WHERE sq.created_at > NOW() - make_interval(days => LEAST(GREATEST(days, 1), 90))
+      AND sq.result_count > 0
+      AND sq.session_id <> 'anonymous'
+    GROUP BY sq.normalized_query
+    HAVING COUNT(DISTINCT sq.session_id) >= 3
+    ORDER BY COUNT(DISTINCT sq.session_id) DESC, MAX(sq.created_at) DESC
+    LIMIT LEAST(GREATEST(limit_count, 1), 20);
+$$ LANGUAGE sql;
+
+-- =============================================
+-- 4. GRANT PERMISSIONS
+-- =============================================
+
+GRANT SELECT ON search_queries TO authenticated;
+GRANT EXECUTE ON FUNCTION log_search_query(TEXT, INTEGER, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_search_autocomplete(TEXT, INTEGER) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_trending_searches(INTEGER, INTEGER) TO anon, authenticated;
+
+-- =============================================
+-- 5. VERIFICATION
+-- =============================================
+
+DO $$
+BEGIN
+    IF normalize_search_query('  Linen   SHIRT ') = 'linen shirt' THEN
+        RAISE NOTICE 'Search autocomplete set up successfully';
+    ELSE
+        RAISE EXCEPTION 'normalize_search_query produced an unexpected query';
+    END IF;
+END $$;
@@ -0,0 +1,147 @@
+/*
+  # Search Query Analytics
+
+  Searches were logged for trending suggestions, but nobody could see what
+  shoppers search for, which searches find nothing, or whether the results
+  get clicked. This migration records clicks on search results and adds a
+  report for admins, so they can point brands at gaps in the catalog.
+
+  1. Schema Changes
+    - search_queries.click_count: Products opened from the search's results
+    - search_queries.last_clicked_at: When a result was last opened
+
+  2. New Functions
+    - record_search_click: Counts a click on one of a search's results
+    - get_search_query_analytics: Totals, top queries and zero-result
+      queries for a date range, with click-through per query
+
+  3. Security
+    - Only the session that made a search can record clicks on it
+    - The report requires the analytics admin permission
+*/
+
+-- =============================================
+-- 1. CLICK TRACKING
+-- =============================================
+
+ALTER TABLE search_queries
+ADD COLUMN IF NOT EXISTS click_count INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS last_clicked_at TIMESTAMPTZ;
+
+CREATE OR REPLACE FUNCTION record_search_click(
+    search_uuid UUID,
+    session_uuid TEXT
+)
+RETURNS VOID
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE search_queries SET
+        click_count = click_count + 1,
+        last_clicked_at = NOW()
+    WHERE id = search_uuid
+      AND session_id = left(coalesce(nullif(trim(session_uuid), ''), 'anonymous'), 100);
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- 2. REPORT
+-- =============================================
+
+CREATE OR REPLACE FUNCTION get_search_query_analytics(
+    start_date DATE DEFAULT NULL,
+    end_date DATE DEFAULT NULL,
+    limit_count INTEGER DEFAULT 20
+)
+RETURNS JSONB
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    start_date_val DATE := COALESCE(start_date, CURRENT_DATE - 29);
+    end_date_val DATE := COALESCE(end_date, CURRENT_DATE);
+    result JSONB;
+BEGIN
+    IF NOT has_admin_permission('analytics') THEN
+        RAISE EXCEPTION 'Unauthorized: only admins can view search analytics';
+    END IF;
+
+    WITH searches AS (
+        SELECT *
+        FROM search_queries sq
+        WHERE sq.created_at >= start_date_val
+          AND sq.created_at < end_date_val + 1
+    ),
+    per_query AS (
+        SELECT
+            s.normalized_query AS query,
+            COUNT(*) AS searches,
+            COUNT(DISTINCT s.session_id) AS sessions,
+            ROUND(AVG(s.result_count), 1) AS avg_results,
+            COUNT(*) FILTER (WHERE s.result_count = 0) AS zero_result_searches,
+            COUNT(*) FILTER (WHERE s.click_count > 0) AS clicked_searches,
+            MAX(s.created_at) AS last_searched_at
+        FROM searches s
+        GROUP BY s.normalized_query
+    )
+    SELECT jsonb_build_object(
+        'start_date', start_date_val,
+        'end_date', end_date_val,
+        'totals', (
+            SELECT jsonb_build_object(
+                'searches', COUNT(*),
+                'sessions', COUNT(DISTINCT s.session_id),
+                'zero_result_searches', COUNT(*) FILTER (WHERE s.result_count = 0),
+                'clicked_searches', COUNT(*) FILTER (WHERE s.click_count > 0)
+            )
+            FROM searches s
+        ),
+        'top_queries', COALESCE((
+            SELECT jsonb_agg(to_jsonb(top) ORDER BY top.searches DESC, top.query)
+            FROM (
+                SELECT * FROM per_query
+                ORDER BY searches DESC, query
+                LIMIT limit_count
+            ) top
+        ), '[]'::jsonb),
+        'zero_result_queries', COALESCE((
+            SELECT jsonb_agg(to_jsonb(zero) ORDER BY zero.zero_result_searches DESC, zero.last_searched_at DESC)
+            FROM (
+                SELECT * FROM per_query
+                WHERE zero_result_searches > 0
+                ORDER BY zero_result_searches DESC, last_searched_at DESC
+                LIMIT limit_count
+            ) zero
+        ), '[]'::jsonb)
+    ) INTO result;
+
+    RETURN result;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- 3. GRANT PERMISSIONS
+-- =============================================
+
+GRANT EXECUTE ON FUNCTION record_search_click(UUID, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_search_query_analytics(DATE, DATE, INTEGER) TO authenticated;
+
+-- =============================================
+-- 4. VERIFICATION
+-- =============================================
+
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'search_queries' AND column_name = 'click_count'
+    ) AND EXISTS (
+        SELECT 1 FROM pg_proc WHERE proname = 'get_search_query_analytics'
+    ) THEN
+        RAISE NOTICE 'Search query analytics set up successfully';
+    ELSE
+        RAISE EXCEPTION 'Search query analytics setup did not complete';
+    END IF;
+END $$;
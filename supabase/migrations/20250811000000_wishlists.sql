@@ -0,0 +1,472 @@
+/*
+  # Wishlists
+
+  product_metrics_daily.saves existed but shoppers had no way to save a
+  product. Shoppers can now keep a wishlist: in the browser while signed
+  out, and on their account once they sign in. Saves are recorded as
+  events, so brands see them in their analytics.
+
+  1. New Tables
+    - wishlist_items: Products a signed-in user saved
+    - product_saves: One row per save, with session, product and brand
+
+  2. New Functions
+    - record_product_save: Records a save and counts it in
+      product_metrics_daily
+
+  3. Changed Functions
+    - rollup_daily_metrics: Also recalculates saves from product_saves
+    - get_brand_analytics_overview: Adds total_saves
+    - get_brand_top_products: Adds saves per product
+
+  4. Security
+    - Users manage only their own wishlist items
+    - Anyone can record a save through record_product_save; a session
+      saving the same product again on the same day counts once
+    - Brand members can view their products' saves; so can admins with the
+      analytics permission
+*/
+
+-- =============================================
+-- 1. WISHLIST ITEMS
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS wishlist_items (
+    user_id     UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    product_id  UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    created_at  TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (user_id, product_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_wishlist_items_user_date
+ON wishlist_items (user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_wishlist_items_product
+ON wishlist_items (product_id);
+
+ALTER TABLE wishlist_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their wishlist" ON wishlist_items
+    FOR SELECT
+    USING (user_id = auth.uid());
+
+CREATE POLICY "Users can add to their wishlist" ON wishlist_items
+    FOR INSERT
+    WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can remove from their wishlist" ON wishlist_items
+    FOR DELETE
+    USING (user_id = auth.uid());
+
+-- =============================================
+-- 2. SAVE EVENTS
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS product_saves (
+    id          UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    product_id  UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    brand_id    UUID NOT NULL REFERENCES brands(id) ON DELETE CASCADE,
+    session_id  TEXT NOT NULL,
+    user_id     UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    saved_at    TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_saves_product_date
+ON product_saves (product_id, saved_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_product_saves_brand_date
+ON product_saves (brand_id, saved_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_product_saves_session
+ON product_saves (session_id, product_id, saved_at DESC);
+
+ALTER TABLE product_saves ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by record_product_save
+CREATE POLICY "Brand members can view their product saves" ON product_saves
+    FOR SELECT
+    USING (is_brand_member(brand_id));
+
+CREATE POLICY "Admins can view product saves" ON product_saves
+    FOR SELECT
+    USING (has_admin_permission('analytics'));
+
+CREATE OR REPLACE FUNCTION record_product_save(
+    product_uuid UUID,
+    session_uuid TEXT
+)
+RETURNS VOID
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    target RECORD;
+    session_key TEXT := left(coalesce(nullif(trim(session_uuid), ''), 'anonymous'), 100);
+BEGIN
+    SELECT p.id, p.brand_id
+    INTO target
+    FROM products p
+    WHERE p.id = product_uuid AND p.status = 'active';
+
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    -- Saving, removing and saving again counts once a day
+    IF EXISTS (
+        SELECT 1 FROM product_saves
+        WHERE product_id = target.id
+          AND session_id = session_key
+          AND saved_at >= CURRENT_DATE
+    ) THEN
+        RETURN;
+    END IF;
+
+    INSERT INTO product_saves (product_id, brand_id, session_id, user_id)
+    VALUES (target.id, target.brand_id, session_key, auth.uid());
+
+    INSERT INTO product_metrics_daily (product_id, date, saves)
+    VALUES (target.id, CURRENT_DATE, 1)
+    ON CONFLICT (product_id, date) DO UPDATE SET
+        saves = product_metrics_daily.saves + 1;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- 3. ROLLUP
+-- =============================================
+
+-- Same as the product analytics migration, with saves counted
+CREATE OR REPLACE FUNCTION rollup_daily_metrics(
+    start_date DATE DEFAULT NULL,
+    end_date DATE DEFAULT NULL
+)
+RETURNS INTEGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    start_date_val DATE := COALESCE(start_date, CURRENT_DATE - 1);
+    end_date_val DATE := COALESCE(end_date, CURRENT_DATE);
+    product_rows INTEGER;
+BEGIN
+    -- Scheduled runs have no user; signed-in callers must be admins
+    IF auth.uid() IS NOT NULL AND NOT has_admin_permission('analytics') THEN
+        RAISE EXCEPTION 'Unauthorized: only admins can roll up metrics';
+    END IF;
+
+    IF end_date_val < start_date_val THEN
+        RAISE EXCEPTION 'end_date must not be before start_date';
+    END IF;
+
+    IF end_date_val - start_date_val > 366 THEN
+        RAISE EXCEPTION 'Roll up at most one year at a time';
+    END IF;
+
+    -- Days whose events are gone (e.g. deleted products) drop back to zero
+    UPDATE product_metrics_daily
+    SET views = 0,
+        unique_views = 0,
+        clicks = 0,
+        conversions = 0,
+        saves = 0,
+        revenue = 0
+    WHERE date BETWEEN start_date_val AND end_date_val;
+
+    WITH view_counts AS (
+        SELECT
+            product_id,
+            viewed_at::DATE AS date,
+            COUNT(*) AS views,
+            COUNT(DISTINCT session_id) AS unique_views
+        FROM product_views
+        WHERE viewed_at >= start_date_val AND viewed_at < end_date_val + 1
+        GROUP BY product_id, viewed_at::DATE
+    ),
+    click_counts AS (
+        SELECT product_id, clicked_at::DATE AS date, COUNT(*) AS clicks
+        FROM product_clicks
+        WHERE clicked_at >= start_date_val AND clicked_at < end_date_val + 1
+        GROUP BY product_id, clicked_at::DATE
+    ),
+    conversion_counts AS (
+        SELECT
+            product_id,
+            occurred_at::DATE AS date,
+            COUNT(*) AS conversions,
+            SUM(amount) AS revenue
+        FROM product_conversions
+        WHERE occurred_at >= start_date_val AND occurred_at < end_date_val + 1
+        GROUP BY product_id, occurred_at::DATE
+    ),
+    save_counts AS (
+        SELECT product_id, saved_at::DATE AS date, COUNT(*) AS saves
+        FROM product_saves
+        WHERE saved_at >= start_date_val AND saved_at < end_date_val + 1
+        GROUP BY product_id, saved_at::DATE
+    ),
+    activity AS (
+        SELECT
+            product_id,
+            date,
+            SUM(views) AS views,
+            SUM(unique_views) AS unique_views,
+            SUM(clicks) AS clicks,
+            SUM(conversions) AS conversions,
+            SUM(saves) AS saves,
+            SUM(revenue) AS revenue
+        FROM (
+            SELECT product_id, date, views, unique_views, 0 AS clicks, 0 AS conversions, 0 AS saves, 0 AS revenue
+            FROM view_counts
+            UNION ALL
+            SELECT product_id, date, 0, 0, clicks, 0, 0, 0
+            FROM click_counts
+            UNION ALL
+            SELECT product_id, date, 0, 0, 0, conversions, 0, revenue
+            FROM conversion_counts
+            UNION ALL
+            SELECT product_id, date, 0, 0, 0, 0, saves, 0
+            FROM save_counts
+        ) events
+        GROUP BY product_id, date
+    )
+    INSERT INTO product_metrics_daily AS pmd (
+        product_id,
+        date,
+        views,
+        unique_views,
+        clicks,
+        conversions,
+        saves,
+        revenue,
+        avg_price,
+        discount_rate,
+        sizes_available,
+        sizes_total
+    )
+    SELECT
+        a.product_id,
+        a.date,
+        a.views,
+        a.unique_views,
+        a.clicks,
+        a.conversions,
+        a.saves,
+        a.revenue,
+        p.current_price,
+        p.discount_percentage,
+        sizes.available,
+        sizes.total
+    FROM activity a
+    JOIN products p ON p.id = a.product_id
+    LEFT JOIN LATERAL (
+        SELECT
+            COUNT(*) FILTER (WHERE ps.is_available) AS available,
+            COUNT(*) AS total
+        FROM product_sizes ps
+        WHERE ps.product_id = p.id
+    ) sizes ON TRUE
+    ON CONFLICT (product_id, date) DO UPDATE SET
+        views = EXCLUDED.views,
+        unique_views = EXCLUDED.unique_views,
+        clicks = EXCLUDED.clicks,
+        conversions = EXCLUDED.conversions,
+        saves = EXCLUDED.saves,
+        revenue = EXCLUDED.revenue,
+        avg_price = CASE
+            WHEN pmd.date = CURRENT_DATE OR pmd.avg_price IS NULL THEN EXCLUDED.avg_price
+            ELSE pmd.avg_price
+        END,
+        discount_rate = CASE
+            WHEN pmd.date = CURRENT_DATE OR pmd.avg_price IS NULL THEN EXCLUDED.discount_rate
+            ELSE pmd.discount_rate
+        END,
+        sizes_available = CASE
+            WHEN pmd.date = CURRENT_DATE OR pmd.sizes_total IS NULL THEN EXCLUDED.sizes_available
+            ELSE pmd.sizes_available
+        END,
+        sizes_total = CASE
+            WHEN pmd.date = CURRENT_DATE OR pmd.sizes_total IS NULL THEN EXCLUDED.sizes_total
+            ELSE pmd.sizes_total
+        END;
+
+    GET DIAGNOSTICS product_rows = ROW_COUNT;
+
+    -- One row per brand and day, including days without traffic, so catalog
+    -- size is tracked over time
+    INSERT INTO brand_metrics_daily AS bmd (
+        brand_id,
+        date,
+        total_views,
+        total_products,
+        active_products,
+        avg_price,
+        total_revenue
+    )
+    SELECT
+        b.id,
+        d.date,
+        COALESCE(traffic.views, 0),
+        COALESCE(catalog.total_products, 0),
+        COALESCE(catalog.active_products, 0),
+        catalog.avg_price,
+        COALESCE(traffic.revenue, 0)
+    FROM brands b
+    CROSS JOIN (
+        SELECT generate_series(start_date_val, end_date_val, INTERVAL '1 day')::DATE AS date
+    ) d
+    LEFT JOIN LATERAL (
+        SELECT SUM(pmd.views) AS views, SUM(pmd.revenue) AS revenue
+        FROM product_metrics_daily pmd
+        JOIN products p ON p.id = pmd.product_id
+        WHERE p.brand_id = b.id AND pmd.date = d.date
+    ) traffic ON TRUE
+    LEFT JOIN LATERAL (
+        SELECT
+            COUNT(*) AS total_products,
+            COUNT(*) FILTER (WHERE p.status = 'active') AS active_products,
+            AVG(p.current_price) FILTER (WHERE p.status = 'active') AS avg_price
+        FROM products p
+        WHERE p.brand_id = b.id AND p.created_at < d.date + 1
+    ) catalog ON TRUE
+    ON CONFLICT (brand_id, date) DO UPDATE SET
+        total_views = EXCLUDED.total_views,
+        total_revenue = EXCLUDED.total_revenue,
+        total_products = CASE
+            WHEN bmd.date = CURRENT_DATE OR bmd.avg_price IS NULL THEN EXCLUDED.total_products
+            ELSE bmd.total_products
+        END,
+        active_products = CASE
+            WHEN bmd.date = CURRENT_DATE OR bmd.avg_price IS NULL THEN EXCLUDED.active_products
+            ELSE bmd.active_products
+        END,
+        avg_price = CASE
+            WHEN bmd.date = CURRENT_DATE OR bmd.avg_price IS NULL THEN EXCLUDED.avg_price
+            ELSE bmd.avg_price
+        END;
+
+    RETURN product_rows;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- 4. BRAND ANALYTICS
+-- =============================================
+
+-- The result columns change, so the functions are recreated
+DROP FUNCTION IF EXISTS get_brand_analytics_overview(UUID, DATE, DATE);
+DROP FUNCTION IF EXISTS get_brand_top_products(UUID, DATE, DATE, INTEGER);
+
+CREATE OR REPLACE FUNCTION get_brand_analytics_overview(
+    brand_uuid UUID,
+    start_date DATE DEFAULT NULL,
+    end_date DATE DEFAULT NULL
+)
+RETURNS TABLE (
+    total_products INTEGER,
+    total_views BIGINT,
+    total_clicks BIGINT,
+    total_conversions BIGINT,
+    total_saves BIGINT,
+    total_revenue NUMERIC,
+    conversion_rate NUMERIC
+) AS $$
+DECLARE
+    start_date_val DATE;
+    end_date_val DATE;
+BEGIN
+    -- Set default date range if not provided
+    start_date_val := COALESCE(start_date, CURRENT_DATE - INTERVAL '30 days');
+    end_date_val := COALESCE(end_date, CURRENT_DATE);
+
+    RETURN QUERY
+    SELECT
+        COUNT(DISTINCT p.id)::INTEGER as total_products,
+        COALESCE(SUM(pmd.views), 0)::BIGINT as total_views,
+        COALESCE(SUM(pmd.clicks), 0)::BIGINT as total_clicks,
+        COALESCE(SUM(pmd.conversions), 0)::BIGINT as total_conversions,
+        COALESCE(SUM(pmd.saves), 0)::BIGINT as total_saves,
+        COALESCE(SUM(pmd.revenue), 0)::NUMERIC as total_revenue,
+        CASE
+            WHEN SUM(pmd.clicks) > 0
+            THEN (SUM(pmd.conversions)::NUMERIC / SUM(pmd.clicks)::NUMERIC * 100)
+            ELSE 0
+        END as conversion_rate
+    FROM products p
+    LEFT JOIN product_metrics_daily pmd ON p.id = pmd.product_id
+        AND pmd.date BETWEEN start_date_val AND end_date_val
+    WHERE p.brand_id = brand_uuid;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION get_brand_top_products(
+    brand_uuid UUID,
+    start_date DATE DEFAULT NULL,
+    end_date DATE DEFAULT NULL,
+    limit_count INTEGER DEFAULT 10
+)
+RETURNS TABLE (
+    product_id UUID,
+    product_name TEXT,
+    views BIGINT,
+    clicks BIGINT,
+    conversions BIGINT,
+    saves BIGINT,
+    revenue NUMERIC
+) AS $$
+DECLARE
+    start_date_val DATE;
+    end_date_val DATE;
+BEGIN
+    -- Set default date range if not provided
+    start_date_val := COALESCE(start_date, CURRENT_DATE - INTERVAL '30 days');
+    end_date_val := COALESCE(end_date, CURRENT_DATE);
+
+    RETURN QUERY
+    SELECT
+        p.id as product_id,
+        p.name as product_name,
+        COALESCE(SUM(pmd.views), 0)::BIGINT as views,
+        COALESCE(SUM(pmd.clicks), 0)::BIGINT as clicks,
+        COALESCE(SUM(pmd.conversions), 0)::BIGINT as conversions,
+        COALESCE(SUM(pmd.saves), 0)::BIGINT as saves,
+        COALESCE(SUM(pmd.revenue), 0)::NUMERIC as revenue
+    FROM products p
+    LEFT JOIN product_metrics_daily pmd ON p.id = pmd.product_id
+        AND pmd.date BETWEEN start_date_val AND end_date_val
+    WHERE p.brand_id = brand_uuid
+        AND p.status = 'active'
+    GROUP BY p.id, p.name
+    ORDER BY COALESCE(SUM(pmd.views), 0) DESC
+    LIMIT limit_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =============================================
+-- 5. GRANT PERMISSIONS
+-- =============================================
+
+GRANT SELECT, INSERT, DELETE ON wishlist_items TO authenticated;
+GRANT SELECT ON product_saves TO authenticated;
+GRANT EXECUTE ON FUNCTION record_product_save(UUID, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_brand_analytics_overview(UUID, DATE, DATE) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_brand_top_products(UUID, DATE, DATE, INTEGER) TO authenticated;
+
+-- =============================================
+-- 6. VERIFICATION
+-- =============================================
+
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.tables
+        WHERE table_schema = 'public' AND table_name = 'wishlist_items'
+    ) AND EXISTS (
+        SELECT 1 FROM information_schema.tables
+        WHERE table_schema = 'public' AND table_name = 'product_saves'
+    ) THEN
+        RAISE NOTICE 'Wishlists set up successfully';
+    ELSE
+        RAISE EXCEPTION 'Wishlist tables were not created';
+    END IF;
+END $$;
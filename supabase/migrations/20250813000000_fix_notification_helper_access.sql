@@ -0,0 +1,15 @@
+/*
+  # Restrict the Notification Helper
+
+  create_brand_notification is SECURITY DEFINER and kept the default EXECUTE
+  grant to PUBLIC, so anyone could call it through the API and put a
+  notification, with any action link, into any brand's inbox.
+
+  1. Security
+    - EXECUTE on create_brand_notification is revoked from PUBLIC, anon and
+      authenticated. It is only called from triggers and other SECURITY
+      DEFINER functions, which run as the function owner.
+*/
+
+REVOKE EXECUTE ON FUNCTION create_brand_notification(UUID, TEXT, TEXT, TEXT, TEXT, JSONB)
+FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,98 @@
+/*
+  # Single Notification per Support Reply
+
+  An admin's first reply to a new request both notified the brand of the
+  reply and moved the request to in progress, which notifies the brand
+  through the notify_support_request_status trigger. The brand got two
+  notifications for one reply.
+
+  1. Changed Functions
+    - add_support_message: The reply notification is only sent when the
+      reply leaves the status as it was; a status change is already
+      announced by the trigger.
+*/
+
+-- =============================================
+-- 1. SUPPORT REPLIES
+-- =============================================
+
+-- Same as the brand team members migration, without the duplicate
+-- notification
+CREATE OR REPLACE FUNCTION add_support_message(
+    request_uuid UUID,
+    message_body TEXT,
+    attachments TEXT[] DEFAULT '{}',
+    internal BOOLEAN DEFAULT FALSE
+)
+RETURNS UUID
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    request_row support_requests%ROWTYPE;
+    is_admin BOOLEAN;
+    role TEXT;
+    new_id UUID;
+    next_status TEXT;
+BEGIN
+    SELECT * INTO request_row FROM support_requests WHERE id = request_uuid FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Support request not found';
+    END IF;
+
+    is_admin := has_admin_permission('support');
+
+    IF is_admin THEN
+        role := 'admin';
+    ELSIF is_brand_member(request_row.brand_id, 'editor') THEN
+        role := 'brand';
+    ELSE
+        RAISE EXCEPTION 'Unauthorized: you cannot reply to this support request';
+    END IF;
+
+    IF internal AND role <> 'admin' THEN
+        RAISE EXCEPTION 'Only admins can add internal notes';
+    END IF;
+
+    IF message_body IS NULL OR length(trim(message_body)) = 0 THEN
+        RAISE EXCEPTION 'Message cannot be empty';
+    END IF;
+
+    INSERT INTO support_messages (request_id, author_id, author_role, body, attachment_urls, is_internal)
+    VALUES (request_uuid, auth.uid(), role, trim(message_body), COALESCE(attachments, '{}'), internal)
+    RETURNING id INTO new_id;
+
+    -- Internal notes never change what the brand sees
+    IF NOT internal THEN
+        next_status := CASE
+            WHEN role = 'admin' AND request_row.status = 'new' THEN 'in_progress'
+            WHEN role = 'brand' AND request_row.status IN ('resolved', 'closed') THEN 'in_progress'
+            ELSE request_row.status
+        END;
+
+        UPDATE support_requests
+        SET
+            status = next_status,
+            updated_at = NOW()
+        WHERE id = request_uuid;
+
+        -- A status change is announced by notify_support_request_status
+        IF role = 'admin'
+           AND request_row.brand_id IS NOT NULL
+           AND next_status IS NOT DISTINCT FROM request_row.status
+        THEN
+            PERFORM create_brand_notification(
+                request_row.brand_id,
+                'support_update',
+                'New reply from Stylsia support',
+                format('Support replied to "%s".', request_row.subject),
+                '/dashboard/messages',
+                jsonb_build_object('support_request_id', request_uuid, 'message_id', new_id)
+            );
+        END IF;
+    END IF;
+
+    RETURN new_id;
+END;
+$$ LANGUAGE plpgsql;
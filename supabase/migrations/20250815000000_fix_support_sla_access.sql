@@ -0,0 +1,195 @@
+/*
+  # Restrict Support SLA Functions
+
+  Scheduled escalation passed its admin check whenever there was no signed-in
+  user, so anonymous API callers could run it too. The SLA report had no
+  check at all: any signed-in brand could read platform-wide support
+  statistics.
+
+  1. Changed Functions
+    - escalate_breached_support_requests: Runs for the service role or an
+      admin with the support permission
+    - get_support_sla_metrics: Requires the support permission
+
+  2. Scheduled Escalation
+    - Cron jobs carry no request claims, so the job sets the service role
+      before running escalation
+
+  3. Security
+    - Both functions are revoked from PUBLIC and anon
+*/
+
+-- =============================================
+-- 1. ESCALATION
+-- =============================================
+
+CREATE OR REPLACE FUNCTION escalate_breached_support_requests()
+RETURNS INTEGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    targets JSONB;
+    target RECORD;
+    next_priority TEXT;
+    escalated_count INTEGER := 0;
+BEGIN
+    -- Scheduled runs use the service role; anyone else must be an admin
+    IF NOT (auth.role() = 'service_role' OR has_admin_permission('support')) THEN
+        RAISE EXCEPTION 'Unauthorized: only admins can escalate support requests';
+    END IF;
+
+    targets := get_support_sla_targets();
+
+    IF NOT COALESCE((targets ->> 'auto_escalate')::BOOLEAN, TRUE) THEN
+        RETURN 0;
+    END IF;
+
+    FOR target IN
+        SELECT sr.id, sr.priority, sr.first_response_at, COALESCE(sr.escalated_at, sr.created_at) AS clock_start
+        FROM support_requests sr
+        WHERE sr.status IN ('new', 'in_progress') AND sr.priority IN ('low', 'medium')
+        FOR UPDATE
+    LOOP
+        IF (
+            target.first_response_at IS NULL
+            AND NOW() > target.clock_start
+                + make_interval(hours => (targets -> target.priority ->> 'first_response_hours')::INTEGER)
+        ) OR (
+            NOW() > target.clock_start
+                + make_interval(hours => (targets -> target.priority ->> 'resolution_hours')::INTEGER)
+        ) THEN
+            next_priority := CASE target.priority WHEN 'low' THEN 'medium' ELSE 'high' END;
+
+            UPDATE support_requests
+            SET priority = next_priority, escalated_at = NOW(), updated_at = NOW()
+            WHERE id = target.id;
+
+            PERFORM record_audit_event(
+                auth.uid(),
+                'UPDATE',
+                'support_requests',
+                target.id::TEXT,
+                jsonb_build_object(
+                    'source', 'sla_escalation',
+                    'priority', jsonb_build_object('old', target.priority, 'new', next_priority)
+                )
+            );
+
+            escalated_count := escalated_count + 1;
+        END IF;
+    END LOOP;
+
+    RETURN escalated_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- 2. SLA REPORT
+-- =============================================
+
+CREATE OR REPLACE FUNCTION get_support_sla_metrics(
+    start_date DATE DEFAULT NULL,
+    end_date DATE DEFAULT NULL
+)
+RETURNS TABLE (
+    priority TEXT,
+    total_requests INTEGER,
+    first_response_met INTEGER,
+    first_response_breached INTEGER,
+    resolution_met INTEGER,
+    resolution_breached INTEGER,
+    escalated_requests INTEGER,
+    avg_first_response_hours NUMERIC,
+    avg_resolution_hours NUMERIC
+)
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    start_date_val DATE;
+    end_date_val DATE;
+    targets JSONB;
+BEGIN
+    IF NOT has_admin_permission('support') THEN
+        RAISE EXCEPTION 'Unauthorized: only admins can view support SLA metrics';
+    END IF;
+
+    start_date_val := COALESCE(start_date, CURRENT_DATE - INTERVAL '30 days');
+    end_date_val := COALESCE(end_date, CURRENT_DATE);
+    targets := get_support_sla_targets();
+
+    -- Escalated requests count as breached: they only escalate after a miss.
+    -- Open requests still inside their window are neither met nor breached.
+    RETURN QUERY
+    WITH timed AS (
+        SELECT
+            sr.priority,
+            sr.escalated_at IS NOT NULL AS escalated,
+            EXTRACT(EPOCH FROM (sr.first_response_at - sr.created_at)) / 3600 AS first_response_hours,
+            CASE
+                WHEN sr.status IN ('resolved', 'closed') AND sr.resolved_at IS NOT NULL
+                THEN EXTRACT(EPOCH FROM (sr.resolved_at - sr.created_at)) / 3600
+            END AS resolution_hours,
+            EXTRACT(EPOCH FROM (NOW() - sr.created_at)) / 3600 AS age_hours,
+            (targets -> sr.priority ->> 'first_response_hours')::NUMERIC AS first_response_target,
+            (targets -> sr.priority ->> 'resolution_hours')::NUMERIC AS resolution_target
+        FROM support_requests sr
+        WHERE sr.created_at BETWEEN start_date_val AND (end_date_val + INTERVAL '1 day')
+    )
+    SELECT
+        t.priority,
+        COUNT(*)::INTEGER,
+        COUNT(*) FILTER (
+            WHERE NOT t.escalated AND t.first_response_hours <= t.first_response_target
+        )::INTEGER,
+        COUNT(*) FILTER (
+            WHERE t.escalated
+               OR t.first_response_hours > t.first_response_target
+               OR (t.first_response_hours IS NULL AND t.age_hours > t.first_response_target)
+        )::INTEGER,
+        COUNT(*) FILTER (
+            WHERE NOT t.escalated AND t.resolution_hours <= t.resolution_target
+        )::INTEGER,
+        COUNT(*) FILTER (
+            WHERE t.escalated
+               OR t.resolution_hours > t.resolution_target
+               OR (t.resolution_hours IS NULL AND t.age_hours > t.resolution_target)
+        )::INTEGER,
+        COUNT(*) FILTER (WHERE t.escalated)::INTEGER,
+        ROUND(AVG(t.first_response_hours), 2),
+        ROUND(AVG(t.resolution_hours), 2)
+    FROM timed t
+    GROUP BY t.priority
+    ORDER BY CASE t.priority WHEN 'high' THEN 1 WHEN 'medium' THEN 2 ELSE 3 END;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- 3. SCHEDULED ESCALATION
+-- =============================================
+
+-- Scheduling under the same name replaces the job from the support SLA
+-- migration
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+        PERFORM cron.schedule(
+            'escalate-breached-support-requests',
+            '*/15 * * * *',
+            $cron$
+            SELECT set_config('request.jwt.claims', '{"role": "service_role"}', true);
+            SELECT escalate_breached_support_requests();
+            $cron$
+        );
+    END IF;
+END $$;
+
+-- =============================================
+-- 4. GRANT PERMISSIONS
+-- =============================================
+
+REVOKE EXECUTE ON FUNCTION escalate_breached_support_requests() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION escalate_breached_support_requests() TO authenticated, service_role;
+REVOKE EXECUTE ON FUNCTION get_support_sla_metrics(DATE, DATE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_support_sla_metrics(DATE, DATE) TO authenticated;
@@ -0,0 +1,68 @@
+/*
+  # Explicit Permission Check on the Support Workload
+
+  admin_get_support_workload had no permission check of its own and only
+  failed for non-admins because admin_list_support_agents raised. It now
+  checks the support permission first, like the other admin support
+  functions.
+
+  1. Changed Functions
+    - admin_get_support_workload: Requires the support permission
+*/
+
+-- =============================================
+-- 1. WORKLOAD
+-- =============================================
+
+-- One row per admin plus an 'unassigned' row with a NULL admin_id
+CREATE OR REPLACE FUNCTION admin_get_support_workload()
+RETURNS TABLE (
+    admin_id UUID,
+    email TEXT,
+    open_requests INTEGER,
+    new_requests INTEGER,
+    in_progress_requests INTEGER,
+    high_priority_requests INTEGER
+)
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT has_admin_permission('support') THEN
+        RAISE EXCEPTION 'Unauthorized: only admins can view the support workload';
+    END IF;
+
+    RETURN QUERY
+    WITH agents AS (
+        SELECT a.id, a.email FROM admin_list_support_agents() a
+    ),
+    open_queue AS (
+        SELECT sr.assigned_to, sr.status, sr.priority
+        FROM support_requests sr
+        WHERE sr.status IN ('new', 'in_progress')
+    )
+    SELECT
+        ag.id,
+        ag.email,
+        COUNT(o.status)::INTEGER,
+        COUNT(*) FILTER (WHERE o.status = 'new')::INTEGER,
+        COUNT(*) FILTER (WHERE o.status = 'in_progress')::INTEGER,
+        COUNT(*) FILTER (WHERE o.priority = 'high')::INTEGER
+    FROM agents ag
+    LEFT JOIN open_queue o ON o.assigned_to = ag.id
+    GROUP BY ag.id, ag.email
+    UNION ALL
+    SELECT
+        NULL::UUID,
+        NULL::TEXT,
+        COUNT(*)::INTEGER,
+        COUNT(*) FILTER (WHERE o.status = 'new')::INTEGER,
+        COUNT(*) FILTER (WHERE o.status = 'in_progress')::INTEGER,
+        COUNT(*) FILTER (WHERE o.priority = 'high')::INTEGER
+    FROM open_queue o
+    WHERE o.assigned_to IS NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION admin_get_support_workload() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION admin_get_support_workload() TO authenticated;
@@ -0,0 +1,135 @@
+/*
+  # Restrict the Audit Log Functions
+
+  get_audit_logs and get_record_audit_history are SECURITY DEFINER, so they
+  skip the "Admins can view audit logs" policy and returned audit rows,
+  including user emails, to any caller.
+
+  1. Changed Functions
+    - get_audit_logs, get_record_audit_history: Require the audit
+      permission
+
+  2. Security
+    - Both functions are revoked from PUBLIC and anon
+*/
+
+-- =============================================
+-- 1. AUDIT LOG FUNCTIONS
+-- =============================================
+
+-- SECURITY DEFINER functions skip the audit_logs policy, so they check the
+-- permission themselves
+CREATE OR REPLACE FUNCTION get_audit_logs(
+    start_date TIMESTAMPTZ DEFAULT NULL,
+    end_date TIMESTAMPTZ DEFAULT NULL,
+    filter_user_id UUID DEFAULT NULL,
+    action_filter TEXT DEFAULT NULL,
+    table_filter TEXT DEFAULT NULL,
+    limit_count INTEGER DEFAULT 50,
+    offset_count INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+    log_id UUID,
+    log_user_id UUID,
+    user_email TEXT,
+    log_action TEXT,
+    log_table_name TEXT,
+    log_record_id TEXT,
+    log_created_at TIMESTAMPTZ,
+    log_details JSONB,
+    total_count BIGINT
+)
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    total BIGINT;
+BEGIN
+    IF NOT has_admin_permission('audit') THEN
+        RAISE EXCEPTION 'Unauthorized: only admins can view audit logs';
+    END IF;
+
+    -- Calculate total count for pagination
+    SELECT COUNT(*) INTO total
+    FROM audit_logs al
+    WHERE (start_date IS NULL OR al.created_at >= start_date)
+      AND (end_date IS NULL OR al.created_at <= end_date)
+      AND (filter_user_id IS NULL OR al.user_id = filter_user_id)
+      AND (action_filter IS NULL OR al.action = action_filter)
+      AND (table_filter IS NULL OR al.table_name = table_filter);
+
+    -- Return filtered logs with user email
+    RETURN QUERY
+    SELECT
+        al.id as log_id,
+        al.user_id as log_user_id,
+        u.email as user_email,
+        al.action as log_action,
+        al.table_name as log_table_name,
+        al.record_id as log_record_id,
+        al.created_at as log_created_at,
+        al.details as log_details,
+        total as total_count
+    FROM audit_logs al
+    LEFT JOIN auth.users u ON al.user_id = u.id
+    WHERE (start_date IS NULL OR al.created_at >= start_date)
+      AND (end_date IS NULL OR al.created_at <= end_date)
+      AND (filter_user_id IS NULL OR al.user_id = filter_user_id)
+      AND (action_filter IS NULL OR al.action = action_filter)
+      AND (table_filter IS NULL OR al.table_name = table_filter)
+    ORDER BY al.created_at DESC
+    LIMIT limit_count
+    OFFSET offset_count;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION get_record_audit_history(
+    target_table_name TEXT,
+    target_record_id TEXT,
+    limit_count INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+    log_id UUID,
+    log_user_id UUID,
+    user_email TEXT,
+    log_action TEXT,
+    log_table_name TEXT,
+    log_record_id TEXT,
+    log_created_at TIMESTAMPTZ,
+    log_details JSONB
+)
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT has_admin_permission('audit') THEN
+        RAISE EXCEPTION 'Unauthorized: only admins can view audit logs';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        al.id as log_id,
+        al.user_id as log_user_id,
+        u.email as user_email,
+        al.action as log_action,
+        al.table_name as log_table_name,
+        al.record_id as log_record_id,
+        al.created_at as log_created_at,
+        al.details as log_details
+    FROM audit_logs al
+    LEFT JOIN auth.users u ON al.user_id = u.id
+    WHERE al.table_name = target_table_name
+      AND al.record_id = target_record_id
+    ORDER BY al.created_at DESC
+    LIMIT limit_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- 2. GRANT PERMISSIONS
+-- =============================================
+
+REVOKE EXECUTE ON FUNCTION get_audit_logs(TIMESTAMPTZ, TIMESTAMPTZ, UUID, TEXT, TEXT, INTEGER, INTEGER) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION get_record_audit_history(TEXT, TEXT, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_audit_logs(TIMESTAMPTZ, TIMESTAMPTZ, UUID, TEXT, TEXT, INTEGER, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_record_audit_history(TEXT, TEXT, INTEGER) TO authenticated;
@@ -0,0 +1,31 @@
+/*
+  # Enable Row Level Security on Products
+
+  products had policies but row level security was never enabled, so every
+  row of every brand was readable, and through the blanket grant writable,
+  by any API caller. Brands write through save_brand_product and
+  import_brand_catalog, which are SECURITY DEFINER; the only direct write
+  left is admin moderation.
+
+  1. Security
+    - Row level security is enabled on products
+    - The public sees active products and brand members see all of their
+      brand's products (existing policies)
+
+  2. New Policies
+    - Admins can view all products: Admins with the dashboard permission
+    - Catalog admins can update products: Moderation decisions
+*/
+
+ALTER TABLE products ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view all products" ON products;
+CREATE POLICY "Admins can view all products" ON products
+    FOR SELECT
+    USING (has_admin_permission('dashboard'));
+
+DROP POLICY IF EXISTS "Catalog admins can update products" ON products;
+CREATE POLICY "Catalog admins can update products" ON products
+    FOR UPDATE
+    USING (has_admin_permission('catalog'))
+    WITH CHECK (has_admin_permission('catalog'));
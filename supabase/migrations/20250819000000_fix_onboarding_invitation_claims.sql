@@ -0,0 +1,243 @@
+/*
+  # Onboarding Invitation Claims and Brand Creation
+
+  The brand creation check still required every brand id to be an existing
+  account, so admins could not create a brand before inviting its owner.
+  Invitations accepted after email confirmation also kept the raw token on
+  the account until then.
+
+  1. Changed Columns
+    - brand_onboarding_invitations.claim_hash, claim_expires_at: Hash of a
+      short-lived claim code issued at signup
+
+  2. New Functions
+    - create_onboarding_claim: Exchanges a valid invitation token for a
+      claim code that expires after a day, or with the invitation if that
+      is sooner. The signup form keeps this code on the new account instead
+      of the token, so the invitation can be accepted once the email is
+      confirmed, in any browser.
+
+  3. Changed Functions
+    - accept_onboarding_invitation: Accepts the invitation token or an
+      unexpired claim code. Accepting clears the claim.
+    - admin_resend_onboarding_invitation: Also drops the claim, so the
+      previous link and codes issued from it stop working
+    - validate_brand_authentication: Admins with the brands permission can
+      create brands that have no account yet; everyone else can only
+      register the brand for their own account. Roles come from
+      has_admin_permission instead of user_metadata.
+*/
+
+-- =============================================
+-- 1. CLAIM COLUMNS
+-- =============================================
+
+ALTER TABLE brand_onboarding_invitations
+    ADD COLUMN IF NOT EXISTS claim_hash TEXT UNIQUE,
+    ADD COLUMN IF NOT EXISTS claim_expires_at TIMESTAMPTZ;
+
+-- =============================================
+-- 2. SIGNUP FLOW
+-- =============================================
+
+-- Returns the raw claim code; only its hash is stored
+CREATE OR REPLACE FUNCTION create_onboarding_claim(token TEXT)
+RETURNS TEXT
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    invitation brand_onboarding_invitations%ROWTYPE;
+    new_claim TEXT := generate_invitation_token();
+BEGIN
+    SELECT * INTO invitation
+    FROM brand_onboarding_invitations
+    WHERE token_hash = hash_invitation_token(token)
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'This invitation link is not valid';
+    END IF;
+
+    IF invitation.status <> 'pending' THEN
+        RAISE EXCEPTION 'This invitation can no longer be used';
+    ELSIF invitation.expires_at < NOW() THEN
+        RAISE EXCEPTION 'This invitation has expired. Ask Stylsia for a new link.';
+    END IF;
+
+    UPDATE brand_onboarding_invitations
+    SET
+        claim_hash = hash_invitation_token(new_claim),
+        claim_expires_at = LEAST(NOW() + INTERVAL '1 day', invitation.expires_at)
+    WHERE id = invitation.id;
+
+    RETURN new_claim;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Same as the brand onboarding invitations migration; the token may also be
+-- an unexpired claim code
+CREATE OR REPLACE FUNCTION accept_onboarding_invitation(token TEXT)
+RETURNS UUID
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    invitation brand_onboarding_invitations%ROWTYPE;
+    caller_email TEXT;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Sign in to accept this invitation';
+    END IF;
+
+    SELECT * INTO invitation
+    FROM brand_onboarding_invitations
+    WHERE token_hash = hash_invitation_token(token)
+       OR (claim_hash = hash_invitation_token(token) AND claim_expires_at > NOW())
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'This invitation link is not valid';
+    END IF;
+
+    IF invitation.status = 'accepted' THEN
+        RAISE EXCEPTION 'This invitation has already been used';
+    ELSIF invitation.status = 'revoked' THEN
+        RAISE EXCEPTION 'This invitation has been revoked';
+    ELSIF invitation.expires_at < NOW() THEN
+        RAISE EXCEPTION 'This invitation has expired. Ask Stylsia for a new link.';
+    END IF;
+
+    SELECT lower(u.email) INTO caller_email FROM auth.users u WHERE u.id = auth.uid();
+
+    IF caller_email IS DISTINCT FROM invitation.email THEN
+        RAISE EXCEPTION 'This invitation was sent to a different email address';
+    END IF;
+
+    INSERT INTO brand_members (brand_id, user_id, email, role, invited_by)
+    VALUES (invitation.brand_id, auth.uid(), caller_email, 'owner', invitation.created_by)
+    ON CONFLICT (brand_id, user_id) DO UPDATE SET role = 'owner';
+
+    UPDATE brand_onboarding_invitations
+    SET
+        status = 'accepted',
+        accepted_at = NOW(),
+        accepted_by = auth.uid(),
+        claim_hash = NULL,
+        claim_expires_at = NULL
+    WHERE id = invitation.id;
+
+    PERFORM record_audit_event(
+        auth.uid(),
+        'UPDATE',
+        'brand_onboarding_invitations',
+        invitation.id::TEXT,
+        jsonb_build_object('action', 'accept', 'brand_id', invitation.brand_id)
+    );
+
+    RETURN invitation.brand_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- 3. ADMIN ACTIONS
+-- =============================================
+
+-- Same as the brand onboarding invitations migration, dropping the claim
+CREATE OR REPLACE FUNCTION admin_resend_onboarding_invitation(invitation_id UUID)
+RETURNS TEXT
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    invitation brand_onboarding_invitations%ROWTYPE;
+    new_token TEXT := generate_invitation_token();
+BEGIN
+    IF NOT has_admin_permission('brands') THEN
+        RAISE EXCEPTION 'Unauthorized: only admins can resend brand invitations';
+    END IF;
+
+    SELECT * INTO invitation
+    FROM brand_onboarding_invitations
+    WHERE id = invitation_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Invitation not found';
+    END IF;
+
+    IF invitation.status <> 'pending' THEN
+        RAISE EXCEPTION 'Only pending invitations can be resent (this one is %)', invitation.status;
+    END IF;
+
+    UPDATE brand_onboarding_invitations
+    SET
+        token_hash = hash_invitation_token(new_token),
+        claim_hash = NULL,
+        claim_expires_at = NULL,
+        expires_at = NOW() + INTERVAL '7 days',
+        sent_count = sent_count + 1,
+        last_sent_at = NOW()
+    WHERE id = invitation_id;
+
+    PERFORM record_audit_event(
+        auth.uid(),
+        'UPDATE',
+        'brand_onboarding_invitations',
+        invitation_id::TEXT,
+        jsonb_build_object('action', 'resend', 'sent_count', invitation.sent_count + 1)
+    );
+
+    RETURN new_token;
+END;
+$$ LANGUAGE plpgsql;
+
+
+-- =============================================
+-- 4. BRAND CREATION CHECK
+-- =============================================
+
+-- Replaces the check from the brand authentication migration, which required
+-- every brand id to be an existing account and read roles from
+-- user_metadata. Brands onboarded by an admin get a generated id and no
+-- account until the owner accepts their invitation.
+CREATE OR REPLACE FUNCTION validate_brand_authentication()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    user_email TEXT;
+BEGIN
+    IF has_admin_permission('brands') THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT email INTO user_email FROM auth.users WHERE id = NEW.id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Brand ID % does not exist in Authentication records. Only authenticated brands can be added to the brands table.', NEW.id
+        USING HINT = 'Please ensure the brand is registered and authenticated before adding to the brands table.',
+              ERRCODE = 'foreign_key_violation';
+    END IF;
+
+    -- Partners register their own brand, whose id is their user id
+    IF auth.role() IS DISTINCT FROM 'service_role' AND NEW.id IS DISTINCT FROM auth.uid() THEN
+        RAISE EXCEPTION 'Only the brand''s own account or an admin can register brand %', NEW.id
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    -- Auto-populate email if not provided
+    IF NEW.contact_email IS NULL THEN
+        NEW.contact_email := user_email;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- 5. GRANT PERMISSIONS
+-- =============================================
+
+GRANT EXECUTE ON FUNCTION create_onboarding_claim(TEXT) TO anon, authenticated;
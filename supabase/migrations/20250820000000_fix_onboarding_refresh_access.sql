@@ -0,0 +1,14 @@
+/*
+  # Restrict the Onboarding Refresh
+
+  refresh_brand_onboarding is an internal SECURITY DEFINER function but kept
+  the default EXECUTE grant to PUBLIC, so anyone could call it with any brand
+  id to create progress rows and read that brand's onboarding state.
+
+  1. Security
+    - EXECUTE on refresh_brand_onboarding is revoked from PUBLIC, anon and
+      authenticated. Brands read their progress through
+      get_brand_onboarding, and the refresh triggers are SECURITY DEFINER.
+*/
+
+REVOKE EXECUTE ON FUNCTION refresh_brand_onboarding(UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,37 @@
+/*
+  # Require Web Links for Product URLs
+
+  The Buy Now redirect sends shoppers to products.source_url, which brands
+  set through save_brand_product and the catalog import. Neither checked the
+  scheme on the server, so a javascript: link would run on the Stylsia
+  origin when a shopper clicked Buy Now.
+
+  1. Changed Columns
+    - products.source_url: Must be an http:// or https:// URL
+
+  2. Existing Data
+    - The constraint is added NOT VALID so existing rows do not block the
+      migration; new and updated rows are checked. Products that fail it are
+      reported below, and the redirect page refuses to open them.
+*/
+
+ALTER TABLE products
+    DROP CONSTRAINT IF EXISTS products_source_url_web_link;
+
+ALTER TABLE products
+    ADD CONSTRAINT products_source_url_web_link
+    CHECK (source_url ~* '^https?://[^[:space:]]+$')
+    NOT VALID;
+
+DO $$
+DECLARE
+    invalid_count INTEGER;
+BEGIN
+    SELECT COUNT(*) INTO invalid_count
+    FROM products
+    WHERE source_url !~* '^https?://[^[:space:]]+$';
+
+    IF invalid_count > 0 THEN
+        RAISE NOTICE '% products have a source_url that is not an http(s) link', invalid_count;
+    END IF;
+END $$;
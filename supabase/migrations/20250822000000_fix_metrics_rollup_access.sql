@@ -0,0 +1,262 @@
+/*
+  # Restrict the Metrics Rollup
+
+  rollup_daily_metrics let any caller without a signed-in user through its
+  admin check, because scheduled runs have none. Anonymous API callers could
+  therefore run it over any date range.
+
+  1. Changed Functions
+    - rollup_daily_metrics: Runs for the service role or an admin with the
+      analytics permission
+
+  2. Scheduling
+    - Cron jobs carry no request claims, so the hourly job sets the service
+      role before running the rollup
+
+  3. Security
+    - rollup_daily_metrics is revoked from PUBLIC and anon
+*/
+
+-- =============================================
+-- 1. ROLLUP
+-- =============================================
+
+-- Same as the wishlists migration, with the new permission check
+CREATE OR REPLACE FUNCTION rollup_daily_metrics(
+    start_date DATE DEFAULT NULL,
+    end_date DATE DEFAULT NULL
+)
+RETURNS INTEGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    start_date_val DATE := COALESCE(start_date, CURRENT_DATE - 1);
+    end_date_val DATE := COALESCE(end_date, CURRENT_DATE);
+    product_rows INTEGER;
+BEGIN
+    -- Scheduled runs use the service role; anyone else must be an admin
+    IF NOT (auth.role() = 'service_role' OR has_admin_permission('analytics')) THEN
+        RAISE EXCEPTION 'Unauthorized: only admins can roll up metrics';
+    END IF;
+
+    IF end_date_val < start_date_val THEN
+        RAISE EXCEPTION 'end_date must not be before start_date';
+    END IF;
+
+    IF end_date_val - start_date_val > 366 THEN
+        RAISE EXCEPTION 'Roll up at most one year at a time';
+    END IF;
+
+    -- Days whose events are gone (e.g. deleted products) drop back to zero
+    UPDATE product_metrics_daily
+    SET views = 0,
+        unique_views = 0,
+        clicks = 0,
+        conversions = 0,
+        saves = 0,
+        revenue = 0
+    WHERE date BETWEEN start_date_val AND end_date_val;
+
+    WITH view_counts AS (
+        SELECT
+            product_id,
+            viewed_at::DATE AS date,
+            COUNT(*) AS views,
+            COUNT(DISTINCT session_id) AS unique_views
+        FROM product_views
+        WHERE viewed_at >= start_date_val AND viewed_at < end_date_val + 1
+        GROUP BY product_id, viewed_at::DATE
+    ),
+    click_counts AS (
+        SELECT product_id, clicked_at::DATE AS date, COUNT(*) AS clicks
+        FROM product_clicks
+        WHERE clicked_at >= start_date_val AND clicked_at < end_date_val + 1
+        GROUP BY product_id, clicked_at::DATE
+    ),
+    conversion_counts AS (
+        SELECT
+            product_id,
+            occurred_at::DATE AS date,
+            COUNT(*) AS conversions,
+            SUM(amount) AS revenue
+        FROM product_conversions
+        WHERE occurred_at >= start_date_val AND occurred_at < end_date_val + 1
+        GROUP BY product_id, occurred_at::DATE
+    ),
+    save_counts AS (
+        SELECT product_id, saved_at::DATE AS date, COUNT(*) AS saves
+        FROM product_saves
+        WHERE saved_at >= start_date_val AND saved_at < end_date_val + 1
+        GROUP BY product_id, saved_at::DATE
+    ),
+    activity AS (
+        SELECT
+            product_id,
+            date,
+            SUM(views) AS views,
+            SUM(unique_views) AS unique_views,
+            SUM(clicks) AS clicks,
+            SUM(conversions) AS conversions,
+            SUM(saves) AS saves,
+            SUM(revenue) AS revenue
+        FROM (
+            SELECT product_id, date, views, unique_views, 0 AS clicks, 0 AS conversions, 0 AS saves, 0 AS revenue
+            FROM view_counts
+            UNION ALL
+            SELECT product_id, date, 0, 0, clicks, 0, 0, 0
+            FROM click_counts
+            UNION ALL
+            SELECT product_id, date, 0, 0, 0, conversions, 0, revenue
+            FROM conversion_counts
+            UNION ALL
+            SELECT product_id, date, 0, 0, 0, 0, saves, 0
+            FROM save_counts
+        ) events
+        GROUP BY product_id, date
+    )
+    INSERT INTO product_metrics_daily AS pmd (
+        product_id,
+        date,
+        views,
+        unique_views,
+        clicks,
+        conversions,
+        saves,
+        revenue,
+        avg_price,
+        discount_rate,
+        sizes_available,
+        sizes_total
+    )
+    SELECT
+        a.product_id,
+        a.date,
+        a.views,
+        a.unique_views,
+        a.clicks,
+        a.conversions,
+        a.saves,
+        a.revenue,
+        p.current_price,
+        p.discount_percentage,
+        sizes.available,
+        sizes.total
+    FROM activity a
+    JOIN products p ON p.id = a.product_id
+    LEFT JOIN LATERAL (
+        SELECT
+            COUNT(*) FILTER (WHERE ps.is_available) AS available,
+            COUNT(*) AS total
+        FROM product_sizes ps
+        WHERE ps.product_id = p.id
+    ) sizes ON TRUE
+    ON CONFLICT (product_id, date) DO UPDATE SET
+        views = EXCLUDED.views,
+        unique_views = EXCLUDED.unique_views,
+        clicks = EXCLUDED.clicks,
+        conversions = EXCLUDED.conversions,
+        saves = EXCLUDED.saves,
+        revenue = EXCLUDED.revenue,
+        avg_price = CASE
+            WHEN pmd.date = CURRENT_DATE OR pmd.avg_price IS NULL THEN EXCLUDED.avg_price
+            ELSE pmd.avg_price
+        END,
+        discount_rate = CASE
+            WHEN pmd.date = CURRENT_DATE OR pmd.avg_price IS NULL THEN EXCLUDED.discount_rate
+            ELSE pmd.discount_rate
+        END,
+        sizes_available = CASE
+            WHEN pmd.date = CURRENT_DATE OR pmd.sizes_total IS NULL THEN EXCLUDED.sizes_available
+            ELSE pmd.sizes_available
+        END,
+        sizes_total = CASE
+            WHEN pmd.date = CURRENT_DATE OR pmd.sizes_total IS NULL THEN EXCLUDED.sizes_total
+            ELSE pmd.sizes_total
+        END;
+
+    GET DIAGNOSTICS product_rows = ROW_COUNT;
+
+    -- One row per brand and day, including days without traffic, so catalog
+    -- size is tracked over time
+    INSERT INTO brand_metrics_daily AS bmd (
+        brand_id,
+        date,
+        total_views,
+        total_products,
+        active_products,
+        avg_price,
+        total_revenue
+    )
+    SELECT
+        b.id,
+        d.date,
+        COALESCE(traffic.views, 0),
+        COALESCE(catalog.total_products, 0),
+        COALESCE(catalog.active_products, 0),
+        catalog.avg_price,
+        COALESCE(traffic.revenue, 0)
+    FROM brands b
+    CROSS JOIN (
+        SELECT generate_series(start_date_val, end_date_val, INTERVAL '1 day')::DATE AS date
+    ) d
+    LEFT JOIN LATERAL (
+        SELECT SUM(pmd.views) AS views, SUM(pmd.revenue) AS revenue
+        FROM product_metrics_daily pmd
+        JOIN products p ON p.id = pmd.product_id
+        WHERE p.brand_id = b.id AND pmd.date = d.date
+    ) traffic ON TRUE
+    LEFT JOIN LATERAL (
+        SELECT
+            COUNT(*) AS total_products,
+            COUNT(*) FILTER (WHERE p.status = 'active') AS active_products,
+            AVG(p.current_price) FILTER (WHERE p.status = 'active') AS avg_price
+        FROM products p
+        WHERE p.brand_id = b.id AND p.created_at < d.date + 1
+    ) catalog ON TRUE
+    ON CONFLICT (brand_id, date) DO UPDATE SET
+        total_views = EXCLUDED.total_views,
+        total_revenue = EXCLUDED.total_revenue,
+        total_products = CASE
+            WHEN bmd.date = CURRENT_DATE OR bmd.avg_price IS NULL THEN EXCLUDED.total_products
+            ELSE bmd.total_products
+        END,
+        active_products = CASE
+            WHEN bmd.date = CURRENT_DATE OR bmd.avg_price IS NULL THEN EXCLUDED.active_products
+            ELSE bmd.active_products
+        END,
+        avg_price = CASE
+            WHEN bmd.date = CURRENT_DATE OR bmd.avg_price IS NULL THEN EXCLUDED.avg_price
+            ELSE bmd.avg_price
+        END;
+
+    RETURN product_rows;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- 2. SCHEDULED ROLLUP
+-- =============================================
+
+-- Scheduling under the same name replaces the job from the daily metrics
+-- rollup migration
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+        PERFORM cron.schedule(
+            'rollup-daily-metrics',
+            '5 * * * *',
+            $cron$
+            SELECT set_config('request.jwt.claims', '{"role": "service_role"}', true);
+            SELECT rollup_daily_metrics();
+            $cron$
+        );
+    END IF;
+END $$;
+
+-- =============================================
+-- 3. GRANT PERMISSIONS
+-- =============================================
+
+REVOKE EXECUTE ON FUNCTION rollup_daily_metrics(DATE, DATE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION rollup_daily_metrics(DATE, DATE) TO authenticated, service_role;
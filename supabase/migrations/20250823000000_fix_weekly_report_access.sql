@@ -0,0 +1,131 @@
+/*
+  # Restrict the Weekly Report Functions
+
+  get_weekly_report_data and get_weekly_report_recipients let any caller
+  without a signed-in user through their admin check, so anonymous API
+  callers could read any brand's report data and the recipient list.
+
+  1. Changed Functions
+    - get_weekly_report_data, get_weekly_report_recipients: Run for the
+      service role (the Edge Function) or an admin with the analytics
+      permission
+
+  2. Security
+    - Both functions are revoked from PUBLIC and anon
+*/
+
+-- =============================================
+-- 1. REPORT FUNCTIONS
+-- =============================================
+
+CREATE OR REPLACE FUNCTION get_weekly_report_data(brand_uuid UUID, week_start DATE)
+RETURNS JSONB
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    brand_row brands%ROWTYPE;
+    top_products JSONB;
+BEGIN
+    -- The Edge Function runs as the service role; admins may preview
+    IF NOT (auth.role() = 'service_role' OR has_admin_permission('analytics')) THEN
+        RAISE EXCEPTION 'Unauthorized: only admins can generate weekly reports';
+    END IF;
+
+    SELECT * INTO brand_row FROM brands WHERE id = brand_uuid;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Brand not found';
+    END IF;
+
+    SELECT COALESCE(jsonb_agg(t ORDER BY t.views DESC, t.clicks DESC), '[]'::jsonb)
+    INTO top_products
+    FROM (
+        SELECT
+            p.id AS product_id,
+            p.name,
+            SUM(pmd.views) AS views,
+            SUM(pmd.clicks) AS clicks,
+            SUM(pmd.conversions) AS conversions,
+            SUM(pmd.revenue) AS revenue
+        FROM product_metrics_daily pmd
+        JOIN products p ON p.id = pmd.product_id
+        WHERE p.brand_id = brand_uuid
+          AND pmd.date BETWEEN week_start AND week_start + 6
+        GROUP BY p.id, p.name
+        HAVING SUM(pmd.views) > 0 OR SUM(pmd.clicks) > 0
+        ORDER BY SUM(pmd.views) DESC, SUM(pmd.clicks) DESC
+        LIMIT 5
+    ) t;
+
+    RETURN jsonb_build_object(
+        'brand', jsonb_build_object('id', brand_row.id, 'name', brand_row.name),
+        'week_start', week_start,
+        'week_end', week_start + 6,
+        'active_products', (
+            SELECT COUNT(*) FROM products
+            WHERE brand_id = brand_uuid AND status = 'active'
+        ),
+        'current', weekly_report_totals(brand_uuid, week_start),
+        'previous', weekly_report_totals(brand_uuid, week_start - 7),
+        'top_products', top_products
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Active brands that want the report and have not been sent this week's yet.
+-- Naming a brand includes it even if it was sent, to resend on request.
+CREATE OR REPLACE FUNCTION get_weekly_report_recipients(
+    week_start DATE,
+    target_brand UUID DEFAULT NULL
+)
+RETURNS TABLE (
+    brand_id UUID,
+    brand_name TEXT,
+    recipients TEXT[]
+)
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT (auth.role() = 'service_role' OR has_admin_permission('analytics')) THEN
+        RAISE EXCEPTION 'Unauthorized: only admins can list report recipients';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        b.id,
+        b.name::TEXT,
+        COALESCE(
+            (
+                SELECT array_agg(DISTINCT bm.email ORDER BY bm.email)
+                FROM brand_members bm
+                WHERE bm.brand_id = b.id AND bm.role = 'owner'
+            ),
+            CASE WHEN b.contact_email IS NOT NULL THEN ARRAY[b.contact_email::TEXT] ELSE '{}'::TEXT[] END
+        )
+    FROM brands b
+    LEFT JOIN notification_preferences np ON np.brand_id = b.id
+    WHERE b.status = 'active'
+      AND COALESCE(np.weekly_report, TRUE)
+      AND (target_brand IS NULL OR b.id = target_brand)
+      AND (
+          target_brand IS NOT NULL
+          OR NOT EXISTS (
+              SELECT 1 FROM weekly_reports wr
+              WHERE wr.brand_id = b.id
+                AND wr.week_start = get_weekly_report_recipients.week_start
+                AND wr.status = 'sent'
+          )
+      )
+    ORDER BY b.name;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- 2. GRANT PERMISSIONS
+-- =============================================
+
+REVOKE EXECUTE ON FUNCTION get_weekly_report_data(UUID, DATE) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION get_weekly_report_recipients(DATE, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_weekly_report_data(UUID, DATE) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION get_weekly_report_recipients(DATE, UUID) TO authenticated, service_role;
@@ -0,0 +1,134 @@
+/*
+  # Server-Side Search Counts and Catalog-Only Trending
+
+  log_search_query stored the result count the client sent, and trending
+  searches only required a few distinct session ids with results. Session
+  ids come from the browser, so one client could push any text, such as a
+  link or an insult, into the trending list shown to every shopper.
+
+  1. Changed Functions
+    - log_search_query: Counts the active products the query matches
+      instead of taking a count from the caller. The result_count parameter
+      is removed.
+    - get_trending_searches: Only returns queries in which every word is a
+      catalog word (product_search_words)
+*/
+
+-- =============================================
+-- 1. SEARCH LOG
+-- =============================================
+
+-- The signature changes, so the old definition has to go first
+DROP FUNCTION IF EXISTS log_search_query(TEXT, INTEGER, TEXT);
+
+CREATE OR REPLACE FUNCTION log_search_query(
+    query_text TEXT,
+    session_uuid TEXT
+)
+RETURNS UUID
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    normalized TEXT := normalize_search_query(query_text);
+    session_key TEXT := left(coalesce(nullif(trim(session_uuid), ''), 'anonymous'), 100);
+    matched_count INTEGER;
+    refined_id UUID;
+    new_id UUID;
+BEGIN
+    IF normalized = '' THEN
+        RETURN NULL;
+    END IF;
+
+    -- Counted here with the catalog's own matching, not the caller's filters
+    SELECT COUNT(*) INTO matched_count
+    FROM products p
+    WHERE p.status = 'active'
+      AND product_matches_search(p, query_text);
+
+    -- A search that extends or trims the session's last one moments ago is
+    -- the same search still being typed
+    SELECT sq.id INTO refined_id
+    FROM search_queries sq
+    WHERE sq.session_id = session_key
+      AND session_key <> 'anonymous'
+      AND sq.created_at > NOW() - INTERVAL '30 seconds'
+      AND (
+          starts_with(normalized, sq.normalized_query)
+          OR starts_with(sq.normalized_query, normalized)
+      )
+    ORDER BY sq.created_at DESC
+    LIMIT 1;
+
+    IF refined_id IS NOT NULL THEN
+        UPDATE search_queries SET
+            query = left(btrim(query_text), 200),
+            normalized_query = normalized,
+            result_count = matched_count,
+            created_at = NOW()
+        WHERE id = refined_id;
+
+        RETURN refined_id;
+    END IF;
+
+    INSERT INTO search_queries (query, normalized_query, result_count, session_id, user_id)
+    VALUES (
+        left(btrim(query_text), 200),
+        normalized,
+        matched_count,
+        session_key,
+        auth.uid()
+    )
+    RETURNING id INTO new_id;
+
+    RETURN new_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- 2. TRENDING SEARCHES
+-- =============================================
+
+CREATE OR REPLACE FUNCTION get_trending_searches(
+    limit_count INTEGER DEFAULT 8,
+    days INTEGER DEFAULT 7
+)
+RETURNS TABLE (
+    query TEXT,
+    session_count BIGINT
+)
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT t.normalized_query, t.session_count
+    FROM (
+        SELECT
+            sq.normalized_query,
+            COUNT(DISTINCT sq.session_id) AS session_count,
+            MAX(sq.created_at) AS last_searched_at
+        FROM search_queries sq
+        WHERE sq.created_at > NOW() - make_interval(days => LEAST(GREATEST(days, 1), 90))
+          AND sq.result_count > 0
+          AND sq.session_id <> 'anonymous'
+        GROUP BY sq.normalized_query
+        HAVING COUNT(DISTINCT sq.session_id) >= 3
+    ) t
+    -- Only queries made entirely of words found in active products
+    WHERE NOT EXISTS (
+        SELECT 1
+        FROM regexp_split_to_table(t.normalized_query, '[^[:alnum:]]+') AS w(word)
+        WHERE w.word <> ''
+          AND NOT EXISTS (
+              SELECT 1 FROM product_search_words psw WHERE psw.word = w.word
+          )
+    )
+    ORDER BY t.session_count DESC, t.last_searched_at DESC
+    LIMIT LEAST(GREATEST(limit_count, 1), 20);
+$$ LANGUAGE sql;
+
+-- =============================================
+-- 3. GRANT PERMISSIONS
+-- =============================================
+
+GRANT EXECUTE ON FUNCTION log_search_query(TEXT, TEXT) TO anon, authenticated;